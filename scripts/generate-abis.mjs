@@ -0,0 +1,72 @@
+// Compiles contracts/*.sol and writes each contract's ABI to src/lib/contracts/abis as an
+// `as const` module, so the typed clients follow the Solidity exactly.
+//
+//   npm run abis          regenerate
+//   npm run abis:check    fail when the checked-in ABIs are out of date
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import solc from 'solc';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const contractsDir = join(root, 'contracts');
+const outDir = join(root, 'src/lib/contracts/abis');
+const checkOnly = process.argv.includes('--check');
+
+const sources = Object.fromEntries(
+  readdirSync(contractsDir)
+    .filter(file => file.endsWith('.sol'))
+    .map(file => [`contracts/${file}`, { content: readFileSync(join(contractsDir, file), 'utf8') }]),
+);
+
+const findImports = (path) => {
+  for (const base of [root, join(root, 'node_modules')]) {
+    const full = join(base, path);
+    if (existsSync(full)) return { contents: readFileSync(full, 'utf8') };
+  }
+  return { error: `File not found: ${path}` };
+};
+
+const input = {
+  language: 'Solidity',
+  sources,
+  settings: { outputSelection: { '*': { '*': ['abi'] } } },
+};
+const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImports }));
+
+const errors = (output.errors ?? []).filter(error => error.severity === 'error');
+if (errors.length > 0) {
+  errors.forEach(error => console.error(error.formattedMessage));
+  process.exit(1);
+}
+
+const exportName = (contract) => `${contract[0].toLowerCase()}${contract.slice(1)}Abi`;
+
+const render = (contract, abi) => [
+  `// Generated by scripts/generate-abis.mjs from contracts/${contract}.sol. Do not edit.`,
+  `export const ${exportName(contract)} = ${JSON.stringify(abi, null, 2)} as const;`,
+  '',
+].join('\n');
+
+const stale = [];
+for (const [file, contracts] of Object.entries(output.contracts)) {
+  if (!file.startsWith('contracts/')) continue;
+  for (const [contract, { abi }] of Object.entries(contracts)) {
+    const target = join(outDir, `${contract}.ts`);
+    const content = render(contract, abi);
+    const current = existsSync(target) ? readFileSync(target, 'utf8') : null;
+    if (current === content) continue;
+
+    if (checkOnly) {
+      stale.push(contract);
+    } else {
+      writeFileSync(target, content);
+      console.log(`Wrote ${target}`);
+    }
+  }
+}
+
+if (stale.length > 0) {
+  console.error(`ABIs out of date for ${stale.join(', ')}. Run \`npm run abis\`.`);
+  process.exit(1);
+}
@@ -6,7 +6,15 @@ import Dashboard from './components/Dashboard';
 import DataMarketplace from './components/DataMarketplace';
 import LenderPortal from './components/LenderPortal';
 import LoadingPage from './components/LoadingPage';
+import StorageGate from './components/StorageGate';
+import TransactionConfirmModal from './components/TransactionConfirmModal';
+import { ContractReadsProvider } from './contexts/ContractReadsContext';
 import { CreditProvider } from './contexts/CreditContext';
+import { EventIndexProvider } from './contexts/EventIndexContext';
+import { NetworkProvider } from './contexts/NetworkContext';
+import { OperationQueueProvider } from './contexts/OperationQueueContext';
+import { TransactionProvider } from './contexts/TransactionContext';
+import { WalletProvider } from './contexts/WalletContext';
 
 function App() {
   const [isLoading, setIsLoading] = React.useState(true);
@@ -20,61 +28,77 @@ function App() {
   }
 
   return (
-    <CreditProvider>
-      <div className="min-h-screen bg-gradient-to-br from-midnight via-dark-purple to-charcoal relative overflow-hidden">
-        {/* Spline Background Animation */}
-        <div className="fixed inset-0 z-0">
-          <Spline
-            scene="https://prod.spline.design/7jwHFIgQscJG32DZ/scene.splinecode"
-            className="w-full h-full opacity-20"
-          />
-        </div>
+    <WalletProvider>
+      <NetworkProvider>
+        <CreditProvider>
+          <TransactionProvider>
+            <EventIndexProvider>
+              <ContractReadsProvider>
+                <OperationQueueProvider>
+                  <div className="min-h-screen bg-gradient-to-br from-midnight via-dark-purple to-charcoal relative overflow-hidden">
+                    {/* Spline Background Animation */}
+                    <div className="fixed inset-0 z-0">
+                      <Spline
+                        scene="https://prod.spline.design/7jwHFIgQscJG32DZ/scene.splinecode"
+                        className="w-full h-full opacity-20"
+                      />
+                    </div>
 
-        {/* Gradient Overlay */}
-        <div className="fixed inset-0 bg-gradient-to-br from-midnight/80 via-dark-purple/60 to-charcoal/90 z-10" />
+                    {/* Gradient Overlay */}
+                    <div className="fixed inset-0 bg-gradient-to-br from-midnight/80 via-dark-purple/60 to-charcoal/90 z-10" />
 
-        {/* Main Content */}
-        <div className="relative z-20">
-          <Header />
-          
-          <main className="container mx-auto px-4 py-8">
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.8 }}
-              className="space-y-8"
-            >
-              <Dashboard />
-              <DataMarketplace />
-              <LenderPortal />
-            </motion.div>
-          </main>
-        </div>
+                    {/* Main Content */}
+                    <div className="relative z-20">
+                      <Header />
+            
+                      <main className="container mx-auto px-4 py-8">
+                        <motion.div
+                          initial={{ opacity: 0, y: 20 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          transition={{ duration: 0.8 }}
+                          className="space-y-8"
+                        >
+                          <StorageGate>
+                            <Dashboard />
+                          </StorageGate>
+                          <DataMarketplace />
+                          <LenderPortal />
+                        </motion.div>
+                      </main>
+                    </div>
 
-        {/* Floating Particles */}
-        <div className="fixed inset-0 pointer-events-none z-15">
-          {[...Array(20)].map((_, i) => (
-            <motion.div
-              key={i}
-              className="absolute w-1 h-1 bg-red-400 rounded-full opacity-60"
-              style={{
-                left: `${Math.random() * 100}%`,
-                top: `${Math.random() * 100}%`,
-              }}
-              animate={{
-                y: [0, -20, 0],
-                opacity: [0.3, 0.8, 0.3],
-              }}
-              transition={{
-                duration: 2 + Math.random() * 2,
-                repeat: Infinity,
-                delay: Math.random() * 2,
-              }}
-            />
-          ))}
-        </div>
-      </div>
-    </CreditProvider>
+                    <TransactionConfirmModal />
+
+                    {/* Floating Particles */}
+                    <div className="fixed inset-0 pointer-events-none z-15">
+                      {[...Array(20)].map((_, i) => (
+                        <motion.div
+                          key={i}
+                          className="absolute w-1 h-1 bg-red-400 rounded-full opacity-60"
+                          style={{
+                            left: `${Math.random() * 100}%`,
+                            top: `${Math.random() * 100}%`,
+                          }}
+                          animate={{
+                            y: [0, -20, 0],
+                            opacity: [0.3, 0.8, 0.3],
+                          }}
+                          transition={{
+                            duration: 2 + Math.random() * 2,
+                            repeat: Infinity,
+                            delay: Math.random() * 2,
+                          }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                </OperationQueueProvider>
+              </ContractReadsProvider>
+            </EventIndexProvider>
+          </TransactionProvider>
+        </CreditProvider>
+      </NetworkProvider>
+    </WalletProvider>
   );
 }
 
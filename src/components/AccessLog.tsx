@@ -0,0 +1,176 @@
+import React, { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Eye, Download, Flag, ExternalLink } from 'lucide-react';
+import { formatEther } from 'viem';
+import { useNetwork } from '../contexts/NetworkContext';
+import { useWallet } from '../contexts/WalletContext';
+import { useAccessLog } from '../hooks/useAccessLog';
+import { useLenders } from '../hooks/useEvents';
+import {
+  ACCESS_FLAG_LABELS,
+  EMPTY_ACCESS_FILTERS,
+  accessLogCsv,
+  filterAccessLog,
+  type AccessLogFilters,
+} from '../lib/accessLog';
+import { decodeContractError } from '../lib/errors';
+import { downloadFile } from '../lib/export';
+import { explorerTxUrl } from '../lib/networks';
+import { shortenAddress } from '../lib/wallet';
+
+const inputClass = 'px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30';
+
+// Every time a lender pulled the borrower's score, with the accesses that lacked consent or a grant flagged
+const AccessLog: React.FC = () => {
+  const { account } = useWallet();
+  const { network } = useNetwork();
+  const { entries, isLoading, error } = useAccessLog();
+  const lenders = useLenders();
+  const [filters, setFilters] = useState<AccessLogFilters>(EMPTY_ACCESS_FILTERS);
+
+  const nameOf = useMemo(() => {
+    const names = new Map(lenders.map(record => [record.lender.toLowerCase(), record.companyName]));
+    return (lender: string) => names.get(lender.toLowerCase());
+  }, [lenders]);
+
+  // Lenders that appear in the log, for the lender filter
+  const logLenders = useMemo(
+    () => [...new Map(entries.map(entry => [entry.lender.toLowerCase(), entry.lender])).values()],
+    [entries],
+  );
+  const visible = useMemo(() => filterAccessLog(entries, filters), [entries, filters]);
+  const flaggedCount = entries.filter(entry => entry.flags.length > 0).length;
+
+  const update = (changes: Partial<AccessLogFilters>) => setFilters(current => ({ ...current, ...changes }));
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`score-access-log-${date}.csv`, accessLogCsv(visible, nameOf), 'text/csv');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+      className="relative group"
+    >
+      <div className="absolute inset-0 bg-gradient-to-r from-violet-500/10 to-red-500/10 rounded-2xl blur-xl group-hover:blur-2xl transition-all duration-300" />
+
+      <div className="relative backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-6 hover:bg-midnight/50 transition-all duration-300">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <Eye className="w-5 h-5 text-red-400" />
+            <div>
+              <h3 className="text-xl font-bold text-white">Score Access Log</h3>
+              <p className="text-sm text-gray-400">
+                {entries.length} {entries.length === 1 ? 'access' : 'accesses'} by lenders
+                {flaggedCount > 0 && <span className="text-yellow-300"> · {flaggedCount} flagged</span>}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={visible.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-sm text-gray-300 hover:text-white transition-colors disabled:opacity-50"
+            title="Export the entries shown below, e.g. to attach to a dispute"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export CSV</span>
+          </button>
+        </div>
+
+        {!account ? (
+          <p className="text-sm text-gray-400">Connect a wallet to see which lenders accessed your score.</p>
+        ) : (
+          <div className="space-y-4">
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-2">
+              <select value={filters.lender} onChange={(e) => update({ lender: e.target.value })} className={inputClass}>
+                <option value="">All lenders</option>
+                {logLenders.map(lender => (
+                  <option key={lender} value={lender}>{nameOf(lender) ?? shortenAddress(lender)}</option>
+                ))}
+              </select>
+              <select
+                value={filters.decision}
+                onChange={(e) => update({ decision: e.target.value as AccessLogFilters['decision'] })}
+                className={inputClass}
+              >
+                <option value="all">All decisions</option>
+                <option value="approved">Approved</option>
+                <option value="rejected">Rejected</option>
+              </select>
+              <input type="date" value={filters.from} onChange={(e) => update({ from: e.target.value })} className={inputClass} title="From" />
+              <input type="date" value={filters.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} title="To" />
+              <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.flaggedOnly}
+                  onChange={(e) => update({ flaggedOnly: e.target.checked })}
+                  className="accent-red-500"
+                />
+                <span>Flagged only</span>
+              </label>
+            </div>
+
+            {error !== null && (
+              <p className="text-xs text-red-300">Some requests could not be loaded: {decodeContractError(error).message}</p>
+            )}
+            {isLoading && entries.length === 0 && <p className="text-sm text-gray-400">Loading credit requests…</p>}
+            {!isLoading && visible.length === 0 && (
+              <p className="text-sm text-gray-500">
+                {entries.length === 0 ? 'No lender has requested your score yet.' : 'No access matches these filters.'}
+              </p>
+            )}
+
+            {/* Entries */}
+            {visible.map(entry => {
+              const explorerUrl = explorerTxUrl(network, entry.transactionHash);
+              return (
+                <div
+                  key={entry.requestId.toString()}
+                  className={`p-4 border rounded-lg space-y-2 ${entry.flags.length > 0 ? 'bg-yellow-500/5 border-yellow-500/20' : 'bg-charcoal/40 border-red-500/10'}`}
+                >
+                  <div className="flex items-baseline justify-between">
+                    <div>
+                      <p className="text-white text-sm font-medium">{nameOf(entry.lender) ?? 'Unknown lender'}</p>
+                      <p className="text-xs text-gray-500 font-mono" title={entry.lender}>{shortenAddress(entry.lender)}</p>
+                    </div>
+                    <p className="text-xs text-gray-500 whitespace-nowrap ml-3">{new Date(entry.timestamp).toLocaleString()}</p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+                    <span className="text-gray-400">{formatEther(entry.amount)} requested</span>
+                    <span className={entry.approved ? 'text-green-300' : 'text-red-300'}>
+                      {entry.approved ? `Approved ${formatEther(entry.approvedAmount)}` : 'Rejected'}
+                    </span>
+                    <span className="text-gray-300">{entry.riskAssessment || 'No assessment'}</span>
+                    <span className="text-gray-500">
+                      Request #{entry.requestId.toString()}
+                      {entry.batchId !== undefined && ` · batch #${entry.batchId}`}
+                    </span>
+                    {explorerUrl && (
+                      <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="flex items-center space-x-1 text-gray-400 hover:text-white">
+                        <span>Block {entry.blockNumber}</span>
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                  </div>
+                  {entry.flags.length > 0 && (
+                    <div className="flex items-center space-x-2 text-xs text-yellow-300">
+                      <Flag className="w-3.5 h-3.5" />
+                      <span>{entry.flags.map(flag => ACCESS_FLAG_LABELS[flag]).join(' · ')} at this block</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default AccessLog;
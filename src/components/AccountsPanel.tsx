@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Trash2, CreditCard, Landmark, Home, ShoppingBag } from 'lucide-react';
+import { useCreditContext } from '../contexts/CreditContext';
+import { ACCOUNT_KIND_LABELS, isRevolving } from '../lib/scoring';
+import type { CreditAccountKind } from '../types/credit';
+
+const kindIcons: Record<CreditAccountKind, React.ElementType> = {
+  card: CreditCard,
+  loan: Landmark,
+  mortgage: Home,
+  bnpl: ShoppingBag,
+};
+
+const emptyAccount = () => ({
+  name: '',
+  kind: 'card' as CreditAccountKind,
+  limit: '',
+  balance: '',
+  openedAt: new Date().toISOString().split('T')[0]
+});
+
+const accountAge = (openedAt: string) => {
+  const months = Math.max(0, Math.floor((Date.now() - new Date(openedAt).getTime()) / (30.44 * 24 * 60 * 60 * 1000)));
+  return months >= 12 ? `${Math.floor(months / 12)}y ${months % 12}m` : `${months}m`;
+};
+
+const AccountsPanel: React.FC = () => {
+  const { accounts, transactions, addAccount, updateAccount, removeAccount } = useCreditContext();
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newAccount, setNewAccount] = useState(emptyAccount);
+
+  const handleAddAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newAccount.name && newAccount.limit) {
+      addAccount({
+        name: newAccount.name,
+        kind: newAccount.kind,
+        openedAt: newAccount.openedAt,
+        limit: parseFloat(newAccount.limit),
+        balance: parseFloat(newAccount.balance || '0')
+      });
+      setNewAccount(emptyAccount());
+      setShowAddForm(false);
+    }
+  };
+
+  const linkedCount = (accountId: string) => transactions.filter(t => t.accountId === accountId).length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+      className="relative group"
+    >
+      <div className="absolute inset-0 bg-gradient-to-r from-violet-500/10 to-red-500/10 rounded-2xl blur-xl group-hover:blur-2xl transition-all duration-300" />
+
+      <div className="relative backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-6 hover:bg-midnight/50 transition-all duration-300">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white">Credit Accounts</h3>
+            <p className="text-sm text-gray-400">Cards, loans and credit lines behind your score</p>
+          </div>
+          <motion.button
+            onClick={() => setShowAddForm(!showAddForm)}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="p-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg hover:from-red-500 hover:to-violet-500 transition-all duration-200"
+          >
+            <Plus className="w-4 h-4 text-white" />
+          </motion.button>
+        </div>
+
+        {/* Add Account Form */}
+        <AnimatePresence>
+          {showAddForm && (
+            <motion.form
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              onSubmit={handleAddAccount}
+              className="mb-6 p-4 bg-charcoal/30 rounded-lg border border-red-500/10"
+            >
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+                <input
+                  type="text"
+                  placeholder="Account name"
+                  value={newAccount.name}
+                  onChange={(e) => setNewAccount({ ...newAccount, name: e.target.value })}
+                  className="px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+                  required
+                />
+                <select
+                  value={newAccount.kind}
+                  onChange={(e) => setNewAccount({ ...newAccount, kind: e.target.value as CreditAccountKind })}
+                  className="px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white focus:outline-none focus:border-red-500/30"
+                >
+                  {(Object.keys(ACCOUNT_KIND_LABELS) as CreditAccountKind[]).map(kind => (
+                    <option key={kind} value={kind}>{ACCOUNT_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  placeholder={newAccount.kind === 'card' || newAccount.kind === 'bnpl' ? 'Credit limit' : 'Principal'}
+                  value={newAccount.limit}
+                  onChange={(e) => setNewAccount({ ...newAccount, limit: e.target.value })}
+                  className="px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+                  required
+                />
+                <input
+                  type="number"
+                  placeholder="Current balance"
+                  value={newAccount.balance}
+                  onChange={(e) => setNewAccount({ ...newAccount, balance: e.target.value })}
+                  className="px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+                />
+                <input
+                  type="date"
+                  value={newAccount.openedAt}
+                  onChange={(e) => setNewAccount({ ...newAccount, openedAt: e.target.value })}
+                  className="px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white focus:outline-none focus:border-red-500/30"
+                  required
+                />
+              </div>
+              <div className="flex justify-end space-x-2 mt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowAddForm(false)}
+                  className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200"
+                >
+                  Add Account
+                </button>
+              </div>
+            </motion.form>
+          )}
+        </AnimatePresence>
+
+        {/* Account List */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {accounts.map(account => {
+            const Icon = kindIcons[account.kind];
+            const usage = account.limit > 0 ? Math.min(100, (account.balance / account.limit) * 100) : 0;
+            return (
+              <div key={account.id} className="p-4 bg-charcoal/20 rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <div className="p-2 bg-charcoal/50 rounded-lg">
+                      <Icon className="w-4 h-4 text-violet-400" />
+                    </div>
+                    <div>
+                      <p className="text-white font-medium">{account.name}</p>
+                      <p className="text-xs text-gray-400">
+                        {ACCOUNT_KIND_LABELS[account.kind]} • {accountAge(account.openedAt)} old • {linkedCount(account.id)} transactions
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <label className="flex items-center space-x-1 text-xs text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={!!account.closedAt}
+                        onChange={(e) => updateAccount(account.id, {
+                          closedAt: e.target.checked ? new Date().toISOString().split('T')[0] : undefined
+                        })}
+                      />
+                      <span>Closed</span>
+                    </label>
+                    <button
+                      onClick={() => removeAccount(account.id)}
+                      className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Balance</span>
+                  <span className="text-white font-mono">
+                    ${account.balance.toLocaleString()} / ${account.limit.toLocaleString()}
+                  </span>
+                </div>
+                <div className="w-full bg-charcoal rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full bg-gradient-to-r ${
+                      isRevolving(account) && usage > 30 ? 'from-yellow-400 to-red-500' : 'from-green-400 to-emerald-500'
+                    }`}
+                    style={{ width: `${usage}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {accounts.length === 0 && (
+          <div className="text-center py-8 text-gray-400">
+            <p>No credit accounts yet. Utilization and credit mix fall back to your transaction ledger.</p>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default AccountsPanel;
@@ -0,0 +1,140 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { History, X, ArrowRight } from 'lucide-react';
+import { useCreditContext } from '../contexts/CreditContext';
+import type { AuditAction, AuditEntry } from '../lib/ledger';
+
+interface AuditLogProps {
+  isOpen: boolean;
+  // Limits the log to entries that touched this transaction
+  transactionId?: string;
+  onClose: () => void;
+}
+
+const actionStyles: Record<AuditAction, string> = {
+  add: 'bg-green-500/20 text-green-300',
+  import: 'bg-green-500/20 text-green-300',
+  update: 'bg-blue-500/20 text-blue-300',
+  link: 'bg-blue-500/20 text-blue-300',
+  categorize: 'bg-blue-500/20 text-blue-300',
+  account: 'bg-violet-500/20 text-violet-300',
+  delete: 'bg-red-500/20 text-red-300',
+  undo: 'bg-yellow-500/20 text-yellow-300',
+  redo: 'bg-yellow-500/20 text-yellow-300',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'number' ? value.toLocaleString() : String(value);
+};
+
+const shortActor = (actor: string) => actor.startsWith('0x') ? `${actor.slice(0, 6)}...${actor.slice(-4)}` : actor;
+
+const AuditLog: React.FC<AuditLogProps> = ({ isOpen, transactionId, onClose }) => {
+  const { auditLog, transactions } = useCreditContext();
+
+  const entries = [...auditLog]
+    .reverse()
+    .filter(entry => !transactionId || entry.transactions.some(change => change.id === transactionId));
+  const subject = transactions.find(t => t.id === transactionId);
+
+  const renderChanges = (entry: AuditEntry) => {
+    const changes = transactionId
+      ? entry.transactions.filter(change => change.id === transactionId)
+      : entry.transactions;
+
+    return changes.slice(0, 5).map(change => (
+      <div key={change.id} className="text-xs text-gray-400">
+        {!change.before && <span className="text-green-400">+ {change.after?.description}</span>}
+        {!change.after && <span className="text-red-400 line-through">{change.before?.description}</span>}
+        {change.before && change.after && change.fields.map(field => (
+          <p key={field.field} className="flex items-center space-x-1">
+            <span className="text-gray-500">{change.after?.description} · {field.field}:</span>
+            <span>{formatValue(field.before)}</span>
+            <ArrowRight className="w-3 h-3" />
+            <span className="text-white">{formatValue(field.after)}</span>
+          </p>
+        ))}
+      </div>
+    ));
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-midnight/90 border border-red-500/20 rounded-2xl p-6 max-w-3xl w-full max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <History className="w-5 h-5 text-red-400" />
+                <div>
+                  <h3 className="text-xl font-bold text-white">Audit Log</h3>
+                  {transactionId && (
+                    <p className="text-sm text-gray-400">Edits to "{subject?.description ?? transactionId}"</p>
+                  )}
+                </div>
+              </div>
+              <button onClick={onClose} className="p-1 text-gray-400 hover:text-white transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              {entries.map(entry => {
+                const delta = entry.scoreAfter - entry.scoreBefore;
+                const extra = entry.transactions.length - 5;
+                return (
+                  <div key={entry.id} className="p-3 bg-charcoal/20 rounded-lg">
+                    <div className="flex items-center justify-between mb-1">
+                      <div className="flex items-center space-x-2">
+                        <span className={`text-xs px-2 py-0.5 rounded-full capitalize ${actionStyles[entry.action]}`}>
+                          {entry.action}
+                        </span>
+                        <span className="text-white text-sm">{entry.summary}</span>
+                      </div>
+                      <div className="flex items-center space-x-2 text-sm font-mono">
+                        <span className="text-gray-400">{entry.scoreBefore}</span>
+                        <ArrowRight className="w-3 h-3 text-gray-500" />
+                        <span className="text-white">{entry.scoreAfter}</span>
+                        <span className={delta > 0 ? 'text-green-400' : delta < 0 ? 'text-red-400' : 'text-gray-500'}>
+                          ({delta > 0 ? '+' : ''}{delta})
+                        </span>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-1">
+                      {new Date(entry.timestamp).toLocaleString()} · {shortActor(entry.actor)}
+                    </p>
+                    {renderChanges(entry)}
+                    {!transactionId && extra > 0 && (
+                      <p className="text-xs text-gray-500">and {extra} more</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {entries.length === 0 && (
+              <div className="text-center py-8 text-gray-400">
+                <p>No ledger edits recorded yet</p>
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default AuditLog;
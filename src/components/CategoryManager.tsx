@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Tags, Plus, Trash2, Wand2, X } from 'lucide-react';
+import { useCreditContext } from '../contexts/CreditContext';
+import { UNCATEGORIZED } from '../lib/categorization';
+import type { TransactionType } from '../types/credit';
+
+interface CategoryManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const emptyRule = {
+  category: '',
+  descriptionPattern: '',
+  minAmount: '',
+  maxAmount: '',
+  type: '' as TransactionType | '',
+};
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ isOpen, onClose }) => {
+  const {
+    categories,
+    categoryRules,
+    addCategory,
+    removeCategory,
+    addCategoryRule,
+    removeCategoryRule,
+    categorizeAll,
+  } = useCreditContext();
+  const [newCategory, setNewCategory] = useState('');
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [lastRun, setLastRun] = useState<string | null>(null);
+
+  const patternError = newRule.descriptionPattern && !isValidPattern(newRule.descriptionPattern);
+
+  const handleAddCategory = (e: React.FormEvent) => {
+    e.preventDefault();
+    addCategory(newCategory);
+    setNewCategory('');
+  };
+
+  const handleAddRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRule.category || patternError) return;
+    addCategoryRule({
+      category: newRule.category,
+      descriptionPattern: newRule.descriptionPattern || undefined,
+      minAmount: newRule.minAmount ? parseFloat(newRule.minAmount) : undefined,
+      maxAmount: newRule.maxAmount ? parseFloat(newRule.maxAmount) : undefined,
+      type: newRule.type || undefined,
+    });
+    setNewRule(emptyRule);
+  };
+
+  const handleRun = (overwrite: boolean) => {
+    const changed = categorizeAll(overwrite);
+    setLastRun(`${changed} transaction${changed === 1 ? '' : 's'} recategorized`);
+  };
+
+  const describeRule = (rule: typeof categoryRules[number]) => {
+    const parts = [];
+    if (rule.descriptionPattern) parts.push(`/${rule.descriptionPattern}/`);
+    if (rule.type) parts.push(rule.type);
+    if (rule.minAmount !== undefined) parts.push(`≥ $${rule.minAmount}`);
+    if (rule.maxAmount !== undefined) parts.push(`≤ $${rule.maxAmount}`);
+    return parts.length > 0 ? parts.join(' · ') : 'Any transaction';
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-midnight/90 border border-red-500/20 rounded-2xl p-6 max-w-3xl w-full max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <Tags className="w-5 h-5 text-red-400" />
+                <h3 className="text-xl font-bold text-white">Categories & Rules</h3>
+              </div>
+              <button onClick={onClose} className="p-1 text-gray-400 hover:text-white transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Categories */}
+            <div className="mb-6">
+              <h4 className="text-sm font-semibold text-gray-300 mb-3">Categories</h4>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {categories.map(category => (
+                  <span
+                    key={category}
+                    className="flex items-center space-x-1 px-3 py-1 bg-charcoal/40 border border-red-500/10 rounded-full text-sm text-white"
+                  >
+                    <span>{category}</span>
+                    {category !== UNCATEGORIZED && (
+                      <button onClick={() => removeCategory(category)} className="text-gray-500 hover:text-red-400">
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+              <form onSubmit={handleAddCategory} className="flex space-x-2">
+                <input
+                  type="text"
+                  placeholder="New category"
+                  value={newCategory}
+                  onChange={(e) => setNewCategory(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+                />
+                <button
+                  type="submit"
+                  className="p-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg hover:from-red-500 hover:to-violet-500 transition-all duration-200"
+                >
+                  <Plus className="w-4 h-4 text-white" />
+                </button>
+              </form>
+            </div>
+
+            {/* Rules */}
+            <div className="mb-6">
+              <h4 className="text-sm font-semibold text-gray-300 mb-1">Rules</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                Your rules run first, then rules learned from your corrections, then the built-in merchant dictionary.
+              </p>
+              <div className="space-y-2 mb-3 max-h-48 overflow-y-auto">
+                {categoryRules.map(rule => (
+                  <div key={rule.id} className="flex items-center justify-between p-2 bg-charcoal/20 rounded-lg text-sm">
+                    <div className="flex items-center space-x-3">
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${rule.source === 'user' ? 'bg-violet-500/20 text-violet-300' : 'bg-blue-500/20 text-blue-300'}`}>
+                        {rule.source === 'user' ? 'Rule' : 'Learned'}
+                      </span>
+                      <span className="text-gray-300 font-mono">{describeRule(rule)}</span>
+                      <span className="text-gray-500">→</span>
+                      <span className="text-white">{rule.category}</span>
+                    </div>
+                    <button onClick={() => removeCategoryRule(rule.id)} className="text-gray-500 hover:text-red-400">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                {categoryRules.length === 0 && (
+                  <p className="text-sm text-gray-500">No rules yet. Re-categorizing a transaction teaches a rule automatically.</p>
+                )}
+              </div>
+              <form onSubmit={handleAddRule} className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                <input
+                  type="text"
+                  placeholder="Description regex"
+                  value={newRule.descriptionPattern}
+                  onChange={(e) => setNewRule({ ...newRule, descriptionPattern: e.target.value })}
+                  className={`md:col-span-2 px-3 py-2 bg-charcoal/50 border rounded-lg text-white placeholder-gray-400 font-mono text-sm focus:outline-none ${patternError ? 'border-red-500/60' : 'border-red-500/10 focus:border-red-500/30'}`}
+                />
+                <select
+                  value={newRule.type}
+                  onChange={(e) => setNewRule({ ...newRule, type: e.target.value as TransactionType | '' })}
+                  className="px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+                >
+                  <option value="">Any type</option>
+                  <option value="purchase">Purchase</option>
+                  <option value="payment">Payment</option>
+                  <option value="income">Income</option>
+                  <option value="transfer">Transfer</option>
+                </select>
+                <input
+                  type="number"
+                  placeholder="Min $"
+                  value={newRule.minAmount}
+                  onChange={(e) => setNewRule({ ...newRule, minAmount: e.target.value })}
+                  className="px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 text-sm focus:outline-none focus:border-red-500/30"
+                />
+                <input
+                  type="number"
+                  placeholder="Max $"
+                  value={newRule.maxAmount}
+                  onChange={(e) => setNewRule({ ...newRule, maxAmount: e.target.value })}
+                  className="px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 text-sm focus:outline-none focus:border-red-500/30"
+                />
+                <select
+                  value={newRule.category}
+                  onChange={(e) => setNewRule({ ...newRule, category: e.target.value })}
+                  className="md:col-span-4 px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+                  required
+                >
+                  <option value="">Assign category…</option>
+                  {categories.map(category => <option key={category} value={category}>{category}</option>)}
+                </select>
+                <button
+                  type="submit"
+                  disabled={!newRule.category || Boolean(patternError)}
+                  className="px-3 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-white text-sm hover:from-red-500 hover:to-violet-500 transition-all duration-200 disabled:opacity-50"
+                >
+                  Add Rule
+                </button>
+              </form>
+            </div>
+
+            {/* Run */}
+            <div className="flex items-center justify-between pt-4 border-t border-red-500/10">
+              <span className="text-sm text-gray-400">{lastRun}</span>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => handleRun(false)}
+                  className="px-4 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-sm text-gray-300 hover:text-white transition-colors"
+                >
+                  Categorize uncategorized
+                </button>
+                <button
+                  onClick={() => handleRun(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-sm text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200"
+                >
+                  <Wand2 className="w-4 h-4" />
+                  <span>Re-run on whole ledger</span>
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,295 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldCheck, AlertTriangle, Clock, Download, Ban } from 'lucide-react';
+import type { Address } from 'viem';
+import { useCreditContext } from '../contexts/CreditContext';
+import { useTransactions } from '../contexts/TransactionContext';
+import { useWallet } from '../contexts/WalletContext';
+import { useCreditScoreRegistry } from '../hooks/useContract';
+import { useContractRead } from '../hooks/useContractRead';
+import { useConsentUpdates } from '../hooks/useEvents';
+import {
+  CONSENT_SCOPES,
+  REVOKE_DELAY_S,
+  buildDataset,
+  consentState,
+  formatCountdown,
+  hashDataset,
+  toConsentRecord,
+  type ConsentScope,
+  type ConsentState,
+} from '../lib/consent';
+import { creditScoreRegistryAbi, toStruct } from '../lib/contracts';
+import { decodeContractError, type ContractError } from '../lib/errors';
+import { downloadFile } from '../lib/export';
+import { shortenAddress } from '../lib/wallet';
+import ErrorNotice from './ErrorNotice';
+import TransactionStatus from './TransactionStatus';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TERM_DAYS = 90;
+const TERM_PRESETS = [30, 90, 365];
+const HISTORY_LIMIT = 5;
+
+const STATE_STYLES: Record<ConsentState, { text: string; badge: string }> = {
+  none: { text: 'No consent', badge: 'bg-gray-500/20 text-gray-300' },
+  active: { text: 'Active', badge: 'bg-green-500/20 text-green-300' },
+  expiring: { text: 'Expiring soon', badge: 'bg-yellow-500/20 text-yellow-300' },
+  expired: { text: 'Expired', badge: 'bg-red-500/20 text-red-300' },
+};
+
+// <input type="date"> value for a time in milliseconds, in local time
+const toDateInput = (ms: number) => {
+  const date = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// End of the chosen day, so a consent "until" a date covers all of it
+const fromDateInput = (value: string) => new Date(`${value}T23:59:59`).getTime();
+
+const formatDateTime = (ms: number) => new Date(ms).toLocaleString();
+
+// Lets a borrower decide which of their data lenders may use, and for how long
+const ConsentManager: React.FC = () => {
+  const { transactions, accounts, creditScore } = useCreditContext();
+  const { account } = useWallet();
+  const { updateConsent, revokeConsent, isLoading: contractLoading } = useCreditScoreRegistry();
+  const { latest } = useTransactions();
+  const history = useConsentUpdates();
+  const [scopes, setScopes] = useState<ConsentScope[]>(['transactions', 'accounts', 'score']);
+  const [expiry, setExpiry] = useState(() => toDateInput(Date.now() + DEFAULT_TERM_DAYS * DAY_MS));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<ContractError | null>(null);
+  const [now, setNow] = useState(Date.now);
+  const consentTransaction = latest('CreditScoreRegistry', ['updateConsent']);
+
+  // Refreshed when a ConsentUpdated event for this wallet is indexed
+  const { data: consentValues } = useContractRead(
+    'CreditScoreRegistry',
+    'consents',
+    account && !contractLoading ? [account as Address] : null,
+  );
+  const consent = consentValues ? toConsentRecord(toStruct(creditScoreRegistryAbi, 'consents', consentValues)) : null;
+  const state = consentState(consent, now);
+  const style = STATE_STYLES[state];
+
+  const dataset = useMemo(
+    () => buildDataset({ transactions, accounts, creditScore }, scopes),
+    [transactions, accounts, creditScore, scopes],
+  );
+  const dataHash = useMemo(() => hashDataset(dataset), [dataset]);
+  const expiresAt = fromDateInput(expiry);
+  const isLive = state === 'active' || state === 'expiring';
+
+  // The countdown ticks every second while a consent is running
+  useEffect(() => {
+    if (!isLive) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isLive]);
+
+  const toggleScope = (scope: ConsentScope) => {
+    setScopes(current => (current.includes(scope) ? current.filter(item => item !== scope) : [...current, scope]));
+  };
+
+  // Extends from the current expiry while the consent runs, otherwise from today
+  const applyTerm = (days: number) => {
+    const from = isLive && consent ? consent.expiresAt : Date.now();
+    setExpiry(toDateInput(from + days * DAY_MS));
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Consent update failed:', error);
+      setSubmitError(decodeContractError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = () => {
+    if (!consent) return;
+    if (!window.confirm('Revoke your data-sharing consent? Lenders will no longer be able to rely on it.')) return;
+    run(() => revokeConsent(consent.dataHash));
+  };
+
+  const handleDownload = () => {
+    downloadFile(`consent-dataset-${dataHash.slice(2, 10)}.json`, dataset, 'application/json');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+      className="relative group"
+    >
+      <div className="absolute inset-0 bg-gradient-to-r from-violet-500/10 to-red-500/10 rounded-2xl blur-xl group-hover:blur-2xl transition-all duration-300" />
+
+      <div className="relative backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-6 hover:bg-midnight/50 transition-all duration-300">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <ShieldCheck className="w-5 h-5 text-red-400" />
+            <div>
+              <h3 className="text-xl font-bold text-white">Data Sharing Consent</h3>
+              <p className="text-sm text-gray-400">Recorded on the credit score registry; only you can change it</p>
+            </div>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-sm ${style.badge}`}>{style.text}</span>
+        </div>
+
+        {!account ? (
+          <p className="text-sm text-gray-400">Connect a wallet to view and manage your consent.</p>
+        ) : (
+          <div className="space-y-6">
+            {/* Current Consent */}
+            {consent && (
+              <div className="p-4 bg-charcoal/40 border border-red-500/10 rounded-lg space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-400">Data hash</span>
+                  <span className="font-mono text-gray-200" title={consent.dataHash}>{shortenAddress(consent.dataHash)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-400">Given</span>
+                  <span className="text-gray-200">{formatDateTime(consent.grantedAt)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-400">{state === 'expired' ? 'Expired' : 'Expires'}</span>
+                  <span className="text-gray-200">{formatDateTime(consent.expiresAt)}</span>
+                </div>
+                {isLive && (
+                  <div className={`flex items-center space-x-2 pt-2 ${state === 'expiring' ? 'text-yellow-300' : 'text-green-300'}`}>
+                    <Clock className="w-4 h-4" />
+                    <span>Expires in {formatCountdown(consent.expiresAt - now)}</span>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">
+                  {consent.dataHash === dataHash
+                    ? 'Matches the data selected below.'
+                    : 'Differs from the data selected below; your data or selection has changed since.'}
+                </p>
+              </div>
+            )}
+
+            {/* Expiry Warnings */}
+            {state === 'expiring' && consent && (
+              <div className="flex items-start space-x-3 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-sm text-yellow-300">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <span>Your consent lapses in {formatCountdown(consent.expiresAt - now)}. Extend it below to keep sharing without interruption.</span>
+              </div>
+            )}
+            {state === 'expired' && (
+              <div className="flex items-start space-x-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-300">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <span>Your consent has expired. Lenders can no longer rely on it until you give it again.</span>
+              </div>
+            )}
+
+            {/* Dataset */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-300">Data you consent to share</h4>
+              {(Object.keys(CONSENT_SCOPES) as ConsentScope[]).map(scope => (
+                <label key={scope} className="flex items-start space-x-3 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="mt-1 accent-red-500"
+                  />
+                  <span>
+                    <span className="text-white">{CONSENT_SCOPES[scope].label}</span>
+                    <span className="block text-xs text-gray-500">{CONSENT_SCOPES[scope].description}</span>
+                  </span>
+                </label>
+              ))}
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-xs text-gray-500">
+                  keccak256 <span className="font-mono text-gray-300" title={dataHash}>{shortenAddress(dataHash)}</span>
+                </p>
+                <button
+                  onClick={handleDownload}
+                  disabled={scopes.length === 0}
+                  className="flex items-center space-x-1 text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                  title="Keep a copy of exactly what this hash covers"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  <span>Download dataset</span>
+                </button>
+              </div>
+            </div>
+
+            {/* Expiry */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-300">Valid until</h4>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="date"
+                  value={expiry}
+                  min={toDateInput(Date.now() + DAY_MS)}
+                  onChange={(e) => setExpiry(e.target.value)}
+                  className="px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white focus:outline-none focus:border-red-500/30"
+                />
+                {TERM_PRESETS.map(days => (
+                  <button
+                    key={days}
+                    onClick={() => applyTerm(days)}
+                    className="px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-sm text-gray-300 hover:text-white transition-colors"
+                  >
+                    +{days} days
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {submitError && <ErrorNotice error={submitError} onDismiss={() => setSubmitError(null)} />}
+            {consentTransaction && <TransactionStatus transaction={consentTransaction} />}
+
+            {/* Actions */}
+            <div className="flex items-center justify-end space-x-2 pt-4 border-t border-red-500/10">
+              {isLive && (
+                <button
+                  onClick={handleRevoke}
+                  disabled={isSubmitting || contractLoading}
+                  className="flex items-center space-x-2 px-4 py-2 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-300 hover:bg-red-500/20 transition-colors disabled:opacity-50"
+                  title={`The registry cannot switch a consent off; revoking makes it expire ${REVOKE_DELAY_S / 60} minutes after you confirm`}
+                >
+                  <Ban className="w-4 h-4" />
+                  <span>Revoke</span>
+                </button>
+              )}
+              <button
+                onClick={() => run(() => updateConsent(dataHash, expiresAt))}
+                disabled={isSubmitting || contractLoading || scopes.length === 0 || !(expiresAt > Date.now())}
+                className="px-4 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200 disabled:opacity-50"
+              >
+                {isLive ? 'Update Consent' : 'Give Consent'}
+              </button>
+            </div>
+
+            {/* History */}
+            {history.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-gray-300">History</h4>
+                {[...history].reverse().slice(0, HISTORY_LIMIT).map(update => (
+                  <div key={update.transactionHash} className="flex items-center justify-between text-xs">
+                    <span className="text-gray-400">{formatDateTime(update.timestamp)}</span>
+                    <span className="font-mono text-gray-300" title={update.dataHash}>{shortenAddress(update.dataHash)}</span>
+                    <span className="text-gray-400">until {formatDateTime(update.expiryTime * 1000)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default ConsentManager;
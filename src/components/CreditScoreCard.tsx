@@ -1,15 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { TrendingUp, Award, AlertCircle, CheckCircle, RefreshCw } from 'lucide-react';
+import type { Address } from 'viem';
 import { useCreditContext } from '../contexts/CreditContext';
+import { useTransactions } from '../contexts/TransactionContext';
 import { useCreditScoreRegistry } from '../hooks/useContract';
+import { useContractRead } from '../hooks/useContractRead';
+import { decodeContractError, type ContractError } from '../lib/errors';
+import { getTierBand } from '../lib/scoring';
+import type { RecommendationPriority } from '../types/credit';
+import ErrorNotice from './ErrorNotice';
+import TransactionStatus from './TransactionStatus';
+
+const priorityColors: Record<RecommendationPriority, string> = {
+  high: 'text-red-400',
+  medium: 'text-yellow-400',
+  low: 'text-gray-500',
+};
 
 const CreditScoreCard: React.FC = () => {
-  const { creditScore, updateScore, walletAddress } = useCreditContext();
+  const { creditScore, scorecard, updateScore, walletAddress } = useCreditContext();
   const { getScore, updateScore: updateScoreOnChain, isLoading: contractLoading } = useCreditScoreRegistry();
   const [animatedScore, setAnimatedScore] = useState(0);
   const [isUpdating, setIsUpdating] = useState(false);
-  const [transactionHash, setTransactionHash] = useState<string | null>(null);
+  const [publishError, setPublishError] = useState<ContractError | null>(null);
+  const { latest } = useTransactions();
+  const publishTransaction = latest('CreditScoreRegistry', ['updateScore']);
+  // Refreshed when the registry's ScoreUpdated event for this wallet is indexed
+  const { data: publishedScore } = useContractRead(
+    'CreditScoreRegistry',
+    'getScore',
+    walletAddress && !contractLoading ? [walletAddress as Address] : null,
+    { account: walletAddress as Address | undefined },
+  );
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -20,16 +43,20 @@ const CreditScoreCard: React.FC = () => {
 
   const handleUpdateScore = async () => {
     setIsUpdating(true);
-    setTransactionHash(null);
+    setPublishError(null);
     
     try {
       if (walletAddress) {
-        // Get updated score from blockchain
-        const onChainScore = await getScore(walletAddress);
-        
-        // Update score on blockchain (simulate oracle update)
-        const tx = await updateScoreOnChain(walletAddress, onChainScore + Math.floor(Math.random() * 20) - 10);
-        setTransactionHash(tx.transactionHash);
+        // Publish the locally computed score when it differs from the one on chain
+        const onChainScore = await getScore(walletAddress as Address, { fresh: true }).catch(error => {
+          const contractError = decodeContractError(error);
+          // A first publish has nothing on chain to compare with; offline the publish is queued uncompared
+          if (contractError.reason === 'No active score found' || contractError.kind === 'network') return null;
+          throw error;
+        });
+        if (onChainScore !== BigInt(creditScore.score)) {
+          await updateScoreOnChain(walletAddress as Address, BigInt(creditScore.score));
+        }
         
         // Update local state
         updateScore();
@@ -40,6 +67,7 @@ const CreditScoreCard: React.FC = () => {
       }
     } catch (error) {
       console.error('Failed to update score:', error);
+      setPublishError(decodeContractError(error));
       // Fallback to local update
       updateScore();
     }
@@ -47,12 +75,8 @@ const CreditScoreCard: React.FC = () => {
     setIsUpdating(false);
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 750) return 'from-green-400 to-emerald-500';
-    if (score >= 700) return 'from-red-400 to-violet-500';
-    if (score >= 650) return 'from-yellow-400 to-orange-500';
-    return 'from-red-500 to-pink-500';
-  };
+  const maxScore = scorecard.scaling.ceiling;
+  const tierBand = getTierBand(creditScore.score, scorecard);
 
   const getScoreIcon = (tier: string) => {
     switch (tier) {
@@ -121,7 +145,7 @@ const CreditScoreCard: React.FC = () => {
                   strokeLinecap="round"
                   strokeDasharray={`${2 * Math.PI * 40}`}
                   initial={{ strokeDashoffset: 2 * Math.PI * 40 }}
-                  animate={{ strokeDashoffset: 2 * Math.PI * 40 * (1 - animatedScore / 850) }}
+                  animate={{ strokeDashoffset: 2 * Math.PI * 40 * (1 - animatedScore / maxScore) }}
                   transition={{ duration: 1.5, delay: 0.5 }}
                 />
                 <defs>
@@ -147,32 +171,33 @@ const CreditScoreCard: React.FC = () => {
                   >
                     {animatedScore}
                   </motion.div>
-                  <div className="text-xs text-gray-400">/ 850</div>
+                  <div className="text-xs text-gray-400">/ {maxScore}</div>
                 </motion.div>
               </div>
             </motion.div>
           </div>
 
           <div className="space-y-2">
-            <div className={`text-2xl font-bold bg-gradient-to-r ${getScoreColor(creditScore.score)} bg-clip-text text-transparent`}>
+            <div className={`text-2xl font-bold bg-gradient-to-r ${tierBand.color} bg-clip-text text-transparent`}>
               {creditScore.tier}
             </div>
             <p className="text-sm text-gray-400">
-              {creditScore.score >= 750 ? 'Outstanding creditworthiness' :
-               creditScore.score >= 700 ? 'Good creditworthiness' :
-               creditScore.score >= 650 ? 'Fair creditworthiness' :
-               'Needs improvement'}
+              {tierBand.label}
             </p>
+            {publishedScore !== undefined && (
+              <p className="text-xs text-gray-500">
+                {publishedScore === BigInt(creditScore.score) ? 'Published on chain' : `On chain: ${publishedScore}`}
+              </p>
+            )}
           </div>
         </div>
 
         {/* Score Range */}
         <div className="mt-6 space-y-2">
           <div className="flex justify-between text-xs text-gray-400">
-            <span>Poor</span>
-            <span>Fair</span>
-            <span>Good</span>
-            <span>Excellent</span>
+            {[...scorecard.tiers].reverse().map(band => (
+              <span key={band.tier}>{band.tier}</span>
+            ))}
           </div>
           <div className="w-full bg-charcoal rounded-full h-2">
             <div 
@@ -180,31 +205,44 @@ const CreditScoreCard: React.FC = () => {
             >
               <div 
                 className="absolute top-0 w-3 h-3 bg-white rounded-full border-2 border-red-400 transform -translate-y-0.5"
-                style={{ left: `${(creditScore.score / 850) * 100}%` }}
+                style={{ left: `${(creditScore.score / maxScore) * 100}%` }}
               />
             </div>
           </div>
         </div>
 
-        {/* Transaction Hash Display */}
-        {transactionHash && (
-          <div className="mt-4 p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
-            <p className="text-xs text-green-400 font-mono">
-              Transaction: {transactionHash.slice(0, 10)}...{transactionHash.slice(-8)}
-            </p>
+        {/* Transaction Status */}
+        {publishError && (
+          <div className="mt-4">
+            <ErrorNotice error={publishError} onDismiss={() => setPublishError(null)} />
+          </div>
+        )}
+        {publishTransaction && (
+          <div className="mt-4">
+            <TransactionStatus transaction={publishTransaction} />
           </div>
         )}
 
         {/* Recommendations */}
         <div className="mt-6 space-y-2">
           <h4 className="text-sm font-semibold text-white">Recommendations</h4>
-          <div className="space-y-1">
-            {creditScore.recommendations.slice(0, 2).map((rec, index) => (
-              <p key={index} className="text-xs text-gray-400 flex items-start space-x-2">
-                <span className="text-red-400 mt-1">•</span>
-                <span>{rec}</span>
-              </p>
+          <div className="space-y-2">
+            {creditScore.recommendations.slice(0, 2).map(rec => (
+              <a
+                key={rec.id}
+                href={`#factor-${rec.factor}`}
+                className="block text-xs text-gray-400 hover:text-gray-200 transition-colors"
+              >
+                <span className="flex items-start space-x-2">
+                  <span className={`mt-1 ${priorityColors[rec.priority]}`}>•</span>
+                  <span className="flex-1">{rec.title}</span>
+                  <span className="text-green-400 font-mono">+{rec.estimatedImpact}</span>
+                </span>
+              </a>
             ))}
+            {creditScore.recommendations.length === 0 && (
+              <p className="text-xs text-gray-500">Nothing to improve right now.</p>
+            )}
           </div>
         </div>
       </div>
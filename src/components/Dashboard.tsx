@@ -1,9 +1,16 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { TrendingUp, Shield, Database, Users } from 'lucide-react';
+import AccessLog from './AccessLog';
+import AccountsPanel from './AccountsPanel';
+import ConsentManager from './ConsentManager';
 import CreditScoreCard from './CreditScoreCard';
+import DataVaultPanel from './DataVaultPanel';
+import LenderAccessPanel from './LenderAccessPanel';
+import RecurringPanel from './RecurringPanel';
 import ScoreFactors from './ScoreFactors';
 import ScoreHistory from './ScoreHistory';
+import ScoreSimulator from './ScoreSimulator';
 import StatsGrid from './StatsGrid';
 import TransactionHistory from './TransactionHistory';
 
@@ -41,11 +48,32 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Credit Accounts */}
+      <AccountsPanel />
+
       {/* Transaction History */}
       <TransactionHistory />
 
+      {/* Recurring Payments */}
+      <RecurringPanel />
+
       {/* Score Factors */}
       <ScoreFactors />
+
+      {/* What-if Simulator */}
+      <ScoreSimulator />
+
+      {/* Data Sharing Consent */}
+      <ConsentManager />
+
+      {/* Lender Access */}
+      <LenderAccessPanel />
+
+      {/* Score Access Log */}
+      <AccessLog />
+
+      {/* Local Data */}
+      <DataVaultPanel />
     </section>
   );
 };
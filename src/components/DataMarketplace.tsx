@@ -1,21 +1,37 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { formatEther, formatUnits } from 'viem';
 import { ShoppingCart, Star, TrendingUp, Users, Database, Shield, Check } from 'lucide-react';
-import { useDataMarketplace } from '../hooks/useContract';
+import { useDataMarketplace, type PurchaseApproval } from '../hooks/useContract';
+import { usePurchases } from '../hooks/useEvents';
 import { useCreditContext } from '../contexts/CreditContext';
+import { useTransactions } from '../contexts/TransactionContext';
+import { decodeContractError, notConnectedError, type ContractError } from '../lib/errors';
+import ErrorNotice from './ErrorNotice';
+import TransactionStatus from './TransactionStatus';
 
 const DataMarketplace: React.FC = () => {
-  const [purchasedItems, setPurchasedItems] = useState<string[]>([]);
   const [showPurchaseModal, setShowPurchaseModal] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [transactionHash, setTransactionHash] = useState<string | null>(null);
+  const [purchaseError, setPurchaseError] = useState<ContractError | null>(null);
+  // The allowance the marketplace still needs before it can collect the price
+  const [approval, setApproval] = useState<PurchaseApproval | null>(null);
   
-  const { purchaseProduct, isLoading: contractLoading } = useDataMarketplace();
+  const { purchaseProduct, getPurchaseApproval, approvePurchase, isLoading: contractLoading } = useDataMarketplace();
   const { isWalletConnected } = useCreditContext();
+  const { latest } = useTransactions();
+  const purchaseTransaction = latest('DataMarketplace', ['purchaseProduct']);
+  const approvalTransaction = latest('DataMarketplace', ['approve']);
+  // Until an approval is mined the purchase would revert
+  const awaitingApproval = approval !== null && approvalTransaction?.status !== 'confirmed';
+  // Purchases come from the indexed ProductPurchased events, so they survive reloads
+  const purchases = usePurchases();
+  const purchasedIds = new Set(purchases.map(purchase => purchase.productId));
 
   const dataProducts = [
     {
       id: 'premium-report',
+      listingId: 1n,
       name: 'Premium Credit Report',
       price: '0.5 ETH',
       rating: 4.9,
@@ -26,6 +42,7 @@ const DataMarketplace: React.FC = () => {
     },
     {
       id: 'behavioral-analytics',
+      listingId: 2n,
       name: 'Behavioral Analytics',
       price: '0.3 ETH',
       rating: 4.8,
@@ -36,6 +53,7 @@ const DataMarketplace: React.FC = () => {
     },
     {
       id: 'market-intelligence',
+      listingId: 3n,
       name: 'Market Intelligence',
       price: '0.7 ETH',
       rating: 4.7,
@@ -46,33 +64,75 @@ const DataMarketplace: React.FC = () => {
     }
   ];
 
+  const listingIdOf = (productId: string) => {
+    const product = dataProducts.find(p => p.id === productId);
+    if (!product) throw new Error(`Unknown product ${productId}`);
+    return product.listingId;
+  };
+
+  const checkApproval = async (productId: string) => {
+    const needed = await getPurchaseApproval(listingIdOf(productId));
+    setApproval(needed);
+    return needed;
+  };
+
+  const openPurchaseModal = async (productId: string) => {
+    setShowPurchaseModal(productId);
+    setApproval(null);
+    setPurchaseError(null);
+    if (!isWalletConnected) return;
+
+    try {
+      await checkApproval(productId);
+    } catch (error) {
+      console.error('Allowance check failed:', error);
+      setPurchaseError(decodeContractError(error));
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!approval) return;
+    setIsProcessing(true);
+    setPurchaseError(null);
+
+    try {
+      await approvePurchase(approval);
+    } catch (error) {
+      console.error('Approval failed:', error);
+      setPurchaseError(decodeContractError(error));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handlePurchase = async (productId: string) => {
     if (!isWalletConnected) {
-      alert('Please connect your wallet first');
+      setPurchaseError(notConnectedError());
       return;
     }
     
     setIsProcessing(true);
-    setTransactionHash(null);
+    setPurchaseError(null);
     
     try {
-      const result = await purchaseProduct(parseInt(productId));
-      setTransactionHash(result.transactionHash);
-      setPurchasedItems([...purchasedItems, productId]);
+      // Checked again here, since the approval may not have been mined yet
+      if (await checkApproval(productId)) return;
+      await purchaseProduct(listingIdOf(productId));
       setShowPurchaseModal(null);
-      
-      // Show success message
-      setTimeout(() => {
-        alert(`Purchase successful! Transaction: ${result.transactionHash.slice(0, 10)}...`);
-      }, 500);
     } catch (error) {
       console.error('Purchase failed:', error);
-      alert('Purchase failed. Please try again.');
+      setPurchaseError(decodeContractError(error));
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const closePurchaseModal = () => {
+    setShowPurchaseModal(null);
+    setApproval(null);
+    setPurchaseError(null);
+  };
+
   return (
     <section id="marketplace" className="space-y-8">
       <motion.div
@@ -129,14 +189,14 @@ const DataMarketplace: React.FC = () => {
 
                 <div className="flex items-center justify-between pt-4 border-t border-red-500/10">
                   <div className="text-2xl font-bold text-white">{product.price}</div>
-                  {purchasedItems.includes(product.id) ? (
+                  {purchasedIds.has(product.listingId) ? (
                     <div className="flex items-center space-x-2 px-4 py-2 bg-green-500/20 border border-green-500/30 rounded-lg">
                       <Check className="w-4 h-4 text-green-400" />
                       <span className="text-green-400 font-medium">Purchased</span>
                     </div>
                   ) : (
                     <motion.button
-                      onClick={() => setShowPurchaseModal(product.id)}
+                      onClick={() => openPurchaseModal(product.id)}
                       disabled={contractLoading || isProcessing}
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
@@ -155,6 +215,32 @@ const DataMarketplace: React.FC = () => {
         ))}
       </div>
 
+      {/* Purchase Status */}
+      {purchaseTransaction && (
+        <div className="max-w-xl mx-auto">
+          <TransactionStatus transaction={purchaseTransaction} />
+        </div>
+      )}
+
+      {/* Purchase History */}
+      {purchases.length > 0 && (
+        <div className="max-w-xl mx-auto backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Your Purchases</h3>
+          <div className="space-y-2">
+            {purchases.map(purchase => (
+              <div key={String(purchase.purchaseId)} className="flex items-center justify-between p-3 bg-charcoal/30 rounded-lg text-sm">
+                <span className="text-white">
+                  {dataProducts.find(product => product.listingId === purchase.productId)?.name ?? `Product #${purchase.productId}`}
+                </span>
+                <span className="text-gray-400">
+                  Paid {formatEther(purchase.price)} · {new Date(purchase.timestamp).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Purchase Modal */}
       <AnimatePresence>
         {showPurchaseModal && (
@@ -163,7 +249,7 @@ const DataMarketplace: React.FC = () => {
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
-            onClick={() => setShowPurchaseModal(null)}
+            onClick={closePurchaseModal}
           >
             <motion.div
               initial={{ scale: 0.9, opacity: 0 }}
@@ -183,17 +269,33 @@ const DataMarketplace: React.FC = () => {
                 </div>
               )}
               
-              {transactionHash && (
-                <div className="mb-4 p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
-                  <p className="text-green-400 text-xs font-mono">
-                    Transaction: {transactionHash.slice(0, 10)}...{transactionHash.slice(-8)}
+              {/* Token Approval */}
+              {approval && (
+                <div className="mb-4 p-3 bg-violet-500/10 border border-violet-500/20 rounded-lg space-y-3">
+                  <p className="text-violet-300 text-sm">
+                    The marketplace collects {formatUnits(approval.amount, approval.decimals)} {approval.symbol} from your wallet.
+                    Approve it to spend this amount before purchasing.
                   </p>
+                  {approvalTransaction && <TransactionStatus transaction={approvalTransaction} />}
+                  <button
+                    onClick={handleApprove}
+                    disabled={isProcessing}
+                    className="w-full px-4 py-2 bg-violet-600/80 rounded-lg text-white hover:bg-violet-500 transition-colors disabled:opacity-50"
+                  >
+                    Approve {formatUnits(approval.amount, approval.decimals)} {approval.symbol}
+                  </button>
+                </div>
+              )}
+
+              {purchaseError && (
+                <div className="mb-4">
+                  <ErrorNotice error={purchaseError} />
                 </div>
               )}
               
               <div className="flex space-x-3">
                 <button
-                  onClick={() => setShowPurchaseModal(null)}
+                  onClick={closePurchaseModal}
                   disabled={isProcessing}
                   className="flex-1 px-4 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-gray-300 hover:bg-charcoal/70 transition-colors"
                 >
@@ -201,7 +303,7 @@ const DataMarketplace: React.FC = () => {
                 </button>
                 <button
                   onClick={() => handlePurchase(showPurchaseModal)}
-                  disabled={isProcessing || !isWalletConnected}
+                  disabled={isProcessing || !isWalletConnected || awaitingApproval}
                   className="flex-1 px-4 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200 disabled:opacity-50"
                 >
                   {isProcessing ? 'Processing...' : 'Confirm Purchase'}
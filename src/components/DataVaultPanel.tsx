@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { HardDrive, Lock, Unlock, Trash2 } from 'lucide-react';
+import { useCreditContext } from '../contexts/CreditContext';
+import { SCHEMA_VERSION } from '../lib/storage';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const DataVaultPanel: React.FC = () => {
+  const {
+    storageStatus,
+    storageNamespace,
+    isEncrypted,
+    transactions,
+    setStoragePassphrase,
+    removeStoragePassphrase,
+    clearLocalData,
+  } = useCreditContext();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage(done);
+    } catch (error) {
+      console.error('Local data update failed:', error);
+      setMessage('Could not update local data');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSetPassphrase = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH || passphrase !== confirmation) return;
+    run(() => setStoragePassphrase(passphrase), isEncrypted ? 'Passphrase changed' : 'Local data is now encrypted');
+    setPassphrase('');
+    setConfirmation('');
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete all locally stored data for this wallet? This cannot be undone.')) return;
+    run(clearLocalData, 'Local data cleared');
+  };
+
+  if (storageStatus === 'unavailable') {
+    return (
+      <div className="backdrop-blur-xl bg-midnight/40 border border-yellow-500/20 rounded-2xl p-6 text-sm text-yellow-300">
+        Local storage is unavailable in this browser, so changes will be lost on reload.
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+      className="relative group"
+    >
+      <div className="absolute inset-0 bg-gradient-to-r from-violet-500/10 to-red-500/10 rounded-2xl blur-xl group-hover:blur-2xl transition-all duration-300" />
+
+      <div className="relative backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-6 hover:bg-midnight/50 transition-all duration-300">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <HardDrive className="w-5 h-5 text-red-400" />
+            <div>
+              <h3 className="text-xl font-bold text-white">Local Data</h3>
+              <p className="text-sm text-gray-400">
+                {transactions.length} transactions stored on this device for <span className="font-mono">{storageNamespace}</span> · schema v{SCHEMA_VERSION}
+              </p>
+            </div>
+          </div>
+          <span className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm ${isEncrypted ? 'bg-green-500/20 text-green-300' : 'bg-gray-500/20 text-gray-300'}`}>
+            {isEncrypted ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+            <span>{isEncrypted ? 'Encrypted' : 'Not encrypted'}</span>
+          </span>
+        </div>
+
+        {/* Passphrase */}
+        <form onSubmit={handleSetPassphrase} className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-4">
+          <input
+            type="password"
+            placeholder={isEncrypted ? 'New passphrase' : 'Passphrase'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+          />
+          <input
+            type="password"
+            placeholder="Confirm passphrase"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            className="px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+          />
+          <button
+            type="submit"
+            disabled={isBusy || passphrase.length < MIN_PASSPHRASE_LENGTH || passphrase !== confirmation}
+            className="px-4 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200 disabled:opacity-50"
+          >
+            {isEncrypted ? 'Change Passphrase' : 'Encrypt Local Data'}
+          </button>
+        </form>
+        <p className="text-xs text-gray-500 mb-4">
+          Data is encrypted with AES-GCM using a key derived from your passphrase. The passphrase is never stored; if you lose it, the data cannot be recovered.
+        </p>
+
+        <div className="flex items-center justify-between pt-4 border-t border-red-500/10">
+          <span className="text-sm text-gray-400">{message}</span>
+          <div className="flex space-x-2">
+            {isEncrypted && (
+              <button
+                onClick={() => run(removeStoragePassphrase, 'Encryption removed')}
+                disabled={isBusy}
+                className="px-4 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-sm text-gray-300 hover:text-white transition-colors"
+              >
+                Remove Encryption
+              </button>
+            )}
+            <button
+              onClick={handleClear}
+              disabled={isBusy}
+              className="flex items-center space-x-2 px-4 py-2 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-300 hover:bg-red-500/20 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Clear Local Data</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default DataVaultPanel;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AlertTriangle, XCircle, X } from 'lucide-react';
+import type { ContractError } from '../lib/errors';
+
+interface ErrorNoticeProps {
+  error: ContractError;
+  onDismiss?: () => void;
+}
+
+// Explains a failed contract call and what to do next
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onDismiss }) => {
+  const style = error.isUserRejection
+    ? { icon: AlertTriangle, color: 'text-gray-300', border: 'bg-charcoal/40 border-gray-500/20' }
+    : { icon: XCircle, color: 'text-red-400', border: 'bg-red-500/10 border-red-500/20' };
+  const Icon = style.icon;
+
+  return (
+    <div role="alert" className={`flex items-start space-x-3 p-3 border rounded-lg ${style.border}`}>
+      <Icon className={`w-5 h-5 mt-0.5 flex-shrink-0 ${style.color}`} />
+      <div className="flex-1 text-sm">
+        <p className={`font-semibold ${style.color}`}>{error.title}</p>
+        <p className="text-gray-300">{error.message}</p>
+        <p className="text-gray-400 mt-1">{error.action}</p>
+      </div>
+      {onDismiss && (
+        <button
+          onClick={onDismiss}
+          className="text-gray-500 hover:text-white transition-colors"
+          title="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -1,12 +1,18 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Menu, X, Wallet, Shield, TrendingUp, Users } from 'lucide-react';
+import { Menu, X, Wallet, Shield, TrendingUp, Users, AlertTriangle } from 'lucide-react';
 import { useCreditContext } from '../contexts/CreditContext';
+import { useNetwork } from '../contexts/NetworkContext';
+import { useWallet } from '../contexts/WalletContext';
+import NetworkSelector from './NetworkSelector';
+import TransactionCenter from './TransactionCenter';
 import WalletButton from './WalletButton';
 
 const Header: React.FC = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { isWalletConnected } = useCreditContext();
+  const { chainId } = useWallet();
+  const { network, isWrongNetwork, isSwitching, error: networkError, selectNetwork } = useNetwork();
 
   const navItems = [
     { name: 'Dashboard', icon: TrendingUp, href: '#dashboard' },
@@ -63,6 +69,8 @@ const Header: React.FC = () => {
             transition={{ duration: 0.6 }}
             className="flex items-center space-x-4"
           >
+            <TransactionCenter />
+            <NetworkSelector />
             <WalletButton />
             
             {/* Mobile Menu Button */}
@@ -75,6 +83,33 @@ const Header: React.FC = () => {
           </motion.div>
         </div>
 
+        {/* Wrong Network */}
+        {(isWrongNetwork || networkError) && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            className="flex items-center justify-between py-3 border-t border-yellow-500/20"
+          >
+            <div className="flex items-center space-x-2 text-sm text-yellow-300">
+              <AlertTriangle className="w-4 h-4" />
+              <span>
+                {isWrongNetwork
+                  ? `Your wallet is on chain ${chainId}, which CreditChain does not support.`
+                  : networkError}
+              </span>
+            </div>
+            {isWrongNetwork && (
+              <button
+                onClick={() => selectNetwork(network.chainId)}
+                disabled={isSwitching}
+                className="px-4 py-1.5 bg-yellow-500/20 border border-yellow-500/40 rounded-lg text-sm text-yellow-200 hover:bg-yellow-500/30 transition-colors disabled:opacity-50"
+              >
+                {isSwitching ? 'Switching...' : `Switch to ${network.name}`}
+              </button>
+            )}
+          </motion.div>
+        )}
+
         {/* Mobile Menu */}
         {isMobileMenuOpen && (
           <motion.div
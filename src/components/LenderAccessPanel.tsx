@@ -0,0 +1,240 @@
+import React, { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { KeyRound, Search, UserPlus, UserMinus, History } from 'lucide-react';
+import type { Address } from 'viem';
+import { useTransactions } from '../contexts/TransactionContext';
+import { useWallet } from '../contexts/WalletContext';
+import { useCreditScoreRegistry } from '../hooks/useContract';
+import { useContractRead } from '../hooks/useContractRead';
+import { useLenderAccessChanges, useLenders } from '../hooks/useEvents';
+import { decodeContractError, type ContractError } from '../lib/errors';
+import { shortenAddress } from '../lib/wallet';
+import ErrorNotice from './ErrorNotice';
+import TransactionStatus from './TransactionStatus';
+
+const SEARCH_LIMIT = 5;
+const HISTORY_LIMIT = 10;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Company name from the LenderPortal; shared reads keep one request per lender
+const LenderName: React.FC<{ lender: Address }> = ({ lender }) => {
+  const { data } = useContractRead('LenderPortal', 'getLenderInfo', [lender]);
+  const [companyName, isApproved] = data ?? [];
+
+  return (
+    <div>
+      <p className="text-white text-sm">{companyName || 'Unregistered lender'}</p>
+      <p className="text-xs text-gray-500 font-mono" title={lender}>
+        {shortenAddress(lender)}
+        {data && !isApproved && <span className="font-sans text-yellow-400"> · not approved</span>}
+      </p>
+    </div>
+  );
+};
+
+// Which lenders may read the borrower's score, with grants, revocations and their history
+const LenderAccessPanel: React.FC = () => {
+  const { account } = useWallet();
+  const { grantLenderAccess, revokeLenderAccess, isLoading: contractLoading } = useCreditScoreRegistry();
+  const { latest } = useTransactions();
+  const lenders = useLenders();
+  const changes = useLenderAccessChanges();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Address[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<ContractError | null>(null);
+  const accessTransaction = latest('CreditScoreRegistry', ['grantLenderAccess', 'revokeLenderAccess']);
+
+  // Refreshed when LenderAccessGranted or LenderAccessRevoked for this wallet is indexed
+  const { data: authorized = [], error: readError } = useContractRead(
+    'CreditScoreRegistry',
+    'getAuthorizedLenders',
+    account && !contractLoading ? [account as Address] : null,
+    { account: account as Address | undefined },
+  );
+
+  const nameOf = useMemo(() => {
+    const names = new Map(lenders.map(record => [record.lender.toLowerCase(), record.companyName]));
+    return (lender: string) => names.get(lender.toLowerCase());
+  }, [lenders]);
+
+  const results = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (!term) return [];
+    return lenders
+      .filter(record => record.isApproved
+        && !authorized.some(lender => sameAddress(lender, record.lender))
+        && (record.companyName.toLowerCase().includes(term) || record.lender.toLowerCase().includes(term)))
+      .slice(0, SEARCH_LIMIT);
+  }, [lenders, authorized, query]);
+
+  const isBusy = progress !== null || contractLoading;
+  const selectedAuthorized = selected.filter(lender => authorized.some(item => sameAddress(item, lender)));
+
+  const toggle = (lender: Address) => {
+    setSelected(current => (current.some(item => sameAddress(item, lender))
+      ? current.filter(item => !sameAddress(item, lender))
+      : [...current, lender]));
+  };
+
+  // Writes one transaction per lender, in order; stops at the first one that fails or is declined
+  const runEach = async (targets: Address[], verb: string, action: (lender: Address) => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      for (const [index, lender] of targets.entries()) {
+        setProgress(targets.length > 1 ? `${verb} ${index + 1} of ${targets.length}` : verb);
+        await action(lender);
+      }
+      setSelected([]);
+    } catch (error) {
+      console.error('Lender access update failed:', error);
+      setActionError(decodeContractError(error));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleGrant = (lender: Address, name: string) => {
+    setQuery('');
+    runEach([lender], 'Granting', () => grantLenderAccess(lender, name));
+  };
+
+  const handleRevoke = (targets: Address[]) => {
+    if (targets.length > 1 && !window.confirm(`Revoke access for ${targets.length} lenders? Each revocation is a separate transaction.`)) return;
+    runEach(targets, 'Revoking', lender => revokeLenderAccess(lender, nameOf(lender)));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+      className="relative group"
+    >
+      <div className="absolute inset-0 bg-gradient-to-r from-violet-500/10 to-red-500/10 rounded-2xl blur-xl group-hover:blur-2xl transition-all duration-300" />
+
+      <div className="relative backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-6 hover:bg-midnight/50 transition-all duration-300">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <KeyRound className="w-5 h-5 text-red-400" />
+            <div>
+              <h3 className="text-xl font-bold text-white">Lender Access</h3>
+              <p className="text-sm text-gray-400">Lenders you allow to read your credit score</p>
+            </div>
+          </div>
+          {account && <span className="text-sm text-gray-400">{authorized.length} authorized</span>}
+        </div>
+
+        {!account ? (
+          <p className="text-sm text-gray-400">Connect a wallet to manage which lenders can read your score.</p>
+        ) : (
+          <div className="space-y-6">
+            {/* Grant Access */}
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  placeholder="Search approved lenders by name or address"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className="w-full pl-9 pr-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+                />
+              </div>
+              {query.trim() && results.length === 0 && (
+                <p className="text-xs text-gray-500">No approved lender without access matches "{query.trim()}".</p>
+              )}
+              {results.map(record => (
+                <div key={record.lender} className="flex items-center justify-between p-3 bg-charcoal/40 border border-red-500/10 rounded-lg">
+                  <div>
+                    <p className="text-white text-sm">{record.companyName}</p>
+                    <p className="text-xs text-gray-500 font-mono" title={record.lender}>{shortenAddress(record.lender)}</p>
+                  </div>
+                  <button
+                    onClick={() => handleGrant(record.lender, record.companyName)}
+                    disabled={isBusy}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-sm text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200 disabled:opacity-50"
+                  >
+                    <UserPlus className="w-4 h-4" />
+                    <span>Grant</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* Authorized Lenders */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-gray-300">Authorized</h4>
+                {selectedAuthorized.length > 0 && (
+                  <button
+                    onClick={() => handleRevoke(selectedAuthorized)}
+                    disabled={isBusy}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-300 hover:bg-red-500/20 transition-colors disabled:opacity-50"
+                  >
+                    <UserMinus className="w-3.5 h-3.5" />
+                    <span>Revoke selected ({selectedAuthorized.length})</span>
+                  </button>
+                )}
+              </div>
+              {readError !== null && (
+                <p className="text-xs text-red-300">Could not load your authorized lenders: {decodeContractError(readError).message}</p>
+              )}
+              {readError === null && authorized.length === 0 && (
+                <p className="text-sm text-gray-500">You have not granted any lender access. Lenders holding the registry's lender role can still read your score.</p>
+              )}
+              {authorized.map(lender => (
+                <div key={lender} className="flex items-center justify-between p-3 bg-charcoal/40 border border-red-500/10 rounded-lg">
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.some(item => sameAddress(item, lender))}
+                      onChange={() => toggle(lender)}
+                      className="accent-red-500"
+                    />
+                    <LenderName lender={lender} />
+                  </label>
+                  <button
+                    onClick={() => handleRevoke([lender])}
+                    disabled={isBusy}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-300 hover:bg-red-500/20 transition-colors disabled:opacity-50"
+                  >
+                    <UserMinus className="w-3.5 h-3.5" />
+                    <span>Revoke</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {progress && <p className="text-sm text-gray-400">{progress}…</p>}
+            {actionError && <ErrorNotice error={actionError} onDismiss={() => setActionError(null)} />}
+            {accessTransaction && <TransactionStatus transaction={accessTransaction} />}
+
+            {/* History */}
+            {changes.length > 0 && (
+              <div className="space-y-2 pt-4 border-t border-red-500/10">
+                <h4 className="flex items-center space-x-2 text-sm font-semibold text-gray-300">
+                  <History className="w-4 h-4" />
+                  <span>History</span>
+                </h4>
+                {changes.slice(0, HISTORY_LIMIT).map(change => (
+                  <div key={`${change.transactionHash}:${change.lender}`} className="flex items-center justify-between text-xs">
+                    <span className={change.granted ? 'text-green-300' : 'text-red-300'}>
+                      {change.granted ? 'Granted' : 'Revoked'}
+                    </span>
+                    <span className="text-gray-300">{nameOf(change.lender) ?? shortenAddress(change.lender)}</span>
+                    <span className="text-gray-500">{new Date(change.timestamp).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default LenderAccessPanel;
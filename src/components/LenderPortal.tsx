@@ -1,20 +1,46 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Building, Users, TrendingUp, Shield, BarChart3, FileText, CheckCircle } from 'lucide-react';
+import { formatEther, parseEther } from 'viem';
+import { Building, Users, TrendingUp, Shield, BarChart3, FileText, CheckCircle, Clock } from 'lucide-react';
 import { useLenderPortal } from '../hooks/useContract';
+import { useCreditRequests } from '../hooks/useEvents';
 import { useCreditContext } from '../contexts/CreditContext';
+import { useTransactions } from '../contexts/TransactionContext';
+import { decodeContractError, notConnectedError, type ContractError } from '../lib/errors';
+import { shortenAddress } from '../lib/wallet';
+import type { CreditRequestOutcome } from '../lib/indexer';
+import ErrorNotice from './ErrorNotice';
+import TransactionStatus from './TransactionStatus';
+
+const OUTCOME_STYLES: Record<CreditRequestOutcome, string> = {
+  pending: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400',
+  approved: 'bg-green-500/10 border-green-500/20 text-green-400',
+  rejected: 'bg-red-500/10 border-red-500/20 text-red-400',
+};
+
+const inputClass = 'w-full px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30';
+
+const DECIMAL = /^\d+(\.\d+)?$/;
 
 const LenderPortal: React.FC = () => {
-  const [requestedAccess, setRequestedAccess] = useState(false);
+  // Queued when the request could not go out yet; the operation queue sends it later
+  const [accessRequest, setAccessRequest] = useState<'sent' | 'queued' | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [transactionHash, setTransactionHash] = useState<string | null>(null);
+  const [lenderError, setLenderError] = useState<ContractError | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
   const [registrationData, setRegistrationData] = useState({
     companyName: '',
-    licenseNumber: ''
+    licenseNumber: '',
+    regions: '',
+    creditLimit: '',
+    interestRate: ''
   });
   
   const { requestAPIAccess, registerLender, isLoading: contractLoading } = useLenderPortal();
   const { isWalletConnected } = useCreditContext();
+  const { latest } = useTransactions();
+  const lenderTransaction = latest('LenderPortal', ['registerLender', 'requestAPIAccess']);
+  const creditRequests = useCreditRequests();
 
   const features = [
     {
@@ -52,24 +78,19 @@ const LenderPortal: React.FC = () => {
 
   const handleRequestAccess = async () => {
     if (!isWalletConnected) {
-      alert('Please connect your wallet first');
+      setLenderError(notConnectedError());
       return;
     }
     
     setIsProcessing(true);
-    setTransactionHash(null);
+    setLenderError(null);
     
     try {
-      const result = await requestAPIAccess('premium');
-      setTransactionHash(result.transactionHash);
-      setRequestedAccess(true);
-      
-      setTimeout(() => {
-        alert(`API Access granted! Transaction: ${result.transactionHash.slice(0, 10)}...`);
-      }, 500);
+      const hash = await requestAPIAccess('premium');
+      setAccessRequest(hash ? 'sent' : 'queued');
     } catch (error) {
       console.error('API access request failed:', error);
-      alert('Request failed. Please try again.');
+      setLenderError(decodeContractError(error));
     } finally {
       setIsProcessing(false);
     }
@@ -77,28 +98,32 @@ const LenderPortal: React.FC = () => {
   
   const handleRegisterLender = async () => {
     if (!isWalletConnected) {
-      alert('Please connect your wallet first');
+      setLenderError(notConnectedError());
       return;
     }
     
-    if (!registrationData.companyName || !registrationData.licenseNumber) {
-      alert('Please fill in all required fields');
+    const { companyName, licenseNumber, creditLimit, interestRate } = registrationData;
+    const regions = registrationData.regions.split(',').map(region => region.trim()).filter(Boolean);
+    if (!companyName || !licenseNumber || regions.length === 0 || !creditLimit || !interestRate) {
+      setFormError('Please fill in all fields');
+      return;
+    }
+    if (!DECIMAL.test(creditLimit.trim()) || !DECIMAL.test(interestRate.trim()) || Number(interestRate) > 100) {
+      setFormError('Enter the credit limit in ETH and the interest rate as a percentage, e.g. 5.25');
       return;
     }
     
+    setFormError(null);
     setIsProcessing(true);
-    setTransactionHash(null);
+    setLenderError(null);
     
     try {
-      const result = await registerLender(registrationData.companyName, registrationData.licenseNumber);
-      setTransactionHash(result.transactionHash);
-      
-      setTimeout(() => {
-        alert(`Registration successful! Transaction: ${result.transactionHash.slice(0, 10)}...`);
-      }, 500);
+      // The contract keeps the rate in basis points: 5.25% is 525
+      const rateBasisPoints = BigInt(Math.round(Number(interestRate) * 100));
+      await registerLender(companyName, licenseNumber, regions, parseEther(creditLimit.trim()), rateBasisPoints);
     } catch (error) {
       console.error('Registration failed:', error);
-      alert('Registration failed. Please try again.');
+      setLenderError(decodeContractError(error));
     } finally {
       setIsProcessing(false);
     }
@@ -201,15 +226,44 @@ const LenderPortal: React.FC = () => {
                     placeholder="Company Name"
                     value={registrationData.companyName}
                     onChange={(e) => setRegistrationData({...registrationData, companyName: e.target.value})}
-                    className="w-full px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+                    className={inputClass}
                   />
                   <input
                     type="text"
                     placeholder="License Number"
                     value={registrationData.licenseNumber}
                     onChange={(e) => setRegistrationData({...registrationData, licenseNumber: e.target.value})}
-                    className="w-full px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Supported Regions (comma separated, e.g. US, EU)"
+                    value={registrationData.regions}
+                    onChange={(e) => setRegistrationData({...registrationData, regions: e.target.value})}
+                    className={inputClass}
                   />
+                  <div className="grid grid-cols-2 gap-3">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="Credit Limit (ETH)"
+                      value={registrationData.creditLimit}
+                      onChange={(e) => setRegistrationData({...registrationData, creditLimit: e.target.value})}
+                      className={inputClass}
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="Interest Rate (%)"
+                      value={registrationData.interestRate}
+                      onChange={(e) => setRegistrationData({...registrationData, interestRate: e.target.value})}
+                      className={inputClass}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Approved requests are offered at this rate; medium-risk borrowers pay 2 points more.
+                  </p>
+                  {formError && <p className="text-sm text-red-400">{formError}</p>}
                 </div>
                 <motion.button
                   onClick={handleRegisterLender}
@@ -224,12 +278,16 @@ const LenderPortal: React.FC = () => {
                 </motion.button>
               </div>
               
-              {/* Transaction Hash Display */}
-              {transactionHash && (
-                <div className="mb-4 p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
-                  <p className="text-green-400 text-xs font-mono">
-                    Transaction: {transactionHash.slice(0, 10)}...{transactionHash.slice(-8)}
-                  </p>
+              {lenderError && (
+                <div className="mb-4">
+                  <ErrorNotice error={lenderError} onDismiss={() => setLenderError(null)} />
+                </div>
+              )}
+
+              {/* Transaction Status */}
+              {lenderTransaction && (
+                <div className="mb-4">
+                  <TransactionStatus transaction={lenderTransaction} />
                 </div>
               )}
               
@@ -240,12 +298,19 @@ const LenderPortal: React.FC = () => {
               )}
 
               <div className="space-y-3">
-                {requestedAccess ? (
+                {accessRequest === 'sent' && (
                   <div className="flex items-center justify-center space-x-2 py-3 bg-green-500/20 border border-green-500/30 rounded-lg">
                     <CheckCircle className="w-5 h-5 text-green-400" />
                     <span className="text-green-400 font-semibold">Access Requested Successfully</span>
                   </div>
-                ) : (
+                )}
+                {accessRequest === 'queued' && (
+                  <div className="flex items-center justify-center space-x-2 py-3 px-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+                    <Clock className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+                    <span className="text-yellow-300 text-sm">Access request queued; it is sent once you are back online on the right network</span>
+                  </div>
+                )}
+                {accessRequest === null && (
                   <motion.button
                     onClick={handleRequestAccess}
                     disabled={contractLoading || isProcessing || !isWalletConnected}
@@ -269,6 +334,39 @@ const LenderPortal: React.FC = () => {
           </div>
         </motion.div>
       </div>
+
+      {/* Credit Requests */}
+      {creditRequests.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.6 }}
+          className="backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-8"
+        >
+          <h3 className="text-xl font-bold text-white mb-1">Credit Requests</h3>
+          <p className="text-sm text-gray-400 mb-6">Requests submitted from this lender account</p>
+          <div className="space-y-2">
+            {creditRequests.map(request => (
+              <div key={String(request.requestId)} className="flex flex-wrap items-center justify-between gap-2 p-3 bg-charcoal/30 rounded-lg text-sm">
+                <div className="flex items-center space-x-3">
+                  <span className="text-gray-500">#{String(request.requestId)}</span>
+                  <span className="font-mono text-white">{shortenAddress(request.borrower)}</span>
+                  <span className="text-gray-400">{formatEther(request.amount)} requested</span>
+                </div>
+                <div className="flex items-center space-x-3">
+                  {request.approvedAmount !== undefined && request.outcome === 'approved' && (
+                    <span className="text-gray-300">{formatEther(request.approvedAmount)} approved</span>
+                  )}
+                  <span className={`px-2 py-0.5 border rounded-md text-xs font-medium capitalize ${OUTCOME_STYLES[request.outcome]}`}>
+                    {request.outcome}
+                  </span>
+                  <span className="text-gray-500">{new Date(request.submittedAt).toLocaleDateString()}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
     </section>
   );
 };
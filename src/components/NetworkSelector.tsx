@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Globe, ChevronDown, Check, AlertTriangle, Loader } from 'lucide-react';
+import { useNetwork } from '../contexts/NetworkContext';
+import { CONTRACT_NAMES } from '../lib/networks';
+
+const NetworkSelector: React.FC = () => {
+  const { networks, network, isWrongNetwork, isSwitching, selectNetwork } = useNetwork();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleSelect = (chainId: number) => {
+    setIsOpen(false);
+    selectNetwork(chainId);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isSwitching}
+        className={`flex items-center space-x-2 px-3 py-2 rounded-lg border transition-colors ${
+          isWrongNetwork
+            ? 'bg-yellow-500/10 border-yellow-500/40 text-yellow-300 hover:bg-yellow-500/20'
+            : 'bg-charcoal/50 border-red-500/10 text-gray-300 hover:bg-charcoal/70'
+        }`}
+      >
+        {isSwitching ? (
+          <Loader className="w-4 h-4 animate-spin" />
+        ) : isWrongNetwork ? (
+          <AlertTriangle className="w-4 h-4" />
+        ) : (
+          <Globe className="w-4 h-4" />
+        )}
+        <span className="hidden sm:inline text-sm font-medium">
+          {isWrongNetwork ? 'Wrong Network' : network.shortName}
+        </span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {/* Network List */}
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-64 p-2 bg-midnight/95 border border-red-500/20 rounded-lg backdrop-blur-xl z-50"
+          >
+            {networks.map(option => {
+              const deployed = CONTRACT_NAMES.filter(name => option.contracts[name]).length;
+              const isActive = option.chainId === network.chainId && !isWrongNetwork;
+              return (
+                <button
+                  key={option.chainId}
+                  onClick={() => handleSelect(option.chainId)}
+                  className="w-full flex items-center justify-between p-2 rounded-lg hover:bg-charcoal/50 transition-colors"
+                >
+                  <div className="text-left">
+                    <p className="text-white text-sm">{option.name}</p>
+                    <p className="text-xs text-gray-500">
+                      Chain {option.chainId} • {deployed}/{CONTRACT_NAMES.length} contracts
+                    </p>
+                  </div>
+                  {isActive && <Check className="w-4 h-4 text-red-400" />}
+                </button>
+              );
+            })}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default NetworkSelector;
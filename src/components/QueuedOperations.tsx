@@ -0,0 +1,96 @@
+import React from 'react';
+import { Clock, Loader, PauseCircle, AlertTriangle, XCircle, RotateCcw, Trash2 } from 'lucide-react';
+import { useOperationQueue } from '../contexts/OperationQueueContext';
+import { useWallet } from '../contexts/WalletContext';
+import { getNetwork } from '../lib/networks';
+import type { PendingOperation } from '../lib/storage';
+import { isDue } from '../lib/transactions';
+
+const STATUS_STYLES = {
+  queued: { icon: Clock, spin: false, color: 'text-gray-300', border: 'bg-charcoal/40 border-gray-500/20', text: 'Queued' },
+  sending: { icon: Loader, spin: true, color: 'text-yellow-400', border: 'bg-yellow-500/10 border-yellow-500/20', text: 'Sending' },
+  paused: { icon: PauseCircle, spin: false, color: 'text-gray-400', border: 'bg-charcoal/40 border-gray-500/20', text: 'Paused' },
+  conflict: { icon: AlertTriangle, spin: false, color: 'text-orange-400', border: 'bg-orange-500/10 border-orange-500/20', text: 'Conflict' },
+  failed: { icon: XCircle, spin: false, color: 'text-red-400', border: 'bg-red-500/10 border-red-500/20', text: 'Failed' },
+} as const;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Contract writes that have not been sent yet, with what each is waiting for
+const QueuedOperations: React.FC = () => {
+  const { operations, isOnline, retry, cancel } = useOperationQueue();
+  const { status, chainId: walletChainId } = useWallet();
+
+  if (operations.length === 0) return null;
+
+  const waitingFor = (op: PendingOperation) => {
+    if (op.status !== 'queued') return null;
+    if (!isOnline) return 'Waiting for a connection';
+    if (status !== 'connected' || walletChainId !== op.chainId) {
+      return `Waiting for the wallet on ${getNetwork(op.chainId)?.name ?? `chain ${op.chainId}`}`;
+    }
+    return isDue(op) ? 'Waiting to be sent' : `Next attempt at ${formatTime(op.nextAttemptAt)}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-semibold text-gray-300">Queued</h4>
+      {operations.map(op => {
+        const style = STATUS_STYLES[op.status];
+        const Icon = style.icon;
+        const detail = waitingFor(op);
+
+        return (
+          <div key={op.id} className="space-y-2">
+            <div className="flex items-baseline justify-between">
+              <p className="text-white text-sm font-medium">{op.label}</p>
+              <p className="text-xs text-gray-500 whitespace-nowrap ml-3">{formatTime(op.createdAt)}</p>
+            </div>
+            <p className="text-xs text-gray-500">
+              {op.contract}.{op.method} · {getNetwork(op.chainId)?.name ?? `Chain ${op.chainId}`}
+              {op.nonce !== undefined && ` · nonce ${op.nonce}`}
+            </p>
+            <div className={`p-3 border rounded-lg ${style.border}`}>
+              <div className={`flex items-center space-x-2 text-xs ${style.color}`}>
+                <Icon className={`w-4 h-4 ${style.spin ? 'animate-spin' : ''}`} />
+                <span className="font-medium">{style.text}</span>
+                {op.attempts > 0 && <span className="text-gray-400">{op.attempts} failed {op.attempts === 1 ? 'attempt' : 'attempts'}</span>}
+              </div>
+              {detail && <p className="text-xs text-gray-400 mt-1">{detail}</p>}
+              {op.lastError && (
+                <div className="text-xs mt-2">
+                  <p className={`font-semibold ${style.color}`}>{op.lastError.title}</p>
+                  <p className="text-gray-300">{op.lastError.explanation}</p>
+                  <p className="text-gray-400">{op.lastError.action}</p>
+                </div>
+              )}
+            </div>
+            {op.status !== 'sending' && (
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => retry(op.id)}
+                  className="flex-1 flex items-center justify-center space-x-1 py-1.5 bg-charcoal/50 border border-red-500/10 rounded-lg text-xs text-gray-300 hover:bg-charcoal/70 transition-colors"
+                  title="Try sending it now"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  <span>Retry now</span>
+                </button>
+                <button
+                  onClick={() => cancel(op.id)}
+                  className="flex-1 flex items-center justify-center space-x-1 py-1.5 bg-charcoal/50 border border-red-500/10 rounded-lg text-xs text-gray-300 hover:bg-charcoal/70 transition-colors"
+                  title="Remove it from the queue without sending it"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                  <span>Cancel</span>
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QueuedOperations;
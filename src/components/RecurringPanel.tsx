@@ -0,0 +1,129 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Repeat, Home, Landmark, Briefcase, PlayCircle, Zap, CircleDot } from 'lucide-react';
+import { useCreditContext } from '../contexts/CreditContext';
+import { CADENCE_LABELS, type OccurrenceStatus, type RecurringKind, type RecurringSeries } from '../lib/recurring';
+
+const kindIcons: Record<RecurringKind, React.ElementType> = {
+  salary: Briefcase,
+  rent: Home,
+  loan: Landmark,
+  subscription: PlayCircle,
+  bill: Zap,
+  other: CircleDot,
+};
+
+const kindLabels: Record<RecurringKind, string> = {
+  salary: 'Income',
+  rent: 'Rent',
+  loan: 'Loan',
+  subscription: 'Subscription',
+  bill: 'Bill',
+  other: 'Other',
+};
+
+const occurrenceColors: Record<OccurrenceStatus, string> = {
+  'on-time': 'bg-green-400',
+  late: 'bg-yellow-400',
+  missed: 'bg-red-500',
+};
+
+const statusStyles: Record<RecurringSeries['status'], string> = {
+  active: 'bg-green-500/20 text-green-300',
+  overdue: 'bg-red-500/20 text-red-300',
+  ended: 'bg-gray-500/20 text-gray-400',
+};
+
+const RECENT_OCCURRENCES = 12;
+
+const RecurringPanel: React.FC = () => {
+  const { recurringSeries } = useCreditContext();
+  const flagged = recurringSeries.reduce((sum, s) => sum + s.missedCount + s.lateCount, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+      className="relative group"
+    >
+      <div className="absolute inset-0 bg-gradient-to-r from-red-500/10 to-violet-500/10 rounded-2xl blur-xl group-hover:blur-2xl transition-all duration-300" />
+
+      <div className="relative backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-6 hover:bg-midnight/50 transition-all duration-300">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white">Recurring Payments</h3>
+            <p className="text-sm text-gray-400">Rent, income, loans and subscriptions detected in your ledger</p>
+          </div>
+          {flagged > 0 && (
+            <span className="px-3 py-1 bg-red-500/20 text-red-300 text-sm rounded-full">
+              {flagged} missed or late
+            </span>
+          )}
+        </div>
+
+        {/* Series */}
+        <div className="space-y-3">
+          {recurringSeries.map(series => {
+            const Icon = kindIcons[series.kind];
+            return (
+              <div key={series.id} className="p-4 bg-charcoal/20 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <div className="p-2 bg-charcoal/50 rounded-lg">
+                      <Icon className="w-4 h-4 text-violet-300" />
+                    </div>
+                    <div>
+                      <p className="text-white font-medium">{series.description}</p>
+                      <p className="text-sm text-gray-400">
+                        {kindLabels[series.kind]} • {CADENCE_LABELS[series.cadence]} • ${series.expectedAmount.toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <span className={`text-xs px-2 py-0.5 rounded-full capitalize ${statusStyles[series.status]}`}>
+                      {series.status}
+                    </span>
+                    {series.status !== 'ended' && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        Next due {new Date(series.nextDueDate).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between mt-3">
+                  <div className="flex items-center space-x-1">
+                    {series.occurrences.slice(-RECENT_OCCURRENCES).map(occurrence => (
+                      <div
+                        key={occurrence.expectedDate}
+                        title={`${occurrence.expectedDate}: ${occurrence.status}${occurrence.daysLate && occurrence.daysLate > 0 ? ` (${occurrence.daysLate}d late)` : ''}`}
+                        className={`w-2.5 h-2.5 rounded-full ${occurrenceColors[occurrence.status]}`}
+                      />
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    {series.onTimeCount} on time
+                    {series.lateCount > 0 && <span className="text-yellow-400"> • {series.lateCount} late</span>}
+                    {series.missedCount > 0 && <span className="text-red-400"> • {series.missedCount} missed</span>}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {recurringSeries.length === 0 && (
+          <div className="text-center py-8 text-gray-400">
+            <Repeat className="w-8 h-8 mx-auto mb-2 text-gray-500" />
+            <p>No recurring series yet</p>
+            <p className="text-sm text-gray-500">A series appears after three regular payments to the same payee</p>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default RecurringPanel;
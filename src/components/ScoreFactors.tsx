@@ -2,52 +2,64 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { CreditCard, TrendingUp, Clock, PieChart, Plus } from 'lucide-react';
 import { useCreditContext } from '../contexts/CreditContext';
+import { formatWeight, listScorecards } from '../lib/scoring';
+import type { FactorKey } from '../types/credit';
 
 const ScoreFactors: React.FC = () => {
-  const { creditScore } = useCreditContext();
+  const { creditScore, scorecard, selectScorecard } = useCreditContext();
+  const { weights } = scorecard;
 
   const factors = [
     {
       name: 'Payment History',
+      key: 'paymentHistory' as FactorKey,
       value: creditScore.factors.paymentHistory,
       icon: CreditCard,
-      description: 'On-time payments and payment consistency',
-      weight: '35%',
+      description: 'On-time rent, loan and bill installments',
+      weight: formatWeight(weights.paymentHistory),
       color: 'from-green-400 to-emerald-500'
     },
     {
       name: 'Credit Utilization',
+      key: 'creditUtilization' as FactorKey,
       value: creditScore.factors.creditUtilization,
       icon: PieChart,
       description: 'Percentage of available credit used',
-      weight: '30%',
+      weight: formatWeight(weights.creditUtilization),
       color: 'from-red-400 to-violet-500'
     },
     {
       name: 'Credit Length',
+      key: 'creditLength' as FactorKey,
       value: creditScore.factors.creditLength,
       icon: Clock,
       description: 'Average age of credit accounts',
-      weight: '15%',
+      weight: formatWeight(weights.creditLength),
       color: 'from-violet-400 to-pink-500'
     },
     {
       name: 'Credit Mix',
+      key: 'creditMix' as FactorKey,
       value: creditScore.factors.creditMix,
       icon: TrendingUp,
       description: 'Variety of credit account types',
-      weight: '10%',
+      weight: formatWeight(weights.creditMix),
       color: 'from-yellow-400 to-orange-500'
     },
     {
       name: 'New Credit',
+      key: 'newCredit' as FactorKey,
       value: creditScore.factors.newCredit,
       icon: Plus,
       description: 'Recent credit inquiries and accounts',
-      weight: '10%',
+      weight: formatWeight(weights.newCredit),
       color: 'from-red-400 to-pink-500'
     }
-  ];
+  ].map(factor => ({
+    ...factor,
+    // Recommendations are sorted by priority, so the first match is the most useful one
+    recommendation: creditScore.recommendations.find(rec => rec.factor === factor.key),
+  }));
 
   return (
     <motion.div
@@ -59,12 +71,26 @@ const ScoreFactors: React.FC = () => {
       <div className="text-center space-y-2">
         <h3 className="text-2xl font-bold text-white">Score Factors</h3>
         <p className="text-gray-400">Breakdown of your credit score components</p>
+        <div className="flex items-center justify-center space-x-2 text-sm text-gray-400">
+          <span>Scorecard</span>
+          <select
+            value={scorecard.id}
+            onChange={(e) => selectScorecard(e.target.value)}
+            className="px-3 py-1 bg-charcoal/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+          >
+            {listScorecards().map(card => (
+              <option key={card.id} value={card.id}>{card.name} v{card.version}</option>
+            ))}
+          </select>
+          <span className="font-mono text-xs text-gray-500">Scored with {creditScore.scorecardVersion}</span>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         {factors.map((factor, index) => (
           <motion.div
-            key={factor.name}
+            key={factor.key}
+            id={`factor-${factor.key}`}
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.6, delay: index * 0.1 }}
@@ -103,6 +129,13 @@ const ScoreFactors: React.FC = () => {
                 <p className="text-xs text-gray-400 leading-relaxed">
                   {factor.description}
                 </p>
+
+                {factor.recommendation && (
+                  <p className="text-xs text-gray-300 leading-relaxed border-t border-red-500/10 pt-2">
+                    <span className="text-green-400 font-mono">+{factor.recommendation.estimatedImpact} pts</span>{' '}
+                    {factor.recommendation.detail}
+                  </p>
+                )}
               </div>
             </div>
           </motion.div>
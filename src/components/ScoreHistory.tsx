@@ -1,13 +1,48 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip } from 'recharts';
-import { TrendingUp, Calendar } from 'lucide-react';
+import { TrendingUp, Calendar, Link2 } from 'lucide-react';
 import { useCreditContext } from '../contexts/CreditContext';
+import { useScoreUpdates } from '../hooks/useEvents';
+import { MAX_DAILY_POINTS, buildScoreHistory, type HistoryGranularity, type ScoreHistoryPoint } from '../lib/scoring';
+
+interface HistoryTooltipProps {
+  active?: boolean;
+  payload?: Array<{ value: number; payload: ScoreHistoryPoint }>;
+  label?: string;
+}
+
+const granularities: Array<{ value: HistoryGranularity; label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
 
 const ScoreHistory: React.FC = () => {
-  const { creditScore } = useCreditContext();
+  const { creditScore, transactions, accounts, scorecard, scoreSnapshots } = useCreditContext();
+  const [granularity, setGranularity] = useState<HistoryGranularity>('monthly');
+  const [range, setRange] = useState({ from: '', to: '' });
+  const scoreUpdates = useScoreUpdates();
+  // Newest first, each with the change from the update before it
+  const publishedScores = scoreUpdates
+    .map((update, index) => ({ ...update, change: index > 0 ? update.score - scoreUpdates[index - 1].score : null }))
+    .reverse()
+    .slice(0, 5);
+
+  const history = useMemo(
+    () => buildScoreHistory({ transactions, accounts }, {
+      granularity,
+      from: range.from || undefined,
+      to: range.to || undefined,
+      scorecard,
+    }),
+    [transactions, accounts, granularity, range, scorecard]
+  );
+
+  const pointsGained = history.length > 1 ? history[history.length - 1].score - history[0].score : 0;
+  const transactionsInRange = history.reduce((sum, point) => sum + point.transactions, 0);
 
-  const CustomTooltip = ({ active, payload, label }: any) => {
+  const CustomTooltip = ({ active, payload, label }: HistoryTooltipProps) => {
     if (active && payload && payload.length) {
       return (
         <div className="backdrop-blur-xl bg-midnight/90 border border-red-500/10 rounded-lg p-3 shadow-lg">
@@ -41,21 +76,63 @@ const ScoreHistory: React.FC = () => {
             </div>
             <div>
               <h3 className="text-xl font-bold text-white">Score History</h3>
-              <p className="text-sm text-gray-400">6-month trend analysis</p>
+              <p className="text-sm text-gray-400">
+                Rescored from your ledger · {scoreSnapshots.length} recalculations this session
+              </p>
             </div>
           </div>
-          <div className="flex items-center space-x-2 text-sm text-gray-400">
-            <Calendar className="w-4 h-4" />
-            <span>Last 6 months</span>
+          <div className="flex items-center space-x-1 p-1 bg-charcoal/50 border border-red-500/10 rounded-lg">
+            {granularities.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setGranularity(option.value)}
+                className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                  granularity === option.value ? 'bg-gradient-to-r from-red-600 to-violet-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
           </div>
         </div>
 
+        {/* Date Range */}
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-400">
+          <Calendar className="w-4 h-4" />
+          <input
+            type="date"
+            value={range.from}
+            max={range.to || undefined}
+            onChange={(e) => setRange({ ...range, from: e.target.value })}
+            className="px-2 py-1 bg-charcoal/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from || undefined}
+            onChange={(e) => setRange({ ...range, to: e.target.value })}
+            className="px-2 py-1 bg-charcoal/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+          />
+          {(range.from || range.to) && (
+            <button
+              onClick={() => setRange({ from: '', to: '' })}
+              className="px-2 py-1 text-gray-400 hover:text-white transition-colors"
+            >
+              All time
+            </button>
+          )}
+          {granularity === 'daily' && (
+            <span className="text-xs text-gray-500">Daily view shows up to the last {MAX_DAILY_POINTS} days</span>
+          )}
+        </div>
+
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={creditScore.history}>
+            <LineChart data={history}>
               <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
               <XAxis 
-                dataKey="month" 
+                dataKey="period" 
                 axisLine={false}
                 tickLine={false}
                 tick={{ fill: '#9ca3af', fontSize: 12 }}
@@ -87,7 +164,9 @@ const ScoreHistory: React.FC = () => {
 
         <div className="mt-6 grid grid-cols-3 gap-4">
           <div className="text-center p-4 bg-charcoal/30 rounded-lg">
-            <div className="text-xl font-bold text-green-400">+22</div>
+            <div className={`text-xl font-bold ${pointsGained >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {pointsGained >= 0 ? '+' : ''}{pointsGained}
+            </div>
             <div className="text-sm text-gray-400">Points gained</div>
           </div>
           <div className="text-center p-4 bg-charcoal/30 rounded-lg">
@@ -95,10 +174,39 @@ const ScoreHistory: React.FC = () => {
             <div className="text-sm text-gray-400">Current score</div>
           </div>
           <div className="text-center p-4 bg-charcoal/30 rounded-lg">
-            <div className="text-xl font-bold text-violet-400">320</div>
-            <div className="text-sm text-gray-400">Total transactions</div>
+            <div className="text-xl font-bold text-violet-400">{transactionsInRange}</div>
+            <div className="text-sm text-gray-400">Transactions in range</div>
           </div>
         </div>
+
+        {/* Published Scores */}
+        {publishedScores.length > 0 && (
+          <div className="mt-6">
+            <div className="flex items-center space-x-2 mb-3">
+              <Link2 className="w-4 h-4 text-violet-400" />
+              <h4 className="text-sm font-semibold text-white">Published on chain</h4>
+              <span className="text-xs text-gray-500">{scoreUpdates.length} updates</span>
+            </div>
+            <div className="space-y-2">
+              {publishedScores.map(update => (
+                <div key={update.transactionHash} className="flex items-center justify-between p-3 bg-charcoal/30 rounded-lg text-sm">
+                  <div className="flex items-center space-x-3">
+                    <span className="font-bold text-white">{update.score}</span>
+                    {update.change !== null && update.change !== 0 && (
+                      <span className={update.change > 0 ? 'text-green-400' : 'text-red-400'}>
+                        {update.change > 0 ? '+' : ''}{update.change}
+                      </span>
+                    )}
+                    <span className="text-gray-500">v{update.version}</span>
+                  </div>
+                  <span className="text-gray-400">
+                    {new Date(update.timestamp).toLocaleDateString()} · block {update.blockNumber}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </motion.div>
   );
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FlaskConical, Plus, X, RotateCcw, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+import { useCreditContext } from '../contexts/CreditContext';
+import { FACTOR_LABELS, getTierBand, simulateWhatIf, type WhatIfAction } from '../lib/scoring';
+import type { FactorKey } from '../types/credit';
+
+type ActionKind = WhatIfAction['kind'];
+
+const actionTemplates: Array<{ kind: ActionKind; label: string; defaultAmount: number }> = [
+  { kind: 'payDown', label: 'Pay off debt', defaultAmount: 2000 },
+  { kind: 'recurringPayment', label: 'Add recurring rent payment', defaultAmount: 1200 },
+  { kind: 'newCreditLine', label: 'Open a new credit line', defaultAmount: 5000 },
+  { kind: 'purchase', label: 'Make a large purchase', defaultAmount: 1000 },
+];
+
+const buildAction = (kind: ActionKind, amount: number): WhatIfAction => {
+  switch (kind) {
+    case 'payDown': return { kind, amount };
+    case 'recurringPayment': return { kind, amount, description: 'Rent Payment', category: 'Housing', months: 6 };
+    case 'newCreditLine': return { kind, limit: amount };
+    case 'purchase': return { kind, amount, description: 'Large purchase' };
+  }
+};
+
+const describeAction = (action: WhatIfAction) => {
+  switch (action.kind) {
+    case 'payDown': return `Pay off $${action.amount.toLocaleString()}`;
+    case 'recurringPayment': return `Recurring $${action.amount.toLocaleString()} ${action.description.toLowerCase()} over the last ${action.months} months`;
+    case 'newCreditLine': return `Open a new $${action.limit.toLocaleString()} credit line`;
+    case 'purchase': return `Spend $${action.amount.toLocaleString()} on a purchase`;
+  }
+};
+
+const DeltaBadge: React.FC<{ value: number }> = ({ value }) => {
+  if (value > 0) {
+    return <span className="flex items-center text-green-400"><ArrowUp className="w-3 h-3" />{value}</span>;
+  }
+  if (value < 0) {
+    return <span className="flex items-center text-red-400"><ArrowDown className="w-3 h-3" />{Math.abs(value)}</span>;
+  }
+  return <span className="flex items-center text-gray-500"><Minus className="w-3 h-3" />0</span>;
+};
+
+const ScoreSimulator: React.FC = () => {
+  const { transactions, accounts, scorecard } = useCreditContext();
+  const [actions, setActions] = useState<WhatIfAction[]>([]);
+  const [kind, setKind] = useState<ActionKind>('payDown');
+  const [amount, setAmount] = useState(String(actionTemplates[0].defaultAmount));
+
+  // Runs the real scoring engine on a copy of the ledger; context state is never touched
+  const result = useMemo(
+    () => simulateWhatIf({ transactions, accounts }, actions, { scorecard }),
+    [transactions, accounts, actions, scorecard]
+  );
+  const projectedBand = getTierBand(result.projected.score, scorecard);
+
+  const handleKindChange = (next: ActionKind) => {
+    setKind(next);
+    setAmount(String(actionTemplates.find(t => t.kind === next)?.defaultAmount ?? ''));
+  };
+
+  const handleAddAction = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!Number.isFinite(value) || value <= 0) return;
+    setActions(prev => [...prev, buildAction(kind, value)]);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+      className="relative group"
+    >
+      <div className="absolute inset-0 bg-gradient-to-r from-violet-500/10 to-red-500/10 rounded-2xl blur-xl group-hover:blur-2xl transition-all duration-300" />
+
+      <div className="relative backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-6 hover:bg-midnight/50 transition-all duration-300">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-gradient-to-r from-violet-500/20 to-red-600/20">
+              <FlaskConical className="w-6 h-6 text-violet-400" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-white">What-if Simulator</h3>
+              <p className="text-sm text-gray-400">See how hypothetical actions would move your score</p>
+            </div>
+          </div>
+          {actions.length > 0 && (
+            <button
+              onClick={() => setActions([])}
+              className="flex items-center space-x-1 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Reset</span>
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Scenario Builder */}
+          <div className="space-y-4">
+            <form onSubmit={handleAddAction} className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={kind}
+                onChange={(e) => handleKindChange(e.target.value as ActionKind)}
+                className="flex-1 px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white focus:outline-none focus:border-red-500/30"
+              >
+                {actionTemplates.map(template => (
+                  <option key={template.kind} value={template.kind}>{template.label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="1"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="sm:w-32 px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+                placeholder="Amount"
+              />
+              <motion.button
+                type="submit"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="flex items-center justify-center p-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg hover:from-red-500 hover:to-violet-500 transition-all duration-200"
+              >
+                <Plus className="w-5 h-5 text-white" />
+              </motion.button>
+            </form>
+
+            <div className="space-y-2">
+              <AnimatePresence>
+                {actions.map((action, index) => {
+                  const skipped = result.unapplied.find(skip => skip.index === index);
+                  return (
+                    <motion.div
+                      key={`${action.kind}-${index}`}
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      exit={{ opacity: 0, x: 10 }}
+                      className="flex items-center justify-between p-3 bg-charcoal/20 rounded-lg"
+                    >
+                      <div>
+                        <span className={`text-sm ${skipped ? 'text-gray-500 line-through' : 'text-gray-300'}`}>{describeAction(action)}</span>
+                        {skipped && <p className="text-xs text-yellow-300">{skipped.reason}; this action has no effect</p>}
+                      </div>
+                      <button
+                        onClick={() => setActions(prev => prev.filter((_, i) => i !== index))}
+                        className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </motion.div>
+                  );
+                })}
+              </AnimatePresence>
+              {actions.length === 0 && (
+                <p className="text-sm text-gray-500">Add an action to build a scenario.</p>
+              )}
+            </div>
+          </div>
+
+          {/* Projection */}
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="text-center p-4 bg-charcoal/30 rounded-lg">
+                <div className="text-xl font-bold text-gray-300">{result.baseline.score}</div>
+                <div className="text-sm text-gray-400">Current</div>
+              </div>
+              <div className="text-center p-4 bg-charcoal/30 rounded-lg">
+                <div className={`text-xl font-bold bg-gradient-to-r ${projectedBand.color} bg-clip-text text-transparent`}>
+                  {result.projected.score}
+                </div>
+                <div className="text-sm text-gray-400">{result.projected.tier}</div>
+              </div>
+              <div className="text-center p-4 bg-charcoal/30 rounded-lg">
+                <div className="text-xl font-bold flex justify-center">
+                  <DeltaBadge value={result.scoreDelta} />
+                </div>
+                <div className="text-sm text-gray-400">Change</div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {(Object.keys(FACTOR_LABELS) as FactorKey[]).map(key => (
+                <div key={key} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-400">{FACTOR_LABELS[key]}</span>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-gray-300 font-mono">
+                      {result.baseline.factors[key]}% → {result.projected.factors[key]}%
+                    </span>
+                    <DeltaBadge value={result.factorDeltas[key]} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ScoreSimulator;
@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Upload, FileText, AlertTriangle, CheckCircle, Copy } from 'lucide-react';
+import { useCreditContext } from '../contexts/CreditContext';
+import {
+  buildImportPreview,
+  csvRowsToStatementRows,
+  detectFormat,
+  guessMapping,
+  isCompleteMapping,
+  parseCsv,
+  parseStatementRows,
+  type ColumnMapping,
+  type CsvTable,
+  type DateFormat,
+  type StatementFormat,
+  type StatementRow,
+} from '../lib/import';
+
+interface StatementImporterProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Step = 'select' | 'mapping' | 'preview' | 'done';
+
+const mappingFields: Array<{ key: keyof ColumnMapping; label: string; required?: boolean }> = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'description', label: 'Description', required: true },
+  { key: 'amount', label: 'Amount (signed)' },
+  { key: 'debit', label: 'Debit / money out' },
+  { key: 'credit', label: 'Credit / money in' },
+  { key: 'category', label: 'Category' },
+  { key: 'type', label: 'Type' },
+];
+
+const dateFormats: DateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+const StatementImporter: React.FC<StatementImporterProps> = ({ isOpen, onClose }) => {
+  const { transactions, accounts, importTransactions, suggestCategory } = useCreditContext();
+  const [step, setStep] = useState<Step>('select');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<StatementFormat>('csv');
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>({});
+  const [statementRows, setStatementRows] = useState<StatementRow[]>([]);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('MM/DD/YYYY');
+  const [accountId, setAccountId] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importedCount, setImportedCount] = useState(0);
+
+  const preview = useMemo(
+    () => buildImportPreview(format, statementRows, transactions, { dateFormat }),
+    [format, statementRows, transactions, dateFormat]
+  );
+  const rowsToImport = preview.rows.filter(row => !skipDuplicates || !row.duplicateOf);
+  const duplicateCount = preview.rows.filter(row => row.duplicateOf).length;
+
+  const reset = () => {
+    setStep('select');
+    setFileName('');
+    setCsvTable(null);
+    setMapping({});
+    setStatementRows([]);
+    setAccountId('');
+    setImportedCount(0);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const detected = detectFormat(file.name, text);
+    setFileName(file.name);
+    setFormat(detected);
+
+    if (detected === 'csv') {
+      const table = parseCsv(text);
+      setCsvTable(table);
+      setMapping(guessMapping(table.headers));
+      setStep('mapping');
+    } else {
+      setStatementRows(parseStatementRows(detected, text));
+      setStep('preview');
+    }
+  };
+
+  const handleConfirmMapping = () => {
+    if (!csvTable || !isCompleteMapping(mapping)) return;
+    setStatementRows(csvRowsToStatementRows(csvTable, mapping));
+    setStep('preview');
+  };
+
+  const handleImport = () => {
+    const count = importTransactions(rowsToImport.map(row => ({
+      ...row.transaction,
+      accountId: accountId || undefined,
+    })));
+    setImportedCount(count);
+    setStep('done');
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={handleClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-midnight/90 border border-red-500/20 rounded-2xl p-6 max-w-3xl w-full max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center space-x-3 mb-4">
+              <Upload className="w-5 h-5 text-red-400" />
+              <h3 className="text-xl font-bold text-white">Import Bank Statement</h3>
+              {fileName && <span className="text-sm text-gray-400 font-mono">{fileName}</span>}
+            </div>
+
+            {step === 'select' && (
+              <label className="flex flex-col items-center justify-center p-10 border-2 border-dashed border-red-500/20 rounded-xl cursor-pointer hover:border-red-500/40 transition-colors">
+                <FileText className="w-10 h-10 text-gray-400 mb-3" />
+                <span className="text-white font-medium">Choose a CSV, OFX/QFX or QIF file</span>
+                <span className="text-sm text-gray-400">Nothing is imported until you confirm the preview</span>
+                <input type="file" accept=".csv,.ofx,.qfx,.qif,text/csv" onChange={handleFile} className="hidden" />
+              </label>
+            )}
+
+            {step === 'mapping' && csvTable && (
+              <div className="space-y-4">
+                <p className="text-gray-400 text-sm">
+                  Match the columns in your file to transaction fields. Use either a signed amount column or debit and credit columns.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {mappingFields.map(field => (
+                    <label key={field.key} className="flex items-center justify-between space-x-3 text-sm">
+                      <span className="text-gray-300">{field.label}{field.required && ' *'}</span>
+                      <select
+                        value={mapping[field.key] ?? ''}
+                        onChange={(e) => setMapping({
+                          ...mapping,
+                          [field.key]: e.target.value === '' ? undefined : Number(e.target.value)
+                        })}
+                        className="flex-1 max-w-[12rem] px-3 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white focus:outline-none focus:border-red-500/30"
+                      >
+                        <option value="">Not in file</option>
+                        {csvTable.headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                  <label className="flex items-center justify-between space-x-3 text-sm">
+                    <span className="text-gray-300">Date format</span>
+                    <select
+                      value={dateFormat}
+                      onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                      className="flex-1 max-w-[12rem] px-3 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white focus:outline-none focus:border-red-500/30"
+                    >
+                      {dateFormats.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500">{csvTable.rows.length} data rows found</p>
+              </div>
+            )}
+
+            {step === 'preview' && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  <span className="text-green-400">{preview.rows.length - duplicateCount} new</span>
+                  <span className="text-yellow-400">{duplicateCount} duplicates</span>
+                  <span className="text-red-400">{preview.rejected.length} rejected</span>
+                  <label className="flex items-center space-x-2 text-gray-300">
+                    <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                    <span>Skip duplicates</span>
+                  </label>
+                  <select
+                    value={accountId}
+                    onChange={(e) => setAccountId(e.target.value)}
+                    className="px-3 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white focus:outline-none focus:border-red-500/30"
+                  >
+                    <option value="">No linked account</option>
+                    {accounts.map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+                  </select>
+                </div>
+
+                <div className="max-h-72 overflow-y-auto space-y-1">
+                  {preview.rows.map(row => (
+                    <div
+                      key={row.line}
+                      className={`flex items-center justify-between p-2 rounded-lg text-sm ${row.duplicateOf ? 'bg-yellow-500/10' : 'bg-charcoal/20'}`}
+                    >
+                      <div className="flex items-center space-x-3">
+                        <span className="text-gray-500 font-mono w-10">#{row.line}</span>
+                        <span className="text-gray-400">{row.transaction.date}</span>
+                        <span className="text-white">{row.transaction.description}</span>
+                        {row.duplicateOf && <Copy className="w-3 h-3 text-yellow-400" />}
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className="text-xs text-gray-400 capitalize">{row.transaction.type}</span>
+                        <span className="text-gray-400">{suggestCategory(row.transaction)}</span>
+                        <span className="text-white font-mono">${row.transaction.amount.toLocaleString()}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {preview.rejected.length > 0 && (
+                  <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg space-y-1 max-h-40 overflow-y-auto">
+                    {preview.rejected.map(row => (
+                      <p key={row.line} className="text-xs text-red-400 flex items-center space-x-2">
+                        <AlertTriangle className="w-3 h-3" />
+                        <span className="font-mono">Line {row.line}:</span>
+                        <span>{row.reason}</span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {step === 'done' && (
+              <div className="flex flex-col items-center py-8 space-y-2">
+                <CheckCircle className="w-10 h-10 text-green-400" />
+                <p className="text-white font-medium">Imported {importedCount} transactions</p>
+                <p className="text-sm text-gray-400">Your score has been recalculated.</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={step === 'done' ? handleClose : step === 'select' ? handleClose : reset}
+                className="flex-1 px-4 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-gray-300 hover:bg-charcoal/70 transition-colors"
+              >
+                {step === 'done' ? 'Close' : step === 'select' ? 'Cancel' : 'Start Over'}
+              </button>
+              {step === 'mapping' && (
+                <button
+                  onClick={handleConfirmMapping}
+                  disabled={!isCompleteMapping(mapping)}
+                  className="flex-1 px-4 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200 disabled:opacity-50"
+                >
+                  Preview Rows
+                </button>
+              )}
+              {step === 'preview' && (
+                <button
+                  onClick={handleImport}
+                  disabled={rowsToImport.length === 0}
+                  className="flex-1 px-4 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200 disabled:opacity-50"
+                >
+                  Import {rowsToImport.length} Transactions
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default StatementImporter;
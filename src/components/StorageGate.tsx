@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, Loader2 } from 'lucide-react';
+import { useCreditContext } from '../contexts/CreditContext';
+
+// Holds back the dashboard until local data is restored, or unlocked when encrypted
+const StorageGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { storageStatus, storageNamespace, unlockStorage } = useCreditContext();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (!(await unlockStorage(passphrase))) setError('Incorrect passphrase');
+    } catch (err) {
+      console.error('Unlock failed:', err);
+      setError('Could not read local data');
+    } finally {
+      setIsUnlocking(false);
+      setPassphrase('');
+    }
+  };
+
+  if (storageStatus === 'ready' || storageStatus === 'unavailable') {
+    return <>{children}</>;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="relative backdrop-blur-xl bg-midnight/40 border border-red-500/10 rounded-2xl p-12 flex flex-col items-center text-center"
+    >
+      {storageStatus === 'hydrating' ? (
+        <>
+          <Loader2 className="w-10 h-10 text-red-400 animate-spin mb-4" />
+          <h3 className="text-xl font-bold text-white">Restoring your ledger</h3>
+          <p className="text-sm text-gray-400">Loading transactions and score history from this device</p>
+        </>
+      ) : (
+        <>
+          <Lock className="w-10 h-10 text-red-400 mb-4" />
+          <h3 className="text-xl font-bold text-white">Local data is encrypted</h3>
+          <p className="text-sm text-gray-400 mb-6">
+            Enter the passphrase for <span className="font-mono">{storageNamespace}</span> to unlock it
+          </p>
+          <form onSubmit={handleUnlock} className="flex space-x-2 w-full max-w-sm">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoFocus
+              className="flex-1 px-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+            />
+            <button
+              type="submit"
+              disabled={!passphrase || isUnlocking}
+              className="px-4 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200 disabled:opacity-50"
+            >
+              {isUnlocking ? 'Unlocking...' : 'Unlock'}
+            </button>
+          </form>
+          {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default StorageGate;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Activity, X, Loader, Zap, Ban } from 'lucide-react';
+import { useOperationQueue } from '../contexts/OperationQueueContext';
+import { useTransactions } from '../contexts/TransactionContext';
+import { getNetwork } from '../lib/networks';
+import type { ContractError } from '../lib/errors';
+import { isFinal, isInFlight, isWaiting, type ReplacementMode, type TrackedTransaction } from '../lib/transactions';
+import ErrorNotice from './ErrorNotice';
+import QueuedOperations from './QueuedOperations';
+import TransactionStatus from './TransactionStatus';
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const TransactionCenter: React.FC = () => {
+  const { transactions, inFlightCount, clearSettled, replace } = useTransactions();
+  const { operations } = useOperationQueue();
+  const [isOpen, setIsOpen] = useState(false);
+  const [replacing, setReplacing] = useState<string | null>(null);
+  const [replaceError, setReplaceError] = useState<{ hash: string; error: ContractError } | null>(null);
+
+  const settledCount = transactions.filter(isFinal).length;
+  const queuedCount = operations.filter(isWaiting).length;
+  const activeCount = inFlightCount + queuedCount;
+
+  const handleReplace = async (tx: TrackedTransaction, mode: ReplacementMode) => {
+    setReplacing(tx.hash);
+    setReplaceError(null);
+    try {
+      await replace(tx, mode);
+    } catch (err) {
+      setReplaceError({ hash: tx.hash, error: err as ContractError });
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="relative p-2 rounded-lg bg-charcoal/50 border border-red-500/10 text-gray-300 hover:bg-charcoal/70 transition-colors"
+        title="Transactions"
+      >
+        {inFlightCount > 0 ? <Loader className="w-5 h-5 animate-spin text-yellow-400" /> : <Activity className="w-5 h-5" />}
+        {activeCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center bg-red-500 rounded-full text-xs text-white font-semibold">
+            {activeCount}
+          </span>
+        )}
+      </button>
+
+      {/* Transactions Drawer */}
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+              onClick={() => setIsOpen(false)}
+            />
+            <motion.aside
+              initial={{ x: '100%' }}
+              animate={{ x: 0 }}
+              exit={{ x: '100%' }}
+              transition={{ type: 'tween', duration: 0.25 }}
+              className="fixed inset-y-0 right-0 w-full max-w-md bg-midnight/95 border-l border-red-500/20 backdrop-blur-xl z-50 flex flex-col"
+            >
+              <div className="flex items-center justify-between p-6 border-b border-red-500/10">
+                <div>
+                  <h3 className="text-xl font-bold text-white">Transactions</h3>
+                  <p className="text-sm text-gray-400">
+                    {activeCount > 0
+                      ? [inFlightCount > 0 && `${inFlightCount} in progress`, queuedCount > 0 && `${queuedCount} queued`].filter(Boolean).join(' · ')
+                      : 'Nothing in progress'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setIsOpen(false)}
+                  className="p-2 rounded-lg hover:bg-charcoal/50 text-gray-400 hover:text-white transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                <QueuedOperations />
+                {transactions.length === 0 ? (
+                  operations.length === 0 && <p className="text-center text-gray-500 text-sm py-12">
+                    Transactions you send from CreditChain appear here.
+                  </p>
+                ) : (
+                  transactions.map(tx => (
+                    <div key={tx.hash} className="space-y-2">
+                      <div className="flex items-baseline justify-between">
+                        <p className="text-white text-sm font-medium">{tx.label}</p>
+                        <p className="text-xs text-gray-500 whitespace-nowrap ml-3">{formatTime(tx.submittedAt)}</p>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {tx.contract}.{tx.method} · {getNetwork(tx.chainId)?.name ?? `Chain ${tx.chainId}`}
+                      </p>
+                      <TransactionStatus transaction={tx} />
+                      {tx.replacedBy && (
+                        <p className="text-xs text-violet-300 font-mono">
+                          Replaced by {tx.replacedBy.slice(0, 10)}...{tx.replacedBy.slice(-8)}
+                        </p>
+                      )}
+                      {/* Replacement Actions */}
+                      {isInFlight(tx) && !tx.replacedBy && (
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => handleReplace(tx, 'speedUp')}
+                            disabled={replacing !== null}
+                            className="flex-1 flex items-center justify-center space-x-1 py-1.5 bg-charcoal/50 border border-red-500/10 rounded-lg text-xs text-gray-300 hover:bg-charcoal/70 transition-colors disabled:opacity-50"
+                            title="Resend with higher fees so it is mined sooner"
+                          >
+                            <Zap className="w-3.5 h-3.5" />
+                            <span>Speed up</span>
+                          </button>
+                          <button
+                            onClick={() => handleReplace(tx, 'cancel')}
+                            disabled={replacing !== null}
+                            className="flex-1 flex items-center justify-center space-x-1 py-1.5 bg-charcoal/50 border border-red-500/10 rounded-lg text-xs text-gray-300 hover:bg-charcoal/70 transition-colors disabled:opacity-50"
+                            title="Replace with an empty transfer so it is never mined"
+                          >
+                            <Ban className="w-3.5 h-3.5" />
+                            <span>Cancel</span>
+                          </button>
+                        </div>
+                      )}
+                      {replaceError?.hash === tx.hash && (
+                        <ErrorNotice error={replaceError.error} onDismiss={() => setReplaceError(null)} />
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+
+              {settledCount > 0 && (
+                <div className="p-6 border-t border-red-500/10">
+                  <button
+                    onClick={clearSettled}
+                    className="w-full py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-sm text-gray-300 hover:bg-charcoal/70 transition-colors"
+                  >
+                    Clear {settledCount} finished
+                  </button>
+                </div>
+              )}
+            </motion.aside>
+          </>
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
+
+export default TransactionCenter;
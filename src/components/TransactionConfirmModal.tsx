@@ -0,0 +1,115 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, Fuel } from 'lucide-react';
+import { formatGwei, formatUnits } from 'viem';
+import { useTransactions } from '../contexts/TransactionContext';
+import { getNetwork } from '../lib/networks';
+
+const formatAmount = (amount: bigint, decimals: number) => {
+  const [whole, fraction = ''] = formatUnits(amount, decimals).split('.');
+  return fraction ? `${whole}.${fraction.slice(0, 6)}` : whole;
+};
+
+const Row: React.FC<{ label: string; value: string; strong?: boolean }> = ({ label, value, strong }) => (
+  <div className="flex justify-between text-sm">
+    <span className="text-gray-400">{label}</span>
+    <span className={strong ? 'text-white font-semibold' : 'text-gray-200'}>{value}</span>
+  </div>
+);
+
+// Shows what a contract write will cost and asks the user to accept it before the wallet is asked to sign
+const TransactionConfirmModal: React.FC = () => {
+  const { confirmation, resolveConfirmation } = useTransactions();
+
+  const network = confirmation ? getNetwork(confirmation.chainId) : undefined;
+  const { symbol, decimals } = network?.nativeCurrency ?? { symbol: 'ETH', decimals: 18 };
+  const native = (amount: bigint) => `${formatAmount(amount, decimals)} ${symbol}`;
+
+  return (
+    <AnimatePresence>
+      {confirmation && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={() => resolveConfirmation(false)}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-midnight/90 border border-red-500/20 rounded-2xl p-6 max-w-md w-full"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center space-x-3 mb-1">
+              <Fuel className="w-5 h-5 text-red-400" />
+              <h3 className="text-xl font-bold text-white">Review Transaction</h3>
+            </div>
+            <p className="text-gray-300">{confirmation.label}</p>
+            <p className="text-xs text-gray-500 mb-6">
+              {confirmation.contract}.{confirmation.method} · {network?.name ?? `Chain ${confirmation.chainId}`}
+            </p>
+
+            {/* Payments */}
+            {(confirmation.quote.value > 0n || confirmation.payments.length > 0) && (
+              <div className="space-y-2 mb-4 p-3 bg-charcoal/30 rounded-lg">
+                {confirmation.quote.value > 0n && <Row label="Value sent" value={native(confirmation.quote.value)} strong />}
+                {confirmation.payments.map(payment => (
+                  <Row
+                    key={payment.label}
+                    label={payment.label}
+                    value={`${formatAmount(payment.amount, payment.decimals)} ${payment.symbol}`}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* Network Fee */}
+            <div className="space-y-2 mb-4 p-3 bg-charcoal/30 rounded-lg">
+              <Row
+                label="Gas estimate"
+                value={`${confirmation.quote.gasEstimate.toLocaleString()} (limit ${confirmation.quote.gasLimit.toLocaleString()})`}
+              />
+              <Row label="Base fee" value={`${formatGwei(confirmation.quote.baseFeePerGas)} gwei`} />
+              <Row label="Priority fee" value={`${formatGwei(confirmation.quote.maxPriorityFeePerGas)} gwei`} />
+              <Row label="Max fee" value={`${formatGwei(confirmation.quote.maxFeePerGas)} gwei`} />
+              <div className="border-t border-red-500/10 pt-2 space-y-2">
+                <Row label="Estimated total" value={native(confirmation.quote.expectedCost)} strong />
+                <Row label="Max total" value={native(confirmation.quote.maxCost)} />
+                <Row label="Wallet balance" value={native(confirmation.quote.balance)} />
+              </div>
+            </div>
+
+            {confirmation.quote.insufficientFunds && (
+              <div className="flex items-start space-x-3 mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                <AlertTriangle className="w-5 h-5 mt-0.5 flex-shrink-0 text-red-400" />
+                <p className="text-sm text-red-400">
+                  The balance does not cover the value plus the maximum network fee. Add funds to the account to continue.
+                </p>
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                onClick={() => resolveConfirmation(false)}
+                className="flex-1 px-4 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-gray-300 hover:bg-charcoal/70 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => resolveConfirmation(true)}
+                disabled={confirmation.quote.insufficientFunds}
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg text-white hover:from-red-500 hover:to-violet-500 transition-all duration-200 disabled:opacity-50"
+              >
+                Confirm
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default TransactionConfirmModal;
@@ -1,17 +1,80 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, ArrowUpRight, ArrowDownLeft, CreditCard, DollarSign, Filter } from 'lucide-react';
+import { Plus, ArrowUpRight, ArrowDownLeft, CreditCard, DollarSign, Filter, Upload, Tags, Pencil, Trash2, Check, X, Undo2, Redo2, History, Search, ArrowUp, ArrowDown } from 'lucide-react';
 import { useCreditContext } from '../contexts/CreditContext';
+import StatementImporter from './StatementImporter';
+import CategoryManager from './CategoryManager';
+import AuditLog from './AuditLog';
+import { useTransactionTotals } from '../hooks/useTransactionTotals';
+import { useVirtualList } from '../hooks/useVirtualList';
+import {
+  DEFAULT_SORT,
+  EMPTY_FILTERS,
+  createComparator,
+  createMatcher,
+  groupByMonth,
+  hasActiveFilters,
+  netOf,
+  toggleSort,
+  type SortKey,
+  type SortRule,
+  type TransactionFilters,
+  type TransactionListItem,
+} from '../lib/ledger';
+import type { Transaction, TransactionType } from '../types/credit';
+
+const VIEWPORT_HEIGHT = 480;
+const ROW_HEIGHT = 76;
+const GROUP_HEIGHT = 36;
+
+const TRANSACTION_TYPES: TransactionType[] = ['purchase', 'payment', 'income', 'transfer'];
+
+const SORT_COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'category', label: 'Category' },
+  { key: 'amount', label: 'Amount' },
+  { key: 'type', label: 'Type' },
+];
+
+const CATEGORY_COLORS = ['bg-red-500', 'bg-violet-500', 'bg-blue-500', 'bg-emerald-500', 'bg-yellow-500', 'bg-pink-500'];
+
+const itemHeight = (item: TransactionListItem) => item.kind === 'group' ? GROUP_HEIGHT : ROW_HEIGHT;
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
 
 const TransactionHistory: React.FC = () => {
-  const { transactions, addTransaction } = useCreditContext();
+  const {
+    transactions,
+    accounts,
+    categories,
+    addTransaction,
+    updateTransaction,
+    deleteTransaction,
+    linkTransaction,
+    recategorizeTransaction,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+  } = useCreditContext();
   const [showAddForm, setShowAddForm] = useState(false);
-  const [filter, setFilter] = useState<'all' | 'payment' | 'purchase' | 'income'>('all');
+  const [showImporter, setShowImporter] = useState(false);
+  const [showCategories, setShowCategories] = useState(false);
+  const [auditFilter, setAuditFilter] = useState<string | null | undefined>(undefined);
+  const [editing, setEditing] = useState<{ id: string; date: string; description: string; amount: string; type: Transaction['type'] } | null>(null);
+  const [filters, setFilters] = useState<TransactionFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<SortRule[]>(DEFAULT_SORT);
+  const [groupMonths, setGroupMonths] = useState(true);
+  const [showFilters, setShowFilters] = useState(false);
+  const totals = useTransactionTotals(filters);
   const [newTransaction, setNewTransaction] = useState({
     amount: '',
     type: 'purchase' as 'payment' | 'purchase' | 'transfer' | 'income',
     description: '',
     category: '',
+    accountId: '',
     date: new Date().toISOString().split('T')[0]
   });
 
@@ -20,19 +83,45 @@ const TransactionHistory: React.FC = () => {
     if (newTransaction.amount && newTransaction.description) {
       addTransaction({
         ...newTransaction,
-        amount: parseFloat(newTransaction.amount)
+        amount: parseFloat(newTransaction.amount),
+        accountId: newTransaction.accountId || undefined
       });
       setNewTransaction({
         amount: '',
         type: 'purchase',
         description: '',
         category: '',
+        accountId: '',
         date: new Date().toISOString().split('T')[0]
       });
       setShowAddForm(false);
     }
   };
 
+  const startEditing = (transaction: Transaction) => {
+    setEditing({
+      id: transaction.id,
+      date: transaction.date,
+      description: transaction.description,
+      amount: transaction.amount.toString(),
+      type: transaction.type,
+    });
+  };
+
+  const handleSaveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    const amount = parseFloat(editing.amount);
+    if (!editing.description || !editing.date || !Number.isFinite(amount) || amount <= 0) return;
+    updateTransaction(editing.id, {
+      date: editing.date,
+      description: editing.description,
+      amount,
+      type: editing.type,
+    });
+    setEditing(null);
+  };
+
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'payment': return <CreditCard className="w-4 h-4 text-green-400" />;
@@ -51,9 +140,142 @@ const TransactionHistory: React.FC = () => {
     }
   };
 
-  const filteredTransactions = filter === 'all' 
-    ? transactions 
-    : transactions.filter(t => t.type === filter);
+  const filteredTransactions = useMemo(
+    () => transactions.filter(createMatcher(filters)).sort(createComparator(sort)),
+    [transactions, filters, sort]
+  );
+
+  const listItems = useMemo<TransactionListItem[]>(
+    () => groupMonths
+      ? groupByMonth(filteredTransactions)
+      : filteredTransactions.map(transaction => ({ kind: 'row', transaction })),
+    [filteredTransactions, groupMonths]
+  );
+
+  const { visible, totalHeight, onScroll } = useVirtualList({ items: listItems, itemHeight, viewportHeight: VIEWPORT_HEIGHT });
+
+  const topCategories = Object.entries(totals.byCategory)
+    .filter(([, bucket]) => bucket.amount > 0)
+    .sort(([, a], [, b]) => b.amount - a.amount)
+    .slice(0, 6);
+  const categoryTotal = topCategories.reduce((sum, [, bucket]) => sum + bucket.amount, 0);
+
+  const toggleType = (type: TransactionType) => {
+    setFilters(prev => ({
+      ...prev,
+      types: prev.types.includes(type) ? prev.types.filter(t => t !== type) : [...prev.types, type],
+    }));
+  };
+
+  const handleSort = (key: SortKey, e: React.MouseEvent) => {
+    setSort(prev => toggleSort(prev, key, e.shiftKey));
+  };
+
+  const renderTransaction = (transaction: Transaction) => editing?.id === transaction.id ? (
+    <form
+      onSubmit={handleSaveEdit}
+      className="h-full grid grid-cols-2 md:grid-cols-5 gap-2 items-center p-3 bg-charcoal/30 border border-red-500/20 rounded-lg"
+    >
+      <input
+        type="date"
+        value={editing.date}
+        onChange={(e) => setEditing({ ...editing, date: e.target.value })}
+        className="px-2 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+        required
+      />
+      <input
+        type="text"
+        value={editing.description}
+        onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+        className="md:col-span-2 px-2 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+        required
+      />
+      <input
+        type="number"
+        step="0.01"
+        value={editing.amount}
+        onChange={(e) => setEditing({ ...editing, amount: e.target.value })}
+        className="px-2 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+        required
+      />
+      <div className="flex items-center space-x-2">
+        <select
+          value={editing.type}
+          onChange={(e) => setEditing({ ...editing, type: e.target.value as Transaction['type'] })}
+          className="flex-1 px-2 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+        >
+          <option value="purchase">Purchase</option>
+          <option value="payment">Payment</option>
+          <option value="income">Income</option>
+          <option value="transfer">Transfer</option>
+        </select>
+        <button type="submit" title="Save" className="p-1 text-green-400 hover:text-green-300">
+          <Check className="w-4 h-4" />
+        </button>
+        <button type="button" title="Cancel" onClick={() => setEditing(null)} className="p-1 text-gray-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </form>
+  ) : (
+    <div className="h-full flex items-center justify-between p-3 bg-charcoal/20 rounded-lg hover:bg-charcoal/30 transition-colors">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-charcoal/50 rounded-lg">
+          {getTransactionIcon(transaction.type)}
+        </div>
+        <div>
+          <p className="text-white font-medium">{transaction.description}</p>
+          <div className="flex items-center space-x-2 text-sm text-gray-400">
+            <select
+              value={transaction.category}
+              onChange={(e) => recategorizeTransaction(transaction.id, e.target.value)}
+              className="bg-transparent text-gray-400 text-sm focus:outline-none hover:text-white"
+            >
+              {!categories.includes(transaction.category) && (
+                <option value={transaction.category}>{transaction.category}</option>
+              )}
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+            <span>•</span>
+            <span>{new Date(transaction.date).toLocaleDateString()}</span>
+            <span>•</span>
+            <select
+              value={transaction.accountId ?? ''}
+              onChange={(e) => linkTransaction(transaction.id, e.target.value || null)}
+              className="bg-transparent text-gray-400 text-sm focus:outline-none hover:text-white"
+            >
+              <option value="">No account</option>
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center space-x-3">
+        <div className="flex items-center space-x-1">
+          <button onClick={() => setAuditFilter(transaction.id)} title="Edit history" className="p-1 text-gray-400 hover:text-white">
+            <History className="w-4 h-4" />
+          </button>
+          <button onClick={() => startEditing(transaction)} title="Edit" className="p-1 text-gray-400 hover:text-white">
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button onClick={() => deleteTransaction(transaction.id)} title="Delete" className="p-1 text-gray-400 hover:text-red-400">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="text-right">
+          <p className={`font-bold ${getTransactionColor(transaction.type)}`}>
+            {transaction.type === 'income' ? '+' : '-'}${transaction.amount.toLocaleString()}
+          </p>
+          <p className="text-xs text-gray-400 capitalize">{transaction.type}</p>
+        </div>
+      </div>
+    </div>
+  );
+
 
   return (
     <motion.div
@@ -69,19 +291,67 @@ const TransactionHistory: React.FC = () => {
         <div className="flex items-center justify-between mb-6">
           <div>
             <h3 className="text-xl font-bold text-white">Transaction History</h3>
-            <p className="text-sm text-gray-400">Recent financial activity</p>
+            <p className="text-sm text-gray-400">
+              {filteredTransactions.length === transactions.length
+                ? `${transactions.length.toLocaleString()} transactions`
+                : `${filteredTransactions.length.toLocaleString()} of ${transactions.length.toLocaleString()} transactions`}
+            </p>
           </div>
           <div className="flex items-center space-x-2">
-            <select
-              value={filter}
-              onChange={(e) => setFilter(e.target.value as any)}
-              className="px-3 py-1 bg-charcoal/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+            <motion.button
+              onClick={() => setShowFilters(!showFilters)}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              title="Filters"
+              className={`p-2 border rounded-lg transition-colors ${hasActiveFilters(filters) ? 'bg-red-500/20 border-red-500/30' : 'bg-charcoal/50 border-red-500/10 hover:bg-charcoal/70'}`}
             >
-              <option value="all">All</option>
-              <option value="payment">Payments</option>
-              <option value="purchase">Purchases</option>
-              <option value="income">Income</option>
-            </select>
+              <Filter className="w-4 h-4 text-gray-300" />
+            </motion.button>
+            <motion.button
+              onClick={undo}
+              disabled={!canUndo}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              title="Undo"
+              className="p-2 bg-charcoal/50 border border-red-500/10 rounded-lg hover:bg-charcoal/70 transition-colors disabled:opacity-40"
+            >
+              <Undo2 className="w-4 h-4 text-gray-300" />
+            </motion.button>
+            <motion.button
+              onClick={redo}
+              disabled={!canRedo}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              title="Redo"
+              className="p-2 bg-charcoal/50 border border-red-500/10 rounded-lg hover:bg-charcoal/70 transition-colors disabled:opacity-40"
+            >
+              <Redo2 className="w-4 h-4 text-gray-300" />
+            </motion.button>
+            <motion.button
+              onClick={() => setAuditFilter(null)}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              title="Audit log"
+              className="p-2 bg-charcoal/50 border border-red-500/10 rounded-lg hover:bg-charcoal/70 transition-colors"
+            >
+              <History className="w-4 h-4 text-gray-300" />
+            </motion.button>
+            <motion.button
+              onClick={() => setShowCategories(true)}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="p-2 bg-charcoal/50 border border-red-500/10 rounded-lg hover:bg-charcoal/70 transition-colors"
+            >
+              <Tags className="w-4 h-4 text-gray-300" />
+            </motion.button>
+            <motion.button
+              onClick={() => setShowImporter(true)}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="p-2 bg-charcoal/50 border border-red-500/10 rounded-lg hover:bg-charcoal/70 transition-colors"
+            >
+              <Upload className="w-4 h-4 text-gray-300" />
+            </motion.button>
             <motion.button
               onClick={() => setShowAddForm(!showAddForm)}
               whileHover={{ scale: 1.05 }}
@@ -130,13 +400,26 @@ const TransactionHistory: React.FC = () => {
                   className="px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
                   required
                 />
-                <input
-                  type="text"
-                  placeholder="Category"
+                <select
                   value={newTransaction.category}
                   onChange={(e) => setNewTransaction({...newTransaction, category: e.target.value})}
-                  className="px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
-                />
+                  className="px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white focus:outline-none focus:border-red-500/30"
+                >
+                  <option value="">Auto-categorize</option>
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+                <select
+                  value={newTransaction.accountId}
+                  onChange={(e) => setNewTransaction({...newTransaction, accountId: e.target.value})}
+                  className="px-3 py-2 bg-midnight/50 border border-red-500/10 rounded-lg text-white focus:outline-none focus:border-red-500/30"
+                >
+                  <option value="">No linked account</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
               </div>
               <div className="flex justify-end space-x-2 mt-4">
                 <button
@@ -157,44 +440,223 @@ const TransactionHistory: React.FC = () => {
           )}
         </AnimatePresence>
 
-        {/* Transaction List */}
-        <div className="space-y-3 max-h-96 overflow-y-auto">
-          {filteredTransactions.map((transaction, index) => (
+        {/* Search */}
+        <div className="flex flex-col md:flex-row md:items-center gap-3 mb-4">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              placeholder="Search description or category"
+              value={filters.search}
+              onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+              className="w-full pl-9 pr-3 py-2 bg-charcoal/50 border border-red-500/10 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-red-500/30"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {TRANSACTION_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => toggleType(type)}
+                className={`px-3 py-1 rounded-full text-sm capitalize border transition-colors ${filters.types.includes(type) ? 'bg-red-500/20 border-red-500/40 text-white' : 'border-red-500/10 text-gray-400 hover:text-white'}`}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Filters */}
+        <AnimatePresence>
+          {showFilters && (
             <motion.div
-              key={transaction.id}
-              initial={{ opacity: 0, x: -20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ duration: 0.3, delay: index * 0.05 }}
-              className="flex items-center justify-between p-3 bg-charcoal/20 rounded-lg hover:bg-charcoal/30 transition-colors"
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="mb-4 p-4 bg-charcoal/30 rounded-lg border border-red-500/10"
             >
-              <div className="flex items-center space-x-3">
-                <div className="p-2 bg-charcoal/50 rounded-lg">
-                  {getTransactionIcon(transaction.type)}
-                </div>
-                <div>
-                  <p className="text-white font-medium">{transaction.description}</p>
-                  <div className="flex items-center space-x-2 text-sm text-gray-400">
-                    <span>{transaction.category}</span>
-                    <span>•</span>
-                    <span>{new Date(transaction.date).toLocaleDateString()}</span>
-                  </div>
-                </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <label className="text-xs text-gray-400">
+                  Category
+                  <select
+                    value={filters.category}
+                    onChange={(e) => setFilters({ ...filters, category: e.target.value })}
+                    className="mt-1 w-full px-2 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+                  >
+                    <option value="">All categories</option>
+                    {categories.map(category => <option key={category} value={category}>{category}</option>)}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-400">
+                  From
+                  <input
+                    type="date"
+                    value={filters.from}
+                    onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                    className="mt-1 w-full px-2 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+                  />
+                </label>
+                <label className="text-xs text-gray-400">
+                  To
+                  <input
+                    type="date"
+                    value={filters.to}
+                    onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                    className="mt-1 w-full px-2 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+                  />
+                </label>
+                <label className="text-xs text-gray-400">
+                  Min amount
+                  <input
+                    type="number"
+                    value={filters.minAmount}
+                    onChange={(e) => setFilters({ ...filters, minAmount: e.target.value })}
+                    className="mt-1 w-full px-2 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+                  />
+                </label>
+                <label className="text-xs text-gray-400">
+                  Max amount
+                  <input
+                    type="number"
+                    value={filters.maxAmount}
+                    onChange={(e) => setFilters({ ...filters, maxAmount: e.target.value })}
+                    className="mt-1 w-full px-2 py-1 bg-midnight/50 border border-red-500/10 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/30"
+                  />
+                </label>
               </div>
-              <div className="text-right">
-                <p className={`font-bold ${getTransactionColor(transaction.type)}`}>
-                  {transaction.type === 'income' ? '+' : '-'}${transaction.amount.toLocaleString()}
-                </p>
-                <p className="text-xs text-gray-400 capitalize">{transaction.type}</p>
+              <div className="flex items-center justify-between mt-3">
+                <label className="flex items-center space-x-2 text-sm text-gray-300">
+                  <input type="checkbox" checked={groupMonths} onChange={(e) => setGroupMonths(e.target.checked)} />
+                  <span>Group by month</span>
+                </label>
+                <button
+                  onClick={() => setFilters(EMPTY_FILTERS)}
+                  disabled={!hasActiveFilters(filters)}
+                  className="text-sm text-gray-400 hover:text-white disabled:opacity-40"
+                >
+                  Clear filters
+                </button>
               </div>
             </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+          {[
+            { label: 'Income', value: totals.income, color: 'text-blue-400' },
+            { label: 'Spending', value: totals.spending, color: 'text-red-400' },
+            { label: 'Payments', value: totals.payments, color: 'text-green-400' },
+            { label: 'Net', value: netOf(totals), color: netOf(totals) >= 0 ? 'text-green-400' : 'text-red-400' },
+          ].map(stat => (
+            <div key={stat.label} className="p-3 bg-charcoal/20 rounded-lg">
+              <p className="text-xs text-gray-400">{stat.label}</p>
+              <p className={`font-bold ${stat.color}`}>
+                {stat.value < 0 ? '-' : ''}${Math.abs(stat.value).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              </p>
+            </div>
           ))}
         </div>
+        {topCategories.length > 0 && (
+          <div className="mb-4">
+            <div className="flex h-2 rounded-full overflow-hidden mb-2">
+              {topCategories.map(([category, bucket], index) => (
+                <div
+                  key={category}
+                  className={CATEGORY_COLORS[index % CATEGORY_COLORS.length]}
+                  style={{ width: `${(bucket.amount / categoryTotal) * 100}%` }}
+                  title={`${category}: $${bucket.amount.toLocaleString()}`}
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+              {topCategories.map(([category, bucket], index) => (
+                <button
+                  key={category}
+                  onClick={() => setFilters({ ...filters, category: filters.category === category ? '' : category })}
+                  className="flex items-center space-x-1 hover:text-white"
+                >
+                  <span className={`w-2 h-2 rounded-full ${CATEGORY_COLORS[index % CATEGORY_COLORS.length]}`} />
+                  <span>{category}</span>
+                  <span className="text-gray-500">{Math.round((bucket.amount / categoryTotal) * 100)}%</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Sort */}
+        <div className="flex items-center space-x-4 mb-2 px-1 text-xs text-gray-400" title="Shift-click to add a secondary sort">
+          <span>Sort:</span>
+          {SORT_COLUMNS.map(({ key, label }) => {
+            const position = sort.findIndex(rule => rule.key === key);
+            const rule = sort[position];
+            return (
+              <button
+                key={key}
+                onClick={(e) => handleSort(key, e)}
+                className={`flex items-center space-x-1 hover:text-white ${rule ? 'text-white' : ''}`}
+              >
+                <span>{label}</span>
+                {rule && (rule.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                {rule && sort.length > 1 && <span className="text-gray-500">{position + 1}</span>}
+              </button>
+            );
+          })}
+          {groupMonths && sort[0]?.key !== 'date' && <span className="text-gray-500">(within each month)</span>}
+        </div>
+
+        {/* Transaction List */}
+        <div>
+          {listItems.length > 0 && (
+            <div
+              onScroll={onScroll}
+              className="overflow-y-auto"
+              style={{ height: Math.min(VIEWPORT_HEIGHT, totalHeight) }}
+            >
+              <div className="relative" style={{ height: totalHeight }}>
+                {visible.map(({ item, top, height }) => (
+                  <div
+                    key={item.kind === 'group' ? `group-${item.month}` : item.transaction.id}
+                    className="absolute left-0 right-0"
+                    style={{ top, height }}
+                  >
+                    {item.kind === 'group' ? (
+                      <div className="h-full flex items-center justify-between px-1 text-sm">
+                        <span className="font-semibold text-gray-300">{formatMonth(item.month)}</span>
+                        <span className="text-gray-500">
+                          {item.count} transactions · <span className={item.net >= 0 ? 'text-green-400' : 'text-red-400'}>
+                            {item.net >= 0 ? '+' : '-'}${Math.abs(item.net).toLocaleString()}
+                          </span>
+                        </span>
+                      </div>
+                    ) : (
+                      <div className="h-full pb-2">{renderTransaction(item.transaction)}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
 
         {filteredTransactions.length === 0 && (
           <div className="text-center py-8 text-gray-400">
             <p>No transactions found</p>
+            {hasActiveFilters(filters) && (
+              <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-sm text-red-400 hover:text-red-300 mt-1">
+                Clear filters
+              </button>
+            )}
           </div>
         )}
+
+        <StatementImporter isOpen={showImporter} onClose={() => setShowImporter(false)} />
+        <CategoryManager isOpen={showCategories} onClose={() => setShowCategories(false)} />
+        <AuditLog
+          isOpen={auditFilter !== undefined}
+          transactionId={auditFilter ?? undefined}
+          onClose={() => setAuditFilter(undefined)}
+        />
       </div>
     </motion.div>
   );
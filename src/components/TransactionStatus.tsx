@@ -0,0 +1,59 @@
+import React from 'react';
+import { Loader, CheckCircle, XCircle, RefreshCw, AlertTriangle, ExternalLink } from 'lucide-react';
+import { explorerTxUrl, getNetwork } from '../lib/networks';
+import { isFinal, type TrackedTransaction } from '../lib/transactions';
+
+interface TransactionStatusProps {
+  transaction: TrackedTransaction;
+  // Show the shortened hash next to the status
+  showHash?: boolean;
+}
+
+const STATUS_STYLES = {
+  submitted: { icon: Loader, spin: true, color: 'text-gray-300', border: 'bg-charcoal/40 border-gray-500/20', text: 'Submitted' },
+  pending: { icon: Loader, spin: true, color: 'text-yellow-400', border: 'bg-yellow-500/10 border-yellow-500/20', text: 'Pending' },
+  confirmed: { icon: CheckCircle, spin: false, color: 'text-green-400', border: 'bg-green-500/10 border-green-500/20', text: 'Confirmed' },
+  reverted: { icon: XCircle, spin: false, color: 'text-red-400', border: 'bg-red-500/10 border-red-500/20', text: 'Reverted' },
+  replaced: { icon: RefreshCw, spin: false, color: 'text-violet-400', border: 'bg-violet-500/10 border-violet-500/20', text: 'Replaced' },
+  dropped: { icon: AlertTriangle, spin: false, color: 'text-gray-400', border: 'bg-charcoal/40 border-gray-500/20', text: 'Dropped' },
+} as const;
+
+const TransactionStatus: React.FC<TransactionStatusProps> = ({ transaction, showHash = true }) => {
+  const network = getNetwork(transaction.chainId);
+  const style = STATUS_STYLES[transaction.status];
+  const Icon = style.icon;
+  const explorerUrl = network && explorerTxUrl(network, transaction.hash);
+
+  const detail = transaction.status === 'confirmed' && !isFinal(transaction)
+    ? `Confirming ${transaction.confirmations}/${network?.confirmations ?? 1}`
+    : transaction.status === 'confirmed' && transaction.blockNumber !== undefined
+      ? `${style.text} in block ${transaction.blockNumber}`
+      : style.text;
+
+  return (
+    <div className={`flex items-center justify-between p-3 border rounded-lg ${style.border}`}>
+      <div className={`flex items-center space-x-2 text-xs ${style.color}`}>
+        <Icon className={`w-4 h-4 ${style.spin ? 'animate-spin' : ''}`} />
+        <span className="font-medium">{detail}</span>
+        {showHash && (
+          <span className="font-mono text-gray-400">
+            {transaction.hash.slice(0, 10)}...{transaction.hash.slice(-8)}
+          </span>
+        )}
+      </div>
+      {explorerUrl && (
+        <a
+          href={explorerUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-gray-400 hover:text-red-400 transition-colors"
+          title="View on explorer"
+        >
+          <ExternalLink className="w-4 h-4" />
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default TransactionStatus;
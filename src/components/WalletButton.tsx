@@ -1,14 +1,25 @@
-import React from 'react';
-import { motion } from 'framer-motion';
-import { Wallet, LogOut, Loader } from 'lucide-react';
-import { useCreditContext } from '../contexts/CreditContext';
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Wallet, LogOut, Loader, AlertTriangle, WifiOff } from 'lucide-react';
+import { useWallet } from '../contexts/WalletContext';
 import { useCreditScoreRegistry } from '../hooks/useContract';
+import { getNetwork } from '../lib/networks';
+import { formatEther, shortenAddress } from '../lib/wallet';
 
 const WalletButton: React.FC = () => {
-  const { isWalletConnected, walletAddress, walletBalance, connectWallet, disconnectWallet, isLoading } = useCreditContext();
-  const { contract, isLoading: contractLoading } = useCreditScoreRegistry();
+  const { providers, activeProvider, status, account, chainId, balance, error, connect, disconnect } = useWallet();
+  const { isLoading: contractLoading } = useCreditScoreRegistry();
+  const [showPicker, setShowPicker] = useState(false);
 
-  if (isLoading) {
+  const handleConnect = () => {
+    if (providers.length > 1) {
+      setShowPicker(!showPicker);
+    } else {
+      connect();
+    }
+  };
+
+  if (status === 'connecting') {
     return (
       <motion.div
         initial={{ opacity: 0 }}
@@ -16,29 +27,41 @@ const WalletButton: React.FC = () => {
         className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-red-600/20 to-violet-600/20 rounded-lg border border-red-500/30"
       >
         <Loader className="w-5 h-5 text-red-400 animate-spin" />
-        <span className="text-red-400 font-medium">Connecting...</span>
+        <span className="text-red-400 font-medium">Confirm in wallet...</span>
       </motion.div>
     );
   }
 
-  if (isWalletConnected) {
+  if (account) {
+    const isOffline = status !== 'connected';
+    const network = getNetwork(chainId);
     return (
       <div className="flex items-center space-x-3">
         <div className="hidden sm:flex items-center space-x-4 px-4 py-2 bg-gradient-to-r from-charcoal/50 to-dark-purple/50 rounded-lg border border-red-500/10 backdrop-blur-xl">
+          {activeProvider?.info.icon && (
+            <img src={activeProvider.info.icon} alt={activeProvider.info.name} className="w-6 h-6 rounded" />
+          )}
           <div className="text-right">
             <p className="text-sm text-gray-300 font-mono">
-              {walletAddress?.slice(0, 6)}...{walletAddress?.slice(-4)}
+              {shortenAddress(account)}
             </p>
             <p className="text-xs text-red-400 font-mono">
-              {walletBalance.toFixed(3)} ETH
+              {balance === null ? '—' : formatEther(balance, 3)} {network?.nativeCurrency.symbol ?? 'ETH'}
+              {chainId !== null && <span className="text-gray-500"> · {network?.shortName ?? `chain ${chainId}`}</span>}
             </p>
+            {isOffline && (
+              <p className="text-xs text-yellow-400 flex items-center justify-end space-x-1">
+                <WifiOff className="w-3 h-3" />
+                <span>{error ?? 'Disconnected'}</span>
+              </p>
+            )}
             {contractLoading && (
               <p className="text-xs text-yellow-400">Loading contracts...</p>
             )}
           </div>
         </div>
         <motion.button
-          onClick={disconnectWallet}
+          onClick={disconnect}
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
           className="flex items-center space-x-2 px-4 py-2 bg-red-500/20 border border-red-500/30 rounded-lg hover:bg-red-500/30 transition-colors group"
@@ -51,16 +74,57 @@ const WalletButton: React.FC = () => {
   }
 
   return (
-    <motion.button
-      onClick={connectWallet}
-      whileHover={{ scale: 1.05 }}
-      whileTap={{ scale: 0.95 }}
-      className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg hover:from-red-500 hover:to-violet-500 transition-all duration-200 shadow-lg hover:shadow-red-500/25 group"
-    >
-      <Wallet className="w-5 h-5 text-white group-hover:scale-110 transition-transform" />
-      <span className="text-white font-semibold">Connect Wallet</span>
-    </motion.button>
+    <div className="relative">
+      <motion.button
+        onClick={handleConnect}
+        disabled={providers.length === 0}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        title={providers.length === 0 ? 'No browser wallet detected' : undefined}
+        className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-red-600 to-violet-600 rounded-lg hover:from-red-500 hover:to-violet-500 transition-all duration-200 shadow-lg hover:shadow-red-500/25 group disabled:opacity-50"
+      >
+        <Wallet className="w-5 h-5 text-white group-hover:scale-110 transition-transform" />
+        <span className="text-white font-semibold">{providers.length === 0 ? 'No Wallet Found' : 'Connect Wallet'}</span>
+      </motion.button>
+
+      {error && (
+        <p className="absolute right-0 mt-2 text-xs text-red-400 flex items-center space-x-1 whitespace-nowrap">
+          <AlertTriangle className="w-3 h-3" />
+          <span>{error}</span>
+        </p>
+      )}
+
+      {/* Wallet Picker */}
+      <AnimatePresence>
+        {showPicker && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-64 p-2 bg-midnight/95 border border-red-500/20 rounded-lg backdrop-blur-xl z-50"
+          >
+            {providers.map(({ info }) => (
+              <button
+                key={info.uuid}
+                onClick={() => {
+                  setShowPicker(false);
+                  connect(info.rdns);
+                }}
+                className="w-full flex items-center space-x-3 p-2 rounded-lg hover:bg-charcoal/50 transition-colors"
+              >
+                {info.icon ? (
+                  <img src={info.icon} alt="" className="w-6 h-6 rounded" />
+                ) : (
+                  <Wallet className="w-6 h-6 text-gray-400" />
+                )}
+                <span className="text-white text-sm">{info.name}</span>
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
   );
 };
 
-export default WalletButton;
\ No newline at end of file
+export default WalletButton;
@@ -0,0 +1,132 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef } from 'react';
+import type {
+  Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionReturnType,
+  PublicClient,
+} from 'viem';
+import { CONTRACT_ABIS, createReadClient, type ContractAbi } from '../lib/contracts';
+import type { IndexedEvent } from '../lib/indexer';
+import type { ContractName } from '../lib/networks';
+import { createReadCache, invalidatedBy, type ReadOptions, type ReadTarget } from '../lib/reads';
+import { getDevChainProvider } from '../lib/simulator';
+import { useEventIndex } from './EventIndexContext';
+import { useNetwork } from './NetworkContext';
+import { useWallet } from './WalletContext';
+
+export type ViewName<TName extends ContractName> = ContractFunctionName<ContractAbi<TName>, 'pure' | 'view'>;
+export type ViewArgs<TName extends ContractName, TFunction extends ViewName<TName>> =
+  ContractFunctionArgs<ContractAbi<TName>, 'pure' | 'view', TFunction>;
+export type ViewResult<TName extends ContractName, TFunction extends ViewName<TName>> =
+  ContractFunctionReturnType<ContractAbi<TName>, 'pure' | 'view', TFunction, ViewArgs<TName, TFunction>>;
+
+export interface ReadCallOptions extends ReadOptions {
+  // msg.sender, for reads the contract gates on the caller
+  account?: Address;
+}
+
+interface ContractReadsContextType {
+  // Shared client for the selected network, batching view calls through Multicall3 where deployed
+  client: PublicClient;
+  readContract: <TName extends ContractName, TFunction extends ViewName<TName>>(
+    contract: TName,
+    functionName: TFunction,
+    args: ViewArgs<TName, TFunction>,
+    options?: ReadCallOptions,
+  ) => Promise<ViewResult<TName, TFunction>>;
+  // Throws unless the contract is deployed on the selected network; checked once per address
+  checkDeployment: (contract: ContractName) => Promise<void>;
+  // The target `readContract` caches a call under, for `subscribe`
+  targetFor: (contract: ContractName, functionName: string, args: readonly unknown[], account?: Address) => ReadTarget;
+  // Called whenever the read's cached value is refreshed or invalidated
+  subscribe: (target: ReadTarget, listener: () => void) => () => void;
+}
+
+const ContractReadsContext = createContext<ContractReadsContextType | undefined>(undefined);
+
+export const ContractReadsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { network } = useNetwork();
+  const { activeProvider, status, chainId: walletChainId } = useWallet();
+  const { events } = useEventIndex();
+  // Values are keyed by chain and address, so one cache serves every network and provider
+  const [cache] = useState(createReadCache);
+  const indexed = useRef<IndexedEvent[]>([]);
+
+  // Reads go through the wallet when it is on this network, like the event index
+  const provider = status === 'connected' && walletChainId === network.chainId && activeProvider
+    ? activeProvider.provider
+    : getDevChainProvider(network.chainId);
+
+  const client = useMemo(() => createReadClient(network, provider), [network, provider]);
+
+  // New events invalidate the reads they change; events dropped by a reorg may have changed
+  // anything on their chain, so every read there is refreshed
+  useEffect(() => {
+    const previous = indexed.current;
+    indexed.current = events;
+    const known = new Set(previous.map(event => event.id));
+    const current = new Set(events.map(event => event.id));
+
+    const rolledBack = new Set(previous.filter(event => !current.has(event.id)).map(event => event.chainId));
+    if (rolledBack.size > 0) cache.invalidate(target => rolledBack.has(target.chainId));
+    events
+      .filter(event => !known.has(event.id))
+      .forEach(event => cache.invalidate(invalidatedBy(event)));
+  }, [cache, events]);
+
+  const value = useMemo<ContractReadsContextType>(() => {
+    const targetFor = (contract: ContractName, functionName: string, args: readonly unknown[], account?: Address) => ({
+      chainId: network.chainId,
+      contract,
+      address: network.contracts[contract] ?? '',
+      functionName,
+      args,
+      account,
+    });
+
+    const checkDeployment = async (contract: ContractName) => {
+      const address = network.contracts[contract];
+      if (!address) throw new Error(`${contract} is not deployed on ${network.name}`);
+      const code = await cache.read(
+        targetFor(contract, 'getCode', []),
+        () => client.getCode({ address: address as Address }),
+        { maxAge: Infinity },
+      );
+      if (!code || code === '0x') throw new Error(`No ${contract} contract at ${address} on ${network.name}`);
+    };
+
+    const readContract: ContractReadsContextType['readContract'] = async (contract, functionName, args, options = {}) => {
+      const { account, ...readOptions } = options;
+      const target = targetFor(contract, functionName, args as readonly unknown[], account);
+      if (!target.address) throw new Error(`${contract} is not deployed on ${network.name}`);
+      return await cache.read(
+        target,
+        () => client.readContract({
+          abi: CONTRACT_ABIS[contract],
+          address: target.address as Address,
+          functionName,
+          args,
+          account,
+        } as Parameters<PublicClient['readContract']>[0]),
+        readOptions,
+      ) as ViewResult<typeof contract, typeof functionName>;
+    };
+
+    return { client, readContract, checkDeployment, targetFor, subscribe: cache.subscribe };
+  }, [cache, client, network]);
+
+  return (
+    <ContractReadsContext.Provider value={value}>
+      {children}
+    </ContractReadsContext.Provider>
+  );
+};
+
+export const useContractReads = () => {
+  const context = useContext(ContractReadsContext);
+  if (context === undefined) {
+    throw new Error('useContractReads must be used within a ContractReadsProvider');
+  }
+  return context;
+};
@@ -1,220 +1,605 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-
-interface Transaction {
-  id: string;
-  date: string;
-  amount: number;
-  type: 'payment' | 'purchase' | 'transfer' | 'income';
-  description: string;
-  category: string;
-}
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { CreditAccount, CreditScore, ScoreSnapshot, Transaction } from '../types/credit';
+import { DEFAULT_SCORECARD, getScorecard, scoreTransactions, type Scorecard } from '../lib/scoring';
+import { generateRecommendations } from '../lib/recommendations';
+import {
+  DEFAULT_CATEGORIES,
+  UNCATEGORIZED,
+  categorizeLedger,
+  learnFromCorrection,
+  resolveCategory,
+  type CategorizationRule,
+} from '../lib/categorization';
+import { detectRecurring, type RecurringSeries } from '../lib/recurring';
+import * as ledgerOps from '../lib/ledger';
+import {
+  EMPTY_HISTORY,
+  type AuditAction,
+  type AuditEntry,
+  type Ledger,
+  type LedgerChange,
+  type UndoHistory,
+} from '../lib/ledger';
+import * as storage from '../lib/storage';
+import { takeLegacyTransactions, type TrackedTransaction } from '../lib/transactions';
+import { formatEther } from '../lib/wallet';
+import { useWallet } from './WalletContext';
+import type { PendingOperation, PersistedCollections } from '../lib/storage';
 
-interface CreditScore {
-  score: number;
-  tier: 'Excellent' | 'Good' | 'Fair' | 'Poor';
-  factors: {
-    paymentHistory: number;
-    creditUtilization: number;
-    creditLength: number;
-    creditMix: number;
-    newCredit: number;
-  };
-  history: Array<{
-    month: string;
-    score: number;
-    transactions: number;
-  }>;
-  recommendations: string[];
-}
+export type StorageStatus = 'hydrating' | 'ready' | 'locked' | 'unavailable';
 
 interface CreditContextType {
   creditScore: CreditScore;
+  scoreSnapshots: ScoreSnapshot[];
+  scorecard: Scorecard;
+  selectScorecard: (scorecardId: string) => void;
   isWalletConnected: boolean;
   walletAddress: string | null;
   walletBalance: number;
   transactions: Transaction[];
+  accounts: CreditAccount[];
+  ledgerChange: LedgerChange;
+  recurringSeries: RecurringSeries[];
   isLoading: boolean;
   connectWallet: () => Promise<void>;
   disconnectWallet: () => void;
   updateScore: () => void;
   addTransaction: (transaction: Omit<Transaction, 'id'>) => void;
+  updateTransaction: (transactionId: string, changes: Partial<Omit<Transaction, 'id'>>) => void;
+  deleteTransaction: (transactionId: string) => void;
+  importTransactions: (batch: Array<Omit<Transaction, 'id'>>) => number;
+  addAccount: (account: Omit<CreditAccount, 'id'>) => void;
+  updateAccount: (accountId: string, changes: Partial<Omit<CreditAccount, 'id'>>) => void;
+  removeAccount: (accountId: string) => void;
+  linkTransaction: (transactionId: string, accountId: string | null) => void;
+  categories: string[];
+  categoryRules: CategorizationRule[];
+  addCategory: (name: string) => void;
+  removeCategory: (name: string) => void;
+  addCategoryRule: (rule: Omit<CategorizationRule, 'id' | 'source'>) => void;
+  removeCategoryRule: (ruleId: string) => void;
+  suggestCategory: (transaction: Pick<Transaction, 'description' | 'amount' | 'type' | 'category'>) => string;
+  recategorizeTransaction: (transactionId: string, category: string) => void;
+  categorizeAll: (overwrite?: boolean) => number;
+  auditLog: AuditEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  storageStatus: StorageStatus;
+  storageNamespace: string;
+  isEncrypted: boolean;
+  unlockStorage: (passphrase: string) => Promise<boolean>;
+  setStoragePassphrase: (passphrase: string) => Promise<void>;
+  removeStoragePassphrase: () => Promise<void>;
+  clearLocalData: () => Promise<void>;
   calculateScoreFromTransactions: () => void;
+  // Contract writes waiting to be sent, stored with the rest of the wallet's local data
+  pendingOperations: PendingOperation[];
+  setPendingOperations: React.Dispatch<React.SetStateAction<PendingOperation[]>>;
+  // Sent transactions, stored alongside and followed by TransactionContext
+  trackedTransactions: TrackedTransaction[];
+  setTrackedTransactions: React.Dispatch<React.SetStateAction<TrackedTransaction[]>>;
 }
 
 const CreditContext = createContext<CreditContextType | undefined>(undefined);
 
+const SAVE_DEBOUNCE_MS = 400;
+const MAX_SNAPSHOTS = 500;
+
+// A save waiting on the debounce, with the namespace and state it was scheduled for
+interface PendingSave {
+  namespace: string;
+  collections: Partial<PersistedCollections>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Namespaces stored before transactions moved out of localStorage pick up the wallet's share of them once
+const withLegacyTransactions = (collections: Partial<PersistedCollections>, account: string | null) =>
+  collections.trackedTransactions
+    ? collections
+    : { ...collections, trackedTransactions: takeLegacyTransactions(account) };
+
+const SEED_TRANSACTIONS: Transaction[] = [
+  {
+    id: '1',
+    date: '2025-01-15',
+    amount: 2500,
+    type: 'payment',
+    description: 'Credit Card Payment',
+    category: 'Finance',
+    accountId: 'acct-1'
+  },
+  {
+    id: '2',
+    date: '2025-01-14',
+    amount: 150,
+    type: 'purchase',
+    description: 'Grocery Store',
+    category: 'Food'
+  },
+  {
+    id: '3',
+    date: '2025-01-13',
+    amount: 5000,
+    type: 'income',
+    description: 'Salary Deposit',
+    category: 'Income'
+  },
+  {
+    id: '4',
+    date: '2025-01-12',
+    amount: 80,
+    type: 'purchase',
+    description: 'Gas Station',
+    category: 'Transportation'
+  },
+  {
+    id: '5',
+    date: '2025-01-11',
+    amount: 1200,
+    type: 'payment',
+    description: 'Rent Payment',
+    category: 'Housing'
+  }
+];
+
+const SEED_ACCOUNTS: CreditAccount[] = [
+  {
+    id: 'acct-1',
+    name: 'Rewards Visa',
+    kind: 'card',
+    openedAt: '2019-03-01',
+    limit: 10000,
+    balance: 2300
+  },
+  {
+    id: 'acct-2',
+    name: 'Auto Loan',
+    kind: 'loan',
+    openedAt: '2022-06-15',
+    limit: 18000,
+    balance: 9200
+  }
+];
+
 export const CreditProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [creditScore, setCreditScore] = useState<CreditScore>({
-    score: 742,
-    tier: 'Good',
-    factors: {
-      paymentHistory: 85,
-      creditUtilization: 72,
-      creditLength: 68,
-      creditMix: 78,
-      newCredit: 82,
-    },
-    history: [
-      { month: 'Jan', score: 720, transactions: 45 },
-      { month: 'Feb', score: 735, transactions: 52 },
-      { month: 'Mar', score: 728, transactions: 48 },
-      { month: 'Apr', score: 742, transactions: 55 },
-      { month: 'May', score: 755, transactions: 62 },
-      { month: 'Jun', score: 742, transactions: 58 },
-    ],
-    recommendations: [
-      'Pay down credit card balances to improve utilization ratio',
-      'Set up automatic payments to avoid late fees',
-      'Consider keeping old credit accounts open',
-      'Diversify your credit mix with different account types'
-    ]
+  const [creditScore, setCreditScore] = useState<CreditScore>(() => {
+    const seed = { transactions: SEED_TRANSACTIONS, accounts: SEED_ACCOUNTS };
+    const result = scoreTransactions(seed);
+    return {
+      score: result.score,
+      tier: result.tier,
+      factors: result.factors,
+      scorecardVersion: result.scorecardVersion,
+      recommendations: generateRecommendations(seed, result, DEFAULT_SCORECARD),
+    };
   });
 
-  const [isWalletConnected, setIsWalletConnected] = useState(false);
-  const [walletAddress, setWalletAddress] = useState<string | null>(null);
-  const [walletBalance, setWalletBalance] = useState(0);
-  const [transactions, setTransactions] = useState<Transaction[]>([
-    {
-      id: '1',
-      date: '2025-01-15',
-      amount: 2500,
-      type: 'payment',
-      description: 'Credit Card Payment',
-      category: 'Finance'
-    },
-    {
-      id: '2',
-      date: '2025-01-14',
-      amount: 150,
-      type: 'purchase',
-      description: 'Grocery Store',
-      category: 'Food'
-    },
-    {
-      id: '3',
-      date: '2025-01-13',
-      amount: 5000,
-      type: 'income',
-      description: 'Salary Deposit',
-      category: 'Income'
-    },
-    {
-      id: '4',
-      date: '2025-01-12',
-      amount: 80,
-      type: 'purchase',
-      description: 'Gas Station',
-      category: 'Transportation'
-    },
-    {
-      id: '5',
-      date: '2025-01-11',
-      amount: 1200,
-      type: 'payment',
-      description: 'Rent Payment',
-      category: 'Housing'
-    }
-  ]);
-  const [isLoading, setIsLoading] = useState(false);
+  const [scoreSnapshots, setScoreSnapshots] = useState<ScoreSnapshot[]>([]);
+  const [scorecard, setScorecard] = useState<Scorecard>(DEFAULT_SCORECARD);
+  const [ledger, setLedger] = useState<Ledger>({ transactions: SEED_TRANSACTIONS, accounts: SEED_ACCOUNTS });
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [ledgerChange, setLedgerChange] = useState<LedgerChange>({ revision: 0, transactions: null });
+  const [categories, setCategories] = useState<string[]>(DEFAULT_CATEGORIES);
+  const [categoryRules, setCategoryRules] = useState<CategorizationRule[]>([]);
+  const [pendingOperations, setPendingOperations] = useState<PendingOperation[]>([]);
+  const [trackedTransactions, setTrackedTransactions] = useState<TrackedTransaction[]>([]);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus>(storage.isStorageAvailable() ? 'hydrating' : 'unavailable');
+  const [hydratedNamespace, setHydratedNamespace] = useState<string | null>(null);
+  const [isEncrypted, setIsEncrypted] = useState(false);
+  const encryptionKey = useRef<CryptoKey | null>(null);
+  const pendingSave = useRef<PendingSave | null>(null);
+  const wallet = useWallet();
+  const { transactions, accounts } = ledger;
 
-  const connectWallet = async () => {
-    setIsLoading(true);
-    // Simulate wallet connection delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    setIsWalletConnected(true);
-    setWalletAddress('0x742d35Cc6634C0532925a3b8D814B3c13a5d2C48');
-    setWalletBalance(Math.random() * 10 + 1); // Random balance between 1-11 ETH
-    setIsLoading(false);
-  };
+  // Wallet state lives in WalletContext; these mirror it for existing consumers. The
+  // address survives a transient provider disconnect so the ledger namespace stays put.
+  const isWalletConnected = wallet.status === 'connected';
+  const walletAddress = wallet.account;
+  const walletBalance = wallet.balance === null ? 0 : Number(formatEther(wallet.balance, 6));
+  const isLoading = wallet.status === 'connecting';
+
+  const connectWallet = () => wallet.connect();
 
   const disconnectWallet = () => {
-    setIsWalletConnected(false);
-    setWalletAddress(null);
-    setWalletBalance(0);
-  };
-
-  const calculateScoreFromTransactions = () => {
-    const recentTransactions = transactions.slice(0, 10);
-    const paymentTransactions = recentTransactions.filter(t => t.type === 'payment');
-    const totalSpending = recentTransactions
-      .filter(t => t.type === 'purchase')
-      .reduce((sum, t) => sum + t.amount, 0);
-    const totalIncome = recentTransactions
-      .filter(t => t.type === 'income')
-      .reduce((sum, t) => sum + t.amount, 0);
-
-    // Calculate factors based on transaction patterns
-    const paymentHistory = Math.min(95, (paymentTransactions.length / recentTransactions.length) * 100 + 20);
-    const creditUtilization = Math.max(10, 100 - (totalSpending / Math.max(totalIncome, 1000)) * 100);
-    const creditLength = Math.random() * 30 + 50; // Simulated
-    const creditMix = Math.random() * 20 + 70; // Simulated
-    const newCredit = Math.random() * 25 + 65; // Simulated
-
-    // Calculate overall score
-    const newScore = Math.round(
-      (paymentHistory * 0.35) +
-      (creditUtilization * 0.30) +
-      (creditLength * 0.15) +
-      (creditMix * 0.10) +
-      (newCredit * 0.10)
-    ) * 8.5; // Scale to 850 max
-
-    const tier = newScore >= 750 ? 'Excellent' : 
-                 newScore >= 700 ? 'Good' : 
-                 newScore >= 650 ? 'Fair' : 'Poor';
-
-    setCreditScore(prev => ({
-      ...prev,
-      score: newScore,
+    wallet.disconnect();
+  };
+
+  const storageNamespace = storage.namespaceFor(walletAddress);
+
+  const calculateScoreFromTransactions = useCallback(() => {
+    const input = { transactions, accounts };
+    const result = scoreTransactions(input, { scorecard });
+    const { score, tier, factors, scorecardVersion } = result;
+    setCreditScore({
+      score,
       tier,
-      factors: {
-        paymentHistory: Math.round(paymentHistory),
-        creditUtilization: Math.round(creditUtilization),
-        creditLength: Math.round(creditLength),
-        creditMix: Math.round(creditMix),
-        newCredit: Math.round(newCredit),
-      }
-    }));
+      factors,
+      scorecardVersion,
+      recommendations: generateRecommendations(input, result, scorecard),
+    });
+    setScoreSnapshots(prev => [...prev.slice(-(MAX_SNAPSHOTS - 1)), {
+      calculatedAt: new Date().toISOString(),
+      score,
+      tier,
+      factors,
+      scorecardVersion,
+      transactionCount: transactions.length,
+    }]);
+  }, [transactions, accounts, scorecard]);
+
+  const selectScorecard = (scorecardId: string) => {
+    setScorecard(getScorecard(scorecardId));
   };
 
   const updateScore = () => {
     calculateScoreFromTransactions();
   };
 
+  // Scores per ledger version under the current scorecard: an edit's "before" is the previous edit's "after"
+  const ledgerScores = useRef({ scorecard, scores: new WeakMap<Ledger, number>() });
+
+  const scoreOf = (state: Ledger) => {
+    if (ledgerScores.current.scorecard !== scorecard) {
+      ledgerScores.current = { scorecard, scores: new WeakMap() };
+    }
+    const { scores } = ledgerScores.current;
+    let score = scores.get(state);
+    if (score === undefined) {
+      score = scoreTransactions(state, { scorecard }).score;
+      scores.set(state, score);
+    }
+    return score;
+  };
+
+  const appendAudit = (action: AuditAction, summary: string, before: Ledger, after: Ledger, revertsEntryId?: string) => {
+    const entry: AuditEntry = {
+      id: `audit-${Date.now()}-${auditLog.length}`,
+      timestamp: new Date().toISOString(),
+      actor: walletAddress ?? 'local',
+      action,
+      summary,
+      ...ledgerOps.diffLedgers(before, after),
+      scoreBefore: scoreOf(before),
+      scoreAfter: scoreOf(after),
+      revertsEntryId,
+    };
+    setAuditLog(prev => [...prev, entry]);
+    setLedgerChange(prev => ({ revision: prev.revision + 1, transactions: entry.transactions }));
+    return entry;
+  };
+
+  // Every ledger edit goes through here so it is undoable and lands in the audit log
+  const commitLedger = (next: Ledger, action: AuditAction, summary: string) => {
+    if (next === ledger) return;
+    const entry = appendAudit(action, summary, ledger, next);
+    setUndoHistory(prev => ledgerOps.recordRevision(prev, { ledger, entryId: entry.id }));
+    setLedger(next);
+  };
+
+  const undo = () => {
+    const step = ledgerOps.undo(undoHistory, ledger);
+    if (!step) return;
+    const reverted = auditLog.find(entry => entry.id === step.revision.entryId);
+    appendAudit('undo', `Undid: ${reverted?.summary ?? 'edit'}`, ledger, step.revision.ledger, step.revision.entryId);
+    setUndoHistory(step.history);
+    setLedger(step.revision.ledger);
+  };
+
+  const redo = () => {
+    const step = ledgerOps.redo(undoHistory, ledger);
+    if (!step) return;
+    const reapplied = auditLog.find(entry => entry.id === step.revision.entryId);
+    appendAudit('redo', `Redid: ${reapplied?.summary ?? 'edit'}`, ledger, step.revision.ledger, step.revision.entryId);
+    setUndoHistory(step.history);
+    setLedger(step.revision.ledger);
+  };
+
+  // Evaluated against today so upcoming and overdue occurrences are current
+  const recurringSeries = useMemo(
+    () => detectRecurring(transactions, { asOf: new Date().toISOString() }),
+    [transactions]
+  );
+
+  const suggestCategory = (transaction: Pick<Transaction, 'description' | 'amount' | 'type' | 'category'>) =>
+    resolveCategory(transaction, { categories, rules: categoryRules });
+
   const addTransaction = (transaction: Omit<Transaction, 'id'>) => {
     const newTransaction = {
       ...transaction,
+      category: suggestCategory(transaction),
       id: Date.now().toString()
     };
-    setTransactions(prev => [newTransaction, ...prev]);
-    
-    // Recalculate score after adding transaction
-    setTimeout(() => {
-      calculateScoreFromTransactions();
-    }, 100);
+    commitLedger(ledgerOps.addTransactions(ledger, [newTransaction]), 'add', `Added "${newTransaction.description}"`);
   };
 
-  // Recalculate score when transactions change
-  useEffect(() => {
-    if (transactions.length > 0) {
-      calculateScoreFromTransactions();
+  const updateTransaction = (transactionId: string, changes: Partial<Omit<Transaction, 'id'>>) => {
+    const transaction = transactions.find(t => t.id === transactionId);
+    if (!transaction) return;
+    commitLedger(ledgerOps.updateTransaction(ledger, transactionId, changes), 'update', `Edited "${transaction.description}"`);
+  };
+
+  const deleteTransaction = (transactionId: string) => {
+    const transaction = transactions.find(t => t.id === transactionId);
+    if (!transaction) return;
+    commitLedger(ledgerOps.removeTransactions(ledger, [transactionId]), 'delete', `Deleted "${transaction.description}"`);
+  };
+
+  // Adds a whole statement as one edit, so the score is recalculated once and undone together
+  const importTransactions = (batch: Array<Omit<Transaction, 'id'>>) => {
+    if (batch.length === 0) return 0;
+
+    const importId = Date.now().toString();
+    const imported = batch.map((transaction, index) => ({
+      ...transaction,
+      category: suggestCategory(transaction),
+      id: `${importId}-${index}`,
+    }));
+    commitLedger(ledgerOps.addTransactions(ledger, imported), 'import', `Imported ${imported.length} transactions`);
+    return imported.length;
+  };
+
+  const addAccount = (account: Omit<CreditAccount, 'id'>) => {
+    commitLedger(ledgerOps.addAccount(ledger, { ...account, id: `acct-${Date.now()}` }), 'account', `Added account "${account.name}"`);
+  };
+
+  const updateAccount = (accountId: string, changes: Partial<Omit<CreditAccount, 'id'>>) => {
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) return;
+    commitLedger(ledgerOps.updateAccount(ledger, accountId, changes), 'account', `Edited account "${account.name}"`);
+  };
+
+  const removeAccount = (accountId: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) return;
+    commitLedger(ledgerOps.removeAccount(ledger, accountId), 'account', `Removed account "${account.name}"`);
+  };
+
+  const linkTransaction = (transactionId: string, accountId: string | null) => {
+    const transaction = transactions.find(t => t.id === transactionId);
+    if (!transaction || transaction.accountId === (accountId ?? undefined)) return;
+
+    const account = accounts.find(a => a.id === accountId);
+    commitLedger(
+      ledgerOps.linkTransaction(ledger, transactionId, accountId ?? undefined),
+      'link',
+      account ? `Linked "${transaction.description}" to ${account.name}` : `Unlinked "${transaction.description}"`
+    );
+  };
+
+  const addCategory = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || categories.some(c => c.toLowerCase() === trimmed.toLowerCase())) return;
+    setCategories(prev => [...prev.filter(c => c !== UNCATEGORIZED), trimmed, UNCATEGORIZED]);
+  };
+
+  // Transactions and rules using a removed category fall back to Uncategorized
+  const removeCategory = (name: string) => {
+    if (name === UNCATEGORIZED) return;
+    setCategories(prev => prev.filter(c => c !== name));
+    setCategoryRules(prev => prev.filter(rule => rule.category !== name));
+    if (transactions.some(t => t.category === name)) {
+      commitLedger({
+        ...ledger,
+        transactions: transactions.map(t => t.category === name ? { ...t, category: UNCATEGORIZED } : t),
+      }, 'categorize', `Removed category "${name}"`);
+    }
+  };
+
+  const addCategoryRule = (rule: Omit<CategorizationRule, 'id' | 'source'>) => {
+    setCategoryRules(prev => [...prev, { ...rule, id: `rule-${Date.now()}`, source: 'user' }]);
+  };
+
+  const removeCategoryRule = (ruleId: string) => {
+    setCategoryRules(prev => prev.filter(rule => rule.id !== ruleId));
+  };
+
+  // A manual re-categorization also teaches the categorizer about that merchant
+  const recategorizeTransaction = (transactionId: string, category: string) => {
+    const transaction = transactions.find(t => t.id === transactionId);
+    if (!transaction || !categories.includes(category) || transaction.category === category) return;
+
+    commitLedger(
+      ledgerOps.updateTransaction(ledger, transactionId, { category }),
+      'categorize',
+      `Recategorized "${transaction.description}" as ${category}`
+    );
+    if (category !== UNCATEGORIZED) {
+      setCategoryRules(prev => learnFromCorrection(transaction, category, prev));
     }
+  };
+
+  const categorizeAll = (overwrite = false) => {
+    const next = categorizeLedger(transactions, { categories, rules: categoryRules }, overwrite);
+    const changed = next.filter((t, index) => t !== transactions[index]).length;
+    if (changed > 0) {
+      commitLedger({ ...ledger, transactions: next }, 'categorize', `Auto-categorized ${changed} transactions`);
+    }
+    return changed;
+  };
+
+  // Replaces in-memory state with a stored namespace; missing collections fall back to defaults
+  const applyCollections = useCallback((collections: Partial<PersistedCollections>) => {
+    setLedger({
+      transactions: collections.transactions ?? SEED_TRANSACTIONS,
+      accounts: collections.accounts ?? SEED_ACCOUNTS,
+    });
+    setScoreSnapshots(collections.scoreSnapshots ?? []);
+    setAuditLog(collections.auditLog ?? []);
+    setUndoHistory(EMPTY_HISTORY);
+    setLedgerChange(prev => ({ revision: prev.revision + 1, transactions: null }));
+    setScorecard(getScorecard(collections.settings?.scorecardId ?? DEFAULT_SCORECARD.id));
+    setCategories(collections.settings?.categories ?? DEFAULT_CATEGORIES);
+    setCategoryRules(collections.settings?.categoryRules ?? []);
+    setPendingOperations(collections.pendingOperations ?? []);
+    setTrackedTransactions(collections.trackedTransactions ?? []);
+  }, []);
+
+  const persisted = useMemo<Partial<PersistedCollections>>(() => ({
+    transactions: ledger.transactions,
+    accounts: ledger.accounts,
+    scoreSnapshots,
+    auditLog,
+    settings: { scorecardId: scorecard.id, categories, categoryRules },
+    pendingOperations,
+    trackedTransactions,
+  }), [ledger, scoreSnapshots, auditLog, scorecard, categories, categoryRules, pendingOperations, trackedTransactions]);
+
+  // Writes the debounced save now. The key is read here, before a namespace switch clears it.
+  const flushSave = useCallback(() => {
+    const pending = pendingSave.current;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pendingSave.current = null;
+    storage.saveCollections(pending.namespace, pending.collections, { current: encryptionKey.current })
+      .catch(error => console.error('Failed to save local data:', error));
   }, []);
 
+  // Hydrate whenever the wallet (and with it the storage namespace) changes
+  useEffect(() => {
+    // Edits still waiting on the debounce belong to the namespace being left
+    flushSave();
+    if (!storage.isStorageAvailable()) return;
+    let cancelled = false;
+    encryptionKey.current = null;
+    setHydratedNamespace(null);
+    setStorageStatus('hydrating');
+
+    storage.loadNamespace(storageNamespace)
+      .then(result => {
+        if (cancelled) return;
+        if (result.status === 'locked') {
+          setIsEncrypted(true);
+          setStorageStatus('locked');
+          return;
+        }
+        applyCollections(withLegacyTransactions(result.status === 'ready' ? result.collections : {}, walletAddress));
+        setIsEncrypted(result.status === 'ready' && result.encrypted);
+        setHydratedNamespace(storageNamespace);
+        setStorageStatus('ready');
+      })
+      .catch(error => {
+        console.error('Failed to load local data:', error);
+        if (!cancelled) setStorageStatus('unavailable');
+      });
+
+    return () => { cancelled = true; };
+  }, [storageNamespace, walletAddress, applyCollections, flushSave]);
+
+  // Only save once the current namespace is hydrated, so seed data never overwrites stored data
+  useEffect(() => {
+    if (storageStatus !== 'ready' || hydratedNamespace !== storageNamespace) return;
+    if (pendingSave.current) clearTimeout(pendingSave.current.timer);
+    pendingSave.current = {
+      namespace: storageNamespace,
+      collections: persisted,
+      timer: setTimeout(flushSave, SAVE_DEBOUNCE_MS),
+    };
+  }, [persisted, storageStatus, hydratedNamespace, storageNamespace, flushSave]);
+
+  // Unmounting flushes too
+  useEffect(() => flushSave, [flushSave]);
+
+  const unlockStorage = async (passphrase: string) => {
+    const key = await storage.unlockNamespace(storageNamespace, passphrase);
+    if (!key) return false;
+
+    setStorageStatus('hydrating');
+    let result: storage.LoadResult;
+    try {
+      result = await storage.loadNamespace(storageNamespace, key);
+    } catch (error) {
+      // Back to the passphrase form, which reports the error, rather than hydrating forever
+      setStorageStatus('locked');
+      throw error;
+    }
+    encryptionKey.current = key;
+    applyCollections(withLegacyTransactions(result.status === 'ready' ? result.collections : {}, walletAddress));
+    setHydratedNamespace(storageNamespace);
+    setStorageStatus('ready');
+    return true;
+  };
+
+  const setStoragePassphrase = async (passphrase: string) => {
+    await storage.enableEncryption(storageNamespace, passphrase, encryptionKey, persisted);
+    setIsEncrypted(true);
+  };
+
+  const removeStoragePassphrase = async () => {
+    await storage.disableEncryption(storageNamespace, encryptionKey, persisted);
+    setIsEncrypted(false);
+  };
+
+  const clearLocalData = async () => {
+    // A save still pending would write the cleared data back
+    if (pendingSave.current) clearTimeout(pendingSave.current.timer);
+    pendingSave.current = null;
+    await storage.clearNamespace(storageNamespace);
+    encryptionKey.current = null;
+    setIsEncrypted(false);
+    applyCollections({});
+    setHydratedNamespace(storageNamespace);
+    setStorageStatus('ready');
+  };
+
+  // Recalculate score when transactions change
+  useEffect(() => {
+    calculateScoreFromTransactions();
+  }, [calculateScoreFromTransactions]);
+
   return (
     <CreditContext.Provider value={{
       creditScore,
+      scoreSnapshots,
+      scorecard,
+      selectScorecard,
       isWalletConnected,
       walletAddress,
       walletBalance,
       transactions,
+      accounts,
+      ledgerChange,
+      recurringSeries,
       isLoading,
       connectWallet,
       disconnectWallet,
       updateScore,
       addTransaction,
+      updateTransaction,
+      deleteTransaction,
+      importTransactions,
+      addAccount,
+      updateAccount,
+      removeAccount,
+      linkTransaction,
+      categories,
+      categoryRules,
+      addCategory,
+      removeCategory,
+      addCategoryRule,
+      removeCategoryRule,
+      suggestCategory,
+      recategorizeTransaction,
+      categorizeAll,
+      auditLog,
+      canUndo: undoHistory.past.length > 0,
+      canRedo: undoHistory.future.length > 0,
+      undo,
+      redo,
+      storageStatus,
+      storageNamespace,
+      isEncrypted,
+      unlockStorage,
+      setStoragePassphrase,
+      removeStoragePassphrase,
+      clearLocalData,
       calculateScoreFromTransactions,
+      pendingOperations,
+      setPendingOperations,
+      trackedTransactions,
+      setTrackedTransactions,
     }}>
       {children}
     </CreditContext.Provider>
@@ -0,0 +1,138 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { createReadClient } from '../lib/contracts';
+import {
+  createCursor,
+  isCursorCurrent,
+  loadIndex,
+  saveIndexChanges,
+  syncEvents,
+  type IndexedEvent,
+  type SyncResult,
+} from '../lib/indexer';
+import { getDevChainProvider } from '../lib/simulator';
+import { useNetwork } from './NetworkContext';
+import { useWallet } from './WalletContext';
+
+export type IndexerStatus = 'loading' | 'syncing' | 'live' | 'error';
+
+interface EventIndexContextType {
+  // The selected network's contract events, oldest first
+  events: IndexedEvent[];
+  status: IndexerStatus;
+  // Last indexed block and the chain head at the last sync
+  lastBlock: number;
+  head: number;
+  error: string | null;
+}
+
+const EventIndexContext = createContext<EventIndexContextType | undefined>(undefined);
+
+const POLL_INTERVAL_MS = 4000;
+
+export const EventIndexProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { network } = useNetwork();
+  const { activeProvider, status: walletStatus, chainId: walletChainId } = useWallet();
+  const [events, setEvents] = useState<IndexedEvent[]>([]);
+  const [status, setStatus] = useState<IndexerStatus>('loading');
+  const [progress, setProgress] = useState({ lastBlock: 0, head: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  // Logs come through the wallet when it is on this network, like contract reads
+  const provider = walletStatus === 'connected' && walletChainId === network.chainId && activeProvider
+    ? activeProvider.provider
+    : getDevChainProvider(network.chainId);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const client = createReadClient(network, provider);
+    let cursor = createCursor(network);
+    let indexed: IndexedEvent[] = [];
+
+    const apply = (result: SyncResult) => {
+      const rolledBackTo = result.rolledBackTo;
+      cursor = result.cursor;
+      // Keep the array as is when nothing changed, so queries are not recomputed every poll
+      if (rolledBackTo !== undefined || result.added.length > 0) {
+        const kept = rolledBackTo === undefined ? indexed : indexed.filter(event => event.blockNumber <= rolledBackTo);
+        indexed = [...kept, ...result.added];
+        setEvents(indexed);
+      }
+      const { lastBlock } = cursor;
+      setProgress(current => (current.lastBlock === lastBlock && current.head === result.head
+        ? current
+        : { lastBlock, head: result.head }));
+      setStatus(result.caughtUp ? 'live' : 'syncing');
+    };
+
+    // Backfills batch by batch, saving each, then follows the head on a timer
+    const sync = async () => {
+      try {
+        let result: SyncResult;
+        do {
+          result = await syncEvents(client, network, cursor);
+          if (cancelled) return;
+          const rolledBackTo = result.rolledBackTo;
+          const removed = rolledBackTo === undefined ? [] : indexed.filter(event => event.blockNumber > rolledBackTo);
+          await saveIndexChanges(result.cursor, result.added, removed);
+          if (cancelled) return;
+          apply(result);
+        } while (!result.caughtUp);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        // The node or storage failed; the next poll carries on from the last saved batch
+        console.error(`Failed to index events on ${network.name}:`, err);
+        setError(err instanceof Error ? err.message : 'Failed to index contract events');
+        setStatus('error');
+      }
+      timer = setTimeout(sync, POLL_INTERVAL_MS);
+    };
+
+    const start = async () => {
+      setEvents([]);
+      setStatus('loading');
+      try {
+        const stored = await loadIndex(network.chainId);
+        if (cancelled) return;
+        if (stored.cursor && isCursorCurrent(stored.cursor, network)) {
+          cursor = stored.cursor;
+          indexed = stored.events;
+          setEvents(indexed);
+        } else if (stored.events.length > 0) {
+          // Built for another deployment; start over from the network's start block
+          await saveIndexChanges(cursor, [], stored.events);
+        }
+      } catch (err) {
+        console.error('Failed to load the event index, rebuilding it:', err);
+      }
+      if (!cancelled) sync();
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [network, provider]);
+
+  return (
+    <EventIndexContext.Provider value={{
+      events,
+      status,
+      lastBlock: progress.lastBlock,
+      head: progress.head,
+      error,
+    }}>
+      {children}
+    </EventIndexContext.Provider>
+  );
+};
+
+export const useEventIndex = () => {
+  const context = useContext(EventIndexContext);
+  if (!context) {
+    throw new Error('useEventIndex must be used within an EventIndexProvider');
+  }
+  return context;
+};
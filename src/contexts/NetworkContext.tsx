@@ -0,0 +1,98 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import {
+  DEFAULT_CHAIN_ID,
+  NETWORKS,
+  getNetwork,
+  isSupportedChain,
+  switchChain,
+  type NetworkConfig,
+} from '../lib/networks';
+import { describeWalletError } from '../lib/wallet';
+import { useWallet } from './WalletContext';
+
+interface NetworkContextType {
+  networks: NetworkConfig[];
+  // The network contracts are read from and written to
+  network: NetworkConfig;
+  // The connected wallet is on a chain missing from the registry
+  isWrongNetwork: boolean;
+  isSwitching: boolean;
+  error: string | null;
+  selectNetwork: (chainId: number) => Promise<void>;
+}
+
+const NetworkContext = createContext<NetworkContextType | undefined>(undefined);
+
+const SELECTED_NETWORK_KEY = 'creditchain.network';
+
+const initialChainId = () => {
+  const stored = Number(localStorage.getItem(SELECTED_NETWORK_KEY));
+  return isSupportedChain(stored) ? stored : DEFAULT_CHAIN_ID;
+};
+
+export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { activeProvider, status, chainId: walletChainId } = useWallet();
+  const [selectedChainId, setSelectedChainId] = useState(initialChainId);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isConnected = status === 'connected' && activeProvider !== null;
+  const isWrongNetwork = isConnected && walletChainId !== null && !isSupportedChain(walletChainId);
+
+  // A connected wallet decides the network; switching chains in the wallet switches the app
+  useEffect(() => {
+    if (isConnected && isSupportedChain(walletChainId)) {
+      setSelectedChainId(walletChainId as number);
+      setError(null);
+    }
+  }, [isConnected, walletChainId]);
+
+  useEffect(() => {
+    localStorage.setItem(SELECTED_NETWORK_KEY, String(selectedChainId));
+  }, [selectedChainId]);
+
+  const selectNetwork = async (chainId: number) => {
+    const target = getNetwork(chainId);
+    if (!target) return;
+
+    // Without a wallet the choice only affects which deployment the app reads
+    if (!isConnected || !activeProvider) {
+      setSelectedChainId(chainId);
+      return;
+    }
+
+    setIsSwitching(true);
+    setError(null);
+    try {
+      await switchChain(activeProvider.provider, target);
+      setSelectedChainId(chainId);
+    } catch (err) {
+      setError(describeWalletError(err));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const network = getNetwork(selectedChainId) ?? NETWORKS[0];
+
+  return (
+    <NetworkContext.Provider value={{
+      networks: NETWORKS,
+      network,
+      isWrongNetwork,
+      isSwitching,
+      error,
+      selectNetwork,
+    }}>
+      {children}
+    </NetworkContext.Provider>
+  );
+};
+
+export const useNetwork = () => {
+  const context = useContext(NetworkContext);
+  if (!context) {
+    throw new Error('useNetwork must be used within a NetworkProvider');
+  }
+  return context;
+};
@@ -0,0 +1,152 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import type { Address } from 'viem';
+import { createReadClient, createWriteClient } from '../lib/contracts';
+import { decodeContractError, type ContractError } from '../lib/errors';
+import { getNetwork } from '../lib/networks';
+import type { PendingOperation } from '../lib/storage';
+import {
+  createOperation,
+  isDue,
+  queueHead,
+  recordFailure,
+  requeue,
+  reserveNonce,
+  sendContractWrite,
+  toContractWrite,
+  type ContractWrite,
+} from '../lib/transactions';
+import { useCreditContext } from './CreditContext';
+import { useTransactions } from './TransactionContext';
+import { useWallet } from './WalletContext';
+
+interface OperationQueueContextType {
+  // The connected account's queued operations, oldest first
+  operations: PendingOperation[];
+  isOnline: boolean;
+  // Keeps a write that cannot go out now; `error` is why the attempt just made failed
+  enqueue: (write: ContractWrite, error?: ContractError) => void;
+  // New writes wait behind operations already queued for the account, so they go out in order
+  hasWaiting: (chainId: number, from: string) => boolean;
+  retry: (id: string) => void;
+  cancel: (id: string) => void;
+}
+
+const OperationQueueContext = createContext<OperationQueueContextType | undefined>(undefined);
+
+export const OperationQueueProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { activeProvider, status, account, chainId: walletChainId } = useWallet();
+  const { confirm, track } = useTransactions();
+  const { pendingOperations, setPendingOperations, storageStatus } = useCreditContext();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Bumped to re-check the queue once the head's backoff has passed or a send has finished
+  const [wake, setWake] = useState(0);
+  const isSending = useRef(false);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      // Connectivity is back: stop waiting out backoffs that were about the outage
+      const now = new Date().toISOString();
+      setPendingOperations(current => current.map(op => (op.status === 'queued' ? { ...op, nextAttemptAt: now } : op)));
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [setPendingOperations]);
+
+  const update = useCallback((next: PendingOperation) => {
+    // Mapping over the latest list keeps an operation cancelled meanwhile cancelled
+    setPendingOperations(current => current.map(op => (op.id === next.id ? next : op)));
+  }, [setPendingOperations]);
+
+  const remove = useCallback((id: string) => {
+    setPendingOperations(current => current.filter(op => op.id !== id));
+  }, [setPendingOperations]);
+
+  // Sends the head of the queue once the wallet is online on its network. Operations only go
+  // out from the wallet that made them, one at a time.
+  useEffect(() => {
+    if (!isOnline || status !== 'connected' || !activeProvider || !account || walletChainId === null) return;
+    // Wait for the wallet's stored queue before sending anything from it
+    if (storageStatus === 'hydrating' || isSending.current) return;
+    const network = getNetwork(walletChainId);
+    const head = queueHead(pendingOperations, walletChainId, account);
+    if (!network || !head) return;
+
+    if (!isDue(head)) {
+      const timer = setTimeout(() => setWake(count => count + 1), Date.parse(head.nextAttemptAt) - Date.now());
+      return () => clearTimeout(timer);
+    }
+
+    const send = async () => {
+      isSending.current = true;
+      const clients = {
+        public: createReadClient(network, activeProvider.provider),
+        wallet: createWriteClient(network, activeProvider.provider, account),
+      };
+      let sending = head;
+      try {
+        sending = reserveNonce(head, await clients.public.getTransactionCount({
+          address: head.from as Address,
+          blockTag: 'pending',
+        }));
+        update(sending);
+        if (sending.status !== 'sending') return;
+
+        const write = toContractWrite(sending);
+        const hash = await sendContractWrite(clients, write, confirm, sending.nonce);
+        track({ hash, chainId: write.chainId, from: write.from, contract: write.contract, method: write.method, label: write.label });
+        remove(head.id);
+      } catch (err) {
+        update(recordFailure(sending, decodeContractError(err)));
+      } finally {
+        isSending.current = false;
+        setWake(count => count + 1);
+      }
+    };
+
+    send();
+  }, [pendingOperations, wake, isOnline, status, activeProvider, account, walletChainId, storageStatus, confirm, track, update, remove]);
+
+  const enqueue = (write: ContractWrite, error?: ContractError) => {
+    const op = createOperation(write);
+    setPendingOperations(current => [...current, error ? recordFailure(op, error) : op]);
+  };
+
+  const hasWaiting = (chainId: number, from: string) => queueHead(pendingOperations, chainId, from) !== undefined;
+
+  const retry = (id: string) => {
+    setPendingOperations(current => current.map(op => (op.id === id && op.status !== 'sending' ? requeue(op) : op)));
+  };
+
+  const operations = account
+    ? pendingOperations
+      .filter(op => op.from.toLowerCase() === account.toLowerCase())
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    : [];
+
+  return (
+    <OperationQueueContext.Provider value={{
+      operations,
+      isOnline,
+      enqueue,
+      hasWaiting,
+      retry,
+      cancel: remove,
+    }}>
+      {children}
+    </OperationQueueContext.Provider>
+  );
+};
+
+export const useOperationQueue = () => {
+  const context = useContext(OperationQueueContext);
+  if (!context) {
+    throw new Error('useOperationQueue must be used within an OperationQueueProvider');
+  }
+  return context;
+};
@@ -0,0 +1,195 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import type { Hash } from 'viem';
+import { createReadClient, createWriteClient } from '../lib/contracts';
+import { declinedError, decodeContractError, notConnectedError } from '../lib/errors';
+import { getNetwork, type ContractName } from '../lib/networks';
+import { getDevChainProvider } from '../lib/simulator';
+import {
+  buildReplacement,
+  checkTransaction,
+  createTrackedTransaction,
+  isFinal,
+  isInFlight,
+  pruneTransactions,
+  quoteFees,
+  type NewTransaction,
+  type ReplacementMode,
+  type TrackedTransaction,
+  type TransactionPreview,
+} from '../lib/transactions';
+import { useCreditContext } from './CreditContext';
+import { useWallet } from './WalletContext';
+
+interface TransactionContextType {
+  // The connected account's transactions (all of them without a wallet), newest first
+  transactions: TrackedTransaction[];
+  inFlightCount: number;
+  track: (tx: NewTransaction) => void;
+  // Most recent transaction sent to `contract`, optionally limited to some of its methods
+  latest: (contract: ContractName, methods?: string[]) => TrackedTransaction | undefined;
+  clearSettled: () => void;
+  // The write waiting for the user to accept its fees, shown by TransactionConfirmModal
+  confirmation: TransactionPreview | null;
+  // Resolves true once the user accepts, false if they decline
+  confirm: (preview: TransactionPreview) => Promise<boolean>;
+  resolveConfirmation: (accepted: boolean) => void;
+  // Replace a pending transaction at the same nonce with higher fees
+  replace: (tx: TrackedTransaction, mode: ReplacementMode) => Promise<void>;
+}
+
+const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
+
+const POLL_INTERVAL_MS = 4000;
+
+export const TransactionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { activeProvider, status, account, chainId: walletChainId } = useWallet();
+  // Kept with the wallet's local data, so they are stored per wallet and encrypted with it
+  const { trackedTransactions: allTransactions, setTrackedTransactions: setAllTransactions } = useCreditContext();
+  const latestTransactions = useRef(allTransactions);
+  const isPolling = useRef(false);
+  const [confirmation, setConfirmation] = useState<TransactionPreview | null>(null);
+  const resolveRef = useRef<((accepted: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    latestTransactions.current = allTransactions;
+  }, [allTransactions]);
+
+  // The wallet answers for its own chain; other chains are read over their RPC endpoint
+  const providerFor = useCallback((chainId: number) =>
+    status === 'connected' && walletChainId === chainId && activeProvider
+      ? activeProvider.provider
+      : getDevChainProvider(chainId),
+  [status, walletChainId, activeProvider]);
+
+  const hasUnsettled = allTransactions.some(tx => !isFinal(tx));
+
+  useEffect(() => {
+    if (!hasUnsettled) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      if (isPolling.current) return;
+      isPolling.current = true;
+      const unsettled = latestTransactions.current.filter(tx => !isFinal(tx));
+      const updates = new Map<Hash, TrackedTransaction>();
+
+      try {
+        await Promise.all([...new Set(unsettled.map(tx => tx.chainId))].map(async chainId => {
+          const network = getNetwork(chainId);
+          if (!network) return;
+          try {
+            const client = createReadClient(network, providerFor(chainId));
+            const head = await client.getBlockNumber();
+            for (const tx of unsettled.filter(candidate => candidate.chainId === chainId)) {
+              updates.set(tx.hash, await checkTransaction(client, tx, head, network.confirmations));
+            }
+          } catch (err) {
+            // The node is unreachable; the next poll tries again
+            console.error(`Failed to check transactions on ${network.name}:`, err);
+          }
+        }));
+      } finally {
+        isPolling.current = false;
+      }
+
+      if (!cancelled && updates.size > 0) {
+        setAllTransactions(current => current.map(tx => updates.get(tx.hash) ?? tx));
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [hasUnsettled, providerFor, setAllTransactions]);
+
+  const track = useCallback((tx: NewTransaction) => {
+    setAllTransactions(current => pruneTransactions([
+      createTrackedTransaction(tx),
+      ...current.filter(existing => existing.hash !== tx.hash),
+    ]));
+  }, [setAllTransactions]);
+
+  const clearSettled = () => {
+    setAllTransactions(current => current.filter(tx => !isFinal(tx)));
+  };
+
+  const resolveConfirmation = useCallback((accepted: boolean) => {
+    resolveRef.current?.(accepted);
+    resolveRef.current = null;
+    setConfirmation(null);
+  }, []);
+
+  const confirm = useCallback((preview: TransactionPreview) => {
+    // A newer write supersedes one still waiting
+    resolveRef.current?.(false);
+    setConfirmation(preview);
+    return new Promise<boolean>(resolve => {
+      resolveRef.current = resolve;
+    });
+  }, []);
+
+  const replace = async (tx: TrackedTransaction, mode: ReplacementMode) => {
+    const network = getNetwork(tx.chainId);
+    if (!network || status !== 'connected' || !activeProvider || walletChainId !== tx.chainId
+      || account?.toLowerCase() !== tx.from.toLowerCase()) {
+      throw notConnectedError();
+    }
+
+    const client = createReadClient(network, activeProvider.provider);
+    let hash: Hash;
+    try {
+      const request = await buildReplacement(client, tx, mode);
+      const quote = await quoteFees(client, {
+        account: tx.from,
+        gasEstimate: request.gas,
+        gasLimit: request.gas,
+        value: request.value,
+        fees: request,
+      });
+      const label = `${mode === 'speedUp' ? 'Speed up' : 'Cancel'}: ${tx.label}`;
+      const method = mode === 'speedUp' ? tx.method : 'cancel';
+      if (!(await confirm({ chainId: tx.chainId, contract: tx.contract, method, label, quote, payments: [] }))) {
+        throw declinedError();
+      }
+      hash = await createWriteClient(network, activeProvider.provider, tx.from).sendTransaction(request);
+      track({ hash, chainId: tx.chainId, from: tx.from, contract: tx.contract, method, label });
+    } catch (err) {
+      throw decodeContractError(err);
+    }
+    setAllTransactions(current => current.map(existing => (existing.hash === tx.hash ? { ...existing, replacedBy: hash } : existing)));
+  };
+
+  const transactions = account
+    ? allTransactions.filter(tx => tx.from.toLowerCase() === account.toLowerCase())
+    : allTransactions;
+
+  const latest = (contract: ContractName, methods?: string[]) =>
+    transactions.find(tx => tx.contract === contract && (!methods || methods.includes(tx.method)));
+
+  return (
+    <TransactionContext.Provider value={{
+      transactions,
+      inFlightCount: transactions.filter(isInFlight).length,
+      track,
+      latest,
+      clearSettled,
+      confirmation,
+      confirm,
+      resolveConfirmation,
+      replace,
+    }}>
+      {children}
+    </TransactionContext.Provider>
+  );
+};
+
+export const useTransactions = () => {
+  const context = useContext(TransactionContext);
+  if (!context) {
+    throw new Error('useTransactions must be used within a TransactionProvider');
+  }
+  return context;
+};
@@ -0,0 +1,198 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import {
+  describeWalletError,
+  getAccounts,
+  getBalance,
+  getChainId,
+  parseChainId,
+  registerDevProviders,
+  requestAccounts,
+  watchProviders,
+  type EIP6963ProviderDetail,
+  type ProviderRpcError,
+} from '../lib/wallet';
+
+export type WalletStatus = 'disconnected' | 'connecting' | 'connected';
+
+interface WalletContextType {
+  // Wallets discovered through EIP-6963 (plus a legacy `window.ethereum` fallback)
+  providers: EIP6963ProviderDetail[];
+  activeProvider: EIP6963ProviderDetail | null;
+  status: WalletStatus;
+  account: string | null;
+  chainId: number | null;
+  // Wei; null until the first balance read completes
+  balance: bigint | null;
+  error: string | null;
+  connect: (rdns?: string) => Promise<void>;
+  disconnect: () => Promise<void>;
+  refreshBalance: () => Promise<void>;
+}
+
+const WalletContext = createContext<WalletContextType | undefined>(undefined);
+
+// Remembers the last wallet so the session can resume without a prompt after reload
+const LAST_WALLET_KEY = 'creditchain.lastWallet';
+const BALANCE_POLL_MS = 15000;
+
+export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [providers, setProviders] = useState<EIP6963ProviderDetail[]>([]);
+  const [activeProvider, setActiveProvider] = useState<EIP6963ProviderDetail | null>(null);
+  const [status, setStatus] = useState<WalletStatus>('disconnected');
+  const [account, setAccount] = useState<string | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [triedResume, setTriedResume] = useState(false);
+
+  useEffect(() => {
+    const unregister = registerDevProviders();
+    const unwatch = watchProviders(setProviders);
+    return () => {
+      unwatch();
+      unregister();
+    };
+  }, []);
+
+  const reset = useCallback(() => {
+    setActiveProvider(null);
+    setStatus('disconnected');
+    setAccount(null);
+    setChainId(null);
+    setBalance(null);
+  }, []);
+
+  const attach = useCallback(async (detail: EIP6963ProviderDetail, accounts: string[]) => {
+    setActiveProvider(detail);
+    setAccount(accounts[0]);
+    setChainId(await getChainId(detail.provider));
+    setStatus('connected');
+    localStorage.setItem(LAST_WALLET_KEY, detail.info.rdns);
+  }, []);
+
+  const connect = async (rdns?: string) => {
+    const detail = providers.find(p => p.info.rdns === rdns) ?? providers[0];
+    if (!detail) {
+      setError('No wallet found. Install a browser wallet to connect.');
+      return;
+    }
+
+    setStatus('connecting');
+    setError(null);
+    try {
+      const accounts = await requestAccounts(detail.provider);
+      if (accounts.length === 0) throw new Error('Wallet returned no accounts');
+      await attach(detail, accounts);
+    } catch (err) {
+      setError(describeWalletError(err));
+      reset();
+    }
+  };
+
+  // Not every wallet supports revoking permissions; forgetting the session locally is enough
+  const disconnect = async () => {
+    const provider = activeProvider?.provider;
+    localStorage.removeItem(LAST_WALLET_KEY);
+    reset();
+    setError(null);
+    try {
+      await provider?.request({ method: 'wallet_revokePermissions', params: [{ eth_accounts: {} }] });
+    } catch {
+      // Ignored: the wallet keeps its authorization but this app no longer uses it
+    }
+  };
+
+  const refreshBalance = useCallback(async () => {
+    if (!activeProvider || !account) return;
+    try {
+      setBalance(await getBalance(activeProvider.provider, account));
+    } catch (err) {
+      console.error('Failed to read balance:', err);
+    }
+  }, [activeProvider, account]);
+
+  // Resume the previous session once its wallet has announced itself, without prompting
+  useEffect(() => {
+    if (triedResume || status !== 'disconnected') return;
+    const rdns = localStorage.getItem(LAST_WALLET_KEY);
+    const detail = providers.find(p => p.info.rdns === rdns);
+    if (!rdns) {
+      setTriedResume(true);
+      return;
+    }
+    if (!detail) return;
+
+    setTriedResume(true);
+    getAccounts(detail.provider)
+      .then(accounts => accounts.length > 0 ? attach(detail, accounts) : undefined)
+      .catch(err => console.error('Failed to resume wallet session:', err));
+  }, [providers, status, triedResume, attach]);
+
+  useEffect(() => {
+    if (!activeProvider) return;
+    const { provider } = activeProvider;
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        setError('Wallet locked or access revoked');
+        reset();
+      } else {
+        setAccount(accounts[0]);
+      }
+    };
+    const handleChainChanged = (next: string) => setChainId(parseChainId(next));
+    const handleDisconnect = (err: ProviderRpcError) => {
+      setError(describeWalletError(err));
+      setStatus('disconnected');
+    };
+    const handleConnect = () => {
+      getAccounts(provider)
+        .then(accounts => accounts.length > 0 ? attach(activeProvider, accounts) : undefined)
+        .catch(err => console.error('Failed to reconnect wallet:', err));
+    };
+
+    provider.on('accountsChanged', handleAccountsChanged);
+    provider.on('chainChanged', handleChainChanged);
+    provider.on('disconnect', handleDisconnect);
+    provider.on('connect', handleConnect);
+    return () => {
+      provider.removeListener('accountsChanged', handleAccountsChanged);
+      provider.removeListener('chainChanged', handleChainChanged);
+      provider.removeListener('disconnect', handleDisconnect);
+      provider.removeListener('connect', handleConnect);
+    };
+  }, [activeProvider, attach, reset]);
+
+  // Balance follows account and chain switches, and is polled while connected
+  useEffect(() => {
+    if (status !== 'connected') return;
+    refreshBalance();
+    const timer = setInterval(refreshBalance, BALANCE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [status, chainId, refreshBalance]);
+
+  return (
+    <WalletContext.Provider value={{
+      providers,
+      activeProvider,
+      status,
+      account,
+      chainId,
+      balance,
+      error,
+      connect,
+      disconnect,
+      refreshBalance,
+    }}>
+      {children}
+    </WalletContext.Provider>
+  );
+};
+
+export const useWallet = () => {
+  const context = useContext(WalletContext);
+  if (!context) {
+    throw new Error('useWallet must be used within a WalletProvider');
+  }
+  return context;
+};
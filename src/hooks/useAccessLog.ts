@@ -0,0 +1,78 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useContractReads } from '../contexts/ContractReadsContext';
+import { useEventIndex } from '../contexts/EventIndexContext';
+import { useNetwork } from '../contexts/NetworkContext';
+import { useWallet } from '../contexts/WalletContext';
+import {
+  createAccessChecker,
+  mayConcern,
+  selectAccessCandidates,
+  toAccessLogEntry,
+  type AccessLogEntry,
+} from '../lib/accessLog';
+import { lenderPortalAbi, toStruct, type CreditRequestSummary } from '../lib/contracts';
+
+const requestKey = (chainId: number, requestId: bigint) => `${chainId}:${requestId}`;
+
+// Every credit request a lender made for the borrower (the connected account by default),
+// newest first. Events locate the requests; getCreditRequest supplies what they leave out.
+export const useAccessLog = (borrower?: string | null) => {
+  const { events } = useEventIndex();
+  const { network } = useNetwork();
+  const { account } = useWallet();
+  const { readContract } = useContractReads();
+  const [requests, setRequests] = useState<Map<string, CreditRequestSummary>>(() => new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const address = borrower ?? account;
+  const chainId = network.chainId;
+
+  const candidates = useMemo(
+    () => (address ? selectAccessCandidates(events).filter(candidate => mayConcern(candidate, address)) : []),
+    [events, address],
+  );
+
+  useEffect(() => {
+    const missing = candidates.filter(candidate => !requests.has(requestKey(chainId, candidate.requestId)));
+    if (missing.length === 0) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        // Processed requests never change, so their cached reads never expire
+        const loaded = await Promise.all(missing.map(async candidate => {
+          const values = await readContract('LenderPortal', 'getCreditRequest', [candidate.requestId], { maxAge: Infinity });
+          return [requestKey(chainId, candidate.requestId), toStruct(lenderPortalAbi, 'getCreditRequest', values)] as const;
+        }));
+        if (cancelled) return;
+        setRequests(current => new Map([...current, ...loaded]));
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [candidates, chainId, readContract, requests]);
+
+  const entries = useMemo<AccessLogEntry[]>(() => {
+    if (!address) return [];
+    const flagsFor = createAccessChecker(events, address);
+    return candidates
+      .flatMap(candidate => {
+        const request = requests.get(requestKey(chainId, candidate.requestId));
+        return request && request.borrower.toLowerCase() === address.toLowerCase()
+          ? [toAccessLogEntry(candidate, request, flagsFor)]
+          : [];
+      })
+      .reverse();
+  }, [address, candidates, chainId, events, requests]);
+
+  return { entries, isLoading, error };
+};
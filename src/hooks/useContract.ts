@@ -1,199 +1,367 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  erc20Abi,
+  encodeFunctionData,
+  formatUnits,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type EncodeFunctionDataParameters,
+  type Hash,
+  type Hex,
+} from 'viem';
+import { useContractReads, type ReadCallOptions, type ViewArgs, type ViewName } from '../contexts/ContractReadsContext';
+import { useNetwork } from '../contexts/NetworkContext';
+import { useOperationQueue } from '../contexts/OperationQueueContext';
+import { useTransactions } from '../contexts/TransactionContext';
+import { useWallet } from '../contexts/WalletContext';
+import {
+  CONTRACT_ABIS,
+  createContractReader,
+  createContractWriter,
+  createWriteClient,
+  creditScoreRegistryAbi,
+  dataMarketplaceAbi,
+  federatedLearningCoordinatorAbi,
+  lenderPortalAbi,
+  toStruct,
+  type ContractAbi,
+  type ContractReader,
+  type ContractWriter,
+} from '../lib/contracts';
+import { REVOKE_DELAY_S, toConsentRecord } from '../lib/consent';
+import { decodeContractError, notConnectedError } from '../lib/errors';
+import type { ContractName } from '../lib/networks';
+import type { ReadOptions } from '../lib/reads';
+import { sendContractWrite, type ContractWrite, type ExpiryArg, type PaymentLine } from '../lib/transactions';
+import { shortenAddress } from '../lib/wallet';
 
-// Mock contract interface for demonstration
-interface ContractInterface {
-  address: string;
-  abi: any[];
-  methods: {
-    [key: string]: (...args: any[]) => Promise<any>;
-  };
-}
+type WriteMethod<TName extends ContractName> = ContractFunctionName<ContractAbi<TName>, 'nonpayable' | 'payable'>;
+type WriteArgs<TName extends ContractName, TMethod extends WriteMethod<TName>> =
+  ContractFunctionArgs<ContractAbi<TName>, 'nonpayable' | 'payable', TMethod>;
 
-// Mock contract addresses (in production, these would be real deployed addresses)
-const CONTRACT_ADDRESSES = {
-  CreditScoreRegistry: '0x1234567890123456789012345678901234567890',
-  FederatedLearningCoordinator: '0x2345678901234567890123456789012345678901',
-  DataMarketplace: '0x3456789012345678901234567890123456789012',
-  LenderPortal: '0x4567890123456789012345678901234567890123'
-};
+interface WriteOptions<TName extends ContractName> {
+  value?: bigint;
+  // A fee getter whose current value is sent, read when the write goes out
+  valueFrom?: ContractFunctionName<ContractAbi<TName>, 'view'>;
+  // An argument set to a unix time this many seconds after the write is sent; see ContractWrite
+  expiryArg?: ExpiryArg;
+  // Payments inside the call, listed in the fee confirmation
+  payments?: PaymentLine[];
+}
 
-// Mock ABI (in production, these would be the actual contract ABIs)
-const MOCK_ABI = [
-  {
-    "inputs": [{"name": "user", "type": "address"}],
-    "name": "getScore",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {"name": "user", "type": "address"},
-      {"name": "score", "type": "uint256"}
-    ],
-    "name": "updateScore",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  }
-];
-
-export const useContract = (contractName: keyof typeof CONTRACT_ADDRESSES) => {
-  const [contract, setContract] = useState<ContractInterface | null>(null);
+// Re-initializes whenever the selected network (and with it the deployment address),
+// the wallet account or the wallet's chain changes
+export const useContract = <TName extends ContractName>(contractName: TName) => {
+  const { network } = useNetwork();
+  const { activeProvider, account, status, chainId: walletChainId } = useWallet();
+  const { track, confirm } = useTransactions();
+  const { enqueue, hasWaiting, isOnline } = useOperationQueue();
+  const { client, readContract, checkDeployment } = useContractReads();
+  const [contract, setContract] = useState<ContractReader<TName> | null>(null);
+  const [writer, setWriter] = useState<ContractWriter<TName> | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const address = network.contracts[contractName];
+  // Only a wallet on the selected network can sign; otherwise the client is read-only
+  const signingProvider = status === 'connected' && walletChainId === network.chainId ? activeProvider?.provider : undefined;
+  const signer = useMemo(
+    () => (signingProvider && account ? { provider: signingProvider, account } : null),
+    [signingProvider, account],
+  );
+
   useEffect(() => {
+    let cancelled = false;
+
     const initContract = async () => {
       try {
         setIsLoading(true);
-        
-        // Simulate contract initialization
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        const mockContract: ContractInterface = {
-          address: CONTRACT_ADDRESSES[contractName],
-          abi: MOCK_ABI,
-          methods: {
-            // Credit Score Registry methods
-            getScore: async (user: string) => {
-              await new Promise(resolve => setTimeout(resolve, 500));
-              return Math.floor(Math.random() * 550) + 300; // Random score 300-850
-            },
-            
-            updateScore: async (user: string, score: number) => {
-              await new Promise(resolve => setTimeout(resolve, 1000));
-              return { transactionHash: '0x' + Math.random().toString(16).substr(2, 64) };
-            },
-            
-            getScoreFactors: async (user: string) => {
-              await new Promise(resolve => setTimeout(resolve, 500));
-              return {
-                paymentHistory: Math.floor(Math.random() * 40) + 60,
-                creditUtilization: Math.floor(Math.random() * 40) + 60,
-                creditLength: Math.floor(Math.random() * 40) + 60,
-                creditMix: Math.floor(Math.random() * 40) + 60,
-                newCredit: Math.floor(Math.random() * 40) + 60
-              };
-            },
-            
-            // Data Marketplace methods
-            purchaseProduct: async (productId: number) => {
-              await new Promise(resolve => setTimeout(resolve, 2000));
-              return { 
-                transactionHash: '0x' + Math.random().toString(16).substr(2, 64),
-                purchaseId: Math.floor(Math.random() * 10000)
-              };
-            },
-            
-            listProduct: async (name: string, price: number, description: string) => {
-              await new Promise(resolve => setTimeout(resolve, 1500));
-              return {
-                transactionHash: '0x' + Math.random().toString(16).substr(2, 64),
-                productId: Math.floor(Math.random() * 10000)
-              };
-            },
-            
-            // Lender Portal methods
-            registerLender: async (companyName: string, licenseNumber: string) => {
-              await new Promise(resolve => setTimeout(resolve, 2000));
-              return { transactionHash: '0x' + Math.random().toString(16).substr(2, 64) };
-            },
-            
-            requestAPIAccess: async (accessLevel: string) => {
-              await new Promise(resolve => setTimeout(resolve, 1500));
-              return { transactionHash: '0x' + Math.random().toString(16).substr(2, 64) };
-            },
-            
-            submitCreditRequest: async (borrower: string, amount: number) => {
-              await new Promise(resolve => setTimeout(resolve, 2000));
-              return {
-                transactionHash: '0x' + Math.random().toString(16).substr(2, 64),
-                requestId: Math.floor(Math.random() * 10000),
-                approved: Math.random() > 0.3,
-                approvedAmount: Math.random() > 0.3 ? amount : amount * 0.5
-              };
-            },
-            
-            // Federated Learning methods
-            submitModelUpdate: async (updateHash: string) => {
-              await new Promise(resolve => setTimeout(resolve, 1500));
-              return { transactionHash: '0x' + Math.random().toString(16).substr(2, 64) };
-            },
-            
-            getCurrentModel: async () => {
-              await new Promise(resolve => setTimeout(resolve, 500));
-              return {
-                modelHash: '0x' + Math.random().toString(16).substr(2, 64),
-                round: Math.floor(Math.random() * 100) + 1,
-                accuracy: Math.floor(Math.random() * 2000) + 8000 // 80-100%
-              };
-            }
-          }
-        };
-        
-        setContract(mockContract);
+        setContract(null);
+        setWriter(null);
+
+        // The deployment check is cached, so hooks sharing a contract ask the node once
+        await checkDeployment(contractName);
+        if (cancelled) return;
+
+        setContract(createContractReader(contractName, address as string, client));
+        if (signer) {
+          setWriter(createContractWriter(contractName, address as string, {
+            public: client,
+            wallet: createWriteClient(network, signer.provider, signer.account),
+          }));
+        }
         setError(null);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to initialize contract');
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to initialize contract');
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
       }
     };
 
     initContract();
-  }, [contractName]);
+    return () => {
+      cancelled = true;
+    };
+  }, [contractName, network, address, client, checkDeployment, signer]);
+
+  // Cached view call on this contract; see ContractReadsContext
+  const read = <TFunction extends ViewName<TName>>(
+    functionName: TFunction,
+    args: ViewArgs<TName, TFunction>,
+    options?: ReadCallOptions,
+  ) => {
+    if (!contract) throw new Error('Contract not initialized');
+    return readContract(contractName, functionName, args, options);
+  };
+
+  // Estimates the write, asks the user to accept its fees, sends it and hands it to the
+  // transaction manager, which follows it until final. Writes that cannot go out now (offline,
+  // wallet on another network, node unreachable) are queued and resolve to null instead.
+  // Other failures are thrown as a ContractError explaining what went wrong.
+  const dispatch = async (write: ContractWrite): Promise<Hash | null> => {
+    if (!signer || !isOnline || hasWaiting(write.chainId, write.from)) {
+      enqueue(write);
+      return null;
+    }
+
+    let hash: Hash;
+    try {
+      hash = await sendContractWrite({
+        public: client,
+        wallet: createWriteClient(network, signer.provider, signer.account),
+      }, write, confirm);
+    } catch (err) {
+      const contractError = decodeContractError(err);
+      if (contractError.kind !== 'network') throw contractError;
+      enqueue(write, contractError);
+      return null;
+    }
+    track({ hash, chainId: write.chainId, from: write.from, contract: contractName, method: write.method, label: write.label });
+    return hash;
+  };
+
+  // A write to this contract; see dispatch
+  const submit = async <TMethod extends WriteMethod<TName>>(
+    method: TMethod,
+    label: string,
+    args: WriteArgs<TName, TMethod>,
+    { value = 0n, valueFrom, expiryArg, payments = [] }: WriteOptions<TName> = {},
+  ): Promise<Hash | null> => {
+    if (status !== 'connected' || !account) throw notConnectedError();
+    if (!address) throw new Error(`${contractName} is not deployed on ${network.name}`);
+
+    return await dispatch({
+      chainId: network.chainId,
+      from: account as Address,
+      contract: contractName,
+      method,
+      label,
+      to: address as Address,
+      data: encodeFunctionData({ abi: CONTRACT_ABIS[contractName], functionName: method, args } as EncodeFunctionDataParameters),
+      value,
+      valueFrom,
+      expiryArg,
+      payments,
+    });
+  };
+
+  // Lets this contract collect `amount` of an ERC-20 `token` from the account with transferFrom.
+  // The approval is sent, tracked and queued like the contract's own writes.
+  const approveToken = async (token: Address, amount: bigint, label: string): Promise<Hash | null> => {
+    if (status !== 'connected' || !account) throw notConnectedError();
+    if (!address) throw new Error(`${contractName} is not deployed on ${network.name}`);
 
-  return { contract, isLoading, error };
+    return await dispatch({
+      chainId: network.chainId,
+      from: account as Address,
+      contract: contractName,
+      method: 'approve',
+      label,
+      to: token,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [address as Address, amount] }),
+      value: 0n,
+      payments: [],
+    });
+  };
+
+  return { contract, writer, client, read, isLoading, error, submit, approveToken };
 };
 
+// platformFeePercent is in basis points: 250 is 2.5%
+const BASIS_POINTS = 10000n;
+
 // Hook for interacting with Credit Score Registry
 export const useCreditScoreRegistry = () => {
-  const { contract, isLoading, error } = useContract('CreditScoreRegistry');
-  
-  const getScore = async (userAddress: string) => {
-    if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.getScore(userAddress);
+  const { contract, writer, read, isLoading, error, submit } = useContract('CreditScoreRegistry');
+  const { account } = useWallet();
+
+  // Score reads are gated on msg.sender: the user themselves or an authorized lender
+  const reader = (userAddress: Address, options?: ReadOptions) =>
+    ({ ...options, account: (account ?? userAddress) as Address });
+
+  const getScore = async (userAddress: Address, options?: ReadOptions) => {
+    return await read('getScore', [userAddress], reader(userAddress, options));
   };
-  
-  const updateScore = async (userAddress: string, score: number) => {
-    if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.updateScore(userAddress, score);
+
+  const getScoreDetails = async (userAddress: Address, options?: ReadOptions) => {
+    const values = await read('getScoreDetails', [userAddress], reader(userAddress, options));
+    return toStruct(creditScoreRegistryAbi, 'getScoreDetails', values);
   };
-  
-  const getScoreFactors = async (userAddress: string) => {
-    if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.getScoreFactors(userAddress);
+
+  const updateScore = async (userAddress: Address, score: bigint) => {
+    return await submit('updateScore', `Publish credit score ${score}`, [userAddress, score]);
+  };
+
+  const getConsent = async (userAddress: Address, options?: ReadOptions) => {
+    const values = await read('consents', [userAddress], options);
+    return toConsentRecord(toStruct(creditScoreRegistryAbi, 'consents', values));
+  };
+
+  // `expiresAt` is in milliseconds; the registry stores seconds
+  const updateConsent = async (dataHash: Hex, expiresAt: number) => {
+    const until = new Date(expiresAt).toLocaleDateString();
+    return await submit('updateConsent', `Consent to share data until ${until}`, [dataHash, BigInt(Math.floor(expiresAt / 1000))]);
+  };
+
+  // The registry cannot switch a consent off, so it is cut short to expire REVOKE_DELAY_S after
+  // the revocation is sent, however long it waited in the queue
+  const revokeConsent = async (dataHash: Hex) => {
+    return await submit('updateConsent', 'Revoke data-sharing consent', [dataHash, 0n], {
+      expiryArg: { index: 1, seconds: REVOKE_DELAY_S },
+    });
+  };
+
+  const getAuthorizedLenders = async (userAddress: Address, options?: ReadOptions) => {
+    return await read('getAuthorizedLenders', [userAddress], reader(userAddress, options));
+  };
+
+  const grantLenderAccess = async (lender: Address, name?: string) => {
+    return await submit('grantLenderAccess', `Grant ${name ?? shortenAddress(lender)} access to your score`, [lender]);
+  };
+
+  const revokeLenderAccess = async (lender: Address, name?: string) => {
+    return await submit('revokeLenderAccess', `Revoke ${name ?? shortenAddress(lender)}'s access to your score`, [lender]);
+  };
+
+  const getScoreFactors = async (userAddress: Address, options?: ReadOptions) => {
+    const values = await read('getScoreFactors', [userAddress], reader(userAddress, options));
+    return toStruct(creditScoreRegistryAbi, 'getScoreFactors', values);
   };
-  
+
   return {
     contract,
+    writer,
     isLoading,
     error,
     getScore,
+    getScoreDetails,
     updateScore,
-    getScoreFactors
+    getScoreFactors,
+    getConsent,
+    updateConsent,
+    revokeConsent,
+    getAuthorizedLenders,
+    grantLenderAccess,
+    revokeLenderAccess
   };
 };
 
+// An ERC-20 amount the marketplace must be approved to collect before a purchase
+export interface PurchaseApproval {
+  token: Address;
+  amount: bigint;
+  symbol: string;
+  decimals: number;
+}
+
 // Hook for interacting with Data Marketplace
 export const useDataMarketplace = () => {
-  const { contract, isLoading, error } = useContract('DataMarketplace');
-  
-  const purchaseProduct = async (productId: number) => {
-    if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.purchaseProduct(productId);
+  const { contract, writer, client, read, isLoading, error, submit, approveToken } = useContract('DataMarketplace');
+  const { account } = useWallet();
+
+  const getProduct = async (productId: bigint, options?: ReadOptions) => {
+    const values = await read('getProduct', [productId], options);
+    return toStruct(dataMarketplaceAbi, 'getProduct', values);
   };
-  
-  const listProduct = async (name: string, price: number, description: string) => {
+
+  // The price is paid in the marketplace's ERC-20 and collected with transferFrom, so the
+  // account's allowance for the marketplace has to cover it
+  const readPurchaseTerms = async (productId: bigint) => {
     if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.listProduct(name, price, description);
+    // Read fresh: these are the amounts the user is about to pay
+    const [product, feePercent, token] = await Promise.all([
+      read('getProduct', [productId], { fresh: true }),
+      read('platformFeePercent', [], { fresh: true }),
+      read('paymentToken', []),
+    ]);
+    const [symbol, decimals, allowance] = await Promise.all([
+      client.readContract({ abi: erc20Abi, address: token, functionName: 'symbol' }),
+      client.readContract({ abi: erc20Abi, address: token, functionName: 'decimals' }),
+      account
+        ? client.readContract({ abi: erc20Abi, address: token, functionName: 'allowance', args: [account as Address, contract.address] })
+        : 0n,
+    ]);
+    const price = toStruct(dataMarketplaceAbi, 'getProduct', product).price;
+    return { token, price, feePercent, symbol, decimals, allowance };
+  };
+
+  // Offline the terms cannot be read; the purchase is still queued, just without them
+  const readPurchaseTermsOnline = (productId: bigint) => readPurchaseTerms(productId).catch(error => {
+    const contractError = decodeContractError(error);
+    if (contractError.kind === 'network') return null;
+    throw contractError;
+  });
+
+  // The approval a purchase still needs, or null when the allowance covers the price
+  const getPurchaseApproval = async (productId: bigint): Promise<PurchaseApproval | null> => {
+    const terms = await readPurchaseTermsOnline(productId);
+    if (!terms || terms.allowance >= terms.price) return null;
+    const { token, price, symbol, decimals } = terms;
+    return { token, amount: price, symbol, decimals };
+  };
+
+  // Approves exactly the price, not an open-ended amount
+  const approvePurchase = async ({ token, amount, symbol, decimals }: PurchaseApproval) => {
+    return await approveToken(token, amount, `Allow the marketplace to collect ${formatUnits(amount, decimals)} ${symbol}`);
+  };
+
+  const purchaseProduct = async (productId: bigint) => {
+    const terms = await readPurchaseTermsOnline(productId);
+    // Split between the seller and the platform
+    const payments: PaymentLine[] = [];
+    if (terms) {
+      const { price, feePercent, symbol, decimals } = terms;
+      const platformFee = (price * feePercent) / BASIS_POINTS;
+      const line = (label: string, amount: bigint) => ({ label, amount, symbol, decimals });
+      payments.push(
+        line('Product price', price),
+        line('Seller receives', price - platformFee),
+        line(`Platform fee (${formatUnits(feePercent, 2)}%)`, platformFee),
+      );
+    }
+    return await submit('purchaseProduct', `Purchase data product #${productId}`, [productId], { payments });
+  };
+
+  const listProduct = async (
+    name: string,
+    description: string,
+    price: bigint,
+    dataHash: Hex,
+    features: readonly string[],
+    category: string,
+  ) => {
+    return await submit('listProduct', `List "${name}" on the marketplace`, [name, description, price, dataHash, features, category]);
   };
-  
+
   return {
     contract,
+    writer,
     isLoading,
     error,
+    getProduct,
+    getPurchaseApproval,
+    approvePurchase,
     purchaseProduct,
     listProduct
   };
@@ -201,52 +369,78 @@ export const useDataMarketplace = () => {
 
 // Hook for interacting with Lender Portal
 export const useLenderPortal = () => {
-  const { contract, isLoading, error } = useContract('LenderPortal');
-  
-  const registerLender = async (companyName: string, licenseNumber: string) => {
-    if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.registerLender(companyName, licenseNumber);
+  const { contract, writer, read, isLoading, error, submit } = useContract('LenderPortal');
+
+  // Pays the current registration fee, read from the contract when the write goes out
+  const registerLender = async (
+    companyName: string,
+    licenseNumber: string,
+    supportedRegions: readonly string[],
+    creditLimit: bigint,
+    interestRate: bigint,
+  ) => {
+    return await submit(
+      'registerLender',
+      `Register ${companyName} as a lender`,
+      [companyName, licenseNumber, supportedRegions, creditLimit, interestRate],
+      { valueFrom: 'registrationFee' },
+    );
   };
-  
-  const requestAPIAccess = async (accessLevel: string) => {
-    if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.requestAPIAccess(accessLevel);
+
+  const requestAPIAccess = async (accessLevel: 'basic' | 'premium' | 'enterprise') => {
+    return await submit('requestAPIAccess', `Request ${accessLevel} API access`, [accessLevel]);
   };
-  
-  const submitCreditRequest = async (borrower: string, amount: number) => {
-    if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.submitCreditRequest(borrower, amount);
+
+  // Pays the current per-request API fee, read from the contract when the write goes out
+  const submitCreditRequest = async (borrower: Address, amount: bigint) => {
+    return await submit('submitCreditRequest', `Credit request for ${shortenAddress(borrower)}`, [borrower, amount], {
+      valueFrom: 'apiRequestFee',
+    });
+  };
+
+  const getLenderInfo = async (lender: Address, options?: ReadOptions) => {
+    const values = await read('getLenderInfo', [lender], options);
+    return toStruct(lenderPortalAbi, 'getLenderInfo', values);
   };
-  
+
+  const getCreditRequest = async (requestId: bigint, options?: ReadOptions) => {
+    const values = await read('getCreditRequest', [requestId], options);
+    return toStruct(lenderPortalAbi, 'getCreditRequest', values);
+  };
+
   return {
     contract,
+    writer,
     isLoading,
     error,
     registerLender,
     requestAPIAccess,
-    submitCreditRequest
+    submitCreditRequest,
+    getLenderInfo,
+    getCreditRequest
   };
 };
 
 // Hook for interacting with Federated Learning Coordinator
 export const useFederatedLearning = () => {
-  const { contract, isLoading, error } = useContract('FederatedLearningCoordinator');
-  
-  const submitModelUpdate = async (updateHash: string) => {
-    if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.submitModelUpdate(updateHash);
+  const { contract, writer, read, isLoading, error, submit } = useContract('FederatedLearningCoordinator');
+
+  // `stake` is sent as the transaction value and must cover the contract's minimum stake
+  const submitModelUpdate = async (updateHash: Hex, gradientHash: Hex, stake: bigint) => {
+    return await submit('submitModelUpdate', 'Submit model update', [updateHash, gradientHash], { value: stake });
   };
-  
-  const getCurrentModel = async () => {
-    if (!contract) throw new Error('Contract not initialized');
-    return await contract.methods.getCurrentModel();
+
+  const getCurrentModel = async (options?: ReadOptions) => {
+    const values = await read('getCurrentModel', [], options);
+    return toStruct(federatedLearningCoordinatorAbi, 'getCurrentModel', values);
   };
-  
+
   return {
     contract,
+    writer,
     isLoading,
     error,
     submitModelUpdate,
     getCurrentModel
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { stringify, type Address } from 'viem';
+import {
+  useContractReads,
+  type ReadCallOptions,
+  type ViewArgs,
+  type ViewName,
+  type ViewResult,
+} from '../contexts/ContractReadsContext';
+import type { ContractName } from '../lib/networks';
+
+interface ContractReadState<T> {
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean;
+}
+
+// A view call kept up to date from the shared read cache: it is read again whenever an indexed
+// event invalidates it, and components reading the same call share one request. Pass null args
+// to skip the call, e.g. until a wallet is connected.
+export const useContractRead = <TName extends ContractName, TFunction extends ViewName<TName>>(
+  contract: TName,
+  functionName: TFunction,
+  args: ViewArgs<TName, TFunction> | null,
+  options: ReadCallOptions = {},
+) => {
+  const { readContract, targetFor, subscribe } = useContractReads();
+  const [state, setState] = useState<ContractReadState<ViewResult<TName, TFunction>>>({
+    data: undefined,
+    error: null,
+    isLoading: args !== null,
+  });
+  // Callers pass fresh arrays and objects each render; the call they describe is what matters,
+  // so the call is only replaced when its serialized key changes
+  const key = stringify([contract, functionName, args, options]);
+  const [call, setCall] = useState({ key, contract, functionName, args, options });
+  if (call.key !== key) setCall({ key, contract, functionName, args, options });
+
+  useEffect(() => {
+    const { contract, functionName, args, options } = call;
+    if (args === null) {
+      setState({ data: undefined, error: null, isLoading: false });
+      return;
+    }
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const data = await readContract(contract, functionName, args, options);
+        if (!cancelled) setState({ data, error: null, isLoading: false });
+      } catch (error) {
+        if (!cancelled) setState(current => ({ ...current, error, isLoading: false }));
+      }
+    };
+
+    setState(current => ({ ...current, isLoading: true }));
+    load();
+    const unsubscribe = subscribe(targetFor(contract, functionName, args as readonly unknown[], options.account as Address | undefined), load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [call, readContract, targetFor, subscribe]);
+
+  return state;
+};
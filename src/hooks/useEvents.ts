@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { useEventIndex } from '../contexts/EventIndexContext';
+import { useWallet } from '../contexts/WalletContext';
+import {
+  selectConsentUpdates,
+  selectCreditRequests,
+  selectEvents,
+  selectLenderAccessChanges,
+  selectLenders,
+  selectPurchases,
+  selectScoreUpdates,
+} from '../lib/indexer';
+import type { ContractName } from '../lib/networks';
+
+// Query hooks over the indexed contract events of the selected network. Hooks taking an
+// address default to the connected account and return nothing without one.
+
+export const useContractEvents = (contract: ContractName, eventName?: string) => {
+  const { events } = useEventIndex();
+  return useMemo(() => selectEvents(events, contract, eventName), [events, contract, eventName]);
+};
+
+export const useScoreUpdates = (user?: string | null) => {
+  const { events } = useEventIndex();
+  const { account } = useWallet();
+  const address = user ?? account;
+  return useMemo(() => (address ? selectScoreUpdates(events, address) : []), [events, address]);
+};
+
+export const usePurchases = (buyer?: string | null) => {
+  const { events } = useEventIndex();
+  const { account } = useWallet();
+  const address = buyer ?? account;
+  return useMemo(() => (address ? selectPurchases(events, address) : []), [events, address]);
+};
+
+export const useCreditRequests = (lender?: string | null) => {
+  const { events } = useEventIndex();
+  const { account } = useWallet();
+  const address = lender ?? account;
+  return useMemo(() => (address ? selectCreditRequests(events, address) : []), [events, address]);
+};
+
+export const useConsentUpdates = (user?: string | null) => {
+  const { events } = useEventIndex();
+  const { account } = useWallet();
+  const address = user ?? account;
+  return useMemo(() => (address ? selectConsentUpdates(events, address) : []), [events, address]);
+};
+
+export const useLenderAccessChanges = (user?: string | null) => {
+  const { events } = useEventIndex();
+  const { account } = useWallet();
+  const address = user ?? account;
+  return useMemo(() => (address ? selectLenderAccessChanges(events, address) : []), [events, address]);
+};
+
+export const useLenders = () => {
+  const { events } = useEventIndex();
+  return useMemo(() => selectLenders(events), [events]);
+};
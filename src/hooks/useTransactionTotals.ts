@@ -0,0 +1,40 @@
+import { useMemo, useRef } from 'react';
+import { useCreditContext } from '../contexts/CreditContext';
+import { applyChangesToTotals, createMatcher, summarize, type LedgerTotals, type TransactionFilters } from '../lib/ledger';
+
+interface TotalsCache {
+  filtersKey: string;
+  revision: number;
+  totals: LedgerTotals;
+}
+
+// Totals for the transactions matching `filters`. After a single ledger edit only the
+// changed records are applied to the previous totals; the ledger is rescanned only when
+// the filters change or the whole ledger was replaced.
+export const useTransactionTotals = (filters: TransactionFilters) => {
+  const { transactions, ledgerChange } = useCreditContext();
+  const cache = useRef<TotalsCache | null>(null);
+  const filtersKey = JSON.stringify(filters);
+  // Built from the key, so a new but equal filters object keeps the same matcher
+  const matches = useMemo(() => createMatcher(JSON.parse(filtersKey) as TransactionFilters), [filtersKey]);
+
+  return useMemo(() => {
+    const previous = cache.current;
+    let totals: LedgerTotals;
+
+    if (previous?.filtersKey === filtersKey && previous.revision === ledgerChange.revision) {
+      totals = previous.totals;
+    } else if (
+      previous?.filtersKey === filtersKey &&
+      previous.revision === ledgerChange.revision - 1 &&
+      ledgerChange.transactions
+    ) {
+      totals = applyChangesToTotals(previous.totals, ledgerChange.transactions, matches);
+    } else {
+      totals = summarize(transactions.filter(matches));
+    }
+
+    cache.current = { filtersKey, revision: ledgerChange.revision, totals };
+    return totals;
+  }, [filtersKey, matches, ledgerChange, transactions]);
+};
@@ -0,0 +1,50 @@
+import { useCallback, useMemo, useState } from 'react';
+
+interface VirtualListOptions<T> {
+  items: T[];
+  itemHeight: (item: T) => number;
+  viewportHeight: number;
+  // Extra items rendered above and below the viewport to avoid blank edges while scrolling
+  overscan?: number;
+}
+
+// Renders only the items intersecting the scroll viewport; heights must be known up front
+export const useVirtualList = <T,>({ items, itemHeight, viewportHeight, overscan = 6 }: VirtualListOptions<T>) => {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, index) => { result[index + 1] = result[index] + itemHeight(item); });
+    return result;
+  }, [items, itemHeight]);
+
+  // Index of the item containing the given offset
+  const indexAt = useCallback((offset: number) => {
+    let low = 0;
+    let high = items.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return Math.max(0, low);
+  }, [items.length, offsets]);
+
+  const totalHeight = offsets[items.length];
+  // Clamp in case the list shrank below the current scroll position
+  const top = Math.min(scrollTop, Math.max(0, totalHeight - viewportHeight));
+  const start = Math.max(0, indexAt(top) - overscan);
+  const end = Math.min(items.length, indexAt(top + viewportHeight) + overscan + 1);
+
+  const visible = items.slice(start, end).map((item, i) => ({
+    item,
+    index: start + i,
+    top: offsets[start + i],
+    height: offsets[start + i + 1] - offsets[start + i],
+  }));
+
+  const onScroll = useCallback((e: React.UIEvent<HTMLElement>) => setScrollTop(e.currentTarget.scrollTop), []);
+
+  return { visible, totalHeight, onScroll };
+};
@@ -0,0 +1,86 @@
+import type { Address } from 'viem';
+import type { CreditRequestSummary } from '../contracts';
+import type { IndexedEvent } from '../indexer';
+import type { AccessCandidate, AccessFlag, AccessLogEntry } from './types';
+
+const sameAddress = (a: unknown, b: string) => typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+
+// Every processed credit request, oldest first. Single requests are matched to their
+// CreditRequestSubmitted by id; batch requests to the BatchRequestSubmitted in the same transaction.
+export const selectAccessCandidates = (events: IndexedEvent[]): AccessCandidate[] => {
+  const portal = events.filter(event => event.contract === 'LenderPortal');
+  const submissions = new Map(portal
+    .filter(event => event.eventName === 'CreditRequestSubmitted')
+    .map(event => [event.args.requestId as bigint, event.args.borrower as Address]));
+  const batches = new Map(portal
+    .filter(event => event.eventName === 'BatchRequestSubmitted')
+    .map(event => [event.transactionHash, event.args.batchId as bigint]));
+
+  return portal
+    .filter(event => event.eventName === 'CreditRequestProcessed')
+    .map(event => {
+      const requestId = event.args.requestId as bigint;
+      const borrower = submissions.get(requestId);
+      const batchId = borrower ? undefined : batches.get(event.transactionHash);
+      return {
+        requestId,
+        source: batchId === undefined ? 'single' : 'batch',
+        borrower,
+        batchId,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        timestamp: event.timestamp,
+        transactionHash: event.transactionHash,
+      } satisfies AccessCandidate;
+    });
+};
+
+// Candidates that may concern `borrower`: theirs, and those whose borrower only a read can tell
+export const mayConcern = (candidate: AccessCandidate, borrower: string) =>
+  candidate.borrower === undefined || sameAddress(candidate.borrower, borrower);
+
+// Replays the borrower's ConsentUpdated and LenderAccess events to tell, for a request at a
+// given point of the chain, whether their consent was valid and the lender had been granted access
+export const createAccessChecker = (events: IndexedEvent[], borrower: string) => {
+  const history = events.filter(event => event.contract === 'CreditScoreRegistry' && sameAddress(event.args.user, borrower));
+
+  return (lender: string, at: Pick<AccessCandidate, 'blockNumber' | 'logIndex' | 'timestamp'>): AccessFlag[] => {
+    let consentExpiry = 0;
+    let authorized = false;
+    for (const event of history) {
+      if (event.blockNumber > at.blockNumber || (event.blockNumber === at.blockNumber && event.logIndex > at.logIndex)) break;
+      if (event.eventName === 'ConsentUpdated') consentExpiry = Number(event.args.expiryTime);
+      else if (sameAddress(event.args.lender, lender)) {
+        if (event.eventName === 'LenderAccessGranted') authorized = true;
+        if (event.eventName === 'LenderAccessRevoked') authorized = false;
+      }
+    }
+
+    const flags: AccessFlag[] = [];
+    // The registry compares expiry with the block time, in seconds
+    if (consentExpiry <= at.timestamp / 1000) flags.push('noConsent');
+    if (!authorized) flags.push('notAuthorized');
+    return flags;
+  };
+};
+
+export const toAccessLogEntry = (
+  candidate: AccessCandidate,
+  request: CreditRequestSummary,
+  flagsFor: ReturnType<typeof createAccessChecker>,
+): AccessLogEntry => ({
+  requestId: candidate.requestId,
+  source: candidate.source,
+  batchId: candidate.batchId,
+  lender: request.lender,
+  borrower: request.borrower,
+  amount: request.requestedAmount,
+  approved: request.isApproved,
+  approvedAmount: request.approvedAmount,
+  creditScore: request.creditScore,
+  riskAssessment: request.riskAssessment,
+  blockNumber: candidate.blockNumber,
+  timestamp: candidate.timestamp,
+  transactionHash: candidate.transactionHash,
+  flags: flagsFor(request.lender, candidate),
+});
@@ -0,0 +1,51 @@
+import { formatEther } from 'viem';
+import { toCsv } from '../export';
+import type { AccessFlag, AccessLogEntry, AccessLogFilters } from './types';
+
+export const ACCESS_FLAG_LABELS: Record<AccessFlag, string> = {
+  noConsent: 'No valid consent',
+  notAuthorized: 'Lender not granted access',
+};
+
+export const EMPTY_ACCESS_FILTERS: AccessLogFilters = {
+  lender: '',
+  decision: 'all',
+  flaggedOnly: false,
+  from: '',
+  to: '',
+};
+
+export const filterAccessLog = (entries: AccessLogEntry[], filters: AccessLogFilters) => {
+  // Date bounds are whole local days
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+
+  return entries.filter(entry =>
+    (!filters.lender || entry.lender.toLowerCase() === filters.lender.toLowerCase())
+    && (filters.decision === 'all' || entry.approved === (filters.decision === 'approved'))
+    && (!filters.flaggedOnly || entry.flags.length > 0)
+    && entry.timestamp >= from
+    && entry.timestamp <= to);
+};
+
+// One row per access, with full addresses and hashes so each can be checked on an explorer
+export const accessLogCsv = (entries: AccessLogEntry[], lenderName: (lender: string) => string | undefined) =>
+  toCsv(
+    ['Time', 'Request ID', 'Batch ID', 'Lender', 'Lender address', 'Requested amount', 'Decision', 'Approved amount',
+      'Credit score', 'Risk assessment', 'Flags', 'Block', 'Transaction'],
+    entries.map(entry => [
+      new Date(entry.timestamp).toISOString(),
+      entry.requestId,
+      entry.batchId,
+      lenderName(entry.lender) ?? '',
+      entry.lender,
+      formatEther(entry.amount),
+      entry.approved ? 'Approved' : 'Rejected',
+      formatEther(entry.approvedAmount),
+      entry.creditScore,
+      entry.riskAssessment,
+      entry.flags.map(flag => ACCESS_FLAG_LABELS[flag]).join('; '),
+      entry.blockNumber,
+      entry.transactionHash,
+    ]),
+  );
@@ -0,0 +1,3 @@
+export { createAccessChecker, mayConcern, selectAccessCandidates, toAccessLogEntry } from './correlate';
+export { ACCESS_FLAG_LABELS, EMPTY_ACCESS_FILTERS, accessLogCsv, filterAccessLog } from './filters';
+export type { AccessCandidate, AccessFlag, AccessLogEntry, AccessLogFilters, AccessSource } from './types';
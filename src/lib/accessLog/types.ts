@@ -0,0 +1,48 @@
+import type { Address, Hash } from 'viem';
+
+export type AccessSource = 'single' | 'batch';
+
+// Why a score read looks improper: the borrower's consent had lapsed or was never given, or
+// they had not granted this lender access
+export type AccessFlag = 'noConsent' | 'notAuthorized';
+
+// A processed credit request located in the index. Batch requests carry neither borrower nor
+// amount in their events, so those, like every request's risk assessment, come from getCreditRequest.
+export interface AccessCandidate {
+  requestId: bigint;
+  source: AccessSource;
+  // Known from CreditRequestSubmitted; missing for batch requests
+  borrower?: Address;
+  batchId?: bigint;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  transactionHash: Hash;
+}
+
+export interface AccessLogEntry {
+  requestId: bigint;
+  source: AccessSource;
+  batchId?: bigint;
+  lender: Address;
+  borrower: Address;
+  amount: bigint;
+  approved: boolean;
+  approvedAmount: bigint;
+  creditScore: bigint;
+  riskAssessment: string;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: Hash;
+  flags: AccessFlag[];
+}
+
+export interface AccessLogFilters {
+  // Lender address, or empty for all
+  lender: string;
+  decision: 'all' | 'approved' | 'rejected';
+  flaggedOnly: boolean;
+  // yyyy-mm-dd, inclusive; empty for no bound
+  from: string;
+  to: string;
+}
@@ -0,0 +1,48 @@
+export const UNCATEGORIZED = 'Uncategorized';
+
+export const DEFAULT_CATEGORIES = [
+  'Income',
+  'Housing',
+  'Utilities',
+  'Food',
+  'Transportation',
+  'Shopping',
+  'Entertainment',
+  'Subscriptions',
+  'Health',
+  'Education',
+  'Travel',
+  'Finance',
+  'Loans',
+  'Insurance',
+  'Transfers',
+  UNCATEGORIZED,
+];
+
+// Common spellings found in bank exports, mapped onto the managed list
+const CATEGORY_ALIASES: Record<string, string> = {
+  groceries: 'Food',
+  restaurants: 'Food',
+  dining: 'Food',
+  rent: 'Housing',
+  mortgage: 'Housing',
+  gas: 'Transportation',
+  fuel: 'Transportation',
+  auto: 'Transportation',
+  salary: 'Income',
+  payroll: 'Income',
+  medical: 'Health',
+  streaming: 'Subscriptions',
+  'credit card': 'Finance',
+  transfer: 'Transfers',
+};
+
+// Resolves free text to a managed category, or null if it is not recognised
+export const matchCategory = (value: string, categories: string[]) => {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+  const direct = categories.find(category => category.toLowerCase() === normalized);
+  if (direct) return direct;
+  const alias = CATEGORY_ALIASES[normalized];
+  return alias && categories.includes(alias) ? alias : null;
+};
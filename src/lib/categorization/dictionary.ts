@@ -0,0 +1,17 @@
+// Built-in merchant and keyword dictionary, checked after user and learned rules
+export const MERCHANT_DICTIONARY: Array<{ pattern: RegExp; category: string }> = [
+  { pattern: /\b(salary|payroll|paycheck|direct dep|wages)\b/i, category: 'Income' },
+  { pattern: /\b(rent|landlord|mortgage|hoa)\b/i, category: 'Housing' },
+  { pattern: /\b(electric|water|utility|utilities|comcast|verizon|at&t|t-mobile|internet)\b/i, category: 'Utilities' },
+  { pattern: /\b(grocery|groceries|supermarket|whole foods|trader joe|kroger|safeway|aldi|restaurant|cafe|coffee|starbucks|mcdonald|doordash|ubereats|grubhub)\b/i, category: 'Food' },
+  { pattern: /\b(gas station|shell|chevron|exxon|bp|uber|lyft|parking|toll|transit|metro)\b/i, category: 'Transportation' },
+  { pattern: /\b(amazon|walmart|target|costco|ebay|best buy|ikea)\b/i, category: 'Shopping' },
+  { pattern: /\b(netflix|spotify|hulu|disney\+?|youtube premium|apple\.com\/bill|icloud|patreon)\b/i, category: 'Subscriptions' },
+  { pattern: /\b(cinema|movie|theater|steam|playstation|xbox|concert|ticketmaster)\b/i, category: 'Entertainment' },
+  { pattern: /\b(pharmacy|cvs|walgreens|doctor|dental|hospital|clinic)\b/i, category: 'Health' },
+  { pattern: /\b(tuition|university|college|coursera|udemy)\b/i, category: 'Education' },
+  { pattern: /\b(airline|airbnb|hotel|expedia|booking\.com|delta|united)\b/i, category: 'Travel' },
+  { pattern: /\b(credit card|card payment|visa|mastercard|amex)\b/i, category: 'Finance' },
+  { pattern: /\b(loan|student loan|auto loan|installment|instalment|klarna|affirm|afterpay)\b/i, category: 'Loans' },
+  { pattern: /\b(insurance|geico|allstate|progressive)\b/i, category: 'Insurance' },
+];
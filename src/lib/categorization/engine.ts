@@ -0,0 +1,57 @@
+import type { Transaction } from '../../types/credit';
+import { UNCATEGORIZED, matchCategory } from './categories';
+import { MERCHANT_DICTIONARY } from './dictionary';
+import { learnedRuleFor, matchesRule, type CategorizationRule, type CategorySource } from './rules';
+
+export interface CategorizerConfig {
+  categories: string[];
+  rules: CategorizationRule[];
+}
+
+export interface CategorizationResult {
+  category: string;
+  source: CategorySource;
+  ruleId?: string;
+}
+
+type Categorizable = Pick<Transaction, 'description' | 'amount' | 'type'>;
+
+// User rules win over learned corrections, which win over the built-in dictionary
+export const categorize = (transaction: Categorizable, { categories, rules }: CategorizerConfig): CategorizationResult => {
+  const usable = (category: string) => categories.includes(category);
+
+  for (const source of ['user', 'learned'] as const) {
+    const rule = rules.find(r => r.source === source && usable(r.category) && matchesRule(r, transaction));
+    if (rule) return { category: rule.category, source: source === 'user' ? 'rule' : 'learned', ruleId: rule.id };
+  }
+
+  const entry = MERCHANT_DICTIONARY.find(e => usable(e.category) && e.pattern.test(transaction.description));
+  if (entry) return { category: entry.category, source: 'dictionary' };
+
+  if (transaction.type === 'income' && usable('Income')) return { category: 'Income', source: 'type' };
+  if (transaction.type === 'transfer' && usable('Transfers')) return { category: 'Transfers', source: 'type' };
+
+  return { category: UNCATEGORIZED, source: 'none' };
+};
+
+// Keeps a recognised category from the source, otherwise runs the categorizer
+export const resolveCategory = <T extends Categorizable & { category: string }>(transaction: T, config: CategorizerConfig) =>
+  matchCategory(transaction.category, config.categories) ?? categorize(transaction, config).category;
+
+// Re-runs categorization over the whole ledger; without `overwrite` only uncategorized rows change
+export const categorizeLedger = (transactions: Transaction[], config: CategorizerConfig, overwrite = false) =>
+  transactions.map(transaction => {
+    const managed = matchCategory(transaction.category, config.categories);
+    if (!overwrite && managed && managed !== UNCATEGORIZED) {
+      return managed === transaction.category ? transaction : { ...transaction, category: managed };
+    }
+    const { category } = categorize(transaction, config);
+    return category === transaction.category ? transaction : { ...transaction, category };
+  });
+
+// Records a user's correction as a learned rule, replacing any earlier lesson for the same merchant
+export const learnFromCorrection = (transaction: Categorizable, category: string, rules: CategorizationRule[]) => {
+  const learned = learnedRuleFor(transaction, category);
+  if (!learned) return rules;
+  return [...rules.filter(rule => rule.id !== learned.id), learned];
+};
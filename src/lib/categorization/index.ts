@@ -0,0 +1,6 @@
+export { DEFAULT_CATEGORIES, UNCATEGORIZED, matchCategory } from './categories';
+export { MERCHANT_DICTIONARY } from './dictionary';
+export { categorize, categorizeLedger, learnFromCorrection, resolveCategory } from './engine';
+export type { CategorizationResult, CategorizerConfig } from './engine';
+export { learnedRuleFor, matchesRule, merchantKey } from './rules';
+export type { CategorizationRule, CategorySource } from './rules';
@@ -0,0 +1,55 @@
+import type { Transaction, TransactionType } from '../../types/credit';
+
+export interface CategorizationRule {
+  id: string;
+  category: string;
+  // Regex source matched case-insensitively against the description
+  descriptionPattern?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  type?: TransactionType;
+  // `learned` rules come from user corrections and rank below explicit user rules
+  source: 'user' | 'learned';
+}
+
+export type CategorySource = 'rule' | 'learned' | 'dictionary' | 'type' | 'none';
+
+export const matchesRule = (rule: CategorizationRule, transaction: Pick<Transaction, 'description' | 'amount' | 'type'>) => {
+  if (rule.type && rule.type !== transaction.type) return false;
+  if (rule.minAmount !== undefined && transaction.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && transaction.amount > rule.maxAmount) return false;
+  if (rule.descriptionPattern) {
+    try {
+      if (!new RegExp(rule.descriptionPattern, 'i').test(transaction.description)) return false;
+    } catch {
+      // An invalid user pattern never matches rather than breaking categorization
+      return false;
+    }
+  }
+  return true;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Reduces a description to a stable merchant key, dropping reference numbers and dates
+export const merchantKey = (description: string) =>
+  description
+    .toLowerCase()
+    .replace(/[#*]?\d[\d/-]*/g, ' ')
+    .replace(/[^a-z&' ]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 3)
+    .join(' ');
+
+export const learnedRuleFor = (transaction: Pick<Transaction, 'description' | 'type'>, category: string): CategorizationRule | null => {
+  const key = merchantKey(transaction.description);
+  if (!key) return null;
+  return {
+    id: `learned-${key.replace(/\s+/g, '-')}-${transaction.type}`,
+    category,
+    descriptionPattern: key.split(' ').map(escapeRegExp).join('\\W+'),
+    type: transaction.type,
+    source: 'learned',
+  };
+};
@@ -0,0 +1,35 @@
+import { keccak256, toHex, type Hex } from 'viem';
+import type { ConsentData, ConsentScope } from './types';
+
+export const CONSENT_SCOPES: Record<ConsentScope, { label: string; description: string }> = {
+  transactions: { label: 'Transactions', description: 'Every transaction in your ledger' },
+  accounts: { label: 'Credit accounts', description: 'Limits, balances and opening dates' },
+  score: { label: 'Credit score', description: 'Score, tier, factors and the scorecard that produced them' },
+};
+
+// JSON with object keys sorted at every level, so equal data always hashes the same
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// The exact document a consent covers: the chosen scopes, nothing else
+export const buildDataset = (data: ConsentData, scopes: ConsentScope[]): string => {
+  const { score, tier, factors, scorecardVersion } = data.creditScore;
+  const parts: Record<ConsentScope, unknown> = {
+    transactions: data.transactions,
+    accounts: data.accounts,
+    // Recommendations are advice derived from the score, not data being shared
+    score: { score, tier, factors, scorecardVersion },
+  };
+  return canonicalJson(Object.fromEntries(scopes.map(scope => [scope, parts[scope]])));
+};
+
+// What the registry stores. Keep the dataset itself: the hash only proves which data was meant.
+export const hashDataset = (dataset: string): Hex => keccak256(toHex(dataset));
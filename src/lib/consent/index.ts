@@ -0,0 +1,3 @@
+export { CONSENT_SCOPES, buildDataset, hashDataset } from './dataset';
+export { EXPIRY_WARNING_MS, REVOKE_DELAY_S, consentState, formatCountdown, toConsentRecord } from './status';
+export type { ConsentData, ConsentRecord, ConsentScope, ConsentState } from './types';
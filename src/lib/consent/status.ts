@@ -0,0 +1,41 @@
+import { zeroHash } from 'viem';
+import type { DataConsent } from '../contracts';
+import type { ConsentRecord, ConsentState } from './types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Consents closer than this to expiry are flagged so the borrower can extend them in time
+export const EXPIRY_WARNING_MS = 7 * DAY_MS;
+
+// The registry has no way to deactivate a consent. Revoking re-submits it with an expiry this far
+// ahead: soon enough to end sharing, late enough to still be in the future once the write is mined.
+export const REVOKE_DELAY_S = 120;
+
+// Null for a borrower who never consented
+export const toConsentRecord = (consent: DataConsent): ConsentRecord | null =>
+  consent.dataHash === zeroHash ? null : {
+    dataHash: consent.dataHash,
+    grantedAt: Number(consent.timestamp) * 1000,
+    isActive: consent.isActive,
+    expiresAt: Number(consent.expiryTime) * 1000,
+  };
+
+export const consentState = (consent: ConsentRecord | null, now = Date.now()): ConsentState => {
+  if (!consent || !consent.isActive) return 'none';
+  if (consent.expiresAt <= now) return 'expired';
+  return consent.expiresAt - now <= EXPIRY_WARNING_MS ? 'expiring' : 'active';
+};
+
+// "3d 4h", "5h 12m", "4m 09s"
+export const formatCountdown = (ms: number) => {
+  const left = Math.max(0, ms);
+  const days = Math.floor(left / DAY_MS);
+  const hours = Math.floor((left % DAY_MS) / HOUR_MS);
+  const minutes = Math.floor((left % HOUR_MS) / MINUTE_MS);
+  const seconds = Math.floor((left % MINUTE_MS) / 1000);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+};
@@ -0,0 +1,21 @@
+import type { Hex } from 'viem';
+import type { CreditAccount, CreditScore, Transaction } from '../../types/credit';
+
+// Parts of the borrower's local data a consent can cover
+export type ConsentScope = 'transactions' | 'accounts' | 'score';
+
+export interface ConsentData {
+  transactions: Transaction[];
+  accounts: CreditAccount[];
+  creditScore: CreditScore;
+}
+
+// The registry's DataConsent, with times in milliseconds
+export interface ConsentRecord {
+  dataHash: Hex;
+  grantedAt: number;
+  isActive: boolean;
+  expiresAt: number;
+}
+
+export type ConsentState = 'none' | 'active' | 'expiring' | 'expired';
@@ -0,0 +1,83 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  defineChain,
+  getContract,
+  http,
+  type Account,
+  type Address,
+  type Chain,
+  type GetContractReturnType,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem';
+import type { ContractName, NetworkConfig } from '../networks';
+import type { EIP1193Provider } from '../wallet';
+import { CONTRACT_ABIS, type ContractAbi } from './registry';
+
+// A wallet client bound to one account and chain, so writes need neither per call
+export type SigningClient = WalletClient<Transport, Chain, Account>;
+
+// Read-only client; `read`, `simulate`, `estimateGas` and event helpers
+export type ContractReader<TName extends ContractName> = GetContractReturnType<ContractAbi<TName>, PublicClient>;
+
+// Adds `write` for a connected wallet
+export type ContractWriter<TName extends ContractName> = GetContractReturnType<
+  ContractAbi<TName>,
+  { public: PublicClient; wallet: SigningClient }
+>;
+
+export const toChain = (network: NetworkConfig): Chain => defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: network.nativeCurrency,
+  rpcUrls: { default: { http: [network.rpcUrl] } },
+  blockExplorers: network.explorerUrl
+    ? { default: { name: 'Explorer', url: network.explorerUrl } }
+    : undefined,
+  contracts: network.multicall3
+    ? { multicall3: { address: network.multicall3 as Address } }
+    : undefined,
+  testnet: network.testnet,
+});
+
+// Reads go through the wallet when it is on this network, otherwise straight to the RPC URL.
+// Where Multicall3 is deployed, view calls made in the same tick share one eth_call; calls made
+// with an `account` are sent alone, since the contract would otherwise see Multicall3 as msg.sender.
+export const createReadClient = (network: NetworkConfig, provider?: EIP1193Provider): PublicClient =>
+  createPublicClient({
+    chain: toChain(network),
+    transport: provider ? custom(provider) : http(network.rpcUrl),
+    batch: { multicall: Boolean(network.multicall3) },
+  });
+
+export const createWriteClient = (network: NetworkConfig, provider: EIP1193Provider, account: string): SigningClient =>
+  createWalletClient({
+    account: account as Address,
+    chain: toChain(network),
+    transport: custom(provider),
+  });
+
+export const createContractReader = <TName extends ContractName>(
+  name: TName,
+  address: string,
+  publicClient: PublicClient,
+): ContractReader<TName> =>
+  getContract({
+    abi: CONTRACT_ABIS[name],
+    address: address as Address,
+    client: publicClient,
+  }) as ContractReader<TName>;
+
+export const createContractWriter = <TName extends ContractName>(
+  name: TName,
+  address: string,
+  clients: { public: PublicClient; wallet: SigningClient },
+): ContractWriter<TName> =>
+  getContract({
+    abi: CONTRACT_ABIS[name],
+    address: address as Address,
+    client: clients,
+  }) as ContractWriter<TName>;
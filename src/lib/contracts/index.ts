@@ -0,0 +1,37 @@
+export { creditScoreRegistryAbi } from './abis/CreditScoreRegistry';
+export { dataMarketplaceAbi } from './abis/DataMarketplace';
+export { federatedLearningCoordinatorAbi } from './abis/FederatedLearningCoordinator';
+export { lenderPortalAbi } from './abis/LenderPortal';
+export {
+  createContractReader,
+  createContractWriter,
+  createReadClient,
+  createWriteClient,
+  toChain,
+} from './clients';
+export type { ContractReader, ContractWriter, SigningClient } from './clients';
+export { CONTRACT_ABIS } from './registry';
+export type { ContractAbi } from './registry';
+export { toStruct } from './structs';
+export type {
+  AggregatedModel,
+  APIAccess,
+  BatchRequest,
+  CreditRequest,
+  CreditRequestSummary,
+  CreditScore,
+  CurrentModel,
+  DataConsent,
+  DataProduct,
+  LenderInfo,
+  LenderSummary,
+  ModelUpdate,
+  NamedOutputs,
+  NodeInfo,
+  ProductSummary,
+  Purchase,
+  Review,
+  ScoreDetails,
+  ScoreFactors,
+  TrainingRound,
+} from './structs';
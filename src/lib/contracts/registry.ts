@@ -0,0 +1,15 @@
+import type { Abi } from 'viem';
+import type { ContractName } from '../networks';
+import { creditScoreRegistryAbi } from './abis/CreditScoreRegistry';
+import { dataMarketplaceAbi } from './abis/DataMarketplace';
+import { federatedLearningCoordinatorAbi } from './abis/FederatedLearningCoordinator';
+import { lenderPortalAbi } from './abis/LenderPortal';
+
+export const CONTRACT_ABIS = {
+  CreditScoreRegistry: creditScoreRegistryAbi,
+  FederatedLearningCoordinator: federatedLearningCoordinatorAbi,
+  DataMarketplace: dataMarketplaceAbi,
+  LenderPortal: lenderPortalAbi,
+} as const satisfies Record<ContractName, Abi>;
+
+export type ContractAbi<TName extends ContractName> = typeof CONTRACT_ABIS[TName];
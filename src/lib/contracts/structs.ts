@@ -0,0 +1,56 @@
+import type {
+  Abi,
+  AbiFunction,
+  AbiParameterToPrimitiveType,
+  ContractFunctionName,
+} from 'viem';
+import type { creditScoreRegistryAbi } from './abis/CreditScoreRegistry';
+import type { dataMarketplaceAbi } from './abis/DataMarketplace';
+import type { federatedLearningCoordinatorAbi } from './abis/FederatedLearningCoordinator';
+import type { lenderPortalAbi } from './abis/LenderPortal';
+
+type FunctionOutputs<TAbi extends Abi, TName extends ContractFunctionName<TAbi>> =
+  Extract<TAbi[number], { type: 'function'; name: TName }>['outputs'];
+
+// A function's named outputs as an object, e.g. the fields a public struct getter returns
+export type NamedOutputs<TAbi extends Abi, TName extends ContractFunctionName<TAbi>> = {
+  [P in FunctionOutputs<TAbi, TName>[number] as P['name'] & string]: AbiParameterToPrimitiveType<P>;
+};
+
+// Struct types as the generated ABIs describe them. Public getters leave out array members,
+// so a struct holding arrays is the getter's view of it.
+export type CreditScore = NamedOutputs<typeof creditScoreRegistryAbi, 'scores'>;
+export type ScoreDetails = NamedOutputs<typeof creditScoreRegistryAbi, 'getScoreDetails'>;
+export type ScoreFactors = NamedOutputs<typeof creditScoreRegistryAbi, 'getScoreFactors'>;
+export type DataConsent = NamedOutputs<typeof creditScoreRegistryAbi, 'consents'>;
+
+export type DataProduct = NamedOutputs<typeof dataMarketplaceAbi, 'products'>;
+export type ProductSummary = NamedOutputs<typeof dataMarketplaceAbi, 'getProduct'>;
+export type Purchase = NamedOutputs<typeof dataMarketplaceAbi, 'purchases'>;
+export type Review = AbiParameterToPrimitiveType<
+  FunctionOutputs<typeof dataMarketplaceAbi, 'getProductReviews'>[0]
+>[number];
+
+export type LenderInfo = NamedOutputs<typeof lenderPortalAbi, 'lenders'>;
+export type LenderSummary = NamedOutputs<typeof lenderPortalAbi, 'getLenderInfo'>;
+export type CreditRequest = NamedOutputs<typeof lenderPortalAbi, 'creditRequests'>;
+export type CreditRequestSummary = NamedOutputs<typeof lenderPortalAbi, 'getCreditRequest'>;
+export type APIAccess = NamedOutputs<typeof lenderPortalAbi, 'apiAccess'>;
+export type BatchRequest = NamedOutputs<typeof lenderPortalAbi, 'batchRequests'>;
+
+export type ModelUpdate = NamedOutputs<typeof federatedLearningCoordinatorAbi, 'modelUpdates'>;
+export type AggregatedModel = NamedOutputs<typeof federatedLearningCoordinatorAbi, 'models'>;
+export type CurrentModel = NamedOutputs<typeof federatedLearningCoordinatorAbi, 'getCurrentModel'>;
+export type TrainingRound = NamedOutputs<typeof federatedLearningCoordinatorAbi, 'trainingRounds'>;
+export type NodeInfo = NamedOutputs<typeof federatedLearningCoordinatorAbi, 'nodes'>;
+
+// Zips a multi-output read (which viem returns as a tuple) into its named-outputs object
+export const toStruct = <TAbi extends Abi, TName extends ContractFunctionName<TAbi>>(
+  abi: TAbi,
+  functionName: TName,
+  values: readonly unknown[],
+): NamedOutputs<TAbi, TName> => {
+  const fn = abi.find((item): item is AbiFunction => item.type === 'function' && item.name === functionName);
+  if (!fn) throw new Error(`Function ${functionName} is not in the ABI`);
+  return Object.fromEntries(fn.outputs.map((output, i) => [output.name, values[i]])) as NamedOutputs<TAbi, TName>;
+};
@@ -0,0 +1,26 @@
+import type { ContractErrorKind, ErrorExplanation } from './types';
+
+// A failed contract read or write, classified and explained for the user. `message` is the
+// explanation; `reason` keeps the raw revert string or custom error name for logs.
+export class ContractError extends Error {
+  readonly kind: ContractErrorKind;
+  readonly title: string;
+  readonly action: string;
+  readonly reason?: string;
+  readonly cause?: unknown;
+
+  constructor(kind: ContractErrorKind, { title, explanation, action }: ErrorExplanation, options: { reason?: string; cause?: unknown } = {}) {
+    super(explanation);
+    this.name = 'ContractError';
+    this.kind = kind;
+    this.title = title;
+    this.action = action;
+    this.reason = options.reason;
+    this.cause = options.cause;
+  }
+
+  // Declining in the wallet is a choice, not a failure worth alarming the user about
+  get isUserRejection() {
+    return this.kind === 'userRejected';
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  RpcRequestError,
+  TimeoutError,
+  UserRejectedRequestError,
+  parseAbi,
+  type Hex,
+} from 'viem';
+import { RPC_ERROR_CODES, isRpcError } from '../wallet';
+import { ContractError } from './contractError';
+import { describeRole, explainRevertReason } from './reasons';
+import type { ContractErrorKind, ErrorExplanation } from './types';
+
+// Access `require` messages, reported like OpenZeppelin role errors
+const ACCESS_REASONS = new Set(['Unauthorized access']);
+
+// Errors of OpenZeppelin's ERC20, raised when a contract moves the user's payment tokens. They are
+// not in the app's contract ABIs, so calls that spend tokens add these to decode them.
+export const ERC20_ERRORS_ABI = parseAbi([
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+]);
+
+// OpenZeppelin custom errors the contracts inherit
+const CUSTOM_ERRORS: Record<string, (args: readonly unknown[]) => ErrorExplanation & { kind: ContractErrorKind }> = {
+  AccessControlUnauthorizedAccount: ([, role]) => ({
+    kind: 'unauthorized',
+    title: 'Not allowed',
+    explanation: `This action needs the ${describeRole(role as Hex)} role, which the connected account does not have.`,
+    action: 'Switch to an account with that role, or ask an administrator to grant it.',
+  }),
+  EnforcedPause: () => ({
+    kind: 'reverted',
+    title: 'Contract paused',
+    explanation: 'The contract is paused for maintenance.',
+    action: 'Try again once it is unpaused.',
+  }),
+  ERC20InsufficientBalance: () => ({
+    kind: 'insufficientFunds',
+    title: 'Insufficient token balance',
+    explanation: 'The account does not hold enough of the payment token for this purchase.',
+    action: 'Add payment tokens to the account and try again.',
+  }),
+  ERC20InsufficientAllowance: () => ({
+    kind: 'reverted',
+    title: 'Token spending not approved',
+    explanation: 'The marketplace is not allowed to spend enough of your payment tokens.',
+    action: 'Approve the marketplace to spend the payment token, then try again.',
+  }),
+  ReentrancyGuardReentrantCall: () => ({
+    kind: 'reverted',
+    title: 'Transaction failed',
+    explanation: 'The contract blocked a nested call into itself.',
+    action: 'Try again; report it if it keeps happening.',
+  }),
+};
+
+const fromRevert = (revert: ContractFunctionRevertedError, cause: unknown) => {
+  const { errorName, args = [] } = revert.data ?? {};
+  if (errorName && CUSTOM_ERRORS[errorName]) {
+    const { kind, ...explanation } = CUSTOM_ERRORS[errorName](args);
+    return new ContractError(kind, explanation, { reason: errorName, cause });
+  }
+  if (errorName && errorName !== 'Error' && errorName !== 'Panic') {
+    return new ContractError('reverted', {
+      title: 'Transaction failed',
+      explanation: `The contract rejected the transaction with ${errorName}.`,
+      action: 'Check the details and try again.',
+    }, { reason: errorName, cause });
+  }
+  // Without revert data viem falls back to the node's message, which says nothing more
+  const reason = revert.reason === 'execution reverted' ? undefined : revert.reason;
+  if (reason) {
+    const kind = ACCESS_REASONS.has(reason) ? 'unauthorized' : 'reverted';
+    return new ContractError(kind, {
+      title: kind === 'unauthorized' ? 'Not allowed' : 'Transaction failed',
+      ...explainRevertReason(reason),
+    }, { reason, cause });
+  }
+  return new ContractError('reverted', {
+    title: 'Transaction failed',
+    explanation: 'The contract rejected the transaction without giving a reason.',
+    action: 'Check the amounts and your account\'s permissions, then try again.',
+  }, { cause });
+};
+
+// Turns whatever a contract read or write threw into a ContractError. viem nests the root cause
+// (revert, rejection, transport failure) inside its call errors, so the chain is searched for it.
+export const decodeContractError = (error: unknown): ContractError => {
+  if (error instanceof ContractError) return error;
+
+  if (error instanceof BaseError) {
+    const revert = error.walk(e => e instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError) return fromRevert(revert, error);
+
+    if (error.walk(e => e instanceof UserRejectedRequestError)) {
+      return new ContractError('userRejected', {
+        title: 'Request declined',
+        explanation: 'You declined the request in your wallet.',
+        action: 'Try again and approve it in your wallet to continue.',
+      }, { cause: error });
+    }
+    if (error.walk(e => e instanceof InsufficientFundsError)) {
+      return new ContractError('insufficientFunds', {
+        title: 'Insufficient funds',
+        explanation: 'The account cannot cover the transaction\'s value plus gas.',
+        action: 'Add funds to the account, or send a smaller amount.',
+      }, { cause: error });
+    }
+    if (error.walk(e => e instanceof ChainMismatchError)) {
+      return new ContractError('wrongNetwork', {
+        title: 'Wrong network',
+        explanation: 'The wallet is on a different network than the app.',
+        action: 'Switch networks from the header and try again.',
+      }, { cause: error });
+    }
+    if (error.walk(e => e instanceof HttpRequestError || e instanceof TimeoutError || e instanceof RpcRequestError)) {
+      return new ContractError('network', {
+        title: 'Network error',
+        explanation: 'The network node could not be reached or failed the request.',
+        action: 'Check your connection and try again in a moment.',
+      }, { cause: error });
+    }
+  }
+
+  // Errors straight from an EIP-1193 provider, outside viem
+  if (isRpcError(error) && error.code === RPC_ERROR_CODES.userRejected) {
+    return decodeContractError(new UserRejectedRequestError(error));
+  }
+  if (isRpcError(error) && (error.code === RPC_ERROR_CODES.disconnected || error.code === RPC_ERROR_CODES.chainDisconnected)) {
+    return new ContractError('network', {
+      title: 'Wallet disconnected',
+      explanation: 'The wallet lost its connection to the network.',
+      action: 'Reconnect the wallet and try again.',
+    }, { cause: error });
+  }
+
+  return new ContractError('unknown', {
+    title: 'Something went wrong',
+    explanation: error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : 'An unexpected error occurred.',
+    action: 'Try again; report it if it keeps happening.',
+  }, { cause: error });
+};
+
+export const notConnectedError = () => new ContractError('notConnected', {
+  title: 'Wallet not connected',
+  explanation: 'Sending transactions needs a wallet connected to the selected network.',
+  action: 'Connect your wallet, or switch it to this network.',
+});
+
+// The user turned down the app's own fee confirmation, before anything reached the wallet
+export const declinedError = () => new ContractError('userRejected', {
+  title: 'Transaction cancelled',
+  explanation: 'You cancelled the transaction before it was sent.',
+  action: 'Start it again when you are ready.',
+});
@@ -0,0 +1,4 @@
+export { ContractError } from './contractError';
+export { ERC20_ERRORS_ABI, declinedError, decodeContractError, notConnectedError } from './decode';
+export { describeRole, explainRevertReason } from './reasons';
+export type { ContractErrorKind, ErrorExplanation } from './types';
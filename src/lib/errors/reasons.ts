@@ -0,0 +1,200 @@
+import { keccak256, toHex, zeroHash, type Hex } from 'viem';
+import type { ErrorExplanation } from './types';
+
+type Explanation = Pick<ErrorExplanation, 'explanation' | 'action'>;
+
+// `require` messages from contracts/*.sol. Messages missing here still reach the user, quoted.
+const REVERT_REASONS: Record<string, Explanation> = {
+  // CreditScoreRegistry
+  'Score must be between 300-850': {
+    explanation: 'Credit scores are published on the 300-850 scale.',
+    action: 'Recalculate your score and publish a value in that range.',
+  },
+  'No active score found': {
+    explanation: 'No credit score has been published for this address yet.',
+    action: 'Publish a score first, or check the address.',
+  },
+  'Unauthorized access': {
+    explanation: 'Only the borrower, a registered lender or a lender the borrower granted access can read this score.',
+    action: 'Ask the borrower to grant your address access.',
+  },
+  'Access already granted': {
+    explanation: 'This lender can already read your score.',
+    action: 'No action is needed.',
+  },
+  'Access not granted': {
+    explanation: 'This lender does not have access to revoke.',
+    action: 'Check the lender address.',
+  },
+  'Expiry must be in future': {
+    explanation: 'A consent has to expire after the current block time.',
+    action: 'Choose a later expiry date.',
+  },
+  'All factors must be 0-100': {
+    explanation: 'Each score factor is a percentage.',
+    action: 'Keep every factor between 0 and 100.',
+  },
+
+  // DataMarketplace
+  'Already purchased': {
+    explanation: 'This account has already bought this product.',
+    action: 'Find it under Your Purchases.',
+  },
+  'Cannot buy own product': {
+    explanation: 'Sellers cannot buy their own listings.',
+    action: 'Switch to another account to buy it.',
+  },
+  'Product not active': {
+    explanation: 'The seller has taken this product off the marketplace.',
+    action: 'Pick another product.',
+  },
+  'Must purchase to review': {
+    explanation: 'Only buyers can review a product.',
+    action: 'Buy the product before reviewing it.',
+  },
+  'Already reviewed': {
+    explanation: 'Each buyer can review a product once.',
+    action: 'No action is needed.',
+  },
+  'Rating must be 1-5': {
+    explanation: 'Ratings go from 1 to 5 stars.',
+    action: 'Choose a rating between 1 and 5.',
+  },
+  'Only seller can update': {
+    explanation: 'Only the seller who listed this product can change it.',
+    action: 'Switch to the seller account.',
+  },
+  'Only seller can deactivate': {
+    explanation: 'Only the seller who listed this product can delist it.',
+    action: 'Switch to the seller account.',
+  },
+
+  // LenderPortal
+  'Already registered': {
+    explanation: 'This address is already registered as a lender.',
+    action: 'Wait for approval, or use another address for a new registration.',
+  },
+  'Insufficient registration fee': {
+    explanation: 'Registering as a lender requires paying the registration fee.',
+    action: 'Send at least the current registration fee.',
+  },
+  'Company name required': {
+    explanation: 'Lenders register under their company name.',
+    action: 'Enter the company name.',
+  },
+  'License number required': {
+    explanation: 'Lenders register with their lending license.',
+    action: 'Enter the license number.',
+  },
+  'Lender not registered': {
+    explanation: 'This address has not registered as a lender.',
+    action: 'Register as a lender first.',
+  },
+  'Lender not approved': {
+    explanation: 'Lender registrations are reviewed before they can use the portal.',
+    action: 'Wait for the platform to approve your registration.',
+  },
+  'Already approved': {
+    explanation: 'This lender is already approved.',
+    action: 'No action is needed.',
+  },
+  'No API access': {
+    explanation: 'This lender has no API access plan.',
+    action: 'Request API access first.',
+  },
+  'Request limit exceeded': {
+    explanation: 'The API plan\'s request limit for this period is used up.',
+    action: 'Wait for the next period, or request a higher access level.',
+  },
+  'Insufficient API fee': {
+    explanation: 'Each credit request pays the per-request API fee.',
+    action: 'Send at least the current API fee.',
+  },
+  'Insufficient fee': {
+    explanation: 'Batch requests pay the API fee for every borrower.',
+    action: 'Send the API fee times the number of borrowers.',
+  },
+  'Batch too large': {
+    explanation: 'A batch can hold at most 100 borrowers.',
+    action: 'Split the borrowers into smaller batches.',
+  },
+  'Batch size too large': {
+    explanation: 'A batch score update can hold at most 100 users.',
+    action: 'Split the users into smaller batches.',
+  },
+  'Array length mismatch': {
+    explanation: 'Each address in a batch needs exactly one matching amount or score.',
+    action: 'Give the same number of addresses and values.',
+  },
+  'Already processed': {
+    explanation: 'This credit request or batch has already been processed.',
+    action: 'Check its outcome under Credit Requests.',
+  },
+
+  // FederatedLearningCoordinator
+  'Node already registered': {
+    explanation: 'This address is already a training node.',
+    action: 'No action is needed.',
+  },
+  'Node not registered': {
+    explanation: 'Only registered nodes can take part in training.',
+    action: 'Register as a node first.',
+  },
+  'Insufficient stake': {
+    explanation: 'Model updates must be sent with the minimum stake.',
+    action: 'Send at least the minimum stake.',
+  },
+  'No active training round': {
+    explanation: 'No training round is running.',
+    action: 'Wait for the next round to start.',
+  },
+  'Round not active': {
+    explanation: 'This training round is not running.',
+    action: 'Wait for the next round to start.',
+  },
+  'Training round ended': {
+    explanation: 'The submission window for this round has closed.',
+    action: 'Submit in the next round.',
+  },
+  'Round is full': {
+    explanation: 'This round has reached its participant limit.',
+    action: 'Submit in the next round.',
+  },
+  'Already participated in this round': {
+    explanation: 'Each node submits one update per round.',
+    action: 'Wait for the next round.',
+  },
+  'Round already active': {
+    explanation: 'A training round is already running.',
+    action: 'Wait for it to end before starting another.',
+  },
+  'Round not ended': {
+    explanation: 'Models are aggregated after the round ends.',
+    action: 'Wait for the round\'s end time.',
+  },
+  'Insufficient participants': {
+    explanation: 'The round does not have its minimum number of participants yet.',
+    action: 'Wait for more nodes to submit updates.',
+  },
+};
+
+export const explainRevertReason = (reason: string): Explanation => REVERT_REASONS[reason] ?? {
+  explanation: `The contract rejected the transaction: "${reason}".`,
+  action: 'Check the details and try again.',
+};
+
+// Role ids are hashes of their names; DEFAULT_ADMIN_ROLE is zero
+const ROLE_NAMES = new Map<Hex, string>([
+  [zeroHash, 'administrator'],
+  ...([
+    ['ORACLE_ROLE', 'score oracle'],
+    ['LENDER_ROLE', 'lender'],
+    ['SELLER_ROLE', 'seller'],
+    ['VERIFIER_ROLE', 'verifier'],
+    ['VALIDATOR_ROLE', 'validator'],
+    ['AGGREGATOR_ROLE', 'aggregator'],
+    ['APPROVED_LENDER_ROLE', 'approved lender'],
+  ] as const).map(([role, name]) => [keccak256(toHex(role)), name] as [Hex, string]),
+]);
+
+export const describeRole = (role: Hex) => ROLE_NAMES.get(role.toLowerCase() as Hex) ?? 'required';
@@ -0,0 +1,21 @@
+export type ContractErrorKind =
+  // The user declined the request in their wallet
+  | 'userRejected'
+  // The account cannot pay for gas plus the value sent
+  | 'insufficientFunds'
+  // A `require` or custom error in the contract
+  | 'reverted'
+  // The contract's access checks failed (OpenZeppelin roles or an access `require`)
+  | 'unauthorized'
+  | 'notConnected'
+  | 'wrongNetwork'
+  // The node or wallet could not be reached or failed the request
+  | 'network'
+  | 'unknown';
+
+export interface ErrorExplanation {
+  title: string;
+  explanation: string;
+  // What the user can do about it
+  action: string;
+}
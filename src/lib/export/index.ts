@@ -0,0 +1,23 @@
+// Spreadsheets run text starting with one of these as a formula, so such text gets a leading quote
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// RFC 4180: fields holding a comma, quote or line break are quoted, with quotes doubled
+const csvField = (value: string | number | bigint | boolean | null | undefined) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  // Numbers are left alone: a negative amount is data, not a formula
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: Array<Array<string | number | bigint | boolean | null | undefined>>) =>
+  [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+
+// Saves `content` through the browser's download prompt
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,112 @@
+import { parseAmount } from './normalize';
+import type { StatementRow } from './types';
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ColumnMapping {
+  date: number;
+  description: number;
+  // Either a signed amount column, or separate debit/credit columns
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  category?: number;
+  type?: number;
+}
+
+const detectDelimiter = (line: string) => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, delimiter) =>
+    line.split(delimiter).length > line.split(best).length ? delimiter : best
+  );
+};
+
+// RFC 4180 style parser: quoted fields, escaped quotes and embedded newlines
+export const parseCsv = (text: string): CsvTable => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] ?? '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map(h => h.trim()), rows };
+};
+
+const findColumn = (headers: string[], patterns: RegExp[]) => {
+  const index = headers.findIndex(header => patterns.some(pattern => pattern.test(header)));
+  return index === -1 ? undefined : index;
+};
+
+// Best guess at a mapping from common bank export headers; the user confirms it
+export const guessMapping = (headers: string[]): Partial<ColumnMapping> => ({
+  date: findColumn(headers, [/date/i, /posted/i]),
+  description: findColumn(headers, [/desc/i, /payee/i, /merchant/i, /name/i, /memo/i, /details/i]),
+  amount: findColumn(headers, [/^amount$/i, /amount/i, /value/i]),
+  debit: findColumn(headers, [/debit/i, /withdrawal/i, /money out/i]),
+  credit: findColumn(headers, [/credit/i, /deposit/i, /money in/i]),
+  category: findColumn(headers, [/categor/i]),
+  type: findColumn(headers, [/^type$/i, /transaction type/i]),
+});
+
+export const isCompleteMapping = (mapping: Partial<ColumnMapping>): mapping is ColumnMapping =>
+  mapping.date !== undefined &&
+  mapping.description !== undefined &&
+  (mapping.amount !== undefined || mapping.debit !== undefined || mapping.credit !== undefined);
+
+export const csvRowsToStatementRows = ({ rows }: CsvTable, mapping: ColumnMapping): StatementRow[] =>
+  rows.map((row, index) => {
+    const cell = (column?: number) => (column === undefined ? undefined : row[column]?.trim());
+    let amount = cell(mapping.amount);
+    if (!amount) {
+      const debit = cell(mapping.debit);
+      const credit = cell(mapping.credit);
+      // Exports often fill the unused side with 0.00, so only a non-zero debit counts
+      amount = debit && parseAmount(debit) ? `-${debit.replace(/^-/, '')}` : credit;
+    }
+    return {
+      // Header is line 1
+      line: index + 2,
+      date: cell(mapping.date),
+      amount,
+      description: cell(mapping.description),
+      category: cell(mapping.category),
+      typeHint: cell(mapping.type),
+    };
+  });
@@ -0,0 +1,21 @@
+import type { Transaction } from '../../types/credit';
+import type { ImportedTransaction } from './types';
+
+export const duplicateKey = (transaction: ImportedTransaction) =>
+  [
+    transaction.date,
+    transaction.amount.toFixed(2),
+    transaction.type,
+    transaction.description.toLowerCase().replace(/\s+/g, ' ').trim(),
+  ].join('|');
+
+// Maps each candidate to the id of an existing row it duplicates, or to an earlier row in the same file
+export const findDuplicates = (candidates: ImportedTransaction[], existing: Transaction[]) => {
+  const seen = new Map(existing.map(t => [duplicateKey(t), t.id]));
+  return candidates.map((candidate, index) => {
+    const key = duplicateKey(candidate);
+    const duplicateOf = seen.get(key);
+    if (!duplicateOf) seen.set(key, `import-row-${index}`);
+    return duplicateOf;
+  });
+};
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import type { Transaction } from '../../types/credit';
+import {
+  buildImportPreview,
+  csvRowsToStatementRows,
+  detectFormat,
+  guessMapping,
+  isCompleteMapping,
+  parseCsv,
+  parseOfx,
+  parseQif,
+} from '.';
+import type { StatementRow } from './types';
+
+const transactionsOf = (rows: StatementRow[], format: 'csv' | 'ofx' | 'qif', existing: Transaction[] = []) =>
+  buildImportPreview(format, rows, existing).rows.map(row => row.transaction);
+
+describe('CSV import', () => {
+  const rowsOf = (text: string) => {
+    const table = parseCsv(text);
+    const mapping = guessMapping(table.headers);
+    if (!isCompleteMapping(mapping)) throw new Error('Incomplete mapping');
+    return csvRowsToStatementRows(table, mapping);
+  };
+
+  it('reads a signed amount column', () => {
+    const rows = rowsOf('Date,Description,Amount\n2024-01-05,Coffee Shop,-4.50\n2024-01-06,Payroll,2000.00\n');
+    expect(transactionsOf(rows, 'csv')).toEqual([
+      { date: '2024-01-05', amount: 4.5, type: 'purchase', description: 'Coffee Shop', category: '' },
+      { date: '2024-01-06', amount: 2000, type: 'income', description: 'Payroll', category: '' },
+    ]);
+  });
+
+  it('falls back to the credit column when the debit is zero', () => {
+    const rows = rowsOf('Date,Description,Debit,Credit\n2024-01-02,Salary,0.00,500.00\n2024-01-03,Groceries,42.10,0.00\n');
+    const preview = buildImportPreview('csv', rows, []);
+    expect(preview.rejected).toEqual([]);
+    expect(preview.rows.map(row => row.transaction)).toEqual([
+      { date: '2024-01-02', amount: 500, type: 'income', description: 'Salary', category: '' },
+      { date: '2024-01-03', amount: 42.1, type: 'purchase', description: 'Groceries', category: '' },
+    ]);
+  });
+
+  it('treats an empty debit cell like a zero one', () => {
+    const rows = rowsOf('Date,Description,Debit,Credit\n2024-01-02,Refund,,12.00\n');
+    expect(rows[0].amount).toBe('12.00');
+  });
+
+  it('rejects a row with nothing on either side', () => {
+    const rows = rowsOf('Date,Description,Debit,Credit\n2024-01-02,Adjustment,0.00,0.00\n');
+    expect(buildImportPreview('csv', rows, []).rejected).toEqual([
+      { line: 2, reason: 'Zero amount', raw: rows[0] },
+    ]);
+  });
+
+  it('handles quoted fields, semicolons and a byte order mark', () => {
+    const table = parseCsv('\uFEFFDate;Description;Amount\r\n2024-02-01;"Rent; ""February""";-1200\r\n\r\n');
+    expect(table.headers).toEqual(['Date', 'Description', 'Amount']);
+    expect(table.rows).toEqual([['2024-02-01', 'Rent; "February"', '-1200']]);
+  });
+
+  it('flags rows already in the ledger', () => {
+    const existing: Transaction[] = [
+      { id: 'tx-1', date: '2024-01-05', amount: 4.5, type: 'purchase', description: 'Coffee Shop', category: '' },
+    ];
+    const rows = rowsOf('Date,Description,Amount\n2024-01-05,Coffee Shop,-4.50\n');
+    expect(buildImportPreview('csv', rows, existing).rows[0].duplicateOf).toBe('tx-1');
+  });
+});
+
+describe('OFX import', () => {
+  const SGML = [
+    'OFXHEADER:100',
+    '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+    '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240115120000[-5:EST]<TRNAMT>-65.20<NAME>Power Company',
+    '<STMTTRN><TRNTYPE>DIRECTDEP<DTPOSTED>20240116<TRNAMT>1500.00<MEMO>Payroll',
+    '<STMTTRN><TRNTYPE>OTHER<DTPOSTED>20240117<TRNAMT>0.00<NAME>Balance check',
+    '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+  ].join('\n');
+
+  it('detects OFX files by extension or content', () => {
+    expect(detectFormat('statement.qfx', '')).toBe('ofx');
+    expect(detectFormat('statement.txt', SGML)).toBe('ofx');
+  });
+
+  it('reads unclosed SGML transactions', () => {
+    const rows = parseOfx(SGML);
+    expect(rows.map(row => row.line)).toEqual([3, 4, 5]);
+    expect(transactionsOf(rows, 'ofx')).toEqual([
+      { date: '2024-01-15', amount: 65.2, type: 'purchase', description: 'Power Company', category: '' },
+      { date: '2024-01-16', amount: 1500, type: 'income', description: 'Payroll', category: '' },
+    ]);
+  });
+
+  it('rejects a zero amount', () => {
+    const preview = buildImportPreview('ofx', parseOfx(SGML), []);
+    expect(preview.rejected.map(({ line, reason }) => ({ line, reason }))).toEqual([{ line: 5, reason: 'Zero amount' }]);
+  });
+
+  it('reads closed XML transactions', () => {
+    const xml =
+      '<OFX><BANKTRANLIST><STMTTRN><TRNTYPE>XFER</TRNTYPE><DTPOSTED>20240201</DTPOSTED>' +
+      '<TRNAMT>-250.00</TRNAMT><NAME>To savings</NAME></STMTTRN></BANKTRANLIST></OFX>';
+    expect(transactionsOf(parseOfx(xml), 'ofx')).toEqual([
+      { date: '2024-02-01', amount: 250, type: 'transfer', description: 'To savings', category: '' },
+    ]);
+  });
+});
+
+describe('QIF import', () => {
+  const QIF = [
+    '!Type:Bank',
+    "D1/15'24",
+    'T-89.99',
+    'PInternet Provider',
+    'LUtilities',
+    '^',
+    'D01/16/2024',
+    'U1,250.00',
+    'T1,250.00',
+    'MPaycheck',
+    '^',
+    'D01/17/2024',
+    'T0.00',
+    'PVoid',
+    '^',
+  ].join('\n');
+
+  it('detects QIF files by extension or header', () => {
+    expect(detectFormat('export.qif', '')).toBe('qif');
+    expect(detectFormat('export.txt', QIF)).toBe('qif');
+  });
+
+  it('reads records and their categories', () => {
+    const rows = parseQif(QIF);
+    expect(rows.map(row => row.line)).toEqual([2, 7, 12]);
+    expect(buildImportPreview('qif', rows, [], { dateFormat: 'MM/DD/YYYY' }).rows.map(row => row.transaction)).toEqual([
+      { date: '2024-01-15', amount: 89.99, type: 'purchase', description: 'Internet Provider', category: 'Utilities' },
+      { date: '2024-01-16', amount: 1250, type: 'income', description: 'Paycheck', category: '' },
+    ]);
+  });
+
+  it('rejects a zero amount', () => {
+    const preview = buildImportPreview('qif', parseQif(QIF), [], { dateFormat: 'MM/DD/YYYY' });
+    expect(preview.rejected.map(({ line, reason }) => ({ line, reason }))).toEqual([{ line: 12, reason: 'Zero amount' }]);
+  });
+
+  it('keeps a final record without a closing caret', () => {
+    expect(parseQif('!Type:Bank\nD2024-03-01\nT-5.00\nPParking')).toEqual([
+      { line: 2, date: '2024-03-01', amount: '-5.00', description: 'Parking' },
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import type { Transaction } from '../../types/credit';
+import { findDuplicates } from './dedupe';
+import { normalizeRow } from './normalize';
+import { parseOfx } from './ofx';
+import { parseQif } from './qif';
+import type { ImportPreview, ImportedTransaction, ParseOptions, RejectedRow, StatementFormat, StatementRow } from './types';
+
+export const detectFormat = (fileName: string, text: string): StatementFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (extension === 'qif' || /^!Type:/im.test(text)) return 'qif';
+  return 'csv';
+};
+
+export const parseStatementRows = (format: Exclude<StatementFormat, 'csv'>, text: string) =>
+  format === 'ofx' ? parseOfx(text) : parseQif(text);
+
+// Maps raw rows to transactions and flags duplicates against the existing ledger
+export const buildImportPreview = (
+  format: StatementFormat,
+  rows: StatementRow[],
+  existing: Transaction[],
+  { dateFormat }: ParseOptions = {}
+): ImportPreview => {
+  const accepted: Array<{ line: number; transaction: ImportedTransaction }> = [];
+  const rejected: RejectedRow[] = [];
+
+  rows.forEach(row => {
+    const result = normalizeRow(row, dateFormat);
+    if ('rejected' in result) {
+      rejected.push(result.rejected);
+    } else {
+      accepted.push({ line: row.line, transaction: result.transaction });
+    }
+  });
+
+  const duplicates = findDuplicates(accepted.map(row => row.transaction), existing);
+  return {
+    format,
+    rows: accepted.map((row, index) => ({ ...row, duplicateOf: duplicates[index] })),
+    rejected,
+  };
+};
+
+export { csvRowsToStatementRows, guessMapping, isCompleteMapping, parseCsv } from './csv';
+export type { ColumnMapping, CsvTable } from './csv';
+export { duplicateKey, findDuplicates } from './dedupe';
+export { parseAmount, parseDate, resolveType } from './normalize';
+export { parseOfx } from './ofx';
+export { parseQif } from './qif';
+export type {
+  DateFormat,
+  ImportPreview,
+  ImportedTransaction,
+  ParseOptions,
+  PreviewRow,
+  RejectedRow,
+  StatementFormat,
+  StatementRow,
+} from './types';
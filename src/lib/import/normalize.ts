@@ -0,0 +1,90 @@
+import type { TransactionType } from '../../types/credit';
+import type { DateFormat, ImportedTransaction, RejectedRow, StatementRow } from './types';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const validDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const expandYear = (year: number) => (year < 100 ? (year < 70 ? 2000 + year : 1900 + year) : year);
+
+// Returns an ISO `YYYY-MM-DD` date, or null if the value does not parse
+export const parseDate = (value: string, format: DateFormat = 'YYYY-MM-DD') => {
+  const trimmed = value.trim();
+
+  // OFX: YYYYMMDD, optionally followed by a time and timezone
+  // Drop the timezone first, since offsets like [-5:EST] contain a '-'
+  const timestamp = trimmed.replace(/\[[^\]]*\]$/, '');
+  const compact = timestamp.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact && !timestamp.includes('-') && !timestamp.includes('/')) {
+    return validDate(Number(compact[1]), Number(compact[2]), Number(compact[3]));
+  }
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return validDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  // Slash dates, including QIF's M/D'YY form
+  const parts = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.'-]\s*(\d{2,4})$/);
+  if (!parts) return null;
+  const [first, second, year] = [Number(parts[1]), Number(parts[2]), expandYear(Number(parts[3]))];
+  return format === 'DD/MM/YYYY' ? validDate(year, second, first) : validDate(year, first, second);
+};
+
+// Accepts currency symbols, thousands separators and accounting-style negatives
+export const parseAmount = (value: string) => {
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.includes('-');
+  const digits = trimmed.replace(/[^0-9.]/g, '');
+  if (!digits || !/\d/.test(digits) || digits.split('.').length > 2) return null;
+  const amount = Number(digits);
+  return negative ? -amount : amount;
+};
+
+const PAYMENT_PATTERN = /\b(payment|repayment|loan|mortgage|rent|autopay|installment|instalment)\b/i;
+const TRANSFER_PATTERN = /\b(transfer|xfer|zelle|venmo)\b/i;
+
+export const resolveType = (row: StatementRow, amount: number): TransactionType => {
+  const hint = row.typeHint?.trim().toLowerCase() ?? '';
+  if (['payment', 'purchase', 'transfer', 'income'].includes(hint)) return hint as TransactionType;
+  if (['credit', 'dep', 'directdep', 'int', 'div'].includes(hint)) return 'income';
+  if (['xfer'].includes(hint)) return 'transfer';
+  if (['directdebit', 'repeatpmt'].includes(hint)) return 'payment';
+
+  const description = row.description ?? '';
+  if (TRANSFER_PATTERN.test(description)) return 'transfer';
+  if (amount > 0) return 'income';
+  if (PAYMENT_PATTERN.test(description)) return 'payment';
+  return 'purchase';
+};
+
+export const normalizeRow = (
+  row: StatementRow,
+  dateFormat?: DateFormat
+): { transaction: ImportedTransaction } | { rejected: RejectedRow } => {
+  const reject = (reason: string) => ({ rejected: { line: row.line, reason, raw: row } });
+
+  if (!row.date) return reject('Missing date');
+  const date = parseDate(row.date, dateFormat);
+  if (!date) return reject(`Unrecognized date "${row.date}"`);
+
+  if (!row.amount) return reject('Missing amount');
+  const amount = parseAmount(row.amount);
+  if (amount === null || !Number.isFinite(amount)) return reject(`Unrecognized amount "${row.amount}"`);
+  if (amount === 0) return reject('Zero amount');
+
+  const description = row.description?.trim();
+  if (!description) return reject('Missing description');
+
+  return {
+    transaction: {
+      date,
+      amount: Math.abs(amount),
+      type: resolveType(row, amount),
+      description,
+      category: row.category?.trim() ?? '',
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import type { StatementRow } from './types';
+
+// Reads a tag from both SGML (unclosed) and XML flavours of OFX
+const readTag = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+export const parseOfx = (text: string): StatementRow[] => {
+  const rows: StatementRow[] = [];
+  const pattern = /<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const block = match[1];
+    const name = readTag(block, 'NAME');
+    const memo = readTag(block, 'MEMO');
+    rows.push({
+      line: text.slice(0, match.index).split('\n').length,
+      date: readTag(block, 'DTPOSTED'),
+      amount: readTag(block, 'TRNAMT'),
+      description: name || memo,
+      typeHint: readTag(block, 'TRNTYPE'),
+    });
+  }
+  return rows;
+};
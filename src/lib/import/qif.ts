@@ -0,0 +1,32 @@
+import type { StatementRow } from './types';
+
+// QIF records are lines prefixed by a field code and terminated by `^`
+export const parseQif = (text: string): StatementRow[] => {
+  const rows: StatementRow[] = [];
+  let current: StatementRow | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) return;
+
+    if (line === '^') {
+      if (current) rows.push(current);
+      current = null;
+      return;
+    }
+
+    current ??= { line: index + 1 };
+    const value = line.slice(1).trim();
+    switch (line[0]) {
+      case 'D': current.date = value; break;
+      case 'T':
+      case 'U': current.amount ??= value; break;
+      case 'P': current.description = value; break;
+      case 'M': current.description ??= value; break;
+      case 'L': current.category = value.replace(/^\[|\]$/g, ''); break;
+    }
+  });
+
+  if (current) rows.push(current);
+  return rows;
+};
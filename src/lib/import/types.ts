@@ -0,0 +1,40 @@
+import type { Transaction } from '../../types/credit';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export type ImportedTransaction = Omit<Transaction, 'id'>;
+
+// A row pulled out of a statement before it is mapped onto the Transaction type
+export interface StatementRow {
+  line: number;
+  date?: string;
+  amount?: string;
+  description?: string;
+  category?: string;
+  // Hint from the source format, e.g. OFX TRNTYPE or a CSV type column
+  typeHint?: string;
+}
+
+export interface RejectedRow {
+  line: number;
+  reason: string;
+  raw: StatementRow;
+}
+
+export interface PreviewRow {
+  line: number;
+  transaction: ImportedTransaction;
+  duplicateOf?: string;
+}
+
+export interface ImportPreview {
+  format: StatementFormat;
+  rows: PreviewRow[];
+  rejected: RejectedRow[];
+}
+
+export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export interface ParseOptions {
+  dateFormat?: DateFormat;
+}
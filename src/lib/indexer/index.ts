@@ -0,0 +1,25 @@
+export {
+  selectConsentUpdates,
+  selectCreditRequests,
+  selectEvents,
+  selectLenderAccessChanges,
+  selectLenders,
+  selectPurchases,
+  selectScoreUpdates,
+} from './queries';
+export { byChainOrder, loadIndex, saveIndexChanges } from './store';
+export type { StoredIndex } from './store';
+export { LOG_BATCH_SIZE, REORG_DEPTH, createCursor, isCursorCurrent, syncEvents } from './sync';
+export type {
+  BlockRef,
+  ConsentUpdate,
+  CreditRequestOutcome,
+  CreditRequestRecord,
+  IndexedEvent,
+  IndexerCursor,
+  LenderAccessChange,
+  LenderRecord,
+  ProductPurchase,
+  ScoreUpdate,
+  SyncResult,
+} from './types';
@@ -0,0 +1,112 @@
+import type { Address, Hash } from 'viem';
+import type { ContractName } from '../networks';
+import type {
+  ConsentUpdate,
+  CreditRequestRecord,
+  IndexedEvent,
+  LenderAccessChange,
+  LenderRecord,
+  ProductPurchase,
+  ScoreUpdate,
+} from './types';
+
+const sameAddress = (a: unknown, b: string) => typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+
+export const selectEvents = (events: IndexedEvent[], contract: ContractName, eventName?: string) =>
+  events.filter(event => event.contract === contract && (!eventName || event.eventName === eventName));
+
+// Oldest first
+export const selectScoreUpdates = (events: IndexedEvent[], user: string): ScoreUpdate[] =>
+  selectEvents(events, 'CreditScoreRegistry', 'ScoreUpdated')
+    .filter(event => sameAddress(event.args.user, user))
+    .map(event => ({
+      user: event.args.user as Address,
+      score: Number(event.args.newScore),
+      version: Number(event.args.version),
+      oracle: event.args.oracle as Address,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+    }));
+
+// Oldest first; each update replaces the user's consent as a whole
+export const selectConsentUpdates = (events: IndexedEvent[], user: string): ConsentUpdate[] =>
+  selectEvents(events, 'CreditScoreRegistry', 'ConsentUpdated')
+    .filter(event => sameAddress(event.args.user, user))
+    .map(event => ({
+      user: event.args.user as Address,
+      dataHash: event.args.dataHash as Hash,
+      expiryTime: Number(event.args.expiryTime),
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+    }));
+
+// Grants and revocations of the user's lender access, newest first
+export const selectLenderAccessChanges = (events: IndexedEvent[], user: string): LenderAccessChange[] =>
+  events
+    .filter(event => event.contract === 'CreditScoreRegistry'
+      && (event.eventName === 'LenderAccessGranted' || event.eventName === 'LenderAccessRevoked')
+      && sameAddress(event.args.user, user))
+    .map(event => ({
+      user: event.args.user as Address,
+      lender: event.args.lender as Address,
+      granted: event.eventName === 'LenderAccessGranted',
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+    }))
+    .reverse();
+
+// Registered lenders in registration order, marked approved once LenderApproved is seen
+export const selectLenders = (events: IndexedEvent[]): LenderRecord[] => {
+  const approved = new Set(selectEvents(events, 'LenderPortal', 'LenderApproved')
+    .map(event => (event.args.lender as string).toLowerCase()));
+
+  return selectEvents(events, 'LenderPortal', 'LenderRegistered').map(event => ({
+    lender: event.args.lender as Address,
+    companyName: event.args.companyName as string,
+    isApproved: approved.has((event.args.lender as string).toLowerCase()),
+    registeredAt: event.timestamp,
+  }));
+};
+
+// Newest first
+export const selectPurchases = (events: IndexedEvent[], buyer: string): ProductPurchase[] =>
+  selectEvents(events, 'DataMarketplace', 'ProductPurchased')
+    .filter(event => sameAddress(event.args.buyer, buyer))
+    .map(event => ({
+      purchaseId: event.args.purchaseId as bigint,
+      productId: event.args.productId as bigint,
+      buyer: event.args.buyer as Address,
+      price: event.args.price as bigint,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+    }))
+    .reverse();
+
+// A lender's requests, newest first. `CreditRequestProcessed` only carries the request id, so
+// outcomes are joined onto the submissions by it.
+export const selectCreditRequests = (events: IndexedEvent[], lender: string): CreditRequestRecord[] => {
+  const outcomes = new Map(selectEvents(events, 'LenderPortal', 'CreditRequestProcessed')
+    .map(event => [event.args.requestId as bigint, event.args]));
+
+  return selectEvents(events, 'LenderPortal', 'CreditRequestSubmitted')
+    .filter(event => sameAddress(event.args.lender, lender))
+    .map(event => {
+      const requestId = event.args.requestId as bigint;
+      const outcome = outcomes.get(requestId);
+      return {
+        requestId,
+        lender: event.args.lender as Address,
+        borrower: event.args.borrower as Address,
+        amount: event.args.amount as bigint,
+        outcome: !outcome ? 'pending' : outcome.approved ? 'approved' : 'rejected',
+        approvedAmount: outcome?.approvedAmount as bigint | undefined,
+        submittedAt: event.timestamp,
+        transactionHash: event.transactionHash,
+      } satisfies CreditRequestRecord;
+    })
+    .reverse();
+};
@@ -0,0 +1,32 @@
+import { STORES, applyChanges, getAllByIndex, getRecord, isStorageAvailable } from '../storage/db';
+import type { IndexedEvent, IndexerCursor } from './types';
+
+export interface StoredIndex {
+  cursor: IndexerCursor | null;
+  events: IndexedEvent[];
+}
+
+export const byChainOrder = (a: IndexedEvent, b: IndexedEvent) =>
+  a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+// Without IndexedDB the index lives in memory and is rebuilt on every load
+export const loadIndex = async (chainId: number): Promise<StoredIndex> => {
+  if (!isStorageAvailable()) return { cursor: null, events: [] };
+  const [cursor, events] = await Promise.all([
+    getRecord<IndexerCursor>(STORES.indexerCursors, chainId),
+    getAllByIndex<IndexedEvent>(STORES.events, 'chainId', chainId),
+  ]);
+  return { cursor: cursor ?? null, events: events.sort(byChainOrder) };
+};
+
+// Saves the cursor together with the events it covers, so they never disagree after a crash
+export const saveIndexChanges = async (cursor: IndexerCursor, added: IndexedEvent[], removed: IndexedEvent[]) => {
+  if (!isStorageAvailable()) return;
+  await applyChanges(
+    [
+      { store: STORES.indexerCursors, value: cursor },
+      ...added.map(value => ({ store: STORES.events, value })),
+    ],
+    removed.map(event => ({ store: STORES.events, key: event.id })),
+  );
+};
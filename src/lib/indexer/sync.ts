@@ -0,0 +1,138 @@
+import { BlockNotFoundError, decodeEventLog, getAddress, type Hash, type Log, type PublicClient } from 'viem';
+import { CONTRACT_ABIS } from '../contracts';
+import { CONTRACT_NAMES, type ContractName, type NetworkConfig } from '../networks';
+import type { BlockRef, IndexedEvent, IndexerCursor, SyncResult } from './types';
+
+// Blocks per eth_getLogs request; public RPC endpoints commonly cap ranges around this size
+export const LOG_BATCH_SIZE = 2000;
+// Blocks whose hashes are kept to notice reorgs; a deeper reorg rebuilds the index
+export const REORG_DEPTH = 12;
+
+const deployedContracts = (network: NetworkConfig) =>
+  CONTRACT_NAMES
+    .filter(name => network.contracts[name])
+    .map(name => ({ name, address: getAddress(network.contracts[name] as string) }));
+
+export const createCursor = (network: NetworkConfig): IndexerCursor => ({
+  chainId: network.chainId,
+  startBlock: network.startBlock,
+  addresses: deployedContracts(network).map(contract => contract.address),
+  lastBlock: network.startBlock - 1,
+  recentBlocks: [],
+});
+
+// A stored cursor only carries on if it was built for the network's current deployment
+export const isCursorCurrent = (cursor: IndexerCursor, network: NetworkConfig) => {
+  const fresh = createCursor(network);
+  return cursor.chainId === fresh.chainId
+    && cursor.startBlock === fresh.startBlock
+    && cursor.addresses.join() === fresh.addresses.join();
+};
+
+const getBlockRef = async (client: PublicClient, number: number): Promise<(BlockRef & { timestamp: number }) | null> => {
+  try {
+    const block = await client.getBlock({ blockNumber: BigInt(number) });
+    return { number, hash: block.hash, timestamp: Number(block.timestamp) * 1000 };
+  } catch (err) {
+    if (err instanceof BlockNotFoundError) return null;
+    throw err;
+  }
+};
+
+// Walks back through the remembered blocks to the newest one still on chain. Returns its
+// position in `recentBlocks`, or null when every remembered block is gone.
+const findCommonAncestor = async (client: PublicClient, cursor: IndexerCursor) => {
+  for (let i = cursor.recentBlocks.length - 1; i >= 0; i--) {
+    const known = cursor.recentBlocks[i];
+    const current = await getBlockRef(client, known.number);
+    if (current?.hash === known.hash) return i;
+  }
+  return null;
+};
+
+const decodeLog = (log: Log, chainId: number, contract: ContractName, timestamp: number): IndexedEvent | null => {
+  try {
+    const { eventName, args } = decodeEventLog({ abi: CONTRACT_ABIS[contract], data: log.data, topics: log.topics });
+    return {
+      id: `${chainId}:${log.blockHash}:${log.logIndex}`,
+      chainId,
+      contract,
+      address: getAddress(log.address),
+      eventName,
+      args: { ...(args as Record<string, unknown>) },
+      blockNumber: Number(log.blockNumber),
+      blockHash: log.blockHash as Hash,
+      transactionHash: log.transactionHash as Hash,
+      logIndex: log.logIndex as number,
+      timestamp,
+    };
+  } catch {
+    // Events outside the app's ABIs, such as a proxy's, are not indexed
+    return null;
+  }
+};
+
+// Advances the index by at most one batch of blocks. Checks the remembered blocks first, so a
+// reorg rolls the cursor back before anything new is read. Call again until `caughtUp`.
+export const syncEvents = async (
+  client: PublicClient,
+  network: NetworkConfig,
+  cursor: IndexerCursor,
+  batchSize = LOG_BATCH_SIZE,
+): Promise<SyncResult> => {
+  const head = Number(await client.getBlockNumber({ cacheTime: 0 }));
+  let next: IndexerCursor = { ...cursor };
+  let rolledBackTo: number | undefined;
+
+  if (cursor.recentBlocks.length > 0) {
+    const newest = cursor.recentBlocks[cursor.recentBlocks.length - 1];
+    const current = await getBlockRef(client, newest.number);
+    if (current?.hash !== newest.hash) {
+      const ancestor = await findCommonAncestor(client, cursor);
+      next = ancestor === null
+        ? createCursor(network)
+        : { ...cursor, lastBlock: cursor.recentBlocks[ancestor].number, recentBlocks: cursor.recentBlocks.slice(0, ancestor + 1) };
+      rolledBackTo = next.lastBlock;
+    }
+  }
+
+  const fromBlock = next.lastBlock + 1;
+  const toBlock = Math.min(head, fromBlock + batchSize - 1);
+  const contracts = deployedContracts(network);
+  if (fromBlock > toBlock || contracts.length === 0) {
+    return { cursor: next, added: [], rolledBackTo, head, caughtUp: true };
+  }
+
+  const logs = await client.getLogs({
+    address: contracts.map(contract => contract.address),
+    fromBlock: BigInt(fromBlock),
+    toBlock: BigInt(toBlock),
+  });
+
+  const timestamps = new Map<number, number>();
+  for (const number of new Set(logs.map(log => Number(log.blockNumber)))) {
+    timestamps.set(number, (await getBlockRef(client, number))?.timestamp ?? 0);
+  }
+
+  const contractAt = new Map(contracts.map(contract => [contract.address.toLowerCase(), contract.name]));
+  const added = logs.flatMap(log => {
+    const contract = contractAt.get(log.address.toLowerCase());
+    const event = contract && decodeLog(log, network.chainId, contract, timestamps.get(Number(log.blockNumber)) ?? 0);
+    return event ? [event] : [];
+  });
+
+  // Remember the hashes of the blocks near the head to check them on the next sync
+  const recentBlocks = [...next.recentBlocks];
+  for (let number = Math.max(fromBlock, toBlock - REORG_DEPTH + 1); number <= toBlock; number++) {
+    const block = await getBlockRef(client, number);
+    if (block) recentBlocks.push({ number: block.number, hash: block.hash });
+  }
+
+  return {
+    cursor: { ...next, lastBlock: toBlock, recentBlocks: recentBlocks.slice(-REORG_DEPTH) },
+    added,
+    rolledBackTo,
+    head,
+    caughtUp: toBlock === head,
+  };
+};
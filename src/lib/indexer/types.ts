@@ -0,0 +1,105 @@
+import type { Address, Hash } from 'viem';
+import type { ContractName } from '../networks';
+
+// A decoded contract log, as stored in the local index
+export interface IndexedEvent {
+  // `${chainId}:${blockHash}:${logIndex}`, so the same log in a reorged block is a new event
+  id: string;
+  chainId: number;
+  contract: ContractName;
+  address: Address;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: number;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+  // Block timestamp, in milliseconds
+  timestamp: number;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: Hash;
+}
+
+// How far a chain's index has got, stored next to its events
+export interface IndexerCursor {
+  chainId: number;
+  // Start block and contract addresses the index was built for; a new deployment starts over
+  startBlock: number;
+  addresses: string[];
+  // Last block whose logs are stored
+  lastBlock: number;
+  // Hashes of the latest indexed blocks, oldest first, to notice when they are reorged away
+  recentBlocks: BlockRef[];
+}
+
+export interface SyncResult {
+  cursor: IndexerCursor;
+  added: IndexedEvent[];
+  // Set after a reorg: stored events above this block are no longer on chain
+  rolledBackTo?: number;
+  head: number;
+  caughtUp: boolean;
+}
+
+export interface ScoreUpdate {
+  user: Address;
+  score: number;
+  version: number;
+  oracle: Address;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: Hash;
+}
+
+export interface ConsentUpdate {
+  user: Address;
+  dataHash: Hash;
+  // Seconds since the epoch, as stored by the registry
+  expiryTime: number;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: Hash;
+}
+
+export interface LenderAccessChange {
+  user: Address;
+  lender: Address;
+  granted: boolean;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: Hash;
+}
+
+// A lender as registered with the LenderPortal
+export interface LenderRecord {
+  lender: Address;
+  companyName: string;
+  isApproved: boolean;
+  registeredAt: number;
+}
+
+export interface ProductPurchase {
+  purchaseId: bigint;
+  productId: bigint;
+  buyer: Address;
+  price: bigint;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: Hash;
+}
+
+export type CreditRequestOutcome = 'pending' | 'approved' | 'rejected';
+
+export interface CreditRequestRecord {
+  requestId: bigint;
+  lender: Address;
+  borrower: Address;
+  amount: bigint;
+  outcome: CreditRequestOutcome;
+  approvedAmount?: bigint;
+  submittedAt: number;
+  transactionHash: Hash;
+}
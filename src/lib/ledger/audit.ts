@@ -0,0 +1,34 @@
+import type { FieldChange, Ledger, RecordChange } from './types';
+
+const diffFields = <T extends object>(before: T, after: T): FieldChange[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as Array<keyof T>);
+  return [...keys]
+    .filter(key => before[key] !== after[key])
+    .map(key => ({ field: String(key), before: before[key], after: after[key] }));
+};
+
+// Records created, deleted and modified between two versions of a collection; unchanged
+// records are skipped by reference, which every ledger operation preserves
+export const diffRecords = <T extends { id: string }>(before: T[], after: T[]): RecordChange<T>[] => {
+  const previous = new Map(before.map(record => [record.id, record]));
+  const changes: RecordChange<T>[] = [];
+
+  after.forEach(record => {
+    const old = previous.get(record.id);
+    previous.delete(record.id);
+    if (!old) {
+      changes.push({ id: record.id, after: record, fields: [] });
+    } else if (old !== record) {
+      const fields = diffFields(old, record);
+      if (fields.length > 0) changes.push({ id: record.id, before: old, after: record, fields });
+    }
+  });
+  previous.forEach(record => changes.push({ id: record.id, before: record, fields: [] }));
+
+  return changes;
+};
+
+export const diffLedgers = (before: Ledger, after: Ledger) => ({
+  transactions: diffRecords(before.transactions, after.transactions),
+  accounts: diffRecords(before.accounts, after.accounts),
+});
@@ -0,0 +1,36 @@
+import type { Ledger, LedgerRevision, UndoHistory } from './types';
+
+export const MAX_UNDO_DEPTH = 50;
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+// A new edit discards anything that could have been redone
+export const recordRevision = (history: UndoHistory, revision: LedgerRevision): UndoHistory => ({
+  past: [...history.past, revision].slice(-MAX_UNDO_DEPTH),
+  future: [],
+});
+
+// Steps back to the ledger before the latest edit, keeping the current one for redo
+export const undo = (history: UndoHistory, current: Ledger) => {
+  const revision = history.past[history.past.length - 1];
+  if (!revision) return null;
+  return {
+    revision,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [{ ledger: current, entryId: revision.entryId }, ...history.future],
+    },
+  };
+};
+
+export const redo = (history: UndoHistory, current: Ledger) => {
+  const [revision, ...future] = history.future;
+  if (!revision) return null;
+  return {
+    revision,
+    history: {
+      past: [...history.past, { ledger: current, entryId: revision.entryId }],
+      future,
+    },
+  };
+};
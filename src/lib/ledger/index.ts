@@ -0,0 +1,34 @@
+export { diffLedgers, diffRecords } from './audit';
+export { EMPTY_HISTORY, MAX_UNDO_DEPTH, recordRevision, redo, undo } from './history';
+export {
+  addAccount,
+  addTransactions,
+  linkTransaction,
+  removeAccount,
+  removeTransactions,
+  updateAccount,
+  updateTransaction,
+} from './operations';
+export {
+  DEFAULT_SORT,
+  EMPTY_FILTERS,
+  createComparator,
+  createMatcher,
+  groupByMonth,
+  hasActiveFilters,
+  signedAmount,
+  toggleSort,
+} from './query';
+export type { SortKey, SortRule, TransactionFilters, TransactionListItem } from './query';
+export { applyChangesToTotals, emptyTotals, netOf, summarize } from './totals';
+export type { LedgerTotals } from './totals';
+export type {
+  AuditAction,
+  AuditEntry,
+  FieldChange,
+  Ledger,
+  LedgerChange,
+  LedgerRevision,
+  RecordChange,
+  UndoHistory,
+} from './types';
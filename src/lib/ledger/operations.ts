@@ -0,0 +1,62 @@
+import type { CreditAccount, Transaction } from '../../types/credit';
+import { balanceEffect } from '../scoring';
+import type { Ledger } from './types';
+
+const byDateDesc = (a: Transaction, b: Transaction) => b.date.localeCompare(a.date);
+
+// Moves linked account balances by the effect of the given transactions
+const adjustBalances = (accounts: CreditAccount[], transactions: Transaction[], direction: 1 | -1) => {
+  const changes = new Map<string, number>();
+  transactions.forEach(t => {
+    if (t.accountId) changes.set(t.accountId, (changes.get(t.accountId) ?? 0) + direction * balanceEffect(t));
+  });
+  if (changes.size === 0) return accounts;
+  return accounts.map(account => changes.has(account.id)
+    ? { ...account, balance: Math.max(0, account.balance + (changes.get(account.id) ?? 0)) }
+    : account
+  );
+};
+
+export const addTransactions = (ledger: Ledger, added: Transaction[]): Ledger => ({
+  transactions: [...added, ...ledger.transactions].sort(byDateDesc),
+  accounts: adjustBalances(ledger.accounts, added, 1),
+});
+
+export const updateTransaction = (ledger: Ledger, transactionId: string, changes: Partial<Omit<Transaction, 'id'>>): Ledger => {
+  const before = ledger.transactions.find(t => t.id === transactionId);
+  if (!before) return ledger;
+
+  const after = { ...before, ...changes };
+  const reverted = adjustBalances(ledger.accounts, [before], -1);
+  return {
+    transactions: ledger.transactions.map(t => t.id === transactionId ? after : t).sort(byDateDesc),
+    accounts: adjustBalances(reverted, [after], 1),
+  };
+};
+
+export const removeTransactions = (ledger: Ledger, transactionIds: string[]): Ledger => {
+  const ids = new Set(transactionIds);
+  return {
+    transactions: ledger.transactions.filter(t => !ids.has(t.id)),
+    accounts: adjustBalances(ledger.accounts, ledger.transactions.filter(t => ids.has(t.id)), -1),
+  };
+};
+
+// Linking moves the transaction's balance effect between accounts
+export const linkTransaction = (ledger: Ledger, transactionId: string, accountId: string | undefined) =>
+  updateTransaction(ledger, transactionId, { accountId });
+
+export const addAccount = (ledger: Ledger, account: CreditAccount): Ledger => ({
+  ...ledger,
+  accounts: [...ledger.accounts, account],
+});
+
+export const updateAccount = (ledger: Ledger, accountId: string, changes: Partial<Omit<CreditAccount, 'id'>>): Ledger => ({
+  ...ledger,
+  accounts: ledger.accounts.map(account => account.id === accountId ? { ...account, ...changes } : account),
+});
+
+export const removeAccount = (ledger: Ledger, accountId: string): Ledger => ({
+  transactions: ledger.transactions.map(t => t.accountId === accountId ? { ...t, accountId: undefined } : t),
+  accounts: ledger.accounts.filter(account => account.id !== accountId),
+});
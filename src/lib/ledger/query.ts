@@ -0,0 +1,111 @@
+import type { Transaction, TransactionType } from '../../types/credit';
+
+export interface TransactionFilters {
+  // Whitespace separated terms, all of which must appear in the description or category
+  search: string;
+  // Empty means every type
+  types: TransactionType[];
+  category: string;
+  from: string;
+  to: string;
+  minAmount: string;
+  maxAmount: string;
+}
+
+export type SortKey = 'date' | 'description' | 'category' | 'amount' | 'type';
+
+export interface SortRule {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export const EMPTY_FILTERS: TransactionFilters = {
+  search: '',
+  types: [],
+  category: '',
+  from: '',
+  to: '',
+  minAmount: '',
+  maxAmount: '',
+};
+
+export const DEFAULT_SORT: SortRule[] = [{ key: 'date', direction: 'desc' }];
+
+export const hasActiveFilters = (filters: TransactionFilters) =>
+  (Object.keys(EMPTY_FILTERS) as Array<keyof TransactionFilters>).some(key =>
+    Array.isArray(filters[key]) ? filters[key].length > 0 : filters[key] !== ''
+  );
+
+// Compiles filters once into a predicate so per-row checks stay cheap on large ledgers
+export const createMatcher = (filters: TransactionFilters) => {
+  const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const types = new Set(filters.types);
+  const min = filters.minAmount === '' ? -Infinity : parseFloat(filters.minAmount);
+  const max = filters.maxAmount === '' ? Infinity : parseFloat(filters.maxAmount);
+
+  return (transaction: Transaction) => {
+    if (types.size > 0 && !types.has(transaction.type)) return false;
+    if (filters.category && transaction.category !== filters.category) return false;
+    if (filters.from && transaction.date < filters.from) return false;
+    if (filters.to && transaction.date > filters.to) return false;
+    if (transaction.amount < min || transaction.amount > max) return false;
+    if (terms.length > 0) {
+      const text = `${transaction.description} ${transaction.category}`.toLowerCase();
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+    return true;
+  };
+};
+
+const compareField = (a: Transaction, b: Transaction, key: SortKey) =>
+  key === 'amount' ? a.amount - b.amount : a[key].localeCompare(b[key]);
+
+// Later rules break ties left by earlier ones
+export const createComparator = (rules: SortRule[]) => (a: Transaction, b: Transaction) => {
+  for (const { key, direction } of rules) {
+    const result = compareField(a, b, key);
+    if (result !== 0) return direction === 'asc' ? result : -result;
+  }
+  return 0;
+};
+
+const initialDirection = (key: SortKey): SortRule['direction'] =>
+  key === 'date' || key === 'amount' ? 'desc' : 'asc';
+
+// Clicking a column makes it the only sort, or flips it if it already is the primary one;
+// `additive` (shift-click) appends it as a tie-breaker, or flips it where it already is
+export const toggleSort = (rules: SortRule[], key: SortKey, additive: boolean): SortRule[] => {
+  const existing = rules.find(rule => rule.key === key);
+  const flipped: SortRule = { key, direction: existing?.direction === 'desc' ? 'asc' : 'desc' };
+  if (additive) {
+    return existing
+      ? rules.map(rule => rule.key === key ? flipped : rule)
+      : [...rules, { key, direction: initialDirection(key) }];
+  }
+  return [rules[0]?.key === key ? flipped : { key, direction: initialDirection(key) }];
+};
+
+export type TransactionListItem =
+  | { kind: 'group'; month: string; count: number; net: number }
+  | { kind: 'row'; transaction: Transaction };
+
+export const signedAmount = (transaction: Transaction) =>
+  transaction.type === 'income' ? transaction.amount : -transaction.amount;
+
+// Flattens rows into a list with a header before each month. Rows keep the caller's order within
+// their month, and months come in the order of their first row, so rows sorted by anything but
+// date are regrouped: the sort then applies within each month rather than across the list.
+export const groupByMonth = (transactions: Transaction[]): TransactionListItem[] => {
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    const month = t.date.slice(0, 7);
+    const rows = groups.get(month);
+    if (rows) rows.push(t);
+    else groups.set(month, [t]);
+  });
+
+  return [...groups.entries()].flatMap(([month, rows]) => [
+    { kind: 'group' as const, month, count: rows.length, net: rows.reduce((sum, t) => sum + signedAmount(t), 0) },
+    ...rows.map(transaction => ({ kind: 'row' as const, transaction })),
+  ]);
+};
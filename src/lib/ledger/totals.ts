@@ -0,0 +1,62 @@
+import type { Transaction } from '../../types/credit';
+import type { RecordChange } from './types';
+
+export interface LedgerTotals {
+  count: number;
+  income: number;
+  spending: number;
+  payments: number;
+  transfers: number;
+  byCategory: Record<string, { count: number; amount: number }>;
+}
+
+export const emptyTotals = (): LedgerTotals => ({
+  count: 0,
+  income: 0,
+  spending: 0,
+  payments: 0,
+  transfers: 0,
+  byCategory: {},
+});
+
+const FIELD_BY_TYPE = {
+  income: 'income',
+  purchase: 'spending',
+  payment: 'payments',
+  transfer: 'transfers',
+} as const;
+
+// Mutates `totals`; callers pass a copy
+const accumulate = (totals: LedgerTotals, transaction: Transaction, sign: 1 | -1) => {
+  totals.count += sign;
+  totals[FIELD_BY_TYPE[transaction.type]] += sign * transaction.amount;
+
+  const bucket = totals.byCategory[transaction.category] ?? { count: 0, amount: 0 };
+  const next = { count: bucket.count + sign, amount: bucket.amount + sign * transaction.amount };
+  if (next.count === 0) delete totals.byCategory[transaction.category];
+  else totals.byCategory[transaction.category] = next;
+};
+
+const copy = (totals: LedgerTotals): LedgerTotals => ({ ...totals, byCategory: { ...totals.byCategory } });
+
+export const summarize = (transactions: Transaction[]) => {
+  const totals = emptyTotals();
+  transactions.forEach(t => accumulate(totals, t, 1));
+  return totals;
+};
+
+// Applies only the edited records to previous totals instead of rescanning the ledger
+export const applyChangesToTotals = (
+  totals: LedgerTotals,
+  changes: RecordChange<Transaction>[],
+  matches: (transaction: Transaction) => boolean
+) => {
+  const next = copy(totals);
+  changes.forEach(({ before, after }) => {
+    if (before && matches(before)) accumulate(next, before, -1);
+    if (after && matches(after)) accumulate(next, after, 1);
+  });
+  return next;
+};
+
+export const netOf = (totals: LedgerTotals) => totals.income - totals.spending - totals.payments;
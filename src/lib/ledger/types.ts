@@ -0,0 +1,64 @@
+import type { CreditAccount, Transaction } from '../../types/credit';
+
+export interface Ledger {
+  transactions: Transaction[];
+  accounts: CreditAccount[];
+}
+
+export type AuditAction =
+  | 'add'
+  | 'update'
+  | 'delete'
+  | 'import'
+  | 'link'
+  | 'categorize'
+  | 'account'
+  | 'undo'
+  | 'redo';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// `before` is absent for created records and `after` for deleted ones
+export interface RecordChange<T> {
+  id: string;
+  before?: T;
+  after?: T;
+  fields: FieldChange[];
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  // Wallet address of the editor, or `local` when no wallet is connected
+  actor: string;
+  action: AuditAction;
+  summary: string;
+  transactions: RecordChange<Transaction>[];
+  accounts: RecordChange<CreditAccount>[];
+  scoreBefore: number;
+  scoreAfter: number;
+  // Set on undo and redo entries
+  revertsEntryId?: string;
+}
+
+export interface LedgerRevision {
+  ledger: Ledger;
+  // Audit entry that produced the state following this revision
+  entryId: string;
+}
+
+export interface UndoHistory {
+  past: LedgerRevision[];
+  future: LedgerRevision[];
+}
+
+// Latest ledger edit, for consumers that update derived data incrementally.
+// `transactions` is null when the whole ledger was replaced, e.g. on hydration.
+export interface LedgerChange {
+  revision: number;
+  transactions: RecordChange<Transaction>[] | null;
+}
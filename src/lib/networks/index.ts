@@ -0,0 +1,12 @@
+export {
+  DEFAULT_CHAIN_ID,
+  NETWORKS,
+  buildNetworks,
+  explorerAddressUrl,
+  explorerTxUrl,
+  getNetwork,
+  isSupportedChain,
+} from './registry';
+export { addChain, switchChain } from './switch';
+export { CONTRACT_NAMES } from './types';
+export type { ContractName, NativeCurrency, NetworkConfig } from './types';
@@ -0,0 +1,121 @@
+import { CONTRACT_NAMES, type ContractName, type NetworkConfig } from './types';
+
+const ETHER = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+// Multicall3 is deployed at the same address on every public chain
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Built-in deployments. The local addresses are what a fresh anvil or hardhat node assigns
+// when the four contracts are deployed in this order from the first dev account.
+const BASE_NETWORKS: NetworkConfig[] = [
+  {
+    chainId: 31337,
+    name: 'Local Dev Chain',
+    shortName: 'Local',
+    rpcUrl: import.meta.env.VITE_LOCAL_RPC_URL || 'http://127.0.0.1:8545',
+    nativeCurrency: ETHER,
+    testnet: true,
+    confirmations: 1,
+    startBlock: 0,
+    contracts: {
+      CreditScoreRegistry: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      FederatedLearningCoordinator: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+      DataMarketplace: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+      LenderPortal: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+    },
+  },
+  {
+    chainId: 11155111,
+    name: 'Sepolia Testnet',
+    shortName: 'Sepolia',
+    rpcUrl: import.meta.env.VITE_SEPOLIA_RPC_URL || 'https://rpc.sepolia.org',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    testnet: true,
+    confirmations: 2,
+    startBlock: 0,
+    contracts: {},
+    multicall3: MULTICALL3,
+  },
+  {
+    chainId: 1,
+    name: 'Ethereum Mainnet',
+    shortName: 'Mainnet',
+    rpcUrl: import.meta.env.VITE_MAINNET_RPC_URL || 'https://cloudflare-eth.com',
+    explorerUrl: 'https://etherscan.io',
+    nativeCurrency: ETHER,
+    testnet: false,
+    confirmations: 3,
+    startBlock: 0,
+    contracts: {},
+    multicall3: MULTICALL3,
+  },
+];
+
+const isAddress = (value: unknown): value is string =>
+  typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+interface DeploymentOverride {
+  contracts: Partial<Record<ContractName, string>>;
+  startBlock?: number;
+  multicall3?: string;
+}
+
+// VITE_CONTRACT_ADDRESSES holds deployments as JSON keyed by chain id, e.g.
+// {"11155111": {"CreditScoreRegistry": "0x...", "startBlock": 5000000}}; invalid entries are ignored.
+// A "Multicall3" address enables batched reads on a local node that has one deployed.
+const parseAddressOverrides = (raw: string | undefined) => {
+  const overrides = new Map<number, DeploymentOverride>();
+  if (!raw) return overrides;
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Record<string, unknown>>;
+    for (const [chainId, contracts] of Object.entries(parsed)) {
+      const valid: Partial<Record<ContractName, string>> = {};
+      for (const name of CONTRACT_NAMES) {
+        if (isAddress(contracts?.[name])) valid[name] = contracts[name] as string;
+      }
+      const startBlock = contracts?.startBlock;
+      overrides.set(Number(chainId), {
+        contracts: valid,
+        startBlock: Number.isSafeInteger(startBlock) && (startBlock as number) >= 0 ? startBlock as number : undefined,
+        multicall3: isAddress(contracts?.Multicall3) ? contracts.Multicall3 : undefined,
+      });
+    }
+  } catch (err) {
+    console.error('Ignoring malformed VITE_CONTRACT_ADDRESSES:', err);
+  }
+  return overrides;
+};
+
+export const buildNetworks = (base: NetworkConfig[], rawOverrides?: string): NetworkConfig[] => {
+  const overrides = parseAddressOverrides(rawOverrides);
+  return base.map(network => {
+    const override = overrides.get(network.chainId);
+    return {
+      ...network,
+      contracts: { ...network.contracts, ...override?.contracts },
+      startBlock: override?.startBlock ?? network.startBlock,
+      multicall3: override?.multicall3 ?? network.multicall3,
+    };
+  });
+};
+
+export const NETWORKS = buildNetworks(BASE_NETWORKS, import.meta.env.VITE_CONTRACT_ADDRESSES);
+
+const configuredDefault = Number(import.meta.env.VITE_DEFAULT_CHAIN_ID);
+
+export const DEFAULT_CHAIN_ID = NETWORKS.some(n => n.chainId === configuredDefault)
+  ? configuredDefault
+  : import.meta.env.DEV ? 31337 : 11155111;
+
+export const getNetwork = (chainId: number | null | undefined) =>
+  NETWORKS.find(network => network.chainId === chainId);
+
+export const isSupportedChain = (chainId: number | null | undefined) => getNetwork(chainId) !== undefined;
+
+export const explorerAddressUrl = (network: NetworkConfig, address: string) =>
+  network.explorerUrl ? `${network.explorerUrl}/address/${address}` : undefined;
+
+export const explorerTxUrl = (network: NetworkConfig, hash: string) =>
+  network.explorerUrl ? `${network.explorerUrl}/tx/${hash}` : undefined;
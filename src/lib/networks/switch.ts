@@ -0,0 +1,34 @@
+import { RPC_ERROR_CODES, isRpcError, toHex, type EIP1193Provider } from '../wallet';
+import type { NetworkConfig } from './types';
+
+// Some wallets wrap 4902 in an internal error with the original code in `data`
+const isUnrecognizedChain = (error: unknown) => {
+  if (!isRpcError(error)) return false;
+  if (error.code === RPC_ERROR_CODES.unrecognizedChain) return true;
+  const original = (error.data as { originalError?: { code?: number } } | undefined)?.originalError;
+  return original?.code === RPC_ERROR_CODES.unrecognizedChain;
+};
+
+export const addChain = (provider: EIP1193Provider, network: NetworkConfig) =>
+  provider.request({
+    method: 'wallet_addEthereumChain',
+    params: [{
+      chainId: toHex(network.chainId),
+      chainName: network.name,
+      nativeCurrency: network.nativeCurrency,
+      rpcUrls: [network.rpcUrl],
+      blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+    }],
+  });
+
+// Asks the wallet to switch chains, registering the chain first if the wallet has never seen it
+export const switchChain = async (provider: EIP1193Provider, network: NetworkConfig) => {
+  try {
+    await provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: toHex(network.chainId) }] });
+  } catch (err) {
+    if (!isUnrecognizedChain(err)) throw err;
+    await addChain(provider, network);
+    // Most wallets switch as part of adding; those that don't need a second request
+    await provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: toHex(network.chainId) }] });
+  }
+};
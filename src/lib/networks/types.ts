@@ -0,0 +1,34 @@
+export const CONTRACT_NAMES = [
+  'CreditScoreRegistry',
+  'FederatedLearningCoordinator',
+  'DataMarketplace',
+  'LenderPortal',
+] as const;
+
+export type ContractName = typeof CONTRACT_NAMES[number];
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  // Short label for the header selector
+  shortName: string;
+  rpcUrl: string;
+  // Omitted for chains without a block explorer, such as a local node
+  explorerUrl?: string;
+  nativeCurrency: NativeCurrency;
+  testnet: boolean;
+  // Blocks on top of a transaction's before the app treats it as final
+  confirmations: number;
+  // Block the contracts were deployed at; the event indexer reads logs from here on
+  startBlock: number;
+  // Contracts not yet deployed on a network are left out
+  contracts: Partial<Record<ContractName, string>>;
+  // Multicall3, which batches independent view calls into one eth_call; without it they go one by one
+  multicall3?: string;
+}
@@ -0,0 +1,109 @@
+import { stringify } from 'viem';
+import type { ReadOptions, ReadTarget } from './types';
+
+// Values younger than this are served without asking the node. Most changes arrive sooner, as
+// indexed events that invalidate the reads they affect; the age covers the ones that emit none.
+export const DEFAULT_MAX_AGE_MS = 30_000;
+
+interface CacheEntry {
+  target: ReadTarget;
+  hasValue: boolean;
+  value?: unknown;
+  updatedAt: number;
+  // Set by invalidation: the next read refreshes the value however young it is
+  stale: boolean;
+  // Bumped by invalidation, so a request already running when it happened does not count as fresh
+  version: number;
+  // Version of the request whose value is held; an older one finishing late is not applied
+  appliedVersion: number;
+  inflight?: { version: number; promise: Promise<unknown> };
+}
+
+export const readKey = (target: ReadTarget) => stringify([
+  target.chainId,
+  target.contract,
+  target.address.toLowerCase(),
+  target.functionName,
+  target.args,
+  target.account?.toLowerCase() ?? null,
+]);
+
+export type ReadCache = ReturnType<typeof createReadCache>;
+
+// Shared results of view calls. Concurrent reads of one target share a request, and cached values
+// are served stale while a refresh runs in the background (stale-while-revalidate). Subscribers
+// hear about every refreshed value, including ones fetched after an invalidation.
+export const createReadCache = () => {
+  const entries = new Map<string, CacheEntry>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  const entryFor = (key: string, target: ReadTarget) => {
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { target, hasValue: false, updatedAt: 0, stale: true, version: 0, appliedVersion: 0 };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  const notify = (key: string) => listeners.get(key)?.forEach(listener => listener());
+
+  const refresh = (key: string, entry: CacheEntry, fetcher: () => Promise<unknown>) => {
+    if (entry.inflight?.version === entry.version) return entry.inflight.promise;
+
+    const version = entry.version;
+    const promise: Promise<unknown> = fetcher()
+      .then(value => {
+        if (version >= entry.appliedVersion) {
+          entry.value = value;
+          entry.hasValue = true;
+          entry.appliedVersion = version;
+          entry.updatedAt = Date.now();
+          entry.stale = entry.version !== version;
+          notify(key);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (entry.inflight?.promise === promise) entry.inflight = undefined;
+      });
+    entry.inflight = { version, promise };
+    return promise;
+  };
+
+  const read = async <T>(target: ReadTarget, fetcher: () => Promise<T>, options: ReadOptions = {}): Promise<T> => {
+    const { maxAge = DEFAULT_MAX_AGE_MS, fresh = false } = options;
+    const key = readKey(target);
+    const entry = entryFor(key, target);
+
+    if (!entry.hasValue || fresh) return await refresh(key, entry, fetcher) as T;
+    if (entry.stale || Date.now() - entry.updatedAt > maxAge) {
+      // The old value keeps being served if the refresh fails; the next read tries again
+      refresh(key, entry, fetcher).catch(() => undefined);
+    }
+    return entry.value as T;
+  };
+
+  // Marks matching reads stale and tells their subscribers, which read again and so refresh them
+  const invalidate = (matches: (target: ReadTarget) => boolean) => {
+    entries.forEach((entry, key) => {
+      if (!matches(entry.target)) return;
+      entry.stale = true;
+      entry.version += 1;
+      notify(key);
+    });
+  };
+
+  const subscribe = (target: ReadTarget, listener: () => void) => {
+    const key = readKey(target);
+    const set = listeners.get(key) ?? new Set();
+    set.add(listener);
+    listeners.set(key, set);
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) listeners.delete(key);
+    };
+  };
+
+  return { read, invalidate, subscribe };
+};
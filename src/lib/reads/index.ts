@@ -0,0 +1,4 @@
+export { DEFAULT_MAX_AGE_MS, createReadCache, readKey } from './cache';
+export type { ReadCache } from './cache';
+export { invalidatedBy } from './invalidation';
+export type { ReadOptions, ReadTarget } from './types';
@@ -0,0 +1,83 @@
+import type { IndexedEvent } from '../indexer';
+import type { ContractName } from '../networks';
+import type { ReadTarget } from './types';
+
+// Reads an event makes stale. With `arg`, only calls whose first argument equals that event
+// argument (the user, product or lender it is about); without, every call of the functions.
+interface InvalidationRule {
+  functions: string[];
+  arg?: string;
+}
+
+const SCORE_READS = ['getScore', 'getScoreDetails', 'getScoreFactors', 'scores', 'scoreFactors'];
+const PRODUCT_READS = ['getProduct', 'products'];
+const LENDER_READS = ['getLenderInfo', 'lenders'];
+
+const INVALIDATIONS: Partial<Record<ContractName, Record<string, InvalidationRule[]>>> = {
+  CreditScoreRegistry: {
+    ScoreUpdated: [{ functions: SCORE_READS, arg: 'user' }],
+    ScoreFactorsUpdated: [{ functions: SCORE_READS, arg: 'user' }],
+    ConsentUpdated: [{ functions: ['consents', 'isConsentValid'], arg: 'user' }],
+    // Access decides which accounts may read the user's score
+    LenderAccessGranted: [{ functions: [...SCORE_READS, 'getAuthorizedLenders', 'lenderAccess'], arg: 'user' }],
+    LenderAccessRevoked: [{ functions: [...SCORE_READS, 'getAuthorizedLenders', 'lenderAccess'], arg: 'user' }],
+    RoleGranted: [{ functions: ['hasRole', ...SCORE_READS] }],
+    RoleRevoked: [{ functions: ['hasRole', ...SCORE_READS] }],
+    Paused: [{ functions: ['paused'] }],
+    Unpaused: [{ functions: ['paused'] }],
+  },
+  DataMarketplace: {
+    ProductListed: [{ functions: ['nextProductId'] }, { functions: ['getSellerProducts', 'sellerProducts'], arg: 'seller' }],
+    ProductUpdated: [{ functions: PRODUCT_READS, arg: 'productId' }],
+    ProductDeactivated: [{ functions: PRODUCT_READS, arg: 'productId' }],
+    ProductPurchased: [
+      { functions: PRODUCT_READS, arg: 'productId' },
+      { functions: ['getUserPurchases', 'userPurchases', 'hasUserPurchased', 'hasPurchased'], arg: 'buyer' },
+      { functions: ['nextPurchaseId'] },
+    ],
+    ProductReviewed: [{ functions: [...PRODUCT_READS, 'getProductReviews', 'productReviews'], arg: 'productId' }],
+    RoleGranted: [{ functions: ['hasRole'] }],
+    RoleRevoked: [{ functions: ['hasRole'] }],
+  },
+  LenderPortal: {
+    LenderRegistered: [{ functions: LENDER_READS, arg: 'lender' }, { functions: ['pendingApprovals'] }],
+    LenderApproved: [{ functions: LENDER_READS, arg: 'lender' }, { functions: ['pendingApprovals', 'hasRole'] }],
+    APIAccessGranted: [{ functions: [...LENDER_READS, 'apiAccess'], arg: 'lender' }],
+    CreditRequestSubmitted: [
+      { functions: [...LENDER_READS, 'apiAccess', 'getLenderRequests', 'lenderRequests'], arg: 'lender' },
+      { functions: ['nextRequestId'] },
+    ],
+    CreditRequestProcessed: [{ functions: ['getCreditRequest', 'creditRequests'], arg: 'requestId' }],
+    BatchRequestSubmitted: [{ functions: ['apiAccess', 'getLenderRequests'], arg: 'lender' }, { functions: ['nextBatchId'] }],
+    RoleGranted: [{ functions: ['hasRole'] }],
+    RoleRevoked: [{ functions: ['hasRole'] }],
+  },
+  FederatedLearningCoordinator: {
+    NodeRegistered: [{ functions: ['getNodeInfo', 'nodes'], arg: 'node' }],
+    NodeSlashed: [{ functions: ['getNodeInfo', 'nodes'], arg: 'node' }],
+    ModelUpdateSubmitted: [
+      { functions: ['getNodeInfo', 'nodes'], arg: 'node' },
+      { functions: ['getTrainingRoundInfo', 'trainingRounds'], arg: 'round' },
+    ],
+    TrainingRoundStarted: [{ functions: ['currentRound', 'totalRounds', 'getTrainingRoundInfo', 'trainingRounds'] }],
+    TrainingRoundEnded: [{ functions: ['getTrainingRoundInfo', 'trainingRounds'], arg: 'round' }],
+    ModelAggregated: [{ functions: ['getCurrentModel', 'models', 'getTrainingRoundInfo', 'trainingRounds'] }],
+    RewardsDistributed: [{ functions: ['getTrainingRoundInfo', 'trainingRounds', 'getNodeInfo', 'nodes'] }],
+    RoleGranted: [{ functions: ['hasRole'] }],
+    RoleRevoked: [{ functions: ['hasRole'] }],
+  },
+};
+
+const sameValue = (a: unknown, b: unknown) =>
+  typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+// Matches the cached reads `event` may have changed
+export const invalidatedBy = (event: IndexedEvent) => {
+  const rules = INVALIDATIONS[event.contract]?.[event.eventName] ?? [];
+  return (target: ReadTarget) =>
+    target.chainId === event.chainId
+    && target.contract === event.contract
+    && rules.some(rule =>
+      rule.functions.includes(target.functionName)
+      && (rule.arg === undefined || sameValue(target.args[0], event.args[rule.arg])));
+};
@@ -0,0 +1,19 @@
+import type { ContractName } from '../networks';
+
+// Identifies a view call; equal targets share one cache entry and one request
+export interface ReadTarget {
+  chainId: number;
+  contract: ContractName;
+  address: string;
+  functionName: string;
+  args: readonly unknown[];
+  // msg.sender for reads the contract gates on the caller
+  account?: string;
+}
+
+export interface ReadOptions {
+  // Age in milliseconds after which a cached value is refreshed in the background
+  maxAge?: number;
+  // Wait for a value fetched now instead of serving a cached one, e.g. right before a write
+  fresh?: boolean;
+}
@@ -0,0 +1,95 @@
+import type { Recommendation, RecommendationPriority, Transaction } from '../../types/credit';
+import { buildScoreHistory, revolvingUtilization, type Scorecard, type ScoreResult, type ScoringInput } from '../scoring';
+import { detectRecurring, recurringPaymentRecord } from '../recurring';
+import { DEFAULT_RULES } from './rules';
+import type { LedgerSignals, RecommendationContext, RecommendationRule } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TREND_WINDOW = 3;
+
+const PRIORITY_ORDER: Record<RecommendationPriority, number> = { high: 0, medium: 1, low: 2 };
+
+export const computeSignals = ({ transactions, accounts = [] }: ScoringInput, asOf: string, trend: number): LedgerSignals => {
+  const end = new Date(asOf).getTime();
+  const recent = transactions.filter(t => {
+    const time = new Date(t.date).getTime();
+    return time <= end && time > end - 90 * DAY_MS;
+  });
+  const total = (type: Transaction['type']) =>
+    recent.filter(t => t.type === type).reduce((sum, t) => sum + t.amount, 0);
+
+  const payments = transactions.filter(t => t.type === 'payment' && new Date(t.date).getTime() <= end);
+  const lastPayment = payments.length > 0 ? Math.max(...payments.map(t => new Date(t.date).getTime())) : null;
+
+  const firstSeen = new Map<string, number>();
+  payments.forEach(t => {
+    const time = new Date(t.date).getTime();
+    firstSeen.set(t.category, Math.min(time, firstSeen.get(t.category) ?? time));
+  });
+
+  const record = recurringPaymentRecord(detectRecurring(transactions, { asOf }), new Date(asOf));
+
+  return {
+    purchaseToIncomeRatio: total('purchase') / Math.max(total('income'), 1),
+    revolvingUtilization: revolvingUtilization(accounts, new Date(asOf)),
+    daysSinceLastPayment: lastPayment === null ? null : Math.round((end - lastPayment) / DAY_MS),
+    newObligations: [...firstSeen.values()].filter(time => time > end - 90 * DAY_MS).length,
+    missedRecurring: record.missed,
+    lateRecurring: record.late,
+    trend,
+  };
+};
+
+// Score points gained when a factor rises by `factorGain`, under the given scorecard
+export const estimateImpact = (context: RecommendationContext, factor: Recommendation['factor'], factorGain: number) => {
+  const { weights, scaling } = context.scorecard;
+  const points = Math.round(Math.max(0, factorGain) * weights[factor] * scaling.multiplier);
+  return Math.min(points, scaling.ceiling - context.result.score);
+};
+
+const priorityFor = (impact: number): RecommendationPriority =>
+  impact >= 20 ? 'high' : impact >= 8 ? 'medium' : 'low';
+
+export const evaluateRules = (context: RecommendationContext, rules: RecommendationRule[] = DEFAULT_RULES): Recommendation[] =>
+  rules
+    .filter(rule => rule.when(context))
+    .map(rule => {
+      const factor = typeof rule.factor === 'function' ? rule.factor(context) : rule.factor;
+      const estimatedImpact = estimateImpact(context, factor, rule.factorGain(context));
+      return {
+        id: rule.id,
+        factor,
+        title: rule.title,
+        detail: rule.detail(context),
+        estimatedImpact,
+        priority: rule.priority ?? priorityFor(estimatedImpact),
+      };
+    })
+    .filter(recommendation => recommendation.estimatedImpact > 0 || recommendation.priority === 'high')
+    .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || b.estimatedImpact - a.estimatedImpact);
+
+export const generateRecommendations = (
+  input: ScoringInput,
+  result: ScoreResult,
+  scorecard: Scorecard,
+  rules: RecommendationRule[] = DEFAULT_RULES
+) => {
+  const from = new Date(result.asOf);
+  from.setUTCMonth(from.getUTCMonth() - (TREND_WINDOW - 1), 1);
+  const history = buildScoreHistory(input, {
+    granularity: 'monthly',
+    from: from.toISOString(),
+    to: result.asOf,
+    scorecard,
+  });
+  const trend = history.length > 1 ? history[history.length - 1].score - history[0].score : 0;
+
+  return evaluateRules({
+    transactions: input.transactions,
+    accounts: input.accounts ?? [],
+    result,
+    scorecard,
+    history,
+    signals: computeSignals(input, result.asOf, trend),
+  }, rules);
+};
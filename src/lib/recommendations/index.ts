@@ -0,0 +1,3 @@
+export { computeSignals, estimateImpact, evaluateRules, generateRecommendations } from './engine';
+export { DEFAULT_RULES, HIGH_SPEND_RATIO, HIGH_UTILIZATION, MANY_NEW_OBLIGATIONS, NO_PAYMENT_DAYS } from './rules';
+export type { LedgerSignals, RecommendationContext, RecommendationRule } from './types';
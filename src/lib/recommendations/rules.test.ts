@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import type { ScoreFactors } from '../../types/credit';
+import { DEFAULT_SCORECARD } from '../scoring';
+import { evaluateRules } from './engine';
+import { DEFAULT_RULES, HIGH_SPEND_RATIO, HIGH_UTILIZATION, MANY_NEW_OBLIGATIONS, NO_PAYMENT_DAYS } from './rules';
+import type { LedgerSignals, RecommendationContext } from './types';
+
+// A borrower no rule has advice for; each case below breaks one thing about it
+const HEALTHY_FACTORS: ScoreFactors = {
+  paymentHistory: 95,
+  creditUtilization: 90,
+  creditLength: 80,
+  creditMix: 85,
+  newCredit: 90,
+};
+
+const HEALTHY_SIGNALS: LedgerSignals = {
+  purchaseToIncomeRatio: 0.2,
+  revolvingUtilization: 0.1,
+  daysSinceLastPayment: 5,
+  newObligations: 0,
+  missedRecurring: 0,
+  lateRecurring: 0,
+  trend: 0,
+};
+
+const contextWith = (
+  { factors = {}, signals = {} }: { factors?: Partial<ScoreFactors>; signals?: Partial<LedgerSignals> } = {}
+): RecommendationContext => ({
+  transactions: [],
+  accounts: [],
+  result: {
+    score: 700,
+    tier: 'Good',
+    factors: { ...HEALTHY_FACTORS, ...factors },
+    modelId: 'transaction',
+    scorecardVersion: `${DEFAULT_SCORECARD.id}@${DEFAULT_SCORECARD.version}`,
+    asOf: '2024-06-30',
+  },
+  scorecard: DEFAULT_SCORECARD,
+  history: [],
+  signals: { ...HEALTHY_SIGNALS, ...signals },
+});
+
+const ids = (context: RecommendationContext) => evaluateRules(context).map(recommendation => recommendation.id);
+
+const recommendationFor = (context: RecommendationContext, id: string) =>
+  evaluateRules(context).find(recommendation => recommendation.id === id);
+
+describe('DEFAULT_RULES', () => {
+  it('has no advice for a healthy borrower', () => {
+    expect(ids(contextWith())).toEqual([]);
+  });
+
+  const cases: Array<{ id: string; factor: keyof ScoreFactors; context: RecommendationContext }> = [
+    {
+      id: 'high-revolving-utilization',
+      factor: 'creditUtilization',
+      context: contextWith({ factors: { creditUtilization: 40 }, signals: { revolvingUtilization: HIGH_UTILIZATION + 0.3 } }),
+    },
+    {
+      id: 'high-spend-ratio',
+      factor: 'creditUtilization',
+      context: contextWith({
+        factors: { creditUtilization: 30 },
+        signals: { revolvingUtilization: null, purchaseToIncomeRatio: HIGH_SPEND_RATIO + 0.4 },
+      }),
+    },
+    {
+      id: 'no-recent-payments',
+      factor: 'paymentHistory',
+      context: contextWith({ factors: { paymentHistory: 60 }, signals: { daysSinceLastPayment: NO_PAYMENT_DAYS + 15 } }),
+    },
+    {
+      id: 'missed-recurring-payments',
+      factor: 'paymentHistory',
+      context: contextWith({ factors: { paymentHistory: 70 }, signals: { missedRecurring: 2 } }),
+    },
+    {
+      id: 'low-payment-history',
+      factor: 'paymentHistory',
+      context: contextWith({ factors: { paymentHistory: 50 } }),
+    },
+    {
+      id: 'many-new-obligations',
+      factor: 'newCredit',
+      context: contextWith({ factors: { newCredit: 40 }, signals: { newObligations: MANY_NEW_OBLIGATIONS + 1 } }),
+    },
+    {
+      id: 'short-history',
+      factor: 'creditLength',
+      context: contextWith({ factors: { creditLength: 20 } }),
+    },
+    {
+      id: 'thin-credit-mix',
+      factor: 'creditMix',
+      context: contextWith({ factors: { creditMix: 40 } }),
+    },
+    {
+      id: 'declining-trend',
+      factor: 'creditLength',
+      context: contextWith({ factors: { creditLength: 55 }, signals: { trend: -25 } }),
+    },
+  ];
+
+  it('covers every rule', () => {
+    expect(cases.map(({ id }) => id).sort()).toEqual(DEFAULT_RULES.map(rule => rule.id).sort());
+  });
+
+  it.each(cases)('fires $id and links it to $factor', ({ id, factor, context }) => {
+    const recommendation = recommendationFor(context, id);
+    expect(recommendation).toBeDefined();
+    expect(recommendation?.factor).toBe(factor);
+    expect(recommendation?.estimatedImpact).toBeGreaterThan(0);
+  });
+
+  it('advises on spending only when there is no revolving line', () => {
+    const withCard = contextWith({ factors: { creditUtilization: 30 }, signals: { purchaseToIncomeRatio: HIGH_SPEND_RATIO + 0.4 } });
+    expect(ids(withCard)).not.toContain('high-spend-ratio');
+  });
+
+  it('does not call a borrower with no payments at all a low payer', () => {
+    const context = contextWith({ factors: { paymentHistory: 20 }, signals: { daysSinceLastPayment: null } });
+    expect(ids(context)).toContain('no-recent-payments');
+    expect(ids(context)).not.toContain('low-payment-history');
+    expect(recommendationFor(context, 'no-recent-payments')?.detail).toMatch(/No payments are on record/);
+  });
+
+  it('reports late recurring payments when none were missed', () => {
+    const context = contextWith({ factors: { paymentHistory: 80 }, signals: { lateRecurring: 1 } });
+    expect(recommendationFor(context, 'missed-recurring-payments')?.detail).toMatch(/1 recurring payment was made late/);
+  });
+
+  it('points a declining trend at the weakest factor', () => {
+    const context = contextWith({ factors: { newCredit: 45 }, signals: { trend: -10 } });
+    expect(recommendationFor(context, 'declining-trend')?.factor).toBe('newCredit');
+  });
+
+  it('lists high priority advice first', () => {
+    const context = contextWith({ factors: { creditMix: 40, paymentHistory: 60 }, signals: { missedRecurring: 1 } });
+    const priorities = evaluateRules(context).map(recommendation => recommendation.priority);
+    expect(priorities[0]).toBe('high');
+    expect(priorities.indexOf('low')).toBeGreaterThan(priorities.lastIndexOf('high'));
+  });
+});
@@ -0,0 +1,106 @@
+import type { FactorKey } from '../../types/credit';
+import type { RecommendationContext, RecommendationRule } from './types';
+
+export const NO_PAYMENT_DAYS = 30;
+export const HIGH_SPEND_RATIO = 0.5;
+export const HIGH_UTILIZATION = 0.3;
+export const MANY_NEW_OBLIGATIONS = 2;
+
+const factorOf = ({ result }: RecommendationContext, key: FactorKey) => result.factors[key];
+
+const weakestFactor = ({ result }: RecommendationContext) =>
+  (Object.keys(result.factors) as FactorKey[]).reduce((weakest, key) =>
+    result.factors[key] < result.factors[weakest] ? key : weakest
+  );
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+export const DEFAULT_RULES: RecommendationRule[] = [
+  {
+    id: 'high-revolving-utilization',
+    factor: 'creditUtilization',
+    when: ({ signals }) => signals.revolvingUtilization !== null && signals.revolvingUtilization > HIGH_UTILIZATION,
+    factorGain: (context) => (1 - HIGH_UTILIZATION) * 100 - factorOf(context, 'creditUtilization'),
+    title: `Pay card balances below ${HIGH_UTILIZATION * 100}% of limits`,
+    detail: ({ signals }) =>
+      `Your revolving accounts are ${percent(signals.revolvingUtilization ?? 0)} utilized. Paying them down is the fastest way to gain points.`,
+  },
+  {
+    id: 'high-spend-ratio',
+    factor: 'creditUtilization',
+    when: ({ signals }) => signals.revolvingUtilization === null && signals.purchaseToIncomeRatio > HIGH_SPEND_RATIO,
+    factorGain: (context) => (100 - HIGH_SPEND_RATIO * 100) - factorOf(context, 'creditUtilization'),
+    title: 'Bring spending below half of income',
+    detail: ({ signals }) =>
+      `Purchases were ${percent(signals.purchaseToIncomeRatio)} of income over the last 90 days. Paying balances down lowers your utilization.`,
+  },
+  {
+    id: 'no-recent-payments',
+    factor: 'paymentHistory',
+    when: ({ signals }) => signals.daysSinceLastPayment === null || signals.daysSinceLastPayment > NO_PAYMENT_DAYS,
+    factorGain: (context) => 95 - factorOf(context, 'paymentHistory'),
+    title: 'Set up automatic payments',
+    detail: ({ signals }) => signals.daysSinceLastPayment === null
+      ? 'No payments are on record yet. Regular on-time payments are the largest part of your score.'
+      : `Your last payment was ${signals.daysSinceLastPayment} days ago. Automating payments keeps every month covered.`,
+    priority: 'high',
+  },
+  {
+    id: 'missed-recurring-payments',
+    factor: 'paymentHistory',
+    when: ({ signals }) => signals.missedRecurring + signals.lateRecurring > 0,
+    factorGain: (context) => 100 - factorOf(context, 'paymentHistory'),
+    title: 'Keep recurring bills on schedule',
+    detail: ({ signals }) => signals.missedRecurring > 0
+      ? `${signals.missedRecurring} expected rent, loan or bill payment${signals.missedRecurring === 1 ? ' was' : 's were'} missed in the last year. Each on-time installment rebuilds payment history.`
+      : `${signals.lateRecurring} recurring payment${signals.lateRecurring === 1 ? ' was' : 's were'} made late in the last year. Paying by the due date counts fully.`,
+    priority: 'high',
+  },
+  {
+    id: 'low-payment-history',
+    factor: 'paymentHistory',
+    when: (context) => factorOf(context, 'paymentHistory') < 70
+      && context.signals.daysSinceLastPayment !== null
+      && context.signals.missedRecurring + context.signals.lateRecurring === 0,
+    factorGain: (context) => 85 - factorOf(context, 'paymentHistory'),
+    title: 'Pay something every month',
+    detail: () => 'Several recent months have spending but no payment. A payment in each active month raises payment history.',
+  },
+  {
+    id: 'many-new-obligations',
+    factor: 'newCredit',
+    when: ({ signals }) => signals.newObligations >= MANY_NEW_OBLIGATIONS,
+    factorGain: (context) => Math.min(100, factorOf(context, 'newCredit') + 15 * context.signals.newObligations) - factorOf(context, 'newCredit'),
+    title: 'Pause opening new credit',
+    detail: ({ signals }) =>
+      `${signals.newObligations} new obligations started in the last 90 days. Letting them age recovers the new-credit factor.`,
+  },
+  {
+    id: 'short-history',
+    factor: 'creditLength',
+    when: (context) => factorOf(context, 'creditLength') < 50,
+    factorGain: (context) => 50 - factorOf(context, 'creditLength'),
+    title: 'Keep your oldest accounts open',
+    detail: () => 'Your credit history is short. Keeping existing accounts open lets their age count in your favour.',
+    priority: 'low',
+  },
+  {
+    id: 'thin-credit-mix',
+    factor: 'creditMix',
+    when: (context) => factorOf(context, 'creditMix') < 70,
+    factorGain: (context) => 70 - factorOf(context, 'creditMix'),
+    title: 'Diversify your credit mix',
+    detail: () => 'Repaying different kinds of obligations, such as a card and an instalment loan, strengthens your credit mix.',
+    priority: 'low',
+  },
+  {
+    id: 'declining-trend',
+    factor: weakestFactor,
+    when: ({ signals }) => signals.trend < 0,
+    factorGain: (context) => Math.min(100 - factorOf(context, weakestFactor(context)), -context.signals.trend),
+    title: 'Reverse the recent decline',
+    detail: ({ signals }) =>
+      `Your score fell ${Math.abs(signals.trend)} points recently. Focus on your weakest factor first.`,
+    priority: 'high',
+  },
+];
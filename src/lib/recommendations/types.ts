@@ -0,0 +1,35 @@
+import type { CreditAccount, FactorKey, RecommendationPriority, Transaction } from '../../types/credit';
+import type { Scorecard, ScoreHistoryPoint, ScoreResult } from '../scoring';
+
+export interface LedgerSignals {
+  purchaseToIncomeRatio: number;
+  // Null when the borrower has no open revolving line
+  revolvingUtilization: number | null;
+  daysSinceLastPayment: number | null;
+  newObligations: number;
+  // Recurring obligation occurrences missed or paid late in the last year
+  missedRecurring: number;
+  lateRecurring: number;
+  // Score change across the recent trend window
+  trend: number;
+}
+
+export interface RecommendationContext {
+  transactions: Transaction[];
+  accounts: CreditAccount[];
+  result: ScoreResult;
+  scorecard: Scorecard;
+  history: ScoreHistoryPoint[];
+  signals: LedgerSignals;
+}
+
+export interface RecommendationRule {
+  id: string;
+  factor: FactorKey | ((context: RecommendationContext) => FactorKey);
+  when: (context: RecommendationContext) => boolean;
+  // Factor points the borrower can realistically recover by following the advice
+  factorGain: (context: RecommendationContext) => number;
+  title: string;
+  detail: (context: RecommendationContext) => string;
+  priority?: RecommendationPriority;
+}
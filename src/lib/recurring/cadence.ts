@@ -0,0 +1,47 @@
+import type { Cadence } from './types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CadenceSpec {
+  cadence: Cadence;
+  days: number;
+  // Largest deviation of a typical interval still recognised as this cadence
+  tolerance: number;
+  // Days after the expected date a payment still counts as on time
+  grace: number;
+}
+
+export const CADENCES: CadenceSpec[] = [
+  { cadence: 'weekly', days: 7, tolerance: 2, grace: 1 },
+  { cadence: 'biweekly', days: 14, tolerance: 3, grace: 2 },
+  { cadence: 'monthly', days: 30.44, tolerance: 5, grace: 5 },
+  { cadence: 'quarterly', days: 91.3, tolerance: 12, grace: 7 },
+  { cadence: 'annual', days: 365.25, tolerance: 20, grace: 10 },
+];
+
+export const CADENCE_LABELS: Record<Cadence, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Yearly',
+};
+
+export const getCadence = (cadence: Cadence) => CADENCES.find(spec => spec.cadence === cadence) ?? CADENCES[2];
+
+export const matchCadence = (intervalDays: number) =>
+  CADENCES.find(spec => Math.abs(intervalDays - spec.days) <= spec.tolerance) ?? null;
+
+const MONTH_STEPS: Partial<Record<Cadence, number>> = { monthly: 1, quarterly: 3, annual: 12 };
+
+// Calendar-aware step: month based cadences keep the anchor day, clamped to short months
+export const addPeriods = (anchor: Date, cadence: Cadence, periods: number) => {
+  const months = MONTH_STEPS[cadence];
+  if (months === undefined) {
+    return new Date(anchor.getTime() + periods * getCadence(cadence).days * DAY_MS);
+  }
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months * periods;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(anchor.getUTCDate(), lastDay)));
+};
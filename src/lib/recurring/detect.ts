@@ -0,0 +1,171 @@
+import type { Transaction } from '../../types/credit';
+import { merchantKey } from '../categorization';
+import { DAY_MS, addPeriods, getCadence, matchCadence } from './cadence';
+import type { DetectionOptions, RecurringKind, RecurringOccurrence, RecurringSeries } from './types';
+
+const MIN_OCCURRENCES = 3;
+// Amounts further than this from the series median are treated as one-off charges
+const AMOUNT_TOLERANCE = 0.25;
+// Share of scheduled dates that must be matched for a group to count as a series
+const MIN_REGULARITY = 0.6;
+// Obligations keep accruing misses up to this many before the series is considered ended
+const MAX_TRAILING_MISSES = 3;
+
+const toTime = (date: string) => Date.parse(date);
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const OBLIGATION_KINDS: RecurringKind[] = ['rent', 'loan', 'bill'];
+
+export const isObligation = (series: RecurringSeries) =>
+  series.type !== 'income' && OBLIGATION_KINDS.includes(series.kind);
+
+const classify = (transaction: Transaction): RecurringKind => {
+  const text = `${transaction.description} ${transaction.category}`.toLowerCase();
+  if (transaction.type === 'income') return 'salary';
+  if (/\b(rent|landlord|mortgage|housing)\b/.test(text)) return 'rent';
+  if (/\b(loan|loans|installment|instalment|credit card|finance)\b/.test(text)) return 'loan';
+  if (/\b(subscriptions?|netflix|spotify|hulu|membership|streaming|entertainment)\b/.test(text)) return 'subscription';
+  if (/\b(utilities|utility|electric|water|internet|phone|insurance)\b/.test(text)) return 'bill';
+  return transaction.type === 'payment' ? 'bill' : 'other';
+};
+
+// Walks the expected schedule from the first occurrence, matching each slot to the nearest unused transaction
+const buildSchedule = (series: Transaction[], cadence: RecurringSeries['cadence'], asOf: Date, obligation: boolean) => {
+  const spec = getCadence(cadence);
+  const window = (spec.days / 2) * DAY_MS;
+  const anchor = new Date(series[0].date);
+  const lastTime = toTime(series[series.length - 1].date);
+  const used = new Set<string>();
+  const occurrences: RecurringOccurrence[] = [];
+  let trailingMisses = 0;
+  let ended = false;
+
+  for (let period = 0; ; period++) {
+    const expected = addPeriods(anchor, cadence, period);
+    const expectedTime = expected.getTime();
+    // Slots still inside their payment window are pending, not missed
+    if (expectedTime + window > asOf.getTime()) {
+      const match = series.find(t => !used.has(t.id) && Math.abs(toTime(t.date) - expectedTime) <= window);
+      if (!match) return { occurrences, nextDue: expected, ended };
+    }
+
+    const match = series
+      .filter(t => !used.has(t.id) && Math.abs(toTime(t.date) - expectedTime) <= window)
+      .sort((a, b) => Math.abs(toTime(a.date) - expectedTime) - Math.abs(toTime(b.date) - expectedTime))[0];
+
+    if (match) {
+      used.add(match.id);
+      trailingMisses = 0;
+      const daysLate = Math.round((toTime(match.date) - expectedTime) / DAY_MS);
+      occurrences.push({
+        expectedDate: toDateString(expected),
+        status: daysLate > spec.grace ? 'late' : 'on-time',
+        transactionId: match.id,
+        date: match.date,
+        amount: match.amount,
+        daysLate,
+      });
+      continue;
+    }
+
+    // Past the last payment, a cancelled subscription simply stops; an obligation accrues misses first
+    if (expectedTime > lastTime) {
+      if (!obligation || trailingMisses >= MAX_TRAILING_MISSES) {
+        ended = true;
+        return { occurrences, nextDue: expected, ended };
+      }
+      trailingMisses++;
+    }
+    occurrences.push({ expectedDate: toDateString(expected), status: 'missed' });
+  }
+};
+
+const detectGroup = (group: Transaction[], asOf: Date, minOccurrences: number): RecurringSeries | null => {
+  const typical = median(group.map(t => t.amount));
+  const series = group
+    .filter(t => Math.abs(t.amount - typical) <= typical * AMOUNT_TOLERANCE)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (series.length < minOccurrences) return null;
+
+  const intervals = series.slice(1).map((t, i) => (toTime(t.date) - toTime(series[i].date)) / DAY_MS);
+  const spec = matchCadence(median(intervals));
+  if (!spec) return null;
+
+  const latest = series[series.length - 1];
+  const kind = classify(latest);
+  const obligation = latest.type !== 'income' && OBLIGATION_KINDS.includes(kind);
+  const { occurrences, nextDue, ended } = buildSchedule(series, spec.cadence, asOf, obligation);
+
+  const matched = occurrences.filter(o => o.status !== 'missed').length;
+  if (occurrences.length === 0 || matched / occurrences.length < MIN_REGULARITY) return null;
+
+  const missedCount = occurrences.filter(o => o.status === 'missed').length;
+  const trailing = occurrences[occurrences.length - 1];
+
+  return {
+    id: `${latest.type}:${merchantKey(latest.description)}`,
+    description: latest.description,
+    kind,
+    type: latest.type,
+    category: latest.category,
+    cadence: spec.cadence,
+    expectedAmount: Math.round(median(series.map(t => t.amount)) * 100) / 100,
+    occurrences,
+    transactionIds: occurrences.flatMap(o => o.transactionId ? [o.transactionId] : []),
+    firstDate: series[0].date,
+    lastDate: latest.date,
+    nextDueDate: toDateString(nextDue),
+    status: ended ? 'ended' : trailing?.status === 'missed' ? 'overdue' : 'active',
+    onTimeCount: occurrences.filter(o => o.status === 'on-time').length,
+    lateCount: occurrences.filter(o => o.status === 'late').length,
+    missedCount,
+  };
+};
+
+// Groups the ledger by merchant and direction, then keeps groups that follow a regular cadence
+export const detectRecurring = (transactions: Transaction[], options: DetectionOptions = {}): RecurringSeries[] => {
+  const unique = [...new Map(transactions.filter(t => t.type !== 'transfer').map(t => [t.id, t])).values()];
+  if (unique.length === 0) return [];
+
+  const asOf = options.asOf
+    ? new Date(options.asOf)
+    : new Date(Math.max(...unique.map(t => toTime(t.date))));
+  const visible = unique.filter(t => toTime(t.date) <= asOf.getTime());
+
+  const groups = new Map<string, Transaction[]>();
+  visible.forEach(t => {
+    const key = `${t.type}:${merchantKey(t.description)}`;
+    const group = groups.get(key);
+    if (group) group.push(t);
+    else groups.set(key, [t]);
+  });
+
+  return [...groups.values()]
+    .map(group => detectGroup(group, asOf, options.minOccurrences ?? MIN_OCCURRENCES))
+    .filter((series): series is RecurringSeries => series !== null)
+    .sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate));
+};
+
+// On-time share of recurring obligation occurrences expected in the window ending at `asOf`
+export const recurringPaymentRecord = (series: RecurringSeries[], asOf: Date, days = 365) => {
+  const start = asOf.getTime() - days * DAY_MS;
+  const occurrences = series
+    .filter(isObligation)
+    .flatMap(s => s.occurrences)
+    .filter(o => toTime(o.expectedDate) > start && toTime(o.expectedDate) <= asOf.getTime());
+
+  const onTime = occurrences.filter(o => o.status === 'on-time').length;
+  const late = occurrences.filter(o => o.status === 'late').length;
+  return {
+    total: occurrences.length,
+    onTime,
+    late,
+    missed: occurrences.length - onTime - late,
+  };
+};
@@ -0,0 +1,10 @@
+export { CADENCE_LABELS, addPeriods, matchCadence } from './cadence';
+export { detectRecurring, isObligation, recurringPaymentRecord } from './detect';
+export type {
+  Cadence,
+  DetectionOptions,
+  OccurrenceStatus,
+  RecurringKind,
+  RecurringOccurrence,
+  RecurringSeries,
+} from './types';
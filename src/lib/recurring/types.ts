@@ -0,0 +1,44 @@
+import type { TransactionType } from '../../types/credit';
+
+export type Cadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'annual';
+
+export type RecurringKind = 'salary' | 'rent' | 'loan' | 'subscription' | 'bill' | 'other';
+
+export type OccurrenceStatus = 'on-time' | 'late' | 'missed';
+
+export interface RecurringOccurrence {
+  expectedDate: string;
+  status: OccurrenceStatus;
+  // Absent when the occurrence was missed
+  transactionId?: string;
+  date?: string;
+  amount?: number;
+  // Positive when paid after the expected date
+  daysLate?: number;
+}
+
+export interface RecurringSeries {
+  id: string;
+  description: string;
+  kind: RecurringKind;
+  type: TransactionType;
+  category: string;
+  cadence: Cadence;
+  expectedAmount: number;
+  occurrences: RecurringOccurrence[];
+  transactionIds: string[];
+  firstDate: string;
+  lastDate: string;
+  nextDueDate: string;
+  // Ended series stopped recurring and no longer produce missed occurrences
+  status: 'active' | 'overdue' | 'ended';
+  onTimeCount: number;
+  lateCount: number;
+  missedCount: number;
+}
+
+export interface DetectionOptions {
+  // Point in time to evaluate the schedule at; defaults to the latest transaction date
+  asOf?: string;
+  minOccurrences?: number;
+}
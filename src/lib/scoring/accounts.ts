@@ -0,0 +1,39 @@
+import type { CreditAccount, CreditAccountKind, Transaction } from '../../types/credit';
+
+export const REVOLVING_KINDS: CreditAccountKind[] = ['card', 'bnpl'];
+
+export const ACCOUNT_KIND_LABELS: Record<CreditAccountKind, string> = {
+  card: 'Credit Card',
+  loan: 'Loan',
+  mortgage: 'Mortgage',
+  bnpl: 'Buy Now, Pay Later',
+};
+
+export const isRevolving = (account: CreditAccount) => REVOLVING_KINDS.includes(account.kind);
+
+export const isOpenAt = (account: CreditAccount, asOf: Date) =>
+  new Date(account.openedAt).getTime() <= asOf.getTime() &&
+  (!account.closedAt || new Date(account.closedAt).getTime() > asOf.getTime());
+
+// How a linked transaction moves the account balance
+export const balanceEffect = (transaction: Transaction) => {
+  if (transaction.type === 'purchase') return transaction.amount;
+  if (transaction.type === 'payment') return -transaction.amount;
+  return 0;
+};
+
+// Rewinds the current balance by every linked transaction dated after `asOf`
+export const balanceAt = (account: CreditAccount, transactions: Transaction[], asOf: Date) => {
+  const later = transactions
+    .filter(t => t.accountId === account.id && new Date(t.date).getTime() > asOf.getTime())
+    .reduce((sum, t) => sum + balanceEffect(t), 0);
+  return Math.max(0, account.balance - later);
+};
+
+// Revolving balance over revolving limit, or null when there is no open revolving line
+export const revolvingUtilization = (accounts: CreditAccount[], asOf: Date) => {
+  const revolving = accounts.filter(a => isRevolving(a) && isOpenAt(a, asOf));
+  const limit = revolving.reduce((sum, a) => sum + a.limit, 0);
+  if (limit <= 0) return null;
+  return revolving.reduce((sum, a) => sum + a.balance, 0) / limit;
+};
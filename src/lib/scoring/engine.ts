@@ -0,0 +1,104 @@
+import type { ScoreFactors, Transaction } from '../../types/credit';
+import { detectRecurring, type RecurringSeries } from '../recurring';
+import { clamp, toDateString, toTime } from './factors';
+import { bootstrapModel, transactionModel } from './models';
+import { balanceAt } from './accounts';
+import { createRandom } from './random';
+import { DEFAULT_SCORECARD, getTierBand, scorecardVersionId, type Scorecard } from './scorecards';
+import type { ScoreResult, ScoringInput, ScoringModel } from './types';
+
+export const DEFAULT_MODEL_ID = transactionModel.id;
+export const DEFAULT_SEED = 0x5eed;
+
+const models = new Map<string, ScoringModel>();
+
+export const registerScoringModel = (model: ScoringModel) => {
+  models.set(model.id, model);
+};
+
+export const getScoringModel = (id: string) => {
+  const model = models.get(id);
+  if (!model) {
+    throw new Error(`Unknown scoring model: ${id}`);
+  }
+  return model;
+};
+
+export const listScoringModels = () => [...models.values()];
+
+registerScoringModel(transactionModel);
+registerScoringModel(bootstrapModel);
+
+const resolveAsOf = ({ transactions, asOf }: ScoringInput) => {
+  if (asOf) return new Date(asOf);
+  if (transactions.length === 0) return new Date(0);
+  return new Date(Math.max(...transactions.map(t => toTime(t.date))));
+};
+
+// Recurring detection is the costliest part of scoring. Each ledger version is scored several
+// times at the same date (an audit entry scores the ledger before and after every edit), so
+// the series are kept per ledger array and date.
+const recurringCache = new WeakMap<Transaction[], Map<number, RecurringSeries[]>>();
+
+const recurringAt = (ledger: Transaction[], asOf: Date) => {
+  let byDate = recurringCache.get(ledger);
+  if (!byDate) {
+    byDate = new Map();
+    recurringCache.set(ledger, byDate);
+  }
+  let series = byDate.get(asOf.getTime());
+  if (!series) {
+    series = detectRecurring(ledger, { asOf: asOf.toISOString() });
+    byDate.set(asOf.getTime(), series);
+  }
+  return series;
+};
+
+export interface ScoringOptions {
+  modelId?: string;
+  scorecard?: Scorecard;
+}
+
+// Pure function from a ledger to a score: same input, same seed, same result
+export const scoreTransactions = (
+  input: ScoringInput,
+  { modelId = DEFAULT_MODEL_ID, scorecard = DEFAULT_SCORECARD }: ScoringOptions = {}
+): ScoreResult => {
+  const model = getScoringModel(modelId);
+  const asOf = resolveAsOf(input);
+  const transactions = input.transactions.filter(t => toTime(t.date) <= asOf.getTime());
+
+  const raw = model.computeFactors({
+    transactions,
+    // Balances are rewound to `asOf` so historical rescoring sees historical utilization
+    accounts: (input.accounts ?? [])
+      .filter(a => toTime(a.openedAt) <= asOf.getTime())
+      .map(a => ({ ...a, balance: balanceAt(a, input.transactions, asOf) })),
+    account: input.account ?? {},
+    asOf,
+    random: createRandom(input.seed ?? DEFAULT_SEED),
+    recurring: recurringAt(input.transactions, asOf),
+  });
+
+  const factors: ScoreFactors = {
+    paymentHistory: Math.round(clamp(raw.paymentHistory)),
+    creditUtilization: Math.round(clamp(raw.creditUtilization)),
+    creditLength: Math.round(clamp(raw.creditLength)),
+    creditMix: Math.round(clamp(raw.creditMix)),
+    newCredit: Math.round(clamp(raw.newCredit)),
+  };
+
+  const { weights, scaling } = scorecard;
+  const weighted = (Object.keys(weights) as Array<keyof ScoreFactors>)
+    .reduce((sum, key) => sum + factors[key] * weights[key], 0);
+  const score = Math.round(clamp(weighted * scaling.multiplier, scaling.floor, scaling.ceiling));
+
+  return {
+    score,
+    tier: getTierBand(score, scorecard).tier,
+    factors,
+    modelId: model.id,
+    scorecardVersion: scorecardVersionId(scorecard),
+    asOf: toDateString(asOf),
+  };
+};
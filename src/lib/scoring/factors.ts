@@ -0,0 +1,118 @@
+import type { ScoreFactors, Transaction } from '../../types/credit';
+import { detectRecurring, recurringPaymentRecord } from '../recurring';
+import { isOpenAt, revolvingUtilization } from './accounts';
+import type { ScoringContext } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30.44 * DAY_MS;
+
+export const clamp = (value: number, min = 0, max = 100) => Math.min(max, Math.max(min, value));
+
+export const toTime = (date: string) => Date.parse(date);
+
+export const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const monthKey = (date: string) => date.slice(0, 7);
+
+const within = (transactions: Transaction[], asOf: Date, days: number) => {
+  const end = asOf.getTime();
+  const start = end - days * DAY_MS;
+  return transactions.filter(t => {
+    const time = toTime(t.date);
+    return time > start && time <= end;
+  });
+};
+
+const sumOf = (transactions: Transaction[], type: Transaction['type']) =>
+  transactions.filter(t => t.type === type).reduce((sum, t) => sum + t.amount, 0);
+
+// Recurring obligations need this many expected occurrences in the year to drive the factor
+const MIN_RECURRING_EVIDENCE = 3;
+
+// On-time share of recurring obligations (rent, loans, bills) over the last year, with
+// late payments counting half. Ledgers without enough recurring evidence fall back to the
+// share of active months in which at least one payment was made.
+export const paymentHistoryFactor = ({ transactions, asOf, recurring }: ScoringContext) => {
+  const series = recurring ?? detectRecurring(transactions, { asOf: asOf.toISOString() });
+  const record = recurringPaymentRecord(series, asOf);
+  if (record.total >= MIN_RECURRING_EVIDENCE) {
+    return clamp(20 + ((record.onTime + record.late * 0.5) / record.total) * 80);
+  }
+
+  const yearly = within(transactions, asOf, 365);
+  const activeMonths = new Set(yearly.map(t => monthKey(t.date)));
+  if (activeMonths.size === 0) return 50;
+
+  const paidMonths = new Set(yearly.filter(t => t.type === 'payment').map(t => monthKey(t.date)));
+  return clamp(20 + (paidMonths.size / activeMonths.size) * 80, 0, 95);
+};
+
+// Revolving balances against limits; spending against income when there is no revolving line
+export const creditUtilizationFactor = ({ transactions, accounts, asOf }: ScoringContext) => {
+  const utilization = revolvingUtilization(accounts, asOf);
+  if (utilization !== null) {
+    return clamp(100 - utilization * 100, 10);
+  }
+
+  const recent = within(transactions, asOf, 90);
+  const spending = sumOf(recent, 'purchase');
+  const income = sumOf(recent, 'income');
+  return clamp(100 - (spending / Math.max(income, 1000)) * 100, 10);
+};
+
+// Average account age (or ledger age without accounts), reaching 100 at ten years
+export const creditLengthFactor = ({ transactions, accounts, account, asOf }: ScoringContext) => {
+  if (accounts.length > 0) {
+    const averageAge = accounts.reduce((sum, a) => sum + (asOf.getTime() - toTime(a.openedAt)), 0) / accounts.length;
+    return clamp(30 + (averageAge / MONTH_MS) * (70 / 120));
+  }
+
+  const dates = transactions.map(t => toTime(t.date));
+  if (account.openedAt) dates.push(toTime(account.openedAt));
+  if (dates.length === 0) return 30;
+
+  const months = (asOf.getTime() - Math.min(...dates)) / MONTH_MS;
+  return clamp(30 + months * (70 / 120));
+};
+
+// Variety of open account kinds, or of obligations being paid down without accounts
+export const creditMixFactor = ({ transactions, accounts, asOf }: ScoringContext) => {
+  if (accounts.length > 0) {
+    const kinds = new Set(accounts.filter(a => isOpenAt(a, asOf)).map(a => a.kind));
+    return clamp(40 + kinds.size * 15);
+  }
+
+  const obligations = new Set(transactions.filter(t => t.type === 'payment').map(t => t.category));
+  return clamp(40 + obligations.size * 15);
+};
+
+// Accounts opened in the last year count as hard inquiries; without accounts,
+// obligations whose first payment appeared in the last 90 days
+export const newCreditFactor = ({ transactions, accounts, asOf }: ScoringContext) => {
+  if (accounts.length > 0) {
+    const cutoff = asOf.getTime() - 365 * DAY_MS;
+    const inquiries = accounts.filter(a => toTime(a.openedAt) > cutoff).length;
+    return clamp(100 - inquiries * 15, 20);
+  }
+
+  const firstPayment = new Map<string, number>();
+  transactions
+    .filter(t => t.type === 'payment' && toTime(t.date) <= asOf.getTime())
+    .forEach(t => {
+      const time = toTime(t.date);
+      const seen = firstPayment.get(t.category);
+      if (seen === undefined || time < seen) firstPayment.set(t.category, time);
+    });
+
+  const cutoff = asOf.getTime() - 90 * DAY_MS;
+  const opened = [...firstPayment.values()].filter(time => time > cutoff).length;
+  return clamp(100 - opened * 15, 20);
+};
+
+export const computeTransactionFactors = (context: ScoringContext): ScoreFactors => ({
+  paymentHistory: paymentHistoryFactor(context),
+  creditUtilization: creditUtilizationFactor(context),
+  creditLength: creditLengthFactor(context),
+  creditMix: creditMixFactor(context),
+  newCredit: newCreditFactor(context),
+});
@@ -0,0 +1,114 @@
+import { balanceEffect } from './accounts';
+import { scoreTransactions, type ScoringOptions } from './engine';
+import { toDateString, toTime } from './factors';
+import type { ScoringInput } from './types';
+
+export type HistoryGranularity = 'daily' | 'weekly' | 'monthly';
+
+export interface ScoreHistoryPoint {
+  period: string;
+  periodStart: string;
+  periodEnd: string;
+  score: number;
+  // Ledger rows dated inside this period
+  transactions: number;
+}
+
+export interface HistoryOptions extends ScoringOptions {
+  granularity: HistoryGranularity;
+  from?: string;
+  to?: string;
+}
+
+// Keeps a multi-year daily view from rescoring thousands of periods
+export const MAX_HISTORY_POINTS = 366;
+// Every period reruns recurring detection on its slice of the ledger, so daily views are kept shorter
+export const MAX_DAILY_POINTS = 90;
+
+const periodStart = (date: Date, granularity: HistoryGranularity) => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (granularity === 'weekly') {
+    // Weeks start on Monday
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (granularity === 'monthly') {
+    start.setUTCDate(1);
+  }
+  return start;
+};
+
+const nextPeriod = (start: Date, granularity: HistoryGranularity) => {
+  const next = new Date(start);
+  if (granularity === 'daily') next.setUTCDate(next.getUTCDate() + 1);
+  if (granularity === 'weekly') next.setUTCDate(next.getUTCDate() + 7);
+  if (granularity === 'monthly') next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+};
+
+const formatPeriod = (start: Date, granularity: HistoryGranularity) => {
+  const day = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  if (granularity === 'daily') return day;
+  if (granularity === 'weekly') return `Wk of ${day}`;
+  return start.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+};
+
+// Rescores the ledger at the end of every period between the first and last transaction. The
+// ledger is sorted once and walked period by period: each period scores the rows dated up to
+// its end, with account balances rewound by the rows that come after.
+export const buildScoreHistory = (
+  input: ScoringInput,
+  { granularity, from, to, ...scoring }: HistoryOptions
+): ScoreHistoryPoint[] => {
+  const { transactions, accounts = [] } = input;
+  if (transactions.length === 0) return [];
+
+  const sorted = transactions
+    .map(transaction => ({ transaction, time: toTime(transaction.date) }))
+    .sort((a, b) => a.time - b.time);
+  const rangeStart = from ? toTime(from) : sorted[0].time;
+  const rangeEnd = to ? toTime(to) : sorted[sorted.length - 1].time;
+  if (rangeEnd < rangeStart) return [];
+
+  const counts = new Map<string, number>();
+  // Net balance effect of each account's linked rows: all of them, and those already walked past
+  const totalEffect = new Map<string, number>();
+  const walkedEffect = new Map<string, number>();
+  sorted.forEach(({ transaction, time }) => {
+    const bucket = toDateString(periodStart(new Date(time), granularity));
+    counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+    if (transaction.accountId) {
+      totalEffect.set(transaction.accountId, (totalEffect.get(transaction.accountId) ?? 0) + balanceEffect(transaction));
+    }
+  });
+
+  const periods: Date[] = [];
+  for (let start = periodStart(new Date(rangeStart), granularity); start.getTime() <= rangeEnd; start = nextPeriod(start, granularity)) {
+    periods.push(start);
+  }
+
+  const ledger = sorted.map(({ transaction }) => transaction);
+  const maxPoints = granularity === 'daily' ? MAX_DAILY_POINTS : MAX_HISTORY_POINTS;
+  let walked = 0;
+  return periods.slice(-maxPoints).map(start => {
+    const end = new Date(Math.min(nextPeriod(start, granularity).getTime() - 1, rangeEnd));
+    for (; walked < sorted.length && sorted[walked].time <= end.getTime(); walked++) {
+      const { transaction } = sorted[walked];
+      if (transaction.accountId) {
+        walkedEffect.set(transaction.accountId, (walkedEffect.get(transaction.accountId) ?? 0) + balanceEffect(transaction));
+      }
+    }
+    const later = (accountId: string) => (totalEffect.get(accountId) ?? 0) - (walkedEffect.get(accountId) ?? 0);
+    const { score } = scoreTransactions({
+      ...input,
+      transactions: ledger.slice(0, walked),
+      accounts: accounts.map(account => ({ ...account, balance: Math.max(0, account.balance - later(account.id)) })),
+      asOf: end.toISOString(),
+    }, scoring);
+    return {
+      period: formatPeriod(start, granularity),
+      periodStart: toDateString(start),
+      periodEnd: toDateString(end),
+      score,
+      transactions: counts.get(toDateString(start)) ?? 0,
+    };
+  });
+};
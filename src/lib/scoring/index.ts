@@ -0,0 +1,37 @@
+export {
+  DEFAULT_MODEL_ID,
+  DEFAULT_SEED,
+  getScoringModel,
+  listScoringModels,
+  registerScoringModel,
+  scoreTransactions,
+} from './engine';
+export type { ScoringOptions } from './engine';
+export {
+  ACCOUNT_KIND_LABELS,
+  REVOLVING_KINDS,
+  balanceAt,
+  balanceEffect,
+  isOpenAt,
+  isRevolving,
+  revolvingUtilization,
+} from './accounts';
+export { createRandom } from './random';
+export {
+  DEFAULT_SCORECARD,
+  EMERGING_SCORECARD,
+  FACTOR_LABELS,
+  GLOBAL_SCORECARD,
+  formatWeight,
+  getScorecard,
+  getTierBand,
+  listScorecards,
+  registerScorecard,
+  scorecardVersionId,
+} from './scorecards';
+export type { Scorecard, TierBand } from './scorecards';
+export { MAX_DAILY_POINTS, MAX_HISTORY_POINTS, buildScoreHistory } from './history';
+export type { HistoryGranularity, HistoryOptions, ScoreHistoryPoint } from './history';
+export { applyWhatIfActions, simulateWhatIf } from './simulator';
+export type { WhatIfAction, WhatIfResult, WhatIfSkip } from './simulator';
+export type { AccountMetadata, ScoreResult, ScoringContext, ScoringInput, ScoringModel } from './types';
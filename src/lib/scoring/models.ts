@@ -0,0 +1,34 @@
+import type { ScoreFactors } from '../../types/credit';
+import { computeTransactionFactors } from './factors';
+import type { ScoringModel } from './types';
+
+export const transactionModel: ScoringModel = {
+  id: 'transaction-v1',
+  name: 'Transaction ledger',
+  description: 'Scores every factor directly from the dated transaction ledger',
+  computeFactors: computeTransactionFactors,
+};
+
+const BOOTSTRAP_SAMPLES = 25;
+
+// Averages the ledger model over resampled ledgers, damping the effect of single outliers
+export const bootstrapModel: ScoringModel = {
+  id: 'bootstrap-v1',
+  name: 'Bootstrapped ledger',
+  description: 'Averages the ledger model over seeded resamples of the transactions',
+  computeFactors: (context) => {
+    const { transactions, random } = context;
+    if (transactions.length === 0) return computeTransactionFactors(context);
+
+    const totals: ScoreFactors = { paymentHistory: 0, creditUtilization: 0, creditLength: 0, creditMix: 0, newCredit: 0 };
+    for (let sample = 0; sample < BOOTSTRAP_SAMPLES; sample++) {
+      const resampled = transactions.map(() => transactions[Math.floor(random() * transactions.length)]);
+      // The ledger's recurring series do not describe a resample
+      const factors = computeTransactionFactors({ ...context, transactions: resampled, recurring: undefined });
+      (Object.keys(totals) as Array<keyof ScoreFactors>).forEach(key => {
+        totals[key] += factors[key] / BOOTSTRAP_SAMPLES;
+      });
+    }
+    return totals;
+  },
+};
@@ -0,0 +1,108 @@
+import type { CreditTier, FactorKey, ScoreFactors } from '../../types/credit';
+
+export interface TierBand {
+  tier: CreditTier;
+  minScore: number;
+  label: string;
+  // Tailwind gradient stops used by the gauge and tier badge
+  color: string;
+}
+
+export interface Scorecard {
+  id: string;
+  version: string;
+  name: string;
+  market: string;
+  // Fractions of the weighted 0-100 factor average; must sum to 1
+  weights: ScoreFactors;
+  scaling: {
+    multiplier: number;
+    floor: number;
+    ceiling: number;
+  };
+  // Ordered from the highest band down; the last band catches everything below
+  tiers: TierBand[];
+}
+
+export const GLOBAL_SCORECARD: Scorecard = {
+  id: 'global',
+  version: '2025.1',
+  name: 'Global',
+  market: 'Global',
+  weights: {
+    paymentHistory: 0.35,
+    creditUtilization: 0.30,
+    creditLength: 0.15,
+    creditMix: 0.10,
+    newCredit: 0.10,
+  },
+  scaling: { multiplier: 8.5, floor: 300, ceiling: 850 },
+  tiers: [
+    { tier: 'Excellent', minScore: 750, label: 'Outstanding creditworthiness', color: 'from-green-400 to-emerald-500' },
+    { tier: 'Good', minScore: 700, label: 'Good creditworthiness', color: 'from-red-400 to-violet-500' },
+    { tier: 'Fair', minScore: 650, label: 'Fair creditworthiness', color: 'from-yellow-400 to-orange-500' },
+    { tier: 'Poor', minScore: 0, label: 'Needs improvement', color: 'from-red-500 to-pink-500' },
+  ],
+};
+
+// Thin-file markets: recent repayment behaviour matters more than history length
+export const EMERGING_SCORECARD: Scorecard = {
+  id: 'emerging',
+  version: '2025.1',
+  name: 'Emerging Markets',
+  market: 'Emerging',
+  weights: {
+    paymentHistory: 0.45,
+    creditUtilization: 0.25,
+    creditLength: 0.05,
+    creditMix: 0.10,
+    newCredit: 0.15,
+  },
+  scaling: { multiplier: 8.5, floor: 300, ceiling: 850 },
+  tiers: [
+    { tier: 'Excellent', minScore: 730, label: 'Outstanding creditworthiness', color: 'from-green-400 to-emerald-500' },
+    { tier: 'Good', minScore: 680, label: 'Good creditworthiness', color: 'from-red-400 to-violet-500' },
+    { tier: 'Fair', minScore: 620, label: 'Fair creditworthiness', color: 'from-yellow-400 to-orange-500' },
+    { tier: 'Poor', minScore: 0, label: 'Needs improvement', color: 'from-red-500 to-pink-500' },
+  ],
+};
+
+export const DEFAULT_SCORECARD = GLOBAL_SCORECARD;
+
+const scorecards = new Map<string, Scorecard>();
+
+export const registerScorecard = (scorecard: Scorecard) => {
+  const total = Object.values(scorecard.weights).reduce((sum, weight) => sum + weight, 0);
+  if (Math.abs(total - 1) > 1e-6) {
+    throw new Error(`Scorecard ${scorecard.id}@${scorecard.version} weights sum to ${total}, expected 1`);
+  }
+  scorecards.set(scorecard.id, scorecard);
+};
+
+export const getScorecard = (id: string) => {
+  const scorecard = scorecards.get(id);
+  if (!scorecard) {
+    throw new Error(`Unknown scorecard: ${id}`);
+  }
+  return scorecard;
+};
+
+export const listScorecards = () => [...scorecards.values()];
+
+registerScorecard(GLOBAL_SCORECARD);
+registerScorecard(EMERGING_SCORECARD);
+
+export const scorecardVersionId = (scorecard: Scorecard) => `${scorecard.id}@${scorecard.version}`;
+
+export const getTierBand = (score: number, scorecard: Scorecard = DEFAULT_SCORECARD) =>
+  scorecard.tiers.find(band => score >= band.minScore) ?? scorecard.tiers[scorecard.tiers.length - 1];
+
+export const formatWeight = (weight: number) => `${Math.round(weight * 100)}%`;
+
+export const FACTOR_LABELS: Record<FactorKey, string> = {
+  paymentHistory: 'Payment History',
+  creditUtilization: 'Credit Utilization',
+  creditLength: 'Credit Length',
+  creditMix: 'Credit Mix',
+  newCredit: 'New Credit',
+};
@@ -0,0 +1,166 @@
+import type { CreditAccount, FactorKey, Transaction } from '../../types/credit';
+import { balanceEffect, isRevolving } from './accounts';
+import { scoreTransactions, type ScoringOptions } from './engine';
+import { toDateString } from './factors';
+import type { ScoreResult, ScoringInput } from './types';
+
+export type WhatIfAction =
+  | { kind: 'payDown'; amount: number }
+  | { kind: 'recurringPayment'; amount: number; description: string; category: string; months: number }
+  | { kind: 'newCreditLine'; limit: number }
+  | { kind: 'purchase'; amount: number; description: string };
+
+export interface WhatIfResult {
+  baseline: ScoreResult;
+  projected: ScoreResult;
+  scoreDelta: number;
+  factorDeltas: Record<FactorKey, number>;
+  // Hypothetical rows appended to the copied ledger
+  addedTransactions: Transaction[];
+  addedAccounts: CreditAccount[];
+  // Actions the ledger gave nothing to act on, by their index in the scenario
+  unapplied: WhatIfSkip[];
+}
+
+export interface WhatIfSkip {
+  index: number;
+  reason: string;
+}
+
+interface ExpandedAction {
+  transactions: Omit<Transaction, 'id'>[];
+  accounts: CreditAccount[];
+  unapplied?: string;
+}
+
+const addMonths = (date: string, months: number) => {
+  const next = new Date(date);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  return toDateString(next);
+};
+
+// Pay-downs go against the most utilized revolving line, if there is one
+const payDownTarget = (accounts: CreditAccount[]) =>
+  accounts
+    .filter(a => isRevolving(a) && !a.closedAt && a.balance > 0)
+    .sort((a, b) => b.balance / b.limit - a.balance / a.limit)[0];
+
+const expandAction = (
+  action: WhatIfAction,
+  asOf: string,
+  accounts: CreditAccount[],
+  index: number
+): ExpandedAction => {
+  switch (action.kind) {
+    case 'payDown': {
+      const target = payDownTarget(accounts);
+      if (!target) {
+        return { transactions: [], accounts: [], unapplied: 'No revolving balance to pay down' };
+      }
+      return {
+        transactions: [{
+          date: asOf,
+          amount: action.amount,
+          type: 'payment',
+          description: 'Balance pay-down',
+          category: 'Finance',
+          accountId: target.id,
+        }],
+        accounts: [],
+      };
+    }
+    case 'recurringPayment': {
+      // The payments fill the months up to `asOf`, so the projection is scored on the same date as the baseline
+      const months = Math.max(1, action.months);
+      return {
+        transactions: Array.from({ length: months }, (_, month) => ({
+          date: addMonths(asOf, month - (months - 1)),
+          amount: action.amount,
+          type: 'payment' as const,
+          description: action.description,
+          category: action.category,
+        })),
+        accounts: [],
+      };
+    }
+    case 'newCreditLine':
+      return {
+        transactions: [],
+        accounts: [{
+          id: `whatif-account-${index}`,
+          name: 'New credit line',
+          kind: 'card',
+          openedAt: asOf,
+          limit: action.limit,
+          balance: 0,
+        }],
+      };
+    case 'purchase':
+      return {
+        transactions: [{ date: asOf, amount: action.amount, type: 'purchase', description: action.description, category: 'Shopping' }],
+        accounts: [],
+      };
+  }
+};
+
+// Applies hypothetical actions to copies of the ledger and accounts; the inputs are never mutated
+export const applyWhatIfActions = (
+  transactions: Transaction[],
+  accounts: CreditAccount[],
+  actions: WhatIfAction[],
+  asOf: string
+) => {
+  let nextAccounts = accounts.map(a => ({ ...a }));
+  const added: Transaction[] = [];
+  const addedAccounts: CreditAccount[] = [];
+  const unapplied: WhatIfSkip[] = [];
+
+  actions.forEach((action, index) => {
+    const expanded = expandAction(action, asOf, nextAccounts, index);
+    if (expanded.unapplied) unapplied.push({ index, reason: expanded.unapplied });
+    expanded.transactions.forEach((transaction, row) => {
+      const copy = { ...transaction, id: `whatif-${index}-${row}` };
+      added.push(copy);
+      // Linked rows move the copied balance, keeping it consistent with the ledger
+      if (copy.accountId) {
+        nextAccounts = nextAccounts.map(a =>
+          a.id === copy.accountId ? { ...a, balance: Math.max(0, a.balance + balanceEffect(copy)) } : a
+        );
+      }
+    });
+    addedAccounts.push(...expanded.accounts);
+    nextAccounts = [...nextAccounts, ...expanded.accounts];
+  });
+
+  return { transactions: [...added, ...transactions], accounts: nextAccounts, added, addedAccounts, unapplied };
+};
+
+// Scores the baseline and the scenario at the same date, so the deltas come from the actions alone
+export const simulateWhatIf = (
+  input: ScoringInput,
+  actions: WhatIfAction[],
+  options: ScoringOptions = {}
+): WhatIfResult => {
+  const baseline = scoreTransactions(input, options);
+  const { transactions, accounts, added, addedAccounts, unapplied } = applyWhatIfActions(
+    input.transactions,
+    input.accounts ?? [],
+    actions,
+    baseline.asOf
+  );
+  const projected = scoreTransactions({ ...input, transactions, accounts, asOf: baseline.asOf }, options);
+
+  const factorDeltas = Object.fromEntries(
+    (Object.keys(projected.factors) as FactorKey[]).map(key => [key, projected.factors[key] - baseline.factors[key]])
+  ) as Record<FactorKey, number>;
+
+  return {
+    baseline,
+    projected,
+    scoreDelta: projected.score - baseline.score,
+    factorDeltas,
+    addedTransactions: added,
+    addedAccounts,
+    unapplied,
+  };
+};
@@ -0,0 +1,46 @@
+import type { CreditAccount, CreditTier, ScoreFactors, Transaction } from '../../types/credit';
+import type { RecurringSeries } from '../recurring';
+
+export interface AccountMetadata {
+  // Date the borrower's first credit relationship was opened, if known
+  openedAt?: string;
+}
+
+export interface ScoringInput {
+  transactions: Transaction[];
+  // Credit lines behind the ledger; factors fall back to ledger heuristics without them
+  accounts?: CreditAccount[];
+  account?: AccountMetadata;
+  // Point in time to score at; defaults to the latest transaction date
+  asOf?: string;
+  // Seed for models with stochastic parts
+  seed?: number;
+}
+
+export interface ScoringContext {
+  transactions: Transaction[];
+  // Only accounts already opened at `asOf`
+  accounts: CreditAccount[];
+  account: AccountMetadata;
+  asOf: Date;
+  random: () => number;
+  // Recurring series of the ledger as of `asOf`; detected from `transactions` when missing
+  recurring?: RecurringSeries[];
+}
+
+export interface ScoringModel {
+  id: string;
+  name: string;
+  description: string;
+  computeFactors: (context: ScoringContext) => ScoreFactors;
+}
+
+export interface ScoreResult {
+  score: number;
+  tier: CreditTier;
+  factors: ScoreFactors;
+  modelId: string;
+  // `<scorecard id>@<version>` that produced this score
+  scorecardVersion: string;
+  asOf: string;
+}
@@ -0,0 +1,81 @@
+import { keccak256, toHex, zeroHash, type Abi, type Address, type Hex } from 'viem';
+import { revertWith } from './revert';
+import type { CallContext } from './types';
+
+export const DEFAULT_ADMIN_ROLE: Hex = zeroHash;
+
+export const roleId = (name: string) => keccak256(toHex(name));
+
+// OpenZeppelin AccessControl storage: role -> members, and each role's admin role
+export interface AccessControlState {
+  roles: Map<Hex, Set<string>>;
+  roleAdmins: Map<Hex, Hex>;
+}
+
+// ERC-165 ids of IAccessControl and IERC165
+const SUPPORTED_INTERFACES = new Set(['0x7965db0b', '0x01ffc9a7']);
+
+const ACCESS_CONTROL_ERRORS = [
+  {
+    type: 'error',
+    name: 'AccessControlUnauthorizedAccount',
+    inputs: [{ name: 'account', type: 'address' }, { name: 'neededRole', type: 'bytes32' }],
+  },
+  { type: 'error', name: 'AccessControlBadConfirmation', inputs: [] },
+] as const satisfies Abi;
+
+export const createAccessControlState = (): AccessControlState => ({ roles: new Map(), roleAdmins: new Map() });
+
+export const hasRole = (state: AccessControlState, role: Hex, account: Address) =>
+  state.roles.get(role)?.has(account.toLowerCase()) ?? false;
+
+export const getRoleAdmin = (state: AccessControlState, role: Hex) => state.roleAdmins.get(role) ?? DEFAULT_ADMIN_ROLE;
+
+export const grantRole = <TAbi extends Abi>(ctx: CallContext<TAbi, AccessControlState>, role: Hex, account: Address) => {
+  if (hasRole(ctx.state, role, account)) return;
+  const members = ctx.state.roles.get(role) ?? new Set<string>();
+  members.add(account.toLowerCase());
+  ctx.state.roles.set(role, members);
+  (ctx.emit as AccessControlEmit)('RoleGranted', { role, account, sender: ctx.sender });
+};
+
+export const revokeRole = <TAbi extends Abi>(ctx: CallContext<TAbi, AccessControlState>, role: Hex, account: Address) => {
+  if (!hasRole(ctx.state, role, account)) return;
+  ctx.state.roles.get(role)?.delete(account.toLowerCase());
+  (ctx.emit as AccessControlEmit)('RoleRevoked', { role, account, sender: ctx.sender });
+};
+
+// `onlyRole(role)` modifier
+export const onlyRole = <TAbi extends Abi>(ctx: CallContext<TAbi, AccessControlState>, role: Hex) => {
+  if (!hasRole(ctx.state, role, ctx.sender)) {
+    revertWith(ACCESS_CONTROL_ERRORS, 'AccessControlUnauthorizedAccount', [ctx.sender, role]);
+  }
+};
+
+// Every contract here emits the same three AccessControl events
+type AccessControlEmit = (eventName: 'RoleGranted' | 'RoleRevoked', args: Record<string, unknown>) => void;
+
+// Bodies of the AccessControl functions every contract inherits
+export const accessControlFunctions = <TAbi extends Abi, TState extends AccessControlState>() => {
+  type Ctx = CallContext<TAbi, TState>;
+  return {
+    DEFAULT_ADMIN_ROLE: () => DEFAULT_ADMIN_ROLE,
+    hasRole: (ctx: Ctx, [role, account]: readonly [Hex, Address]) => hasRole(ctx.state, role, account),
+    getRoleAdmin: (ctx: Ctx, [role]: readonly [Hex]) => getRoleAdmin(ctx.state, role),
+    grantRole: (ctx: Ctx, [role, account]: readonly [Hex, Address]) => {
+      onlyRole(ctx, getRoleAdmin(ctx.state, role));
+      grantRole(ctx, role, account);
+    },
+    revokeRole: (ctx: Ctx, [role, account]: readonly [Hex, Address]) => {
+      onlyRole(ctx, getRoleAdmin(ctx.state, role));
+      revokeRole(ctx, role, account);
+    },
+    renounceRole: (ctx: Ctx, [role, callerConfirmation]: readonly [Hex, Address]) => {
+      if (callerConfirmation.toLowerCase() !== ctx.sender.toLowerCase()) {
+        revertWith(ACCESS_CONTROL_ERRORS, 'AccessControlBadConfirmation', []);
+      }
+      revokeRole(ctx, role, callerConfirmation);
+    },
+    supportsInterface: (_ctx: Ctx, [interfaceId]: readonly [Hex]) => SUPPORTED_INTERFACES.has(interfaceId.toLowerCase()),
+  };
+};
@@ -0,0 +1,493 @@
+import {
+  concat,
+  decodeFunctionData,
+  decodeFunctionResult,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionData,
+  encodeFunctionResult,
+  getContractAddress,
+  keccak256,
+  numberToHex,
+  parseGwei,
+  toHex,
+  zeroHash,
+  type Abi,
+  type AbiEvent,
+  type AbiFunction,
+  type Address,
+  type Hash,
+  type Hex,
+} from 'viem';
+import { RevertError } from './revert';
+import type {
+  BlockContext,
+  CallContext,
+  ContractDefinition,
+  SimulatedBlock,
+  SimulatedLog,
+  SimulatedReceipt,
+  SimulatedTransaction,
+} from './types';
+
+// Gas is not metered: every transaction costs a flat amount, so fees are predictable
+export const BASE_FEE_PER_GAS = parseGwei('1');
+export const DEFAULT_PRIORITY_FEE = parseGwei('1');
+const TRANSFER_GAS = 21_000n;
+const CONTRACT_CALL_GAS = 80_000n;
+const CALLDATA_BYTE_GAS = 16n;
+const BLOCK_GAS_LIMIT = 30_000_000n;
+
+export interface SimulatedChainOptions {
+  chainId?: number;
+  // Funded externally owned accounts; the first one is the default sender
+  accounts: Address[];
+  balance?: bigint;
+  // Timestamp of the genesis block, in seconds
+  startTime?: bigint;
+  // Seconds between automined blocks
+  blockTime?: bigint;
+}
+
+export interface TransactionRequest {
+  from: Address;
+  to?: Address | null;
+  data?: Hex;
+  value?: bigint;
+  nonce?: number;
+  gas?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+export interface LogFilter {
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  blockHash?: Hash;
+  address?: Address | Address[];
+  topics?: (Hex | Hex[] | null)[];
+}
+
+// Thrown for transactions a node rejects before mining them (as opposed to reverts)
+export class TransactionRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionRejectedError';
+  }
+}
+
+type Handler = (ctx: CallContext<Abi, unknown>, args: readonly unknown[]) => unknown;
+
+interface WorldState {
+  balances: Map<string, bigint>;
+  nonces: Map<string, number>;
+  // Contract storage and the name of the deployed definition, by lowercased address
+  storage: Map<string, unknown>;
+  code: Map<string, string>;
+}
+
+interface ChainData {
+  world: WorldState;
+  blocks: SimulatedBlock[];
+  transactions: Map<string, SimulatedTransaction>;
+  receipts: Map<string, SimulatedReceipt>;
+  // Seconds added by `increaseTime` and not yet consumed by a mined block
+  pendingTimeIncrease: bigint;
+}
+
+interface Frame {
+  from: Address;
+  to: Address;
+  data: Hex;
+  value: bigint;
+}
+
+type PendingLog = Pick<SimulatedLog, 'address' | 'topics' | 'data'>;
+
+const key = (address: Address) => address.toLowerCase();
+
+const emptyRevert = (reason: string) => new RevertError(reason, '0x');
+
+export const createSimulatedChain = ({
+  chainId = 31337,
+  accounts,
+  balance = 10_000n * 10n ** 18n,
+  startTime = 1_700_000_000n,
+  blockTime = 12n,
+}: SimulatedChainOptions) => {
+  // Definitions by contract name; which address runs which lives in the (snapshotted) world
+  const definitions = new Map<string, ContractDefinition<Abi, unknown>>();
+
+  const genesis: SimulatedBlock = {
+    number: 0n,
+    hash: keccak256(toHex(`genesis:${chainId}`)),
+    parentHash: zeroHash,
+    timestamp: startTime,
+    baseFeePerGas: BASE_FEE_PER_GAS,
+    gasUsed: 0n,
+    transactions: [],
+  };
+
+  let data: ChainData = {
+    world: {
+      balances: new Map(accounts.map(account => [key(account), balance])),
+      nonces: new Map(),
+      storage: new Map(),
+      code: new Map(),
+    },
+    blocks: [genesis],
+    transactions: new Map(),
+    receipts: new Map(),
+    pendingTimeIncrease: 0n,
+  };
+  const snapshots = new Map<number, ChainData>();
+  let nextSnapshotId = 1;
+
+  const latestBlock = () => data.blocks[data.blocks.length - 1];
+  const nextBlockContext = (): BlockContext => ({
+    number: latestBlock().number + 1n,
+    timestamp: latestBlock().timestamp + blockTime + data.pendingTimeIncrease,
+  });
+
+  const balanceOf = (world: WorldState, account: Address) => world.balances.get(key(account)) ?? 0n;
+  const nonceOf = (world: WorldState, account: Address) => world.nonces.get(key(account)) ?? 0;
+  const definitionAt = (world: WorldState, address: Address) => {
+    const name = world.code.get(key(address));
+    return name === undefined ? undefined : definitions.get(name);
+  };
+
+  const transfer = (world: WorldState, from: Address, to: Address, amount: bigint) => {
+    if (amount === 0n) return;
+    const available = balanceOf(world, from);
+    if (available < amount) throw emptyRevert('Insufficient balance for transfer');
+    world.balances.set(key(from), available - amount);
+    world.balances.set(key(to), balanceOf(world, to) + amount);
+  };
+
+  const encodeLog = (abi: Abi, address: Address, eventName: string, args: Record<string, unknown>): PendingLog => {
+    const event = abi.find((item): item is AbiEvent => item.type === 'event' && item.name === eventName);
+    if (!event) throw new Error(`Unknown event ${eventName}`);
+    const nonIndexed = event.inputs.filter(input => !input.indexed);
+    return {
+      address,
+      topics: encodeEventTopics({ abi: [event], eventName, args } as Parameters<typeof encodeEventTopics>[0]) as Hex[],
+      data: encodeAbiParameters(nonIndexed, nonIndexed.map(input => args[input.name ?? ''])),
+    };
+  };
+
+  // Runs one message call against `world`, mutating it in place; throws RevertError on revert
+  const execute = (world: WorldState, frame: Frame, block: BlockContext, logs: PendingLog[]): Hex => {
+    transfer(world, frame.from, frame.to, frame.value);
+
+    const definition = definitionAt(world, frame.to);
+    if (!definition) return '0x';
+    // None of the contracts has a receive() or fallback()
+    if (frame.data === '0x') throw emptyRevert('Contract cannot receive plain transfers');
+
+    let decoded: { functionName: string; args?: readonly unknown[] };
+    try {
+      decoded = decodeFunctionData({ abi: definition.abi, data: frame.data });
+    } catch {
+      throw emptyRevert('Function selector not recognized');
+    }
+    const { functionName, args = [] } = decoded;
+    const abiFunction = definition.abi.find(
+      (item): item is AbiFunction => item.type === 'function' && item.name === functionName,
+    );
+    if (frame.value > 0n && abiFunction?.stateMutability !== 'payable') {
+      throw emptyRevert(`${functionName} is not payable`);
+    }
+
+    const ctx: CallContext<Abi, unknown> = {
+      state: world.storage.get(key(frame.to)),
+      sender: frame.from,
+      self: frame.to,
+      value: frame.value,
+      block,
+      emit: (eventName, eventArgs) => {
+        logs.push(encodeLog(definition.abi, frame.to, eventName, eventArgs as Record<string, unknown>));
+      },
+      call: (target, abi, targetFunction, callArgs, value = 0n) => {
+        const callData = encodeFunctionData({ abi, functionName: targetFunction, args: callArgs } as Parameters<typeof encodeFunctionData>[0]);
+        // A failed sub-call only undoes its own effects, so the caller can catch it (try/catch).
+        // The caller's storage is kept as is; none of the contracts re-enter their callers.
+        const saved = structuredClone(world);
+        const logCount = logs.length;
+        try {
+          const result = execute(world, { from: frame.to, to: target, data: callData, value }, block, logs);
+          return decodeFunctionResult({ abi, functionName: targetFunction, data: result } as Parameters<typeof decodeFunctionResult>[0]) as never;
+        } catch (err) {
+          world.balances = saved.balances;
+          world.nonces = saved.nonces;
+          saved.storage.forEach((state, address) => {
+            if (address !== key(frame.to)) world.storage.set(address, state);
+          });
+          logs.length = logCount;
+          throw err;
+        }
+      },
+      sendEther: (to, amount) => transfer(world, frame.to, to, amount),
+      balanceOf: (account) => balanceOf(world, account),
+    };
+
+    const handler = (definition.functions as unknown as Record<string, Handler>)[functionName];
+    const result = handler(ctx, args);
+    return encodeFunctionResult({
+      abi: definition.abi,
+      functionName,
+      result,
+    } as Parameters<typeof encodeFunctionResult>[0]);
+  };
+
+  const estimateGas = ({ to, data: input = '0x' }: Pick<TransactionRequest, 'to' | 'data'>) => {
+    const calldataGas = BigInt(Math.max(0, (input.length - 2) / 2)) * CALLDATA_BYTE_GAS;
+    const isContract = !to || data.world.code.has(key(to));
+    return TRANSFER_GAS + calldataGas + (isContract ? CONTRACT_CALL_GAS : 0n);
+  };
+
+  // Seals a block holding one transaction (or none) and returns it
+  const sealBlock = (block: BlockContext, txHash: Hash | null, gasUsed: bigint): SimulatedBlock => {
+    const parent = latestBlock();
+    const sealed: SimulatedBlock = {
+      number: block.number,
+      hash: keccak256(concat([parent.hash, numberToHex(block.number, { size: 32 }), txHash ?? zeroHash])),
+      parentHash: parent.hash,
+      timestamp: block.timestamp,
+      baseFeePerGas: BASE_FEE_PER_GAS,
+      gasUsed,
+      transactions: txHash ? [txHash] : [],
+    };
+    data.blocks.push(sealed);
+    data.pendingTimeIncrease = 0n;
+    return sealed;
+  };
+
+  type Execution = (world: WorldState, block: BlockContext, logs: PendingLog[]) => Address | null;
+
+  // Every transaction is mined at once into its own block (automine)
+  const mineTransaction = (request: TransactionRequest, run: Execution): Hash => {
+    const { from, value = 0n } = request;
+    const nonce = nonceOf(data.world, from);
+    if (request.nonce !== undefined && request.nonce !== nonce) {
+      throw new TransactionRejectedError(
+        request.nonce < nonce ? `nonce too low: next nonce ${nonce}, tx nonce ${request.nonce}` : `nonce too high: next nonce ${nonce}, tx nonce ${request.nonce}`,
+      );
+    }
+
+    const gas = request.gas ?? estimateGas(request);
+    const maxPriorityFeePerGas = request.maxPriorityFeePerGas ?? DEFAULT_PRIORITY_FEE;
+    const maxFeePerGas = request.maxFeePerGas ?? BASE_FEE_PER_GAS + maxPriorityFeePerGas;
+    if (maxFeePerGas < BASE_FEE_PER_GAS) {
+      throw new TransactionRejectedError(`max fee per gas less than block base fee: maxFeePerGas ${maxFeePerGas}, baseFee ${BASE_FEE_PER_GAS}`);
+    }
+    if (balanceOf(data.world, from) < gas * maxFeePerGas + value) {
+      throw new TransactionRejectedError('insufficient funds for gas * price + value');
+    }
+
+    const gasUsed = estimateGas(request) < gas ? estimateGas(request) : gas;
+    const effectiveGasPrice = BASE_FEE_PER_GAS + maxPriorityFeePerGas < maxFeePerGas
+      ? BASE_FEE_PER_GAS + maxPriorityFeePerGas
+      : maxFeePerGas;
+    // Stands in for the signed transaction's hash: a different transaction at the same nonce,
+    // e.g. after evm_revert, gets a different hash and so lands in a different block
+    const hash = keccak256(concat([
+      numberToHex(chainId, { size: 32 }),
+      from,
+      numberToHex(nonce, { size: 32 }),
+      request.to ?? '0x',
+      request.data ?? '0x',
+      numberToHex(value, { size: 32 }),
+      numberToHex(maxFeePerGas, { size: 32 }),
+      numberToHex(maxPriorityFeePerGas, { size: 32 }),
+    ]));
+    const block = nextBlockContext();
+
+    // The fee and nonce are spent even when the call reverts
+    data.world.balances.set(key(from), balanceOf(data.world, from) - gasUsed * effectiveGasPrice);
+    data.world.nonces.set(key(from), nonce + 1);
+
+    const working = structuredClone(data.world);
+    const logs: PendingLog[] = [];
+    let contractAddress: Address | null = null;
+    let revertData: Hex | undefined;
+    try {
+      contractAddress = run(working, block, logs);
+      data.world = working;
+    } catch (err) {
+      if (!(err instanceof RevertError)) throw err;
+      revertData = err.data;
+      logs.length = 0;
+    }
+
+    const sealed = sealBlock(block, hash, gasUsed);
+    data.transactions.set(hash, {
+      hash,
+      from,
+      to: request.to ?? null,
+      input: request.data ?? '0x',
+      value,
+      nonce,
+      gas,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      blockNumber: sealed.number,
+      blockHash: sealed.hash,
+    });
+    data.receipts.set(hash, {
+      transactionHash: hash,
+      blockNumber: sealed.number,
+      blockHash: sealed.hash,
+      from,
+      to: request.to ?? null,
+      contractAddress,
+      status: revertData === undefined ? 'success' : 'reverted',
+      gasUsed,
+      effectiveGasPrice,
+      logs: logs.map((log, logIndex) => ({
+        ...log,
+        blockNumber: sealed.number,
+        blockHash: sealed.hash,
+        transactionHash: hash,
+        transactionIndex: 0,
+        logIndex,
+        removed: false,
+      })),
+      revertData,
+    });
+    return hash;
+  };
+
+  const matchesTopics = (log: SimulatedLog, topics: LogFilter['topics'] = []) =>
+    topics.every((expected, i) => {
+      if (expected === null || expected === undefined) return true;
+      const options = Array.isArray(expected) ? expected : [expected];
+      return options.some(topic => topic.toLowerCase() === log.topics[i]?.toLowerCase());
+    });
+
+  return {
+    chainId,
+    accounts,
+
+    // Deploys `definition` from `from` at the address a CREATE from that account's nonce gives;
+    // `init` is the constructor body
+    deploy: <TAbi extends Abi, TState>(
+      definition: ContractDefinition<TAbi, TState>,
+      { from, state, init }: { from: Address; state: TState; init?: (ctx: CallContext<TAbi, TState>) => void },
+    ): Address => {
+      const address = getContractAddress({ from, nonce: BigInt(nonceOf(data.world, from)) });
+      const txHash = mineTransaction({ from, to: null }, (world, block, logs) => {
+        definitions.set(definition.name, definition as unknown as ContractDefinition<Abi, unknown>);
+        world.code.set(key(address), definition.name);
+        world.storage.set(key(address), state);
+        init?.({
+          state,
+          sender: from,
+          self: address,
+          value: 0n,
+          block,
+          emit: (eventName, args) => {
+            logs.push(encodeLog(definition.abi, address, eventName, args as Record<string, unknown>));
+          },
+          call: () => {
+            throw new Error('Constructors cannot call other contracts in the simulator');
+          },
+          sendEther: () => {
+            throw new Error('Constructors cannot send ether in the simulator');
+          },
+          balanceOf: (account) => balanceOf(world, account),
+        });
+        return address;
+      });
+      if (data.receipts.get(txHash)?.status !== 'success') throw new Error(`Deploying ${definition.name} reverted`);
+      return address;
+    },
+
+    // eth_call: runs against a copy of the latest state and discards the changes
+    call: ({ from, to, data: input = '0x', value = 0n }: TransactionRequest): Hex => {
+      if (!to) throw new TransactionRejectedError('Contract creation calls are not supported');
+      return execute(structuredClone(data.world), { from, to, data: input, value }, nextBlockContext(), []);
+    },
+
+    estimateGas: (request: TransactionRequest) => {
+      // Like a node, estimation fails when the sender cannot pay the value or the call would revert
+      if (balanceOf(data.world, request.from) < (request.value ?? 0n)) {
+        throw new TransactionRejectedError('insufficient funds for gas * price + value');
+      }
+      if (request.to) {
+        execute(
+          structuredClone(data.world),
+          { from: request.from, to: request.to, data: request.data ?? '0x', value: request.value ?? 0n },
+          nextBlockContext(),
+          [],
+        );
+      }
+      return estimateGas(request);
+    },
+
+    sendTransaction: (request: TransactionRequest): Hash => {
+      const { to } = request;
+      if (!to) throw new TransactionRejectedError('Contract creation is not supported; use deploy()');
+      return mineTransaction(request, (world, block, logs) => {
+        execute(world, { from: request.from, to, data: request.data ?? '0x', value: request.value ?? 0n }, block, logs);
+        return null;
+      });
+    },
+
+    getBalance: (account: Address) => balanceOf(data.world, account),
+    getTransactionCount: (account: Address) => nonceOf(data.world, account),
+    setBalance: (account: Address, amount: bigint) => {
+      data.world.balances.set(key(account), amount);
+    },
+    // Contracts have no bytecode here; a marker stands in so `getCode` checks pass
+    getCode: (address: Address): Hex => {
+      const name = data.world.code.get(key(address));
+      return name === undefined ? '0x' : toHex(`simulated:${name}`);
+    },
+
+    getBlockNumber: () => latestBlock().number,
+    getBlock: (number: bigint | 'latest' = 'latest') =>
+      number === 'latest' ? latestBlock() : data.blocks[Number(number)] ?? null,
+    getBlockByHash: (hash: Hash) => data.blocks.find(block => block.hash === hash) ?? null,
+    getTransaction: (hash: Hash) => data.transactions.get(hash) ?? null,
+    getTransactionReceipt: (hash: Hash) => data.receipts.get(hash) ?? null,
+
+    getLogs: ({ fromBlock = 0n, toBlock, blockHash, address, topics }: LogFilter): SimulatedLog[] => {
+      const addresses = address === undefined ? null : (Array.isArray(address) ? address : [address]).map(key);
+      const last = toBlock ?? latestBlock().number;
+      return [...data.receipts.values()]
+        .filter(receipt => (blockHash
+          ? receipt.blockHash === blockHash
+          : receipt.blockNumber >= fromBlock && receipt.blockNumber <= last))
+        .sort((a, b) => Number(a.blockNumber - b.blockNumber))
+        .flatMap(receipt => receipt.logs)
+        .filter(log => (!addresses || addresses.includes(key(log.address))) && matchesTopics(log, topics));
+    },
+
+    gasLimit: BLOCK_GAS_LIMIT,
+
+    // Dev-node controls (evm_increaseTime, evm_mine, evm_snapshot, evm_revert)
+    increaseTime: (seconds: bigint) => {
+      data.pendingTimeIncrease += seconds;
+      return data.pendingTimeIncrease;
+    },
+    mine: (blocks = 1) => {
+      for (let i = 0; i < blocks; i++) sealBlock(nextBlockContext(), null, 0n);
+      return latestBlock();
+    },
+    snapshot: () => {
+      const id = nextSnapshotId++;
+      snapshots.set(id, structuredClone(data));
+      return id;
+    },
+    // Restoring a snapshot consumes it and every later one
+    revert: (id: number) => {
+      const saved = snapshots.get(id);
+      if (!saved) return false;
+      data = structuredClone(saved);
+      [...snapshots.keys()].filter(snapshotId => snapshotId >= id).forEach(snapshotId => snapshots.delete(snapshotId));
+      return true;
+    },
+  };
+};
+
+export type SimulatedChain = ReturnType<typeof createSimulatedChain>;
@@ -0,0 +1,262 @@
+import { zeroAddress, zeroHash, type Address, type Hex } from 'viem';
+import { creditScoreRegistryAbi } from '../../contracts';
+import {
+  DEFAULT_ADMIN_ROLE,
+  accessControlFunctions,
+  createAccessControlState,
+  grantRole,
+  hasRole,
+  onlyRole,
+  roleId,
+  type AccessControlState,
+} from '../accessControl';
+import { ensure, revertWith } from '../revert';
+import type { CallContext, ContractDefinition } from '../types';
+
+type RegistryAbi = typeof creditScoreRegistryAbi;
+
+export const ORACLE_ROLE = roleId('ORACLE_ROLE');
+export const LENDER_ROLE = roleId('LENDER_ROLE');
+
+interface CreditScore {
+  score: bigint;
+  lastUpdated: bigint;
+  version: bigint;
+  isActive: boolean;
+  updatedBy: Address;
+}
+
+interface ScoreFactors {
+  paymentHistory: number;
+  creditUtilization: number;
+  creditLength: number;
+  creditMix: number;
+  newCredit: number;
+}
+
+interface DataConsent {
+  dataHash: Hex;
+  timestamp: bigint;
+  isActive: boolean;
+  expiryTime: bigint;
+  authorizedLenders: Address[];
+}
+
+export interface CreditScoreRegistryState extends AccessControlState {
+  paused: boolean;
+  scores: Map<string, CreditScore>;
+  scoreFactors: Map<string, ScoreFactors>;
+  consents: Map<string, DataConsent>;
+  // Keyed `${user}:${lender}`
+  lenderAccess: Map<string, boolean>;
+  userNonces: Map<string, bigint>;
+}
+
+type Ctx = CallContext<RegistryAbi, CreditScoreRegistryState>;
+
+const key = (address: Address) => address.toLowerCase();
+const pairKey = (user: Address, lender: Address) => `${key(user)}:${key(lender)}`;
+
+// Solidity mappings return zeroed structs for unset keys
+const scoreOf = (state: CreditScoreRegistryState, user: Address): CreditScore =>
+  state.scores.get(key(user)) ?? { score: 0n, lastUpdated: 0n, version: 0n, isActive: false, updatedBy: zeroAddress };
+
+const factorsOf = (state: CreditScoreRegistryState, user: Address): ScoreFactors =>
+  state.scoreFactors.get(key(user))
+    ?? { paymentHistory: 0, creditUtilization: 0, creditLength: 0, creditMix: 0, newCredit: 0 };
+
+const consentOf = (state: CreditScoreRegistryState, user: Address): DataConsent =>
+  state.consents.get(key(user)) ?? { dataHash: zeroHash, timestamp: 0n, isActive: false, expiryTime: 0n, authorizedLenders: [] };
+
+export const createCreditScoreRegistryState = (): CreditScoreRegistryState => ({
+  ...createAccessControlState(),
+  paused: false,
+  scores: new Map(),
+  scoreFactors: new Map(),
+  consents: new Map(),
+  lenderAccess: new Map(),
+  userNonces: new Map(),
+});
+
+// constructor()
+export const initCreditScoreRegistry = (ctx: Ctx) => {
+  grantRole(ctx, DEFAULT_ADMIN_ROLE, ctx.sender);
+  grantRole(ctx, ORACLE_ROLE, ctx.sender);
+};
+
+const whenNotPaused = (ctx: Ctx) => {
+  if (ctx.state.paused) revertWith(creditScoreRegistryAbi, 'EnforcedPause', []);
+};
+
+const canRead = (ctx: Ctx, user: Address) =>
+  key(ctx.sender) === key(user)
+  || hasRole(ctx.state, LENDER_ROLE, ctx.sender)
+  || (ctx.state.lenderAccess.get(pairKey(user, ctx.sender)) ?? false);
+
+const writeScore = (ctx: Ctx, user: Address, score: bigint) => {
+  const current = scoreOf(ctx.state, user);
+  const next: CreditScore = {
+    score,
+    lastUpdated: ctx.block.timestamp,
+    version: current.version + 1n,
+    isActive: true,
+    updatedBy: ctx.sender,
+  };
+  ctx.state.scores.set(key(user), next);
+  ctx.emit('ScoreUpdated', { user, newScore: score, version: next.version, oracle: ctx.sender });
+};
+
+export const creditScoreRegistry: ContractDefinition<RegistryAbi, CreditScoreRegistryState> = {
+  name: 'CreditScoreRegistry',
+  abi: creditScoreRegistryAbi,
+  functions: {
+    ...accessControlFunctions<RegistryAbi, CreditScoreRegistryState>(),
+    ORACLE_ROLE: () => ORACLE_ROLE,
+    LENDER_ROLE: () => LENDER_ROLE,
+    paused: (ctx) => ctx.state.paused,
+
+    scores: (ctx, [user]) => {
+      const s = scoreOf(ctx.state, user);
+      return [s.score, s.lastUpdated, s.version, s.isActive, s.updatedBy];
+    },
+    scoreFactors: (ctx, [user]) => {
+      const f = factorsOf(ctx.state, user);
+      return [f.paymentHistory, f.creditUtilization, f.creditLength, f.creditMix, f.newCredit];
+    },
+    // Public getters leave out the array member
+    consents: (ctx, [user]) => {
+      const c = consentOf(ctx.state, user);
+      return [c.dataHash, c.timestamp, c.isActive, c.expiryTime];
+    },
+    lenderAccess: (ctx, [user, lender]) => ctx.state.lenderAccess.get(pairKey(user, lender)) ?? false,
+    userNonces: (ctx, [user]) => ctx.state.userNonces.get(key(user)) ?? 0n,
+
+    updateScore: (ctx, [user, score]) => {
+      onlyRole(ctx, ORACLE_ROLE);
+      whenNotPaused(ctx);
+      ensure(user !== zeroAddress, 'Invalid user address');
+      ensure(score >= 300n && score <= 850n, 'Score must be between 300-850');
+      writeScore(ctx, user, score);
+    },
+
+    updateScoreFactors: (ctx, [user, paymentHistory, creditUtilization, creditLength, creditMix, newCredit]) => {
+      onlyRole(ctx, ORACLE_ROLE);
+      whenNotPaused(ctx);
+      ensure(user !== zeroAddress, 'Invalid user address');
+      ensure(
+        paymentHistory <= 100 && creditUtilization <= 100 && creditLength <= 100 && creditMix <= 100 && newCredit <= 100,
+        'All factors must be 0-100',
+      );
+      ctx.state.scoreFactors.set(key(user), { paymentHistory, creditUtilization, creditLength, creditMix, newCredit });
+      ctx.emit('ScoreFactorsUpdated', { user, paymentHistory, creditUtilization, creditLength, creditMix, newCredit });
+    },
+
+    getScore: (ctx, [user]) => {
+      ensure(user !== zeroAddress, 'Invalid user address');
+      ensure(canRead(ctx, user), 'Unauthorized access');
+      const score = scoreOf(ctx.state, user);
+      ensure(score.isActive, 'No active score found');
+      return score.score;
+    },
+
+    getScoreDetails: (ctx, [user]) => {
+      ensure(canRead(ctx, user), 'Unauthorized access');
+      const s = scoreOf(ctx.state, user);
+      return [s.score, s.lastUpdated, s.version, s.isActive];
+    },
+
+    getScoreFactors: (ctx, [user]) => {
+      ensure(canRead(ctx, user), 'Unauthorized access');
+      const f = factorsOf(ctx.state, user);
+      return [f.paymentHistory, f.creditUtilization, f.creditLength, f.creditMix, f.newCredit];
+    },
+
+    updateConsent: (ctx, [dataHash, expiryTime]) => {
+      whenNotPaused(ctx);
+      ensure(dataHash !== zeroHash, 'Invalid data hash');
+      ensure(expiryTime > ctx.block.timestamp, 'Expiry must be in future');
+      const consent = consentOf(ctx.state, ctx.sender);
+      ctx.state.consents.set(key(ctx.sender), {
+        ...consent,
+        dataHash,
+        timestamp: ctx.block.timestamp,
+        isActive: true,
+        expiryTime,
+      });
+      ctx.state.userNonces.set(key(ctx.sender), (ctx.state.userNonces.get(key(ctx.sender)) ?? 0n) + 1n);
+      ctx.emit('ConsentUpdated', { user: ctx.sender, dataHash, expiryTime });
+    },
+
+    grantLenderAccess: (ctx, [lender]) => {
+      whenNotPaused(ctx);
+      ensure(lender !== zeroAddress, 'Invalid lender address');
+      ensure(!ctx.state.lenderAccess.get(pairKey(ctx.sender, lender)), 'Access already granted');
+      ctx.state.lenderAccess.set(pairKey(ctx.sender, lender), true);
+      const consent = consentOf(ctx.state, ctx.sender);
+      ctx.state.consents.set(key(ctx.sender), { ...consent, authorizedLenders: [...consent.authorizedLenders, lender] });
+      ctx.emit('LenderAccessGranted', { user: ctx.sender, lender });
+    },
+
+    revokeLenderAccess: (ctx, [lender]) => {
+      whenNotPaused(ctx);
+      ensure(lender !== zeroAddress, 'Invalid lender address');
+      ensure(ctx.state.lenderAccess.get(pairKey(ctx.sender, lender)), 'Access not granted');
+      ctx.state.lenderAccess.set(pairKey(ctx.sender, lender), false);
+      // Swap-and-pop, so the order changes exactly as it does on chain
+      const lenders = [...consentOf(ctx.state, ctx.sender).authorizedLenders];
+      const index = lenders.findIndex(l => key(l) === key(lender));
+      if (index >= 0) {
+        lenders[index] = lenders[lenders.length - 1];
+        lenders.pop();
+      }
+      ctx.state.consents.set(key(ctx.sender), { ...consentOf(ctx.state, ctx.sender), authorizedLenders: lenders });
+      ctx.emit('LenderAccessRevoked', { user: ctx.sender, lender });
+    },
+
+    isConsentValid: (ctx, [user]) => {
+      const consent = consentOf(ctx.state, user);
+      return consent.isActive && consent.expiryTime > ctx.block.timestamp;
+    },
+
+    getAuthorizedLenders: (ctx, [user]) => {
+      ensure(key(ctx.sender) === key(user) || hasRole(ctx.state, DEFAULT_ADMIN_ROLE, ctx.sender), 'Unauthorized access');
+      return consentOf(ctx.state, user).authorizedLenders;
+    },
+
+    batchUpdateScores: (ctx, [users, newScores]) => {
+      onlyRole(ctx, ORACLE_ROLE);
+      whenNotPaused(ctx);
+      ensure(users.length === newScores.length, 'Array length mismatch');
+      ensure(users.length <= 100, 'Batch size too large');
+      users.forEach((user, i) => {
+        ensure(user !== zeroAddress, 'Invalid user address');
+        ensure(newScores[i] >= 300n && newScores[i] <= 850n, 'Invalid score');
+        writeScore(ctx, user, newScores[i]);
+      });
+    },
+
+    pause: (ctx) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      whenNotPaused(ctx);
+      ctx.state.paused = true;
+      ctx.emit('Paused', { account: ctx.sender });
+    },
+
+    unpause: (ctx) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      if (!ctx.state.paused) revertWith(creditScoreRegistryAbi, 'ExpectedPause', []);
+      ctx.state.paused = false;
+      ctx.emit('Unpaused', { account: ctx.sender });
+    },
+
+    grantOracleRole: (ctx, [oracle]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      grantRole(ctx, ORACLE_ROLE, oracle);
+    },
+
+    grantLenderRole: (ctx, [lender]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      grantRole(ctx, LENDER_ROLE, lender);
+    },
+  },
+};
@@ -0,0 +1,291 @@
+import { encodePacked, keccak256, zeroAddress, zeroHash, type Address, type Hex } from 'viem';
+import { dataMarketplaceAbi } from '../../contracts';
+import {
+  DEFAULT_ADMIN_ROLE,
+  accessControlFunctions,
+  createAccessControlState,
+  grantRole,
+  onlyRole,
+  roleId,
+  type AccessControlState,
+} from '../accessControl';
+import { at, ensure } from '../revert';
+import type { CallContext, ContractDefinition } from '../types';
+import { simulatedTokenAbi } from './token';
+
+type MarketplaceAbi = typeof dataMarketplaceAbi;
+
+export const SELLER_ROLE = roleId('SELLER_ROLE');
+export const VERIFIER_ROLE = roleId('VERIFIER_ROLE');
+
+interface DataProduct {
+  productId: bigint;
+  seller: Address;
+  name: string;
+  description: string;
+  price: bigint;
+  dataHash: Hex;
+  isActive: boolean;
+  totalSales: bigint;
+  // Scaled by 100 (450 = 4.50 stars)
+  rating: bigint;
+  reviewCount: bigint;
+  createdAt: bigint;
+  features: string[];
+  category: string;
+}
+
+interface Purchase {
+  purchaseId: bigint;
+  productId: bigint;
+  buyer: Address;
+  seller: Address;
+  price: bigint;
+  timestamp: bigint;
+  isCompleted: boolean;
+  accessKey: Hex;
+}
+
+interface Review {
+  reviewer: Address;
+  productId: bigint;
+  rating: number;
+  comment: string;
+  timestamp: bigint;
+  isVerified: boolean;
+}
+
+export interface DataMarketplaceState extends AccessControlState {
+  products: Map<bigint, DataProduct>;
+  purchases: Map<bigint, Purchase>;
+  productReviews: Map<bigint, Review[]>;
+  userPurchases: Map<string, bigint[]>;
+  sellerProducts: Map<string, bigint[]>;
+  // Keyed `${buyer}:${productId}`
+  hasPurchased: Set<string>;
+  nextProductId: bigint;
+  nextPurchaseId: bigint;
+  // Basis points (250 = 2.5%)
+  platformFeePercent: bigint;
+  feeRecipient: Address;
+  paymentToken: Address;
+}
+
+type Ctx = CallContext<MarketplaceAbi, DataMarketplaceState>;
+
+const key = (address: Address) => address.toLowerCase();
+const purchaseKey = (buyer: Address, productId: bigint) => `${key(buyer)}:${productId}`;
+
+const productOf = (state: DataMarketplaceState, productId: bigint): DataProduct =>
+  state.products.get(productId) ?? {
+    productId: 0n,
+    seller: zeroAddress,
+    name: '',
+    description: '',
+    price: 0n,
+    dataHash: zeroHash,
+    isActive: false,
+    totalSales: 0n,
+    rating: 0n,
+    reviewCount: 0n,
+    createdAt: 0n,
+    features: [],
+    category: '',
+  };
+
+const purchaseOf = (state: DataMarketplaceState, purchaseId: bigint): Purchase =>
+  state.purchases.get(purchaseId) ?? {
+    purchaseId: 0n,
+    productId: 0n,
+    buyer: zeroAddress,
+    seller: zeroAddress,
+    price: 0n,
+    timestamp: 0n,
+    isCompleted: false,
+    accessKey: zeroHash,
+  };
+
+const push = <T>(map: Map<string, T[]>, mapKey: string, value: T) => map.set(mapKey, [...(map.get(mapKey) ?? []), value]);
+
+export const createDataMarketplaceState = (paymentToken: Address, feeRecipient: Address): DataMarketplaceState => ({
+  ...createAccessControlState(),
+  products: new Map(),
+  purchases: new Map(),
+  productReviews: new Map(),
+  userPurchases: new Map(),
+  sellerProducts: new Map(),
+  hasPurchased: new Set(),
+  nextProductId: 1n,
+  nextPurchaseId: 1n,
+  platformFeePercent: 250n,
+  feeRecipient,
+  paymentToken,
+});
+
+// constructor(address _paymentToken, address _feeRecipient)
+export const initDataMarketplace = (ctx: Ctx) => {
+  grantRole(ctx, DEFAULT_ADMIN_ROLE, ctx.sender);
+  grantRole(ctx, VERIFIER_ROLE, ctx.sender);
+};
+
+export const dataMarketplace: ContractDefinition<MarketplaceAbi, DataMarketplaceState> = {
+  name: 'DataMarketplace',
+  abi: dataMarketplaceAbi,
+  functions: {
+    ...accessControlFunctions<MarketplaceAbi, DataMarketplaceState>(),
+    SELLER_ROLE: () => SELLER_ROLE,
+    VERIFIER_ROLE: () => VERIFIER_ROLE,
+    nextProductId: (ctx) => ctx.state.nextProductId,
+    nextPurchaseId: (ctx) => ctx.state.nextPurchaseId,
+    platformFeePercent: (ctx) => ctx.state.platformFeePercent,
+    feeRecipient: (ctx) => ctx.state.feeRecipient,
+    paymentToken: (ctx) => ctx.state.paymentToken,
+
+    products: (ctx, [productId]) => {
+      const p = productOf(ctx.state, productId);
+      return [p.productId, p.seller, p.name, p.description, p.price, p.dataHash, p.isActive,
+        p.totalSales, p.rating, p.reviewCount, p.createdAt, p.category];
+    },
+    purchases: (ctx, [purchaseId]) => {
+      const p = purchaseOf(ctx.state, purchaseId);
+      return [p.purchaseId, p.productId, p.buyer, p.seller, p.price, p.timestamp, p.isCompleted, p.accessKey];
+    },
+    productReviews: (ctx, [productId, index]) => {
+      const r = at(ctx.state.productReviews.get(productId) ?? [], index);
+      return [r.reviewer, r.productId, r.rating, r.comment, r.timestamp, r.isVerified];
+    },
+    userPurchases: (ctx, [user, index]) => at(ctx.state.userPurchases.get(key(user)) ?? [], index),
+    sellerProducts: (ctx, [seller, index]) => at(ctx.state.sellerProducts.get(key(seller)) ?? [], index),
+    hasPurchased: (ctx, [buyer, productId]) => ctx.state.hasPurchased.has(purchaseKey(buyer, productId)),
+
+    listProduct: (ctx, [name, description, price, dataHash, features, category]) => {
+      ensure(name.length > 0, 'Name cannot be empty');
+      ensure(price > 0n, 'Price must be greater than 0');
+      ensure(dataHash !== zeroHash, 'Invalid data hash');
+
+      const productId = ctx.state.nextProductId++;
+      ctx.state.products.set(productId, {
+        productId,
+        seller: ctx.sender,
+        name,
+        description,
+        price,
+        dataHash,
+        isActive: true,
+        totalSales: 0n,
+        rating: 0n,
+        reviewCount: 0n,
+        createdAt: ctx.block.timestamp,
+        features: [...features],
+        category,
+      });
+      push(ctx.state.sellerProducts, key(ctx.sender), productId);
+
+      ctx.emit('ProductListed', { productId, seller: ctx.sender, name, price });
+      return productId;
+    },
+
+    purchaseProduct: (ctx, [productId]) => {
+      const product = productOf(ctx.state, productId);
+      ensure(product.isActive, 'Product not active');
+      ensure(key(product.seller) !== key(ctx.sender), 'Cannot buy own product');
+      ensure(!ctx.state.hasPurchased.has(purchaseKey(ctx.sender, productId)), 'Already purchased');
+
+      const totalPrice = product.price;
+      const platformFee = (totalPrice * ctx.state.platformFeePercent) / 10000n;
+      const sellerAmount = totalPrice - platformFee;
+
+      ctx.call(ctx.state.paymentToken, simulatedTokenAbi, 'transferFrom', [ctx.sender, product.seller, sellerAmount]);
+      ctx.call(ctx.state.paymentToken, simulatedTokenAbi, 'transferFrom', [ctx.sender, ctx.state.feeRecipient, platformFee]);
+
+      const purchaseId = ctx.state.nextPurchaseId++;
+      ctx.state.purchases.set(purchaseId, {
+        purchaseId,
+        productId,
+        buyer: ctx.sender,
+        seller: product.seller,
+        price: totalPrice,
+        timestamp: ctx.block.timestamp,
+        isCompleted: true,
+        accessKey: keccak256(encodePacked(['address', 'uint256', 'uint256'], [ctx.sender, productId, ctx.block.timestamp])),
+      });
+
+      push(ctx.state.userPurchases, key(ctx.sender), purchaseId);
+      ctx.state.hasPurchased.add(purchaseKey(ctx.sender, productId));
+      ctx.state.products.set(productId, { ...product, totalSales: product.totalSales + 1n });
+
+      ctx.emit('ProductPurchased', { purchaseId, productId, buyer: ctx.sender, price: totalPrice });
+      return purchaseId;
+    },
+
+    submitReview: (ctx, [productId, rating, comment]) => {
+      ensure(ctx.state.hasPurchased.has(purchaseKey(ctx.sender, productId)), 'Must purchase to review');
+      ensure(rating >= 1 && rating <= 5, 'Rating must be 1-5');
+      ensure(comment.length > 0, 'Comment cannot be empty');
+
+      const reviews = ctx.state.productReviews.get(productId) ?? [];
+      reviews.forEach(review => ensure(key(review.reviewer) !== key(ctx.sender), 'Already reviewed'));
+      ctx.state.productReviews.set(productId, [...reviews, {
+        reviewer: ctx.sender,
+        productId,
+        rating,
+        comment,
+        timestamp: ctx.block.timestamp,
+        isVerified: true,
+      }]);
+
+      const product = productOf(ctx.state, productId);
+      const totalRating = product.rating * product.reviewCount + BigInt(rating) * 100n;
+      const reviewCount = product.reviewCount + 1n;
+      ctx.state.products.set(productId, { ...product, reviewCount, rating: totalRating / reviewCount });
+
+      ctx.emit('ProductReviewed', { productId, reviewer: ctx.sender, rating, comment });
+    },
+
+    updateProductPrice: (ctx, [productId, newPrice]) => {
+      const product = productOf(ctx.state, productId);
+      ensure(key(product.seller) === key(ctx.sender), 'Only seller can update');
+      ensure(product.isActive, 'Product not active');
+      ensure(newPrice > 0n, 'Price must be greater than 0');
+      ctx.state.products.set(productId, { ...product, price: newPrice });
+      ctx.emit('ProductUpdated', { productId, newPrice });
+    },
+
+    deactivateProduct: (ctx, [productId]) => {
+      const product = productOf(ctx.state, productId);
+      ensure(key(product.seller) === key(ctx.sender), 'Only seller can deactivate');
+      ensure(product.isActive, 'Product already inactive');
+      ctx.state.products.set(productId, { ...product, isActive: false });
+      ctx.emit('ProductDeactivated', { productId });
+    },
+
+    getProduct: (ctx, [productId]) => {
+      const p = productOf(ctx.state, productId);
+      return [p.seller, p.name, p.description, p.price, p.isActive, p.totalSales, p.rating, p.reviewCount, p.category];
+    },
+    getProductFeatures: (ctx, [productId]) => productOf(ctx.state, productId).features,
+    getUserPurchases: (ctx, [user]) => ctx.state.userPurchases.get(key(user)) ?? [],
+    getSellerProducts: (ctx, [seller]) => ctx.state.sellerProducts.get(key(seller)) ?? [],
+    getProductReviews: (ctx, [productId]) => ctx.state.productReviews.get(productId) ?? [],
+    hasUserPurchased: (ctx, [user, productId]) => ctx.state.hasPurchased.has(purchaseKey(user, productId)),
+
+    updatePlatformFee: (ctx, [newFeePercent]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      ensure(newFeePercent <= 1000n, 'Fee cannot exceed 10%');
+      ctx.state.platformFeePercent = newFeePercent;
+    },
+
+    updateFeeRecipient: (ctx, [newRecipient]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      ensure(newRecipient !== zeroAddress, 'Invalid recipient');
+      ctx.state.feeRecipient = newRecipient;
+    },
+
+    // Writes a zeroed struct for unknown ids, as the storage write on chain does
+    emergencyDeactivateProduct: (ctx, [productId]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      ctx.state.products.set(productId, { ...productOf(ctx.state, productId), isActive: false });
+      ctx.emit('ProductDeactivated', { productId });
+    },
+  },
+};
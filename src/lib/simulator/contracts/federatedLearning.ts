@@ -0,0 +1,368 @@
+import { zeroAddress, zeroHash, type Address, type Hex } from 'viem';
+import { federatedLearningCoordinatorAbi } from '../../contracts';
+import {
+  DEFAULT_ADMIN_ROLE,
+  accessControlFunctions,
+  createAccessControlState,
+  grantRole,
+  onlyRole,
+  roleId,
+  type AccessControlState,
+} from '../accessControl';
+import { ensure } from '../revert';
+import type { CallContext, ContractDefinition } from '../types';
+import { simulatedTokenAbi } from './token';
+
+type CoordinatorAbi = typeof federatedLearningCoordinatorAbi;
+
+export const VALIDATOR_ROLE = roleId('VALIDATOR_ROLE');
+export const AGGREGATOR_ROLE = roleId('AGGREGATOR_ROLE');
+
+interface ModelUpdate {
+  updateHash: Hex;
+  node: Address;
+  timestamp: bigint;
+  round: bigint;
+  isValidated: boolean;
+  stake: bigint;
+  gradientHash: Hex;
+}
+
+interface AggregatedModel {
+  modelHash: Hex;
+  round: bigint;
+  timestamp: bigint;
+  aggregator: Address;
+  participantCount: bigint;
+  isActive: boolean;
+  // Scaled by 10000 (9250 = 92.50%)
+  accuracy: bigint;
+}
+
+interface TrainingRound {
+  roundId: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  minParticipants: bigint;
+  maxParticipants: bigint;
+  currentParticipants: bigint;
+  isActive: boolean;
+  rewardPool: bigint;
+  // The struct's `participants` and `updates` mappings, keyed by lowercased node address
+  updates: Map<string, ModelUpdate>;
+}
+
+interface NodeInfo {
+  nodeAddress: Address;
+  reputation: bigint;
+  totalContributions: bigint;
+  successfulRounds: bigint;
+  totalRewards: bigint;
+  isActive: boolean;
+  lastActiveRound: bigint;
+}
+
+export interface FederatedLearningState extends AccessControlState {
+  modelUpdates: Map<string, ModelUpdate>;
+  models: Map<bigint, AggregatedModel>;
+  trainingRounds: Map<bigint, TrainingRound>;
+  nodes: Map<string, NodeInfo>;
+  currentRound: bigint;
+  totalRounds: bigint;
+  minStakeAmount: bigint;
+  rewardPerParticipant: bigint;
+  rewardToken: Address;
+}
+
+type Ctx = CallContext<CoordinatorAbi, FederatedLearningState>;
+
+const key = (address: Address) => address.toLowerCase();
+
+const emptyUpdate = (): ModelUpdate => ({
+  updateHash: zeroHash,
+  node: zeroAddress,
+  timestamp: 0n,
+  round: 0n,
+  isValidated: false,
+  stake: 0n,
+  gradientHash: zeroHash,
+});
+
+const modelOf = (state: FederatedLearningState, round: bigint): AggregatedModel =>
+  state.models.get(round) ?? {
+    modelHash: zeroHash,
+    round: 0n,
+    timestamp: 0n,
+    aggregator: zeroAddress,
+    participantCount: 0n,
+    isActive: false,
+    accuracy: 0n,
+  };
+
+const emptyRound = (): TrainingRound => ({
+  roundId: 0n,
+  startTime: 0n,
+  endTime: 0n,
+  minParticipants: 0n,
+  maxParticipants: 0n,
+  currentParticipants: 0n,
+  isActive: false,
+  rewardPool: 0n,
+  updates: new Map(),
+});
+
+// A `TrainingRound storage` reference: unset ids get a zeroed round that writes go into
+const roundOf = (state: FederatedLearningState, roundId: bigint): TrainingRound => {
+  const round = state.trainingRounds.get(roundId) ?? emptyRound();
+  state.trainingRounds.set(roundId, round);
+  return round;
+};
+
+const nodeOf = (state: FederatedLearningState, node: Address): NodeInfo =>
+  state.nodes.get(key(node)) ?? {
+    nodeAddress: zeroAddress,
+    reputation: 0n,
+    totalContributions: 0n,
+    successfulRounds: 0n,
+    totalRewards: 0n,
+    isActive: false,
+    lastActiveRound: 0n,
+  };
+
+export const createFederatedLearningState = (
+  rewardToken: Address,
+  minStakeAmount: bigint,
+  rewardPerParticipant: bigint,
+): FederatedLearningState => ({
+  ...createAccessControlState(),
+  modelUpdates: new Map(),
+  models: new Map(),
+  trainingRounds: new Map(),
+  nodes: new Map(),
+  currentRound: 1n,
+  totalRounds: 0n,
+  minStakeAmount,
+  rewardPerParticipant,
+  rewardToken,
+});
+
+// constructor(address _rewardToken, uint256 _minStakeAmount, uint256 _rewardPerParticipant)
+export const initFederatedLearning = (ctx: Ctx) => {
+  grantRole(ctx, DEFAULT_ADMIN_ROLE, ctx.sender);
+  grantRole(ctx, AGGREGATOR_ROLE, ctx.sender);
+};
+
+export const federatedLearningCoordinator: ContractDefinition<CoordinatorAbi, FederatedLearningState> = {
+  name: 'FederatedLearningCoordinator',
+  abi: federatedLearningCoordinatorAbi,
+  functions: {
+    ...accessControlFunctions<CoordinatorAbi, FederatedLearningState>(),
+    VALIDATOR_ROLE: () => VALIDATOR_ROLE,
+    AGGREGATOR_ROLE: () => AGGREGATOR_ROLE,
+    currentRound: (ctx) => ctx.state.currentRound,
+    totalRounds: (ctx) => ctx.state.totalRounds,
+    minStakeAmount: (ctx) => ctx.state.minStakeAmount,
+    rewardPerParticipant: (ctx) => ctx.state.rewardPerParticipant,
+    rewardToken: (ctx) => ctx.state.rewardToken,
+
+    modelUpdates: (ctx, [node]) => {
+      const u = ctx.state.modelUpdates.get(key(node)) ?? emptyUpdate();
+      return [u.updateHash, u.node, u.timestamp, u.round, u.isValidated, u.stake, u.gradientHash];
+    },
+    models: (ctx, [round]) => {
+      const m = modelOf(ctx.state, round);
+      return [m.modelHash, m.round, m.timestamp, m.aggregator, m.participantCount, m.isActive, m.accuracy];
+    },
+    trainingRounds: (ctx, [roundId]) => {
+      const r = ctx.state.trainingRounds.get(roundId) ?? emptyRound();
+      return [r.roundId, r.startTime, r.endTime, r.minParticipants, r.maxParticipants,
+        r.currentParticipants, r.isActive, r.rewardPool];
+    },
+    nodes: (ctx, [node]) => {
+      const n = nodeOf(ctx.state, node);
+      return [n.nodeAddress, n.reputation, n.totalContributions, n.successfulRounds, n.totalRewards,
+        n.isActive, n.lastActiveRound];
+    },
+
+    registerNode: (ctx) => {
+      ensure(!nodeOf(ctx.state, ctx.sender).isActive, 'Node already registered');
+      ctx.state.nodes.set(key(ctx.sender), {
+        nodeAddress: ctx.sender,
+        reputation: 100n,
+        totalContributions: 0n,
+        successfulRounds: 0n,
+        totalRewards: 0n,
+        isActive: true,
+        lastActiveRound: 0n,
+      });
+      ctx.emit('NodeRegistered', { node: ctx.sender, initialReputation: 100n });
+    },
+
+    startTrainingRound: (ctx, [duration, minParticipants, maxParticipants, rewardPool]) => {
+      onlyRole(ctx, AGGREGATOR_ROLE);
+      const round = roundOf(ctx.state, ctx.state.currentRound);
+      ensure(!round.isActive, 'Round already active');
+      ensure(duration > 0n, 'Invalid duration');
+      ensure(minParticipants > 0n && maxParticipants >= minParticipants, 'Invalid participant limits');
+
+      Object.assign(round, {
+        roundId: ctx.state.currentRound,
+        startTime: ctx.block.timestamp,
+        endTime: ctx.block.timestamp + duration,
+        minParticipants,
+        maxParticipants,
+        currentParticipants: 0n,
+        isActive: true,
+        rewardPool,
+      });
+
+      if (rewardPool > 0n) {
+        ctx.call(ctx.state.rewardToken, simulatedTokenAbi, 'transferFrom', [ctx.sender, ctx.self, rewardPool]);
+      }
+
+      ctx.emit('TrainingRoundStarted', {
+        round: ctx.state.currentRound,
+        startTime: round.startTime,
+        endTime: round.endTime,
+        rewardPool,
+      });
+    },
+
+    submitModelUpdate: (ctx, [updateHash, gradientHash]) => {
+      const node = nodeOf(ctx.state, ctx.sender);
+      ensure(node.isActive, 'Node not registered');
+      ensure(updateHash !== zeroHash, 'Invalid update hash');
+      ensure(gradientHash !== zeroHash, 'Invalid gradient hash');
+
+      const round = roundOf(ctx.state, ctx.state.currentRound);
+      ensure(round.isActive, 'No active training round');
+      ensure(ctx.block.timestamp <= round.endTime, 'Training round ended');
+      ensure(!round.updates.has(key(ctx.sender)), 'Already participated in this round');
+      ensure(round.currentParticipants < round.maxParticipants, 'Round is full');
+      ensure(ctx.value >= ctx.state.minStakeAmount, 'Insufficient stake');
+
+      round.currentParticipants += 1n;
+      const update: ModelUpdate = {
+        updateHash,
+        node: ctx.sender,
+        timestamp: ctx.block.timestamp,
+        round: ctx.state.currentRound,
+        isValidated: false,
+        stake: ctx.value,
+        gradientHash,
+      };
+      round.updates.set(key(ctx.sender), update);
+      ctx.state.modelUpdates.set(key(ctx.sender), { ...update });
+      ctx.state.nodes.set(key(ctx.sender), {
+        ...node,
+        totalContributions: node.totalContributions + 1n,
+        lastActiveRound: ctx.state.currentRound,
+      });
+
+      ctx.emit('ModelUpdateSubmitted', {
+        node: ctx.sender,
+        updateHash,
+        round: ctx.state.currentRound,
+        stake: ctx.value,
+      });
+    },
+
+    // Only the round's copy of the update is marked, the global `modelUpdates` entry is not
+    validateModelUpdate: (ctx, [nodeAddress, isValid]) => {
+      onlyRole(ctx, VALIDATOR_ROLE);
+      const round = roundOf(ctx.state, ctx.state.currentRound);
+      const update = round.updates.get(key(nodeAddress));
+      ensure(update, 'Node did not participate');
+      ensure(!update.isValidated, 'Already validated');
+
+      const node = nodeOf(ctx.state, nodeAddress);
+      if (isValid) {
+        update.isValidated = true;
+        ctx.state.nodes.set(key(nodeAddress), { ...node, reputation: node.reputation + 10n });
+      } else {
+        ctx.state.nodes.set(key(nodeAddress), {
+          ...node,
+          reputation: node.reputation > 20n ? node.reputation - 20n : 0n,
+        });
+        ctx.emit('NodeSlashed', { node: nodeAddress, amount: update.stake, reason: 'Invalid model update' });
+      }
+    },
+
+    aggregateModel: (ctx, [roundId, modelHash, accuracy]) => {
+      onlyRole(ctx, AGGREGATOR_ROLE);
+      const round = roundOf(ctx.state, roundId);
+      ensure(round.isActive, 'Round not active');
+      ensure(ctx.block.timestamp > round.endTime, 'Round not ended');
+      ensure(round.currentParticipants >= round.minParticipants, 'Insufficient participants');
+      ensure(modelHash !== zeroHash, 'Invalid model hash');
+      ensure(accuracy <= 10000n, 'Invalid accuracy');
+
+      ctx.state.models.set(roundId, {
+        modelHash,
+        round: roundId,
+        timestamp: ctx.block.timestamp,
+        aggregator: ctx.sender,
+        participantCount: round.currentParticipants,
+        isActive: true,
+        accuracy,
+      });
+      if (roundId > 1n) {
+        ctx.state.models.set(roundId - 1n, { ...modelOf(ctx.state, roundId - 1n), isActive: false });
+      }
+      round.isActive = false;
+
+      ctx.emit('ModelAggregated', {
+        round: roundId,
+        modelHash,
+        aggregator: ctx.sender,
+        participantCount: round.currentParticipants,
+      });
+      ctx.emit('TrainingRoundEnded', {
+        round: roundId,
+        participantCount: round.currentParticipants,
+        finalModelHash: modelHash,
+      });
+
+      // _distributeRewards only announces the pool; no tokens move
+      if (round.currentParticipants > 0n && round.rewardPool > 0n) {
+        ctx.emit('RewardsDistributed', { round: roundId, totalRewards: round.rewardPool });
+      }
+
+      ctx.state.currentRound += 1n;
+      ctx.state.totalRounds += 1n;
+    },
+
+    getCurrentModel: (ctx) => {
+      for (let i = ctx.state.totalRounds; i >= 1n; i--) {
+        const model = modelOf(ctx.state, i);
+        if (model.isActive) return [model.modelHash, model.round, model.timestamp, model.accuracy];
+      }
+      ensure(false, 'No active model found');
+    },
+
+    getNodeInfo: (ctx, [nodeAddress]) => {
+      const n = nodeOf(ctx.state, nodeAddress);
+      return [n.reputation, n.totalContributions, n.successfulRounds, n.totalRewards, n.isActive];
+    },
+
+    getTrainingRoundInfo: (ctx, [roundId]) => {
+      const r = ctx.state.trainingRounds.get(roundId) ?? emptyRound();
+      return [r.startTime, r.endTime, r.currentParticipants, r.maxParticipants, r.isActive, r.rewardPool];
+    },
+
+    emergencyWithdraw: (ctx) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      ctx.sendEther(ctx.sender, ctx.balanceOf(ctx.self));
+    },
+
+    updateMinStakeAmount: (ctx, [newAmount]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      ctx.state.minStakeAmount = newAmount;
+    },
+
+    updateRewardPerParticipant: (ctx, [newAmount]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      ctx.state.rewardPerParticipant = newAmount;
+    },
+  },
+};
@@ -0,0 +1,397 @@
+import { parseEther, zeroAddress, type Address } from 'viem';
+import { creditScoreRegistryAbi, lenderPortalAbi } from '../../contracts';
+import {
+  DEFAULT_ADMIN_ROLE,
+  accessControlFunctions,
+  createAccessControlState,
+  grantRole,
+  onlyRole,
+  roleId,
+  type AccessControlState,
+} from '../accessControl';
+import { RevertError, at, ensure } from '../revert';
+import type { CallContext, ContractDefinition } from '../types';
+
+type PortalAbi = typeof lenderPortalAbi;
+
+export const LENDER_ROLE = roleId('LENDER_ROLE');
+export const APPROVED_LENDER_ROLE = roleId('APPROVED_LENDER_ROLE');
+
+const API_ACCESS_LIMITS: Record<string, bigint> = {
+  basic: 100n,
+  premium: 1000n,
+  enterprise: 10000n,
+};
+const API_ACCESS_PERIOD = 30n * 24n * 60n * 60n;
+
+interface LenderInfo {
+  lenderAddress: Address;
+  companyName: string;
+  licenseNumber: string;
+  isApproved: boolean;
+  isActive: boolean;
+  registrationDate: bigint;
+  totalRequests: bigint;
+  successfulRequests: bigint;
+  supportedRegions: string[];
+  creditLimit: bigint;
+  // Basis points (500 = 5%)
+  interestRate: bigint;
+}
+
+interface CreditRequest {
+  requestId: bigint;
+  lender: Address;
+  borrower: Address;
+  requestedAmount: bigint;
+  timestamp: bigint;
+  isProcessed: boolean;
+  isApproved: boolean;
+  creditScore: bigint;
+  riskAssessment: string;
+  approvedAmount: bigint;
+  interestRate: bigint;
+}
+
+interface APIAccess {
+  lender: Address;
+  hasAccess: boolean;
+  requestLimit: bigint;
+  requestsUsed: bigint;
+  resetTime: bigint;
+  accessLevel: string;
+}
+
+interface BatchRequest {
+  batchId: bigint;
+  lender: Address;
+  borrowers: Address[];
+  requestedAmounts: bigint[];
+  timestamp: bigint;
+  isProcessed: boolean;
+  processedCount: bigint;
+}
+
+export interface LenderPortalState extends AccessControlState {
+  lenders: Map<string, LenderInfo>;
+  creditRequests: Map<bigint, CreditRequest>;
+  apiAccess: Map<string, APIAccess>;
+  batchRequests: Map<bigint, BatchRequest>;
+  lenderRequests: Map<string, bigint[]>;
+  pendingApprovals: Set<string>;
+  creditRegistry: Address;
+  nextRequestId: bigint;
+  nextBatchId: bigint;
+  registrationFee: bigint;
+  apiRequestFee: bigint;
+}
+
+type Ctx = CallContext<PortalAbi, LenderPortalState>;
+
+const key = (address: Address) => address.toLowerCase();
+
+const lenderOf = (state: LenderPortalState, lender: Address): LenderInfo =>
+  state.lenders.get(key(lender)) ?? {
+    lenderAddress: zeroAddress,
+    companyName: '',
+    licenseNumber: '',
+    isApproved: false,
+    isActive: false,
+    registrationDate: 0n,
+    totalRequests: 0n,
+    successfulRequests: 0n,
+    supportedRegions: [],
+    creditLimit: 0n,
+    interestRate: 0n,
+  };
+
+const requestOf = (state: LenderPortalState, requestId: bigint): CreditRequest =>
+  state.creditRequests.get(requestId) ?? {
+    requestId: 0n,
+    lender: zeroAddress,
+    borrower: zeroAddress,
+    requestedAmount: 0n,
+    timestamp: 0n,
+    isProcessed: false,
+    isApproved: false,
+    creditScore: 0n,
+    riskAssessment: '',
+    approvedAmount: 0n,
+    interestRate: 0n,
+  };
+
+const accessOf = (state: LenderPortalState, lender: Address): APIAccess =>
+  state.apiAccess.get(key(lender)) ?? {
+    lender: zeroAddress,
+    hasAccess: false,
+    requestLimit: 0n,
+    requestsUsed: 0n,
+    resetTime: 0n,
+    accessLevel: '',
+  };
+
+const updateLender = (state: LenderPortalState, lender: Address, changes: Partial<LenderInfo>) =>
+  state.lenders.set(key(lender), { ...lenderOf(state, lender), ...changes });
+
+const openRequest = (ctx: Ctx, lender: Address, borrower: Address, requestedAmount: bigint) => {
+  const requestId = ctx.state.nextRequestId++;
+  ctx.state.creditRequests.set(requestId, {
+    ...requestOf(ctx.state, 0n),
+    requestId,
+    lender,
+    borrower,
+    requestedAmount,
+    timestamp: ctx.block.timestamp,
+  });
+  ctx.state.lenderRequests.set(key(lender), [...(ctx.state.lenderRequests.get(key(lender)) ?? []), requestId]);
+  return requestId;
+};
+
+// _processCreditRequest: scores the borrower through the registry; a reverting lookup
+// (no score, or the portal lacks read access) is caught and recorded as no history
+const processCreditRequest = (ctx: Ctx, requestId: bigint) => {
+  const request = requestOf(ctx.state, requestId);
+  ensure(!request.isProcessed, 'Already processed');
+
+  const lender = lenderOf(ctx.state, request.lender);
+  try {
+    const score = ctx.call(ctx.state.creditRegistry, creditScoreRegistryAbi, 'getScore', [request.borrower]);
+    request.creditScore = score;
+    if (score >= 700n) {
+      Object.assign(request, {
+        isApproved: true,
+        approvedAmount: request.requestedAmount,
+        interestRate: lender.interestRate,
+        riskAssessment: 'Low Risk',
+      });
+      updateLender(ctx.state, request.lender, { successfulRequests: lender.successfulRequests + 1n });
+    } else if (score >= 650n) {
+      Object.assign(request, {
+        isApproved: true,
+        approvedAmount: request.requestedAmount / 2n,
+        interestRate: lender.interestRate + 200n,
+        riskAssessment: 'Medium Risk',
+      });
+      updateLender(ctx.state, request.lender, { successfulRequests: lender.successfulRequests + 1n });
+    } else {
+      Object.assign(request, { isApproved: false, approvedAmount: 0n, riskAssessment: 'High Risk' });
+    }
+  } catch (err) {
+    if (!(err instanceof RevertError)) throw err;
+    Object.assign(request, { creditScore: 0n, isApproved: false, riskAssessment: 'No Credit History' });
+  }
+
+  request.isProcessed = true;
+  ctx.state.creditRequests.set(requestId, request);
+  ctx.emit('CreditRequestProcessed', {
+    requestId,
+    approved: request.isApproved,
+    approvedAmount: request.approvedAmount,
+  });
+};
+
+export const createLenderPortalState = (creditRegistry: Address): LenderPortalState => ({
+  ...createAccessControlState(),
+  lenders: new Map(),
+  creditRequests: new Map(),
+  apiAccess: new Map(),
+  batchRequests: new Map(),
+  lenderRequests: new Map(),
+  pendingApprovals: new Set(),
+  creditRegistry,
+  nextRequestId: 1n,
+  nextBatchId: 1n,
+  registrationFee: parseEther('1'),
+  apiRequestFee: parseEther('0.01'),
+});
+
+// constructor(address _creditRegistry)
+export const initLenderPortal = (ctx: Ctx) => {
+  grantRole(ctx, DEFAULT_ADMIN_ROLE, ctx.sender);
+};
+
+export const lenderPortal: ContractDefinition<PortalAbi, LenderPortalState> = {
+  name: 'LenderPortal',
+  abi: lenderPortalAbi,
+  functions: {
+    ...accessControlFunctions<PortalAbi, LenderPortalState>(),
+    LENDER_ROLE: () => LENDER_ROLE,
+    APPROVED_LENDER_ROLE: () => APPROVED_LENDER_ROLE,
+    creditRegistry: (ctx) => ctx.state.creditRegistry,
+    nextRequestId: (ctx) => ctx.state.nextRequestId,
+    nextBatchId: (ctx) => ctx.state.nextBatchId,
+    registrationFee: (ctx) => ctx.state.registrationFee,
+    apiRequestFee: (ctx) => ctx.state.apiRequestFee,
+
+    lenders: (ctx, [lender]) => {
+      const l = lenderOf(ctx.state, lender);
+      return [l.lenderAddress, l.companyName, l.licenseNumber, l.isApproved, l.isActive, l.registrationDate,
+        l.totalRequests, l.successfulRequests, l.creditLimit, l.interestRate];
+    },
+    creditRequests: (ctx, [requestId]) => {
+      const r = requestOf(ctx.state, requestId);
+      return [r.requestId, r.lender, r.borrower, r.requestedAmount, r.timestamp, r.isProcessed, r.isApproved,
+        r.creditScore, r.riskAssessment, r.approvedAmount, r.interestRate];
+    },
+    apiAccess: (ctx, [lender]) => {
+      const a = accessOf(ctx.state, lender);
+      return [a.lender, a.hasAccess, a.requestLimit, a.requestsUsed, a.resetTime, a.accessLevel];
+    },
+    batchRequests: (ctx, [batchId]) => {
+      const b = ctx.state.batchRequests.get(batchId);
+      return b
+        ? [b.batchId, b.lender, b.timestamp, b.isProcessed, b.processedCount]
+        : [0n, zeroAddress, 0n, false, 0n];
+    },
+    lenderRequests: (ctx, [lender, index]) => at(ctx.state.lenderRequests.get(key(lender)) ?? [], index),
+    pendingApprovals: (ctx, [lender]) => ctx.state.pendingApprovals.has(key(lender)),
+
+    registerLender: (ctx, [companyName, licenseNumber, supportedRegions, creditLimit, interestRate]) => {
+      ensure(ctx.value >= ctx.state.registrationFee, 'Insufficient registration fee');
+      ensure(companyName.length > 0, 'Company name required');
+      ensure(licenseNumber.length > 0, 'License number required');
+      ensure(!lenderOf(ctx.state, ctx.sender).isActive, 'Already registered');
+
+      ctx.state.lenders.set(key(ctx.sender), {
+        lenderAddress: ctx.sender,
+        companyName,
+        licenseNumber,
+        isApproved: false,
+        isActive: true,
+        registrationDate: ctx.block.timestamp,
+        totalRequests: 0n,
+        successfulRequests: 0n,
+        supportedRegions: [...supportedRegions],
+        creditLimit,
+        interestRate,
+      });
+      ctx.state.pendingApprovals.add(key(ctx.sender));
+      grantRole(ctx, LENDER_ROLE, ctx.sender);
+
+      ctx.emit('LenderRegistered', { lender: ctx.sender, companyName });
+    },
+
+    approveLender: (ctx, [lender]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      const info = lenderOf(ctx.state, lender);
+      ensure(info.isActive, 'Lender not registered');
+      ensure(!info.isApproved, 'Already approved');
+
+      updateLender(ctx.state, lender, { isApproved: true });
+      ctx.state.pendingApprovals.delete(key(lender));
+      grantRole(ctx, APPROVED_LENDER_ROLE, lender);
+
+      ctx.emit('LenderApproved', { lender });
+    },
+
+    requestAPIAccess: (ctx, [accessLevel]) => {
+      onlyRole(ctx, APPROVED_LENDER_ROLE);
+      ensure(lenderOf(ctx.state, ctx.sender).isApproved, 'Lender not approved');
+      const requestLimit = API_ACCESS_LIMITS[accessLevel];
+      ensure(requestLimit !== undefined, 'Invalid access level');
+
+      ctx.state.apiAccess.set(key(ctx.sender), {
+        lender: ctx.sender,
+        hasAccess: true,
+        requestLimit,
+        requestsUsed: 0n,
+        resetTime: ctx.block.timestamp + API_ACCESS_PERIOD,
+        accessLevel,
+      });
+
+      ctx.emit('APIAccessGranted', { lender: ctx.sender, accessLevel });
+    },
+
+    // The limit is checked before an expired period is reset, as the contract does
+    submitCreditRequest: (ctx, [borrower, requestedAmount]) => {
+      onlyRole(ctx, APPROVED_LENDER_ROLE);
+      ensure(ctx.value >= ctx.state.apiRequestFee, 'Insufficient API fee');
+      ensure(borrower !== zeroAddress, 'Invalid borrower address');
+      ensure(requestedAmount > 0n, 'Invalid amount');
+
+      const access = accessOf(ctx.state, ctx.sender);
+      ensure(access.hasAccess, 'No API access');
+      ensure(access.requestsUsed < access.requestLimit, 'Request limit exceeded');
+      if (ctx.block.timestamp >= access.resetTime) {
+        access.requestsUsed = 0n;
+        access.resetTime = ctx.block.timestamp + API_ACCESS_PERIOD;
+      }
+      access.requestsUsed += 1n;
+      ctx.state.apiAccess.set(key(ctx.sender), access);
+
+      const requestId = openRequest(ctx, ctx.sender, borrower, requestedAmount);
+      const lender = lenderOf(ctx.state, ctx.sender);
+      updateLender(ctx.state, ctx.sender, { totalRequests: lender.totalRequests + 1n });
+
+      ctx.emit('CreditRequestSubmitted', { requestId, lender: ctx.sender, borrower, amount: requestedAmount });
+      processCreditRequest(ctx, requestId);
+      return requestId;
+    },
+
+    submitBatchRequest: (ctx, [borrowers, requestedAmounts]) => {
+      onlyRole(ctx, APPROVED_LENDER_ROLE);
+      ensure(borrowers.length === requestedAmounts.length, 'Array length mismatch');
+      ensure(borrowers.length <= 100, 'Batch too large');
+      const count = BigInt(borrowers.length);
+      ensure(ctx.value >= ctx.state.apiRequestFee * count, 'Insufficient fee');
+
+      const access = accessOf(ctx.state, ctx.sender);
+      ensure(access.hasAccess, 'No API access');
+      ensure(access.requestsUsed + count <= access.requestLimit, 'Request limit exceeded');
+
+      const batchId = ctx.state.nextBatchId++;
+      const batch: BatchRequest = {
+        batchId,
+        lender: ctx.sender,
+        borrowers: [...borrowers],
+        requestedAmounts: [...requestedAmounts],
+        timestamp: ctx.block.timestamp,
+        isProcessed: false,
+        processedCount: 0n,
+      };
+      ctx.state.batchRequests.set(batchId, batch);
+      ctx.state.apiAccess.set(key(ctx.sender), { ...access, requestsUsed: access.requestsUsed + count });
+
+      ctx.emit('BatchRequestSubmitted', { batchId, lender: ctx.sender, borrowerCount: count });
+
+      // _processBatchRequest
+      batch.borrowers.forEach((borrower, i) => {
+        const requestId = openRequest(ctx, batch.lender, borrower, batch.requestedAmounts[i]);
+        processCreditRequest(ctx, requestId);
+        batch.processedCount += 1n;
+      });
+      batch.isProcessed = true;
+      const lender = lenderOf(ctx.state, batch.lender);
+      updateLender(ctx.state, batch.lender, { totalRequests: lender.totalRequests + count });
+
+      return batchId;
+    },
+
+    getLenderInfo: (ctx, [lender]) => {
+      const l = lenderOf(ctx.state, lender);
+      return [l.companyName, l.isApproved, l.isActive, l.totalRequests, l.successfulRequests, l.creditLimit];
+    },
+
+    getCreditRequest: (ctx, [requestId]) => {
+      const r = requestOf(ctx.state, requestId);
+      return [r.lender, r.borrower, r.requestedAmount, r.isApproved, r.creditScore, r.riskAssessment, r.approvedAmount];
+    },
+
+    getLenderRequests: (ctx, [lender]) => ctx.state.lenderRequests.get(key(lender)) ?? [],
+
+    updateRegistrationFee: (ctx, [newFee]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      ctx.state.registrationFee = newFee;
+    },
+
+    updateAPIRequestFee: (ctx, [newFee]) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      ctx.state.apiRequestFee = newFee;
+    },
+
+    withdrawFees: (ctx) => {
+      onlyRole(ctx, DEFAULT_ADMIN_ROLE);
+      ctx.sendEther(ctx.sender, ctx.balanceOf(ctx.self));
+    },
+  },
+};
@@ -0,0 +1,114 @@
+import { maxUint256, parseAbi, zeroAddress, type Address } from 'viem';
+import { revertWith } from '../revert';
+import type { CallContext, ContractDefinition } from '../types';
+
+// The ERC-20 the marketplace is paid in and training rewards are escrowed in. The real
+// deployments use an existing token; this one follows OpenZeppelin's ERC20 plus an owner mint.
+export const simulatedTokenAbi = parseAbi([
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function transfer(address to, uint256 value) returns (bool)',
+  'function approve(address spender, uint256 value) returns (bool)',
+  'function transferFrom(address from, address to, uint256 value) returns (bool)',
+  'function mint(address to, uint256 value)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InvalidSpender(address spender)',
+  'error OwnableUnauthorizedAccount(address account)',
+]);
+
+type TokenAbi = typeof simulatedTokenAbi;
+
+export interface TokenState {
+  name: string;
+  symbol: string;
+  owner: string;
+  totalSupply: bigint;
+  balances: Map<string, bigint>;
+  // Keyed `${owner}:${spender}`
+  allowances: Map<string, bigint>;
+}
+
+type Ctx = CallContext<TokenAbi, TokenState>;
+
+export const createTokenState = (name: string, symbol: string, owner: Address): TokenState => ({
+  name,
+  symbol,
+  owner: owner.toLowerCase(),
+  totalSupply: 0n,
+  balances: new Map(),
+  allowances: new Map(),
+});
+
+const allowanceKey = (owner: Address, spender: Address) => `${owner.toLowerCase()}:${spender.toLowerCase()}`;
+
+const balanceOf = (state: TokenState, account: Address) => state.balances.get(account.toLowerCase()) ?? 0n;
+
+const update = (ctx: Ctx, from: Address, to: Address, value: bigint) => {
+  if (from === zeroAddress) {
+    ctx.state.totalSupply += value;
+  } else {
+    const balance = balanceOf(ctx.state, from);
+    if (balance < value) revertWith(simulatedTokenAbi, 'ERC20InsufficientBalance', [from, balance, value]);
+    ctx.state.balances.set(from.toLowerCase(), balance - value);
+  }
+  ctx.state.balances.set(to.toLowerCase(), balanceOf(ctx.state, to) + value);
+  ctx.emit('Transfer', { from, to, value });
+};
+
+const transfer = (ctx: Ctx, from: Address, to: Address, value: bigint) => {
+  if (from === zeroAddress) revertWith(simulatedTokenAbi, 'ERC20InvalidSender', [from]);
+  if (to === zeroAddress) revertWith(simulatedTokenAbi, 'ERC20InvalidReceiver', [to]);
+  update(ctx, from, to, value);
+};
+
+const approve = (ctx: Ctx, owner: Address, spender: Address, value: bigint, emitEvent: boolean) => {
+  if (spender === zeroAddress) revertWith(simulatedTokenAbi, 'ERC20InvalidSpender', [spender]);
+  ctx.state.allowances.set(allowanceKey(owner, spender), value);
+  if (emitEvent) ctx.emit('Approval', { owner, spender, value });
+};
+
+export const simulatedToken: ContractDefinition<TokenAbi, TokenState> = {
+  name: 'SimulatedToken',
+  abi: simulatedTokenAbi,
+  functions: {
+    name: (ctx) => ctx.state.name,
+    symbol: (ctx) => ctx.state.symbol,
+    decimals: () => 18,
+    totalSupply: (ctx) => ctx.state.totalSupply,
+    balanceOf: (ctx, [account]) => balanceOf(ctx.state, account),
+    allowance: (ctx, [owner, spender]) => ctx.state.allowances.get(allowanceKey(owner, spender)) ?? 0n,
+    transfer: (ctx, [to, value]) => {
+      transfer(ctx, ctx.sender, to, value);
+      return true;
+    },
+    approve: (ctx, [spender, value]) => {
+      approve(ctx, ctx.sender, spender, value, true);
+      return true;
+    },
+    transferFrom: (ctx, [from, to, value]) => {
+      const current = ctx.state.allowances.get(allowanceKey(from, ctx.sender)) ?? 0n;
+      if (current !== maxUint256) {
+        if (current < value) revertWith(simulatedTokenAbi, 'ERC20InsufficientAllowance', [ctx.sender, current, value]);
+        approve(ctx, from, ctx.sender, current - value, false);
+      }
+      transfer(ctx, from, to, value);
+      return true;
+    },
+    mint: (ctx, [to, value]) => {
+      if (ctx.sender.toLowerCase() !== ctx.state.owner) {
+        revertWith(simulatedTokenAbi, 'OwnableUnauthorizedAccount', [ctx.sender]);
+      }
+      if (to === zeroAddress) revertWith(simulatedTokenAbi, 'ERC20InvalidReceiver', [to]);
+      update(ctx, zeroAddress, to, value);
+    },
+  },
+};
@@ -0,0 +1,131 @@
+import { encodeFunctionData, getContractAddress, maxUint256, parseEther, toHex, type Abi, type Address } from 'viem';
+import type { ContractName } from '../networks';
+import { createSimulatedChain, type SimulatedChain, type SimulatedChainOptions } from './chain';
+import { creditScoreRegistry, createCreditScoreRegistryState, initCreditScoreRegistry } from './contracts/creditScoreRegistry';
+import { createDataMarketplaceState, dataMarketplace, initDataMarketplace } from './contracts/dataMarketplace';
+import { createFederatedLearningState, federatedLearningCoordinator, initFederatedLearning } from './contracts/federatedLearning';
+import { createLenderPortalState, initLenderPortal, lenderPortal } from './contracts/lenderPortal';
+import { createTokenState, simulatedToken } from './contracts/token';
+import type { ContractDefinition } from './types';
+
+// The well-known Anvil/Hardhat dev accounts, so addresses match a local node's
+export const DEV_ACCOUNTS: Address[] = [
+  '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  '0x90F79bf6EB2c4f870365E785982E1f101E93b906',
+  '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
+  '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc',
+];
+
+export type DeployedAddresses = Record<ContractName | 'PaymentToken', Address>;
+
+export interface DevChainOptions extends Partial<SimulatedChainOptions> {
+  // Deploy the contracts without listings, scores, lenders or a training round
+  empty?: boolean;
+}
+
+const DAY = 24n * 60n * 60n;
+
+const send = <TAbi extends Abi>(
+  chain: SimulatedChain,
+  from: Address,
+  to: Address,
+  definition: Pick<ContractDefinition<TAbi>, 'name' | 'abi'>,
+  functionName: string,
+  args: readonly unknown[],
+  value = 0n,
+) => {
+  const data = encodeFunctionData({ abi: definition.abi, functionName, args } as Parameters<typeof encodeFunctionData>[0]);
+  const hash = chain.sendTransaction({ from, to, data, value });
+  if (chain.getTransactionReceipt(hash)?.status !== 'success') {
+    throw new Error(`Seeding ${definition.name}.${functionName} reverted`);
+  }
+};
+
+// Deploys the four contracts from `deployer` in the order of a local node deployment
+// (nonces 0-3, the local-chain addresses in the network registry), then the payment and
+// reward token they are constructed with at nonce 4
+export const deployContracts = (chain: SimulatedChain, deployer: Address = DEV_ACCOUNTS[0]): DeployedAddresses => {
+  const nonce = BigInt(chain.getTransactionCount(deployer));
+  const token = getContractAddress({ from: deployer, nonce: nonce + 4n });
+
+  const registry = chain.deploy(creditScoreRegistry, {
+    from: deployer,
+    state: createCreditScoreRegistryState(),
+    init: initCreditScoreRegistry,
+  });
+  const coordinator = chain.deploy(federatedLearningCoordinator, {
+    from: deployer,
+    state: createFederatedLearningState(token, parseEther('0.01'), parseEther('10')),
+    init: initFederatedLearning,
+  });
+  const marketplace = chain.deploy(dataMarketplace, {
+    from: deployer,
+    state: createDataMarketplaceState(token, deployer),
+    init: initDataMarketplace,
+  });
+  const portal = chain.deploy(lenderPortal, {
+    from: deployer,
+    state: createLenderPortalState(registry),
+    init: initLenderPortal,
+  });
+  chain.deploy(simulatedToken, { from: deployer, state: createTokenState('CreditChain Token', 'CCT', deployer) });
+
+  return {
+    CreditScoreRegistry: registry,
+    FederatedLearningCoordinator: coordinator,
+    DataMarketplace: marketplace,
+    LenderPortal: portal,
+    PaymentToken: token,
+  };
+};
+
+// Demo state for the dev accounts:
+// - #0 deploys and administers everything, runs the training round and is a registered node
+// - #1 sells the three marketplace products and is an approved lender with premium API access
+// - #2, #3 and #4 hold low, medium and high risk scores (712, 668, 610) for credit requests
+export const seedDemoData = (chain: SimulatedChain, addresses: DeployedAddresses) => {
+  const [admin, seller] = DEV_ACCOUNTS;
+
+  // The portal scores borrowers through the registry, which needs LENDER_ROLE
+  send(chain, admin, addresses.CreditScoreRegistry, creditScoreRegistry, 'grantLenderRole', [addresses.LenderPortal]);
+  ([[admin, 745n], [DEV_ACCOUNTS[2], 712n], [DEV_ACCOUNTS[3], 668n], [DEV_ACCOUNTS[4], 610n]] as const)
+    .forEach(([user, score]) => send(chain, admin, addresses.CreditScoreRegistry, creditScoreRegistry, 'updateScore', [user, score]));
+
+  // Every dev account holds tokens and lets the marketplace and coordinator spend them
+  DEV_ACCOUNTS.forEach(account => {
+    send(chain, admin, addresses.PaymentToken, simulatedToken, 'mint', [account, parseEther('10000')]);
+    send(chain, account, addresses.PaymentToken, simulatedToken, 'approve', [addresses.DataMarketplace, maxUint256]);
+    send(chain, account, addresses.PaymentToken, simulatedToken, 'approve', [addresses.FederatedLearningCoordinator, maxUint256]);
+  });
+
+  ([
+    ['Premium Credit Report', 'Comprehensive credit analysis with AI insights', '0.5',
+      ['360° Credit View', 'Predictive Analytics', 'Risk Assessment'], 'reports'],
+    ['Behavioral Analytics', 'Advanced spending pattern analysis', '0.3',
+      ['Transaction Insights', 'Spending Patterns', 'Risk Indicators'], 'analytics'],
+    ['Market Intelligence', 'Real-time market data and trends', '0.7',
+      ['Market Trends', 'Sector Analysis', 'Predictive Models'], 'market'],
+  ] as const).forEach(([name, description, price, features, category]) => send(
+    chain, seller, addresses.DataMarketplace, dataMarketplace, 'listProduct',
+    [name, description, parseEther(price), toHex(`dataset:${name}`, { size: 32 }), features, category],
+  ));
+
+  send(chain, admin, addresses.FederatedLearningCoordinator, federatedLearningCoordinator, 'registerNode', []);
+  send(chain, admin, addresses.FederatedLearningCoordinator, federatedLearningCoordinator, 'startTrainingRound',
+    [7n * DAY, 1n, 100n, parseEther('1000')]);
+
+  send(chain, seller, addresses.LenderPortal, lenderPortal, 'registerLender',
+    ['Acme Lending', 'LIC-0001', ['US', 'EU'], parseEther('100'), 500n], parseEther('1'));
+  send(chain, admin, addresses.LenderPortal, lenderPortal, 'approveLender', [seller]);
+  send(chain, seller, addresses.LenderPortal, lenderPortal, 'requestAPIAccess', ['premium']);
+};
+
+// A simulated local chain with the contracts deployed at their registry addresses
+export const createDevChain = ({ empty = false, ...options }: DevChainOptions = {}) => {
+  const chain = createSimulatedChain({ accounts: DEV_ACCOUNTS, ...options });
+  const addresses = deployContracts(chain);
+  if (!empty) seedDemoData(chain, addresses);
+  return { chain, addresses };
+};
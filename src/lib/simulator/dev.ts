@@ -0,0 +1,53 @@
+import type { EIP1193Provider } from '../wallet/types';
+import { createDevChain } from './deploy';
+import { createSimulatorProvider, type SimulatorProvider } from './provider';
+
+declare global {
+  interface Window {
+    // The in-page dev chain, e.g. `__simulator.chain.increaseTime(86400n)` in devtools
+    __simulator?: SimulatorProvider;
+  }
+}
+
+// Node methods a wallet forwards to its RPC endpoint rather than answering itself
+export const CHAIN_METHODS = [
+  'eth_blockNumber',
+  'eth_getBlockByNumber',
+  'eth_getBlockByHash',
+  'eth_getBalance',
+  'eth_getTransactionCount',
+  'eth_getCode',
+  'eth_call',
+  'eth_estimateGas',
+  'eth_sendTransaction',
+  'wallet_sendTransaction',
+  'eth_getTransactionByHash',
+  'eth_getTransactionReceipt',
+  'eth_getLogs',
+  'eth_gasPrice',
+  'eth_maxPriorityFeePerGas',
+  'eth_feeHistory',
+] as const;
+
+// VITE_SIMULATOR=true, or `?simulator` in the URL of a dev server, runs the contracts in the page.
+// Production builds ignore the URL switch so a shared link cannot swap the chain under a user.
+export const isSimulatorEnabled = () =>
+  import.meta.env.VITE_SIMULATOR === 'true'
+  || (import.meta.env.DEV && new URLSearchParams(window.location.search).has('simulator'));
+
+// The seeded in-page chain, created on first use and kept for the page's lifetime
+export const getSimulatorProvider = (): SimulatorProvider => {
+  if (!window.__simulator) {
+    const { chain } = createDevChain({ startTime: BigInt(Math.floor(Date.now() / 1000)) });
+    window.__simulator = createSimulatorProvider(chain);
+  }
+  return window.__simulator;
+};
+
+// Read transport for `chainId` when no wallet is connected: the simulator stands in for the
+// local chain's RPC endpoint
+export const getDevChainProvider = (chainId: number): EIP1193Provider | undefined => {
+  if (!isSimulatorEnabled()) return undefined;
+  const provider = getSimulatorProvider();
+  return provider.chain.chainId === chainId ? provider : undefined;
+};
@@ -0,0 +1,17 @@
+export { BASE_FEE_PER_GAS, DEFAULT_PRIORITY_FEE, TransactionRejectedError, createSimulatedChain } from './chain';
+export type { LogFilter, SimulatedChain, SimulatedChainOptions, TransactionRequest } from './chain';
+export { DEV_ACCOUNTS, createDevChain, deployContracts, seedDemoData } from './deploy';
+export type { DeployedAddresses, DevChainOptions } from './deploy';
+export { createSimulatorProvider } from './provider';
+export type { SimulatorProvider } from './provider';
+export { PANIC_CODES, RevertError } from './revert';
+export { simulatedToken, simulatedTokenAbi } from './contracts/token';
+export type {
+  CallContext,
+  ContractDefinition,
+  SimulatedBlock,
+  SimulatedLog,
+  SimulatedReceipt,
+  SimulatedTransaction,
+} from './types';
+export { CHAIN_METHODS, getDevChainProvider, getSimulatorProvider, isSimulatorEnabled } from './dev';
@@ -0,0 +1,235 @@
+import { numberToHex, pad, zeroAddress, zeroHash, type Address, type Hash, type Hex } from 'viem';
+import { RPC_ERROR_CODES, createRpcError } from '../wallet/errors';
+import { createEmitter } from '../wallet/emitter';
+import type { EIP1193Provider } from '../wallet/types';
+import { DEFAULT_PRIORITY_FEE, TransactionRejectedError, type SimulatedChain, type TransactionRequest } from './chain';
+import { RevertError } from './revert';
+import type { SimulatedBlock, SimulatedLog, SimulatedReceipt, SimulatedTransaction } from './types';
+
+// JSON-RPC error codes nodes use for failed calls and rejected transactions
+const EXECUTION_REVERTED = 3;
+const TRANSACTION_REJECTED = -32000;
+
+const EMPTY_BLOOM = pad('0x', { size: 256 });
+
+type RpcTransaction = Partial<Record<'from' | 'to' | 'data' | 'input' | 'value' | 'nonce' | 'gas' | 'maxFeePerGas' | 'maxPriorityFeePerGas', string>>;
+
+export interface SimulatorProvider extends EIP1193Provider {
+  readonly chain: SimulatedChain;
+}
+
+const quantity = (value: bigint | number) => numberToHex(value);
+
+const formatLog = (log: SimulatedLog) => ({
+  address: log.address,
+  topics: log.topics,
+  data: log.data,
+  blockNumber: quantity(log.blockNumber),
+  blockHash: log.blockHash,
+  transactionHash: log.transactionHash,
+  transactionIndex: quantity(log.transactionIndex),
+  logIndex: quantity(log.logIndex),
+  removed: log.removed,
+});
+
+const formatTransaction = (tx: SimulatedTransaction, chainId: number) => ({
+  hash: tx.hash,
+  from: tx.from,
+  to: tx.to,
+  input: tx.input,
+  value: quantity(tx.value),
+  nonce: quantity(tx.nonce),
+  gas: quantity(tx.gas),
+  maxFeePerGas: quantity(tx.maxFeePerGas),
+  maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+  gasPrice: quantity(tx.maxFeePerGas),
+  blockNumber: quantity(tx.blockNumber),
+  blockHash: tx.blockHash,
+  transactionIndex: '0x0',
+  type: '0x2',
+  chainId: quantity(chainId),
+  accessList: [],
+  // Transactions are unsigned here; dev accounts are unlocked
+  v: '0x0',
+  r: zeroHash,
+  s: zeroHash,
+  yParity: '0x0',
+});
+
+const formatReceipt = (receipt: SimulatedReceipt) => ({
+  transactionHash: receipt.transactionHash,
+  transactionIndex: '0x0',
+  blockNumber: quantity(receipt.blockNumber),
+  blockHash: receipt.blockHash,
+  from: receipt.from,
+  to: receipt.to,
+  contractAddress: receipt.contractAddress,
+  cumulativeGasUsed: quantity(receipt.gasUsed),
+  gasUsed: quantity(receipt.gasUsed),
+  effectiveGasPrice: quantity(receipt.effectiveGasPrice),
+  logs: receipt.logs.map(formatLog),
+  logsBloom: EMPTY_BLOOM,
+  status: receipt.status === 'success' ? '0x1' : '0x0',
+  type: '0x2',
+});
+
+const parseTransaction = (tx: RpcTransaction, defaultFrom: Address): TransactionRequest => ({
+  from: (tx.from ?? defaultFrom) as Address,
+  to: (tx.to ?? null) as Address | null,
+  data: (tx.data ?? tx.input ?? '0x') as Hex,
+  value: tx.value ? BigInt(tx.value) : 0n,
+  nonce: tx.nonce === undefined ? undefined : Number(BigInt(tx.nonce)),
+  gas: tx.gas ? BigInt(tx.gas) : undefined,
+  maxFeePerGas: tx.maxFeePerGas ? BigInt(tx.maxFeePerGas) : undefined,
+  maxPriorityFeePerGas: tx.maxPriorityFeePerGas ? BigInt(tx.maxPriorityFeePerGas) : undefined,
+});
+
+// The error a node returns for a reverted `eth_call` / `eth_estimateGas`; viem decodes `data`
+const toRpcError = (error: unknown) => {
+  if (error instanceof RevertError) {
+    const message = error.data === '0x' ? 'execution reverted' : `execution reverted: ${error.message}`;
+    return createRpcError(EXECUTION_REVERTED, message, error.data);
+  }
+  if (error instanceof TransactionRejectedError) return createRpcError(TRANSACTION_REJECTED, error.message);
+  return error;
+};
+
+// EIP-1193 provider backed by a simulated chain, speaking the same JSON-RPC as a dev node
+// (Anvil/Hardhat), including their `evm_*` controls. Its accounts are unlocked: transactions
+// are mined without signing.
+export const createSimulatorProvider = (chain: SimulatedChain): SimulatorProvider => {
+  const emitter = createEmitter();
+
+  // Every block is final at once, so all tags but `earliest` mean the latest block
+  const blockNumberOf = (tag: unknown) => {
+    if (tag === undefined || tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') {
+      return chain.getBlockNumber();
+    }
+    return tag === 'earliest' ? 0n : BigInt(tag as string);
+  };
+  const resolveBlock = (tag: unknown) => chain.getBlock(blockNumberOf(tag));
+
+  const formatBlock = (block: SimulatedBlock | null, includeTransactions: boolean) => block && {
+    number: quantity(block.number),
+    hash: block.hash,
+    parentHash: block.parentHash,
+    timestamp: quantity(block.timestamp),
+    baseFeePerGas: quantity(block.baseFeePerGas),
+    gasLimit: quantity(chain.gasLimit),
+    gasUsed: quantity(block.gasUsed),
+    miner: zeroAddress,
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    totalDifficulty: '0x0',
+    extraData: '0x',
+    logsBloom: EMPTY_BLOOM,
+    mixHash: zeroHash,
+    sha3Uncles: zeroHash,
+    stateRoot: zeroHash,
+    receiptsRoot: zeroHash,
+    transactionsRoot: zeroHash,
+    size: '0x0',
+    uncles: [],
+    transactions: includeTransactions
+      ? block.transactions.map(hash => formatTransaction(chain.getTransaction(hash) as SimulatedTransaction, chain.chainId))
+      : block.transactions,
+  };
+
+  const handlers: Record<string, (params: unknown[]) => unknown> = {
+    eth_chainId: () => quantity(chain.chainId),
+    net_version: () => String(chain.chainId),
+    eth_accounts: () => chain.accounts,
+    eth_requestAccounts: () => chain.accounts,
+    eth_blockNumber: () => quantity(chain.getBlockNumber()),
+    eth_getBlockByNumber: ([tag, full]) => formatBlock(resolveBlock(tag), Boolean(full)),
+    eth_getBlockByHash: ([hash, full]) => formatBlock(chain.getBlockByHash(hash as Hash), Boolean(full)),
+    eth_getBalance: ([address]) => quantity(chain.getBalance(address as Address)),
+    eth_getTransactionCount: ([address]) => quantity(chain.getTransactionCount(address as Address)),
+    eth_getCode: ([address]) => chain.getCode(address as Address),
+    eth_call: ([tx]) => chain.call(parseTransaction(tx as RpcTransaction, zeroAddress)),
+    eth_estimateGas: ([tx]) => quantity(chain.estimateGas(parseTransaction(tx as RpcTransaction, chain.accounts[0]))),
+    eth_sendTransaction: ([tx]) => {
+      const request = parseTransaction(tx as RpcTransaction, chain.accounts[0]);
+      if (!chain.accounts.some(account => account.toLowerCase() === request.from.toLowerCase())) {
+        throw createRpcError(RPC_ERROR_CODES.unauthorized, `Account ${request.from} is not unlocked`);
+      }
+      // Like a node, fill in the gas limit by estimating, which rejects calls that would revert;
+      // with an explicit limit the transaction is mined and reverts on chain
+      return chain.sendTransaction({ ...request, gas: request.gas ?? chain.estimateGas(request) });
+    },
+    // viem retries rejected eth_sendTransaction calls here; answer the same way
+    wallet_sendTransaction: (params) => handlers.eth_sendTransaction(params),
+    eth_getTransactionByHash: ([hash]) => {
+      const tx = chain.getTransaction(hash as Hash);
+      return tx && formatTransaction(tx, chain.chainId);
+    },
+    eth_getTransactionReceipt: ([hash]) => {
+      const receipt = chain.getTransactionReceipt(hash as Hash);
+      return receipt && formatReceipt(receipt);
+    },
+    eth_getLogs: ([filter]) => {
+      const { fromBlock, toBlock, blockHash, address, topics } = (filter ?? {}) as {
+        fromBlock?: string;
+        toBlock?: string;
+        blockHash?: Hash;
+        address?: Address | Address[];
+        topics?: (Hex | Hex[] | null)[];
+      };
+      return chain.getLogs({
+        fromBlock: fromBlock === undefined ? undefined : blockNumberOf(fromBlock),
+        toBlock: toBlock === undefined ? undefined : blockNumberOf(toBlock),
+        blockHash,
+        address,
+        topics,
+      }).map(formatLog);
+    },
+    eth_gasPrice: () => quantity(chain.getBlock('latest')?.baseFeePerGas ?? 0n),
+    eth_maxPriorityFeePerGas: () => quantity(DEFAULT_PRIORITY_FEE),
+    eth_feeHistory: ([blockCount, newestBlock, percentiles]) => {
+      const newest = blockNumberOf(newestBlock) < chain.getBlockNumber() ? blockNumberOf(newestBlock) : chain.getBlockNumber();
+      const count = Math.min(Number(blockCount), Number(newest) + 1);
+      const oldest = newest - BigInt(count) + 1n;
+      const blocks = Array.from({ length: count }, (_, i) => chain.getBlock(oldest + BigInt(i)) as SimulatedBlock);
+      return {
+        oldestBlock: quantity(oldest),
+        // One more entry than blocks: the next block's base fee
+        baseFeePerGas: [...blocks, blocks[blocks.length - 1]].map(block => quantity(block.baseFeePerGas)),
+        gasUsedRatio: blocks.map(block => Number(block.gasUsed) / Number(chain.gasLimit)),
+        reward: blocks.map(block => ((percentiles as number[] | undefined) ?? []).map(() => quantity(
+          block.transactions
+            .map(hash => chain.getTransaction(hash)?.maxPriorityFeePerGas ?? 0n)
+            .reduce((max, fee) => (fee > max ? fee : max), 0n),
+        ))),
+      };
+    },
+    wallet_switchEthereumChain: ([param]) => {
+      const requested = Number.parseInt((param as { chainId: string }).chainId, 16);
+      if (requested !== chain.chainId) {
+        throw createRpcError(RPC_ERROR_CODES.unrecognizedChain, `The simulator only runs chain ${chain.chainId}`);
+      }
+      return null;
+    },
+    evm_increaseTime: ([seconds]) => Number(chain.increaseTime(BigInt(seconds as number | string))),
+    evm_mine: () => {
+      chain.mine();
+      return '0x0';
+    },
+    evm_snapshot: () => quantity(chain.snapshot()),
+    evm_revert: ([id]) => chain.revert(Number(BigInt(id as string))),
+  };
+
+  return {
+    chain,
+    request: async ({ method, params }) => {
+      const handler = handlers[method];
+      if (!handler) throw createRpcError(RPC_ERROR_CODES.unsupportedMethod, `Method ${method} is not supported`);
+      try {
+        return handler(Array.isArray(params) ? params : []);
+      } catch (err) {
+        throw toRpcError(err);
+      }
+    },
+    on: emitter.on,
+    removeListener: emitter.removeListener,
+  };
+};
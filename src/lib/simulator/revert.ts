@@ -0,0 +1,56 @@
+import {
+  encodeErrorResult,
+  parseAbi,
+  type Abi,
+  type ContractErrorArgs,
+  type ContractErrorName,
+  type Hex,
+} from 'viem';
+
+const SOLIDITY_ERRORS = parseAbi([
+  'error Error(string message)',
+  'error Panic(uint256 code)',
+]);
+
+// Panic codes the simulated contracts can hit
+export const PANIC_CODES = {
+  arithmeticOverflow: 0x11n,
+  divisionByZero: 0x12n,
+  arrayOutOfBounds: 0x32n,
+} as const;
+
+// A reverted call; `data` is the ABI-encoded revert reason exactly as a node returns it
+export class RevertError extends Error {
+  constructor(message: string, public readonly data: Hex) {
+    super(message);
+    this.name = 'RevertError';
+  }
+}
+
+// Solidity `require(condition, reason)`
+export function ensure(condition: unknown, reason: string): asserts condition {
+  if (!condition) {
+    throw new RevertError(reason, encodeErrorResult({ abi: SOLIDITY_ERRORS, errorName: 'Error', args: [reason] }));
+  }
+}
+
+// Solidity `revert CustomError(args)`
+export const revertWith = <TAbi extends Abi, TName extends ContractErrorName<TAbi>>(
+  abi: TAbi,
+  errorName: TName,
+  args: ContractErrorArgs<TAbi, TName>,
+): never => {
+  const data = encodeErrorResult({ abi, errorName, args } as Parameters<typeof encodeErrorResult>[0]);
+  throw new RevertError(errorName, data);
+};
+
+export const panic = (code: bigint): never => {
+  throw new RevertError(`Panic(0x${code.toString(16)})`, encodeErrorResult({ abi: SOLIDITY_ERRORS, errorName: 'Panic', args: [code] }));
+};
+
+// Indexing a storage array past its end, e.g. a public getter for `mapping(... => T[])`
+export const at = <T>(items: readonly T[], index: bigint): T =>
+  index < BigInt(items.length) ? items[Number(index)] : panic(PANIC_CODES.arrayOutOfBounds);
+
+// Checked uint256 subtraction, as Solidity >=0.8 does by default
+export const sub = (a: bigint, b: bigint) => (b > a ? panic(PANIC_CODES.arithmeticOverflow) : a - b);
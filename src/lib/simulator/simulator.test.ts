@@ -0,0 +1,337 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  keccak256,
+  parseEther,
+  toHex,
+  type Abi,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ContractFunctionReturnType,
+  type Hex,
+} from 'viem';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  creditScoreRegistryAbi,
+  dataMarketplaceAbi,
+  federatedLearningCoordinatorAbi,
+  lenderPortalAbi,
+} from '../contracts';
+import { DEV_ACCOUNTS, createDevChain, type DeployedAddresses, type DevChainOptions } from './deploy';
+import { simulatedTokenAbi } from './contracts/token';
+import type { SimulatedChain } from './chain';
+
+const [admin, seller, lowRisk, mediumRisk, highRisk, unscored] = DEV_ACCOUNTS;
+const DAY = 24n * 60n * 60n;
+
+const encode = (abi: Abi, functionName: string, args: readonly unknown[]) =>
+  encodeFunctionData({ abi, functionName, args } as Parameters<typeof encodeFunctionData>[0]);
+
+// Typed eth_call / transaction helpers over one dev chain
+const connect = (chain: SimulatedChain) => ({
+  read: <TAbi extends Abi, TName extends ContractFunctionName<TAbi, 'view' | 'pure'>>(
+    to: Address,
+    abi: TAbi,
+    functionName: TName,
+    args: ContractFunctionArgs<TAbi, 'view' | 'pure', TName>,
+    from: Address = admin,
+  ) => {
+    const data = chain.call({ from, to, data: encode(abi, functionName, args as readonly unknown[]) });
+    return decodeFunctionResult({ abi, functionName, data } as Parameters<typeof decodeFunctionResult>[0]) as
+      ContractFunctionReturnType<TAbi, 'view' | 'pure', TName>;
+  },
+  // Runs a write as an eth_call, so a revert surfaces as a thrown RevertError carrying the reason
+  simulate: <TAbi extends Abi, TName extends ContractFunctionName<TAbi, 'nonpayable' | 'payable'>>(
+    from: Address,
+    to: Address,
+    abi: TAbi,
+    functionName: TName,
+    args: ContractFunctionArgs<TAbi, 'nonpayable' | 'payable', TName>,
+    value = 0n,
+  ): Hex => chain.call({ from, to, data: encode(abi, functionName, args as readonly unknown[]), value }),
+  write: <TAbi extends Abi, TName extends ContractFunctionName<TAbi, 'nonpayable' | 'payable'>>(
+    from: Address,
+    to: Address,
+    abi: TAbi,
+    functionName: TName,
+    args: ContractFunctionArgs<TAbi, 'nonpayable' | 'payable', TName>,
+    value = 0n,
+  ) => {
+    const hash = chain.sendTransaction({ from, to, data: encode(abi, functionName, args as readonly unknown[]), value });
+    const receipt = chain.getTransactionReceipt(hash);
+    if (receipt?.status !== 'success') throw new Error(`${functionName} reverted`);
+    return receipt;
+  },
+});
+
+const setup = (options?: DevChainOptions) => {
+  const { chain, addresses } = createDevChain(options);
+  return { chain, addresses, ...connect(chain) };
+};
+
+type Harness = ReturnType<typeof setup>;
+
+describe('LenderPortal', () => {
+  let h: Harness;
+  let addresses: DeployedAddresses;
+  let fee: bigint;
+
+  beforeEach(() => {
+    h = setup();
+    addresses = h.addresses;
+    fee = h.read(addresses.LenderPortal, lenderPortalAbi, 'apiRequestFee', []);
+  });
+
+  const setScore = (user: Address, score: bigint) =>
+    h.write(admin, addresses.CreditScoreRegistry, creditScoreRegistryAbi, 'updateScore', [user, score]);
+
+  const requestCredit = (borrower: Address, amount: bigint) => {
+    const requestId = h.read(addresses.LenderPortal, lenderPortalAbi, 'nextRequestId', []);
+    h.write(seller, addresses.LenderPortal, lenderPortalAbi, 'submitCreditRequest', [borrower, amount], fee);
+    const [, , requestedAmount, isApproved, creditScore, riskAssessment, approvedAmount] =
+      h.read(addresses.LenderPortal, lenderPortalAbi, 'getCreditRequest', [requestId]);
+    return { requestedAmount, isApproved, creditScore, riskAssessment, approvedAmount };
+  };
+
+  it.each([
+    { score: 700n, isApproved: true, approvedAmount: parseEther('10'), riskAssessment: 'Low Risk' },
+    { score: 699n, isApproved: true, approvedAmount: parseEther('5'), riskAssessment: 'Medium Risk' },
+    { score: 650n, isApproved: true, approvedAmount: parseEther('5'), riskAssessment: 'Medium Risk' },
+    { score: 649n, isApproved: false, approvedAmount: 0n, riskAssessment: 'High Risk' },
+  ])('scores $score as $riskAssessment', ({ score, isApproved, approvedAmount, riskAssessment }) => {
+    setScore(lowRisk, score);
+    expect(requestCredit(lowRisk, parseEther('10'))).toEqual({
+      requestedAmount: parseEther('10'),
+      isApproved,
+      creditScore: score,
+      riskAssessment,
+      approvedAmount,
+    });
+  });
+
+  it('charges medium risk borrowers two points more interest', () => {
+    const rateOf = (requestId: bigint) => h.read(addresses.LenderPortal, lenderPortalAbi, 'creditRequests', [requestId])[10];
+    requestCredit(lowRisk, parseEther('1'));
+    requestCredit(mediumRisk, parseEther('1'));
+    expect([rateOf(1n), rateOf(2n)]).toEqual([500n, 700n]);
+  });
+
+  it('records a borrower without a score as having no credit history', () => {
+    expect(() => h.read(addresses.CreditScoreRegistry, creditScoreRegistryAbi, 'getScore', [unscored], addresses.LenderPortal))
+      .toThrow('No active score found');
+    expect(requestCredit(unscored, parseEther('1'))).toMatchObject({
+      isApproved: false,
+      creditScore: 0n,
+      riskAssessment: 'No Credit History',
+    });
+  });
+
+  it('counts only approved requests as successful', () => {
+    requestCredit(lowRisk, parseEther('1'));
+    requestCredit(highRisk, parseEther('1'));
+    const [, , , totalRequests, successfulRequests] = h.read(addresses.LenderPortal, lenderPortalAbi, 'getLenderInfo', [seller]);
+    expect([totalRequests, successfulRequests]).toEqual([2n, 1n]);
+  });
+
+  describe('batch requests', () => {
+    const submitBatch = (borrowers: Address[], amounts: bigint[], value = fee * BigInt(borrowers.length)) =>
+      h.simulate(seller, addresses.LenderPortal, lenderPortalAbi, 'submitBatchRequest', [borrowers, amounts], value);
+
+    it('rejects mismatched arrays', () => {
+      expect(() => submitBatch([lowRisk, mediumRisk], [parseEther('1')])).toThrow('Array length mismatch');
+    });
+
+    it('rejects more than 100 borrowers', () => {
+      const borrowers = Array.from({ length: 101 }, () => lowRisk);
+      expect(() => submitBatch(borrowers, borrowers.map(() => 1n))).toThrow('Batch too large');
+    });
+
+    it('charges the API fee per borrower', () => {
+      expect(() => submitBatch([lowRisk, mediumRisk], [1n, 1n], fee)).toThrow('Insufficient fee');
+    });
+
+    it('requires API access', () => {
+      h.write(admin, addresses.LenderPortal, lenderPortalAbi, 'registerLender',
+        ['Beta Credit', 'LIC-0002', ['US'], parseEther('10'), 400n], parseEther('1'));
+      h.write(admin, addresses.LenderPortal, lenderPortalAbi, 'approveLender', [admin]);
+      expect(() => h.simulate(admin, addresses.LenderPortal, lenderPortalAbi, 'submitBatchRequest', [[lowRisk], [1n]], fee))
+        .toThrow('No API access');
+    });
+
+    it('processes every borrower in the batch', () => {
+      h.write(seller, addresses.LenderPortal, lenderPortalAbi, 'submitBatchRequest',
+        [[lowRisk, mediumRisk, highRisk], [parseEther('2'), parseEther('2'), parseEther('2')]], fee * 3n);
+      const [, , , isProcessed, processedCount] = h.read(addresses.LenderPortal, lenderPortalAbi, 'batchRequests', [1n]);
+      expect([isProcessed, processedCount]).toEqual([true, 3n]);
+      expect(h.read(addresses.LenderPortal, lenderPortalAbi, 'getLenderRequests', [seller])).toEqual([1n, 2n, 3n]);
+      const approved = [1n, 2n, 3n].map(id => h.read(addresses.LenderPortal, lenderPortalAbi, 'getCreditRequest', [id])[6]);
+      expect(approved).toEqual([parseEther('2'), parseEther('1'), 0n]);
+    });
+  });
+
+  describe('API quota', () => {
+    // Basic access allows 100 requests per period
+    beforeEach(() => {
+      h.write(seller, addresses.LenderPortal, lenderPortalAbi, 'requestAPIAccess', ['basic']);
+    });
+
+    it('rejects a batch that would go over the limit', () => {
+      const borrowers = Array.from({ length: 60 }, () => lowRisk);
+      h.write(seller, addresses.LenderPortal, lenderPortalAbi, 'submitBatchRequest',
+        [borrowers, borrowers.map(() => 1n)], fee * 60n);
+      const rest = borrowers.slice(0, 41);
+      expect(() => h.simulate(seller, addresses.LenderPortal, lenderPortalAbi, 'submitBatchRequest',
+        [rest, rest.map(() => 1n)], fee * 41n)).toThrow('Request limit exceeded');
+    });
+
+    it('checks the limit before an expired period is reset', () => {
+      const borrowers = Array.from({ length: 100 }, () => lowRisk);
+      h.write(seller, addresses.LenderPortal, lenderPortalAbi, 'submitBatchRequest',
+        [borrowers, borrowers.map(() => 1n)], fee * 100n);
+      const submit = () => h.simulate(seller, addresses.LenderPortal, lenderPortalAbi, 'submitCreditRequest', [lowRisk, 1n], fee);
+      expect(submit).toThrow('Request limit exceeded');
+
+      h.chain.increaseTime(31n * DAY);
+      h.chain.mine();
+      expect(submit).toThrow('Request limit exceeded');
+    });
+
+    it('rejects an unknown access level', () => {
+      expect(() => h.simulate(seller, addresses.LenderPortal, lenderPortalAbi, 'requestAPIAccess', ['gold']))
+        .toThrow('Invalid access level');
+    });
+  });
+});
+
+describe('DataMarketplace', () => {
+  let h: Harness;
+  let addresses: DeployedAddresses;
+
+  beforeEach(() => {
+    h = setup();
+    addresses = h.addresses;
+  });
+
+  const tokenBalance = (account: Address) => h.read(addresses.PaymentToken, simulatedTokenAbi, 'balanceOf', [account]);
+
+  it('splits the price between the seller and the platform', () => {
+    const buyer = lowRisk;
+    const before = [buyer, seller, admin].map(tokenBalance);
+    h.write(buyer, addresses.DataMarketplace, dataMarketplaceAbi, 'purchaseProduct', [1n]);
+    const after = [buyer, seller, admin].map(tokenBalance);
+
+    // 0.5 token at the default 2.5% fee
+    expect(after[0] - before[0]).toBe(-parseEther('0.5'));
+    expect(after[1] - before[1]).toBe(parseEther('0.4875'));
+    expect(after[2] - before[2]).toBe(parseEther('0.0125'));
+    expect(h.read(addresses.DataMarketplace, dataMarketplaceAbi, 'hasUserPurchased', [buyer, 1n])).toBe(true);
+  });
+
+  it('follows a changed fee and fee recipient', () => {
+    h.write(admin, addresses.DataMarketplace, dataMarketplaceAbi, 'updatePlatformFee', [1000n]);
+    h.write(admin, addresses.DataMarketplace, dataMarketplaceAbi, 'updateFeeRecipient', [unscored]);
+    const before = tokenBalance(unscored);
+    h.write(lowRisk, addresses.DataMarketplace, dataMarketplaceAbi, 'purchaseProduct', [3n]);
+    expect(tokenBalance(unscored) - before).toBe(parseEther('0.07'));
+  });
+
+  it('caps the platform fee at 10%', () => {
+    expect(() => h.simulate(admin, addresses.DataMarketplace, dataMarketplaceAbi, 'updatePlatformFee', [1001n]))
+      .toThrow('Fee cannot exceed 10%');
+  });
+
+  it('needs an allowance for the price', () => {
+    h.write(lowRisk, addresses.PaymentToken, simulatedTokenAbi, 'approve', [addresses.DataMarketplace, parseEther('0.1')]);
+    expect(() => h.simulate(lowRisk, addresses.DataMarketplace, dataMarketplaceAbi, 'purchaseProduct', [1n]))
+      .toThrow('ERC20InsufficientAllowance');
+  });
+
+  it('rejects buying twice or buying your own product', () => {
+    h.write(lowRisk, addresses.DataMarketplace, dataMarketplaceAbi, 'purchaseProduct', [1n]);
+    expect(() => h.simulate(lowRisk, addresses.DataMarketplace, dataMarketplaceAbi, 'purchaseProduct', [1n]))
+      .toThrow('Already purchased');
+    expect(() => h.simulate(seller, addresses.DataMarketplace, dataMarketplaceAbi, 'purchaseProduct', [2n]))
+      .toThrow('Cannot buy own product');
+  });
+});
+
+describe('FederatedLearningCoordinator', () => {
+  let h: Harness;
+  let addresses: DeployedAddresses;
+  let stake: bigint;
+  const nodes = [seller, lowRisk, mediumRisk];
+
+  // Contracts only: no seeded round, so each test starts its own
+  beforeEach(() => {
+    h = setup({ empty: true });
+    addresses = h.addresses;
+    stake = h.read(addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi, 'minStakeAmount', []);
+    nodes.forEach(node => h.write(node, addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi, 'registerNode', []));
+  });
+
+  const startRound = (minParticipants: bigint, maxParticipants: bigint, duration = 7n * DAY) =>
+    h.write(admin, addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi, 'startTrainingRound',
+      [duration, minParticipants, maxParticipants, 0n]);
+  const update = (node: Address, value = stake) => {
+    const hash = keccak256(toHex(`update:${node}`));
+    return [node, addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi, 'submitModelUpdate', [hash, hash], value] as const;
+  };
+  const aggregate = () => h.simulate(admin, addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi,
+    'aggregateModel', [1n, toHex('model', { size: 32 }), 9000n]);
+
+  it('validates the participant limits', () => {
+    expect(() => h.simulate(admin, addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi,
+      'startTrainingRound', [DAY, 3n, 2n, 0n])).toThrow('Invalid participant limits');
+    expect(() => h.simulate(admin, addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi,
+      'startTrainingRound', [DAY, 0n, 2n, 0n])).toThrow('Invalid participant limits');
+  });
+
+  it('allows one round at a time', () => {
+    startRound(1n, 2n);
+    expect(() => h.simulate(admin, addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi,
+      'startTrainingRound', [DAY, 1n, 2n, 0n])).toThrow('Round already active');
+  });
+
+  it('stops accepting updates once the round is full', () => {
+    startRound(1n, 2n);
+    h.write(...update(seller));
+    h.write(...update(lowRisk));
+    expect(() => h.simulate(...update(mediumRisk))).toThrow('Round is full');
+  });
+
+  it('accepts one staked update per node', () => {
+    startRound(1n, 3n);
+    expect(() => h.simulate(...update(seller, stake - 1n))).toThrow('Insufficient stake');
+    h.write(...update(seller));
+    expect(() => h.simulate(...update(seller))).toThrow('Already participated in this round');
+  });
+
+  it('closes the round at its end time', () => {
+    startRound(1n, 3n, DAY);
+    h.chain.increaseTime(DAY + 1n);
+    h.chain.mine();
+    expect(() => h.simulate(...update(seller))).toThrow('Training round ended');
+  });
+
+  it('aggregates only after the end time with enough participants', () => {
+    startRound(2n, 3n, DAY);
+    h.write(...update(seller));
+    expect(aggregate).toThrow('Round not ended');
+
+    h.chain.increaseTime(DAY + 1n);
+    h.chain.mine();
+    expect(aggregate).toThrow('Insufficient participants');
+  });
+
+  it('moves on to the next round after aggregating', () => {
+    startRound(1n, 3n, DAY);
+    h.write(...update(seller));
+    h.chain.increaseTime(DAY + 1n);
+    h.chain.mine();
+    h.write(admin, addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi,
+      'aggregateModel', [1n, toHex('model', { size: 32 }), 9000n]);
+    expect(h.read(addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi, 'currentRound', [])).toBe(2n);
+    expect(h.read(addresses.FederatedLearningCoordinator, federatedLearningCoordinatorAbi, 'getCurrentModel', [])[3]).toBe(9000n);
+  });
+});
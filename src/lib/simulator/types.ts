@@ -0,0 +1,112 @@
+import type {
+  Abi,
+  AbiParameterToPrimitiveType,
+  AbiStateMutability,
+  Address,
+  ContractEventName,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionReturnType,
+  Hash,
+  Hex,
+} from 'viem';
+
+export interface BlockContext {
+  number: bigint;
+  timestamp: bigint;
+}
+
+// All of an event's arguments by name, indexed or not
+export type EventValues<TAbi extends Abi, TName extends ContractEventName<TAbi>> = {
+  [P in Extract<TAbi[number], { type: 'event'; name: TName }>['inputs'][number] as P['name'] & string]:
+    AbiParameterToPrimitiveType<P>;
+};
+
+// What a function body sees: `msg.sender`, `msg.value`, `address(this)`, `block.*`, storage
+// and the ways out (events, calls into other contracts, ether transfers)
+export interface CallContext<TAbi extends Abi, TState> {
+  state: TState;
+  sender: Address;
+  self: Address;
+  value: bigint;
+  block: BlockContext;
+  emit: <TName extends ContractEventName<TAbi>>(eventName: TName, args: EventValues<TAbi, TName>) => void;
+  call: <TTarget extends Abi, TName extends ContractFunctionName<TTarget>>(
+    target: Address,
+    abi: TTarget,
+    functionName: TName,
+    args: ContractFunctionArgs<TTarget, AbiStateMutability, TName>,
+    value?: bigint,
+  ) => ContractFunctionReturnType<TTarget, AbiStateMutability, TName>;
+  sendEther: (to: Address, amount: bigint) => void;
+  // `address(account).balance`
+  balanceOf: (account: Address) => bigint;
+}
+
+export type FunctionHandler<TAbi extends Abi, TState, TName extends ContractFunctionName<TAbi>> = (
+  ctx: CallContext<TAbi, TState>,
+  args: ContractFunctionArgs<TAbi, AbiStateMutability, TName>,
+) => ContractFunctionReturnType<TAbi, AbiStateMutability, TName>;
+
+// Every function in the ABI must have a body, so a contract that gains a function
+// fails the type check until the simulator implements it
+export type FunctionHandlers<TAbi extends Abi, TState> = {
+  [TName in ContractFunctionName<TAbi>]: FunctionHandler<TAbi, TState, TName>;
+};
+
+export interface ContractDefinition<TAbi extends Abi = Abi, TState = unknown> {
+  name: string;
+  abi: TAbi;
+  functions: FunctionHandlers<TAbi, TState>;
+}
+
+export interface SimulatedLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+  transactionIndex: number;
+  logIndex: number;
+  removed: boolean;
+}
+
+export interface SimulatedTransaction {
+  hash: Hash;
+  from: Address;
+  to: Address | null;
+  input: Hex;
+  value: bigint;
+  nonce: number;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  blockNumber: bigint;
+  blockHash: Hash;
+}
+
+export interface SimulatedReceipt {
+  transactionHash: Hash;
+  blockNumber: bigint;
+  blockHash: Hash;
+  from: Address;
+  to: Address | null;
+  contractAddress: Address | null;
+  status: 'success' | 'reverted';
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  logs: SimulatedLog[];
+  // Revert data of a failed transaction, for debugging; nodes expose it through traces
+  revertData?: Hex;
+}
+
+export interface SimulatedBlock {
+  number: bigint;
+  hash: Hash;
+  parentHash: Hash;
+  timestamp: bigint;
+  baseFeePerGas: bigint;
+  gasUsed: bigint;
+  transactions: Hash[];
+}
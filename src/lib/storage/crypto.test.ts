@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createSalt, createVerifier, decryptJson, deriveKey, encryptJson, isEnvelope, verifyKey } from './crypto';
+
+// Far below PBKDF2_ITERATIONS, to keep the tests fast
+const ITERATIONS = 1000;
+
+describe('storage encryption', () => {
+  const salt = createSalt();
+
+  it('round-trips JSON through AES-GCM', async () => {
+    const key = await deriveKey('correct horse', salt, ITERATIONS);
+    const value = { transactions: [{ id: 'tx-1', amount: 12.5 }], settings: { categories: ['Food'] } };
+    const envelope = await encryptJson(key, value);
+
+    expect(isEnvelope(envelope)).toBe(true);
+    expect(envelope.ciphertext).not.toContain('tx-1');
+    expect(await decryptJson(key, envelope)).toEqual(value);
+  });
+
+  it('uses a fresh IV for every encryption', async () => {
+    const key = await deriveKey('correct horse', salt, ITERATIONS);
+    const [first, second] = await Promise.all([encryptJson(key, 'same'), encryptJson(key, 'same')]);
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it('derives the same key from the same passphrase and salt', async () => {
+    const envelope = await encryptJson(await deriveKey('correct horse', salt, ITERATIONS), 42);
+    expect(await decryptJson(await deriveKey('correct horse', salt, ITERATIONS), envelope)).toBe(42);
+  });
+
+  it('fails to decrypt with another passphrase, salt or iteration count', async () => {
+    const envelope = await encryptJson(await deriveKey('correct horse', salt, ITERATIONS), 42);
+    for (const key of await Promise.all([
+      deriveKey('wrong horse', salt, ITERATIONS),
+      deriveKey('correct horse', createSalt(), ITERATIONS),
+      deriveKey('correct horse', salt, ITERATIONS + 1),
+    ])) {
+      await expect(decryptJson(key, envelope)).rejects.toThrow();
+    }
+  });
+
+  it('fails to decrypt tampered data', async () => {
+    const key = await deriveKey('correct horse', salt, ITERATIONS);
+    const envelope = await encryptJson(key, { amount: 100 });
+    const bytes = Uint8Array.from(atob(envelope.ciphertext), char => char.charCodeAt(0));
+    bytes[0] ^= 1;
+    const ciphertext = btoa(String.fromCharCode(...bytes));
+    await expect(decryptJson(key, { ...envelope, ciphertext })).rejects.toThrow();
+  });
+
+  it('checks a passphrase against the verifier', async () => {
+    const verifier = await createVerifier(await deriveKey('correct horse', salt, ITERATIONS));
+    expect(await verifyKey(await deriveKey('correct horse', salt, ITERATIONS), verifier)).toBe(true);
+    expect(await verifyKey(await deriveKey('wrong horse', salt, ITERATIONS), verifier)).toBe(false);
+  });
+
+  it('recognizes only encrypted envelopes', () => {
+    expect(isEnvelope({ encrypted: true, iv: '', ciphertext: '' })).toBe(true);
+    expect(isEnvelope([{ id: 'tx-1' }])).toBe(false);
+    expect(isEnvelope(null)).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+// AES-GCM encryption at rest with a key derived from the user's passphrase (PBKDF2-SHA256)
+
+export const PBKDF2_ITERATIONS = 210_000;
+
+export interface EncryptedEnvelope {
+  encrypted: true;
+  iv: string;
+  ciphertext: string;
+}
+
+const VERIFIER_PLAINTEXT = 'creditchain-vault';
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+export const createSalt = () => toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+export const deriveKey = async (passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEnvelope = (value: unknown): value is EncryptedEnvelope =>
+  typeof value === 'object' && value !== null && (value as EncryptedEnvelope).encrypted === true;
+
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedEnvelope> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { encrypted: true, iv: toBase64(iv), ciphertext: toBase64(ciphertext) };
+};
+
+// Throws when the key is wrong or the data was tampered with
+export const decryptJson = async <T>(key: CryptoKey, envelope: EncryptedEnvelope): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+    key,
+    fromBase64(envelope.ciphertext)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+};
+
+export const createVerifier = (key: CryptoKey) => encryptJson(key, VERIFIER_PLAINTEXT);
+
+export const verifyKey = async (key: CryptoKey, verifier: EncryptedEnvelope) => {
+  try {
+    return (await decryptJson<string>(key, verifier)) === VERIFIER_PLAINTEXT;
+  } catch {
+    return false;
+  }
+};
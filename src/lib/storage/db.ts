@@ -0,0 +1,109 @@
+export const DB_NAME = 'creditchain';
+
+export const STORES = {
+  meta: 'meta',
+  collections: 'collections',
+  events: 'events',
+  indexerCursors: 'indexerCursors',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// Object store layout, one step per IndexedDB version. Append a step to change it;
+// never edit a shipped one, browsers that already ran it will not run it again.
+const STORE_UPGRADES: Array<(db: IDBDatabase) => void> = [
+  (db) => {
+    db.createObjectStore(STORES.meta, { keyPath: 'namespace' });
+    const collections = db.createObjectStore(STORES.collections, { keyPath: ['namespace', 'name'] });
+    collections.createIndex('namespace', 'namespace');
+  },
+  // Contract events are public chain data: kept per chain, outside the wallet namespaces
+  (db) => {
+    db.createObjectStore(STORES.events, { keyPath: 'id' }).createIndex('chainId', 'chainId');
+    db.createObjectStore(STORES.indexerCursors, { keyPath: 'chainId' });
+  },
+];
+
+export const isStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let connection: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = () => {
+  if (!connection) {
+    connection = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, STORE_UPGRADES.length);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        for (let version = event.oldVersion; version < STORE_UPGRADES.length; version++) {
+          STORE_UPGRADES[version](db);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed, e.g. in a private window that blocks storage
+    connection.catch(() => { connection = null; });
+  }
+  return connection;
+};
+
+export const getRecord = async <T>(store: StoreName, key: IDBValidKey) => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).get(key)) as Promise<T | undefined>;
+};
+
+export const getAllByNamespace = async <T>(store: StoreName, namespace: string) => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).index('namespace').getAll(namespace)) as Promise<T[]>;
+};
+
+export const getAllByIndex = async <T>(store: StoreName, index: string, key: IDBValidKey) => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).index(index).getAll(key)) as Promise<T[]>;
+};
+
+// Writes every record in a single transaction so a partial save is never visible
+export const putRecords = async (writes: Array<{ store: StoreName; value: unknown }>) => {
+  if (writes.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([...new Set(writes.map(write => write.store))], 'readwrite');
+  writes.forEach(({ store, value }) => transaction.objectStore(store).put(value));
+  await completion(transaction);
+};
+
+// Like putRecords, with deletions applied in the same transaction
+export const applyChanges = async (
+  writes: Array<{ store: StoreName; value: unknown }>,
+  deletes: Array<{ store: StoreName; key: IDBValidKey }>,
+) => {
+  if (writes.length === 0 && deletes.length === 0) return;
+  const db = await openDatabase();
+  const stores = new Set([...writes, ...deletes].map(change => change.store));
+  const transaction = db.transaction([...stores], 'readwrite');
+  deletes.forEach(({ store, key }) => transaction.objectStore(store).delete(key));
+  writes.forEach(({ store, value }) => transaction.objectStore(store).put(value));
+  await completion(transaction);
+};
+
+export const deleteNamespace = async (namespace: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.meta, STORES.collections], 'readwrite');
+  transaction.objectStore(STORES.meta).delete(namespace);
+  const collections = transaction.objectStore(STORES.collections);
+  const keys = await promisify(collections.index('namespace').getAllKeys(namespace));
+  keys.forEach(key => collections.delete(key));
+  await completion(transaction);
+};
@@ -0,0 +1,22 @@
+export { isStorageAvailable } from './db';
+export { PBKDF2_ITERATIONS } from './crypto';
+export { MIGRATIONS, MigrationError, migrate } from './migrations';
+export type { Migration, RawCollections } from './migrations';
+export { SCHEMA_VERSION } from './schema';
+export type {
+  CollectionName,
+  PendingOperation,
+  PendingOperationStatus,
+  PersistedCollections,
+  PersistedSettings,
+} from './schema';
+export {
+  clearNamespace,
+  disableEncryption,
+  enableEncryption,
+  loadNamespace,
+  namespaceFor,
+  saveCollections,
+  unlockNamespace,
+} from './store';
+export type { KeyState, LoadResult } from './store';
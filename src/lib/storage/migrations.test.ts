@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { MIGRATIONS, MigrationError, migrate, type Migration } from './migrations';
+import { SCHEMA_VERSION } from './schema';
+
+describe('migrate', () => {
+  it('has a migration up to the current schema version', () => {
+    expect(Math.max(...MIGRATIONS.map(migration => migration.version))).toBe(SCHEMA_VERSION);
+  });
+
+  it('drops v1 pending operations and keeps everything else', () => {
+    const v1 = { transactions: [{ id: 'tx-1' }], pendingOperations: [{ id: 'op-1', args: ['0x01'] }] };
+    expect(migrate(v1, 1)).toEqual({ transactions: [{ id: 'tx-1' }], pendingOperations: [] });
+  });
+
+  it('leaves v1 data without pending operations alone', () => {
+    expect(migrate({ transactions: [] }, 1)).toEqual({ transactions: [] });
+  });
+
+  it('does nothing to data already at the current version', () => {
+    const current = { pendingOperations: [{ id: 'op-1' }] };
+    expect(migrate(current, SCHEMA_VERSION)).toBe(current);
+  });
+
+  it('rejects data written by a newer app', () => {
+    expect(() => migrate({}, SCHEMA_VERSION + 1)).toThrow(MigrationError);
+  });
+
+  it('applies the migrations after the stored version in order, up to the current one', () => {
+    const step = (version: number): Migration => ({
+      version,
+      description: `v${version}`,
+      up: collections => ({ ...collections, steps: [...(collections.steps as number[]), version] }),
+    });
+    const migrations = [step(SCHEMA_VERSION), step(SCHEMA_VERSION + 1), step(1)];
+    expect(migrate({ steps: [] }, 0, migrations)).toEqual({ steps: [1, SCHEMA_VERSION] });
+    expect(migrate({ steps: [] }, 1, migrations)).toEqual({ steps: [SCHEMA_VERSION] });
+  });
+});
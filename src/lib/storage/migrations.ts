@@ -0,0 +1,39 @@
+import { SCHEMA_VERSION } from './schema';
+
+// Collections as read from disk, before they are known to match the current schema
+export type RawCollections = Record<string, unknown>;
+
+export interface Migration {
+  // Schema version this migration produces
+  version: number;
+  description: string;
+  up: (collections: RawCollections) => RawCollections;
+}
+
+// Ordered by version. Each migration upgrades data written by the previous version.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Pending operations store the encoded call instead of its arguments',
+    // v1 operations were never written by the app; any found cannot be sent, so they are dropped
+    up: ({ pendingOperations, ...collections }) =>
+      pendingOperations === undefined ? collections : { ...collections, pendingOperations: [] },
+  },
+];
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export const migrate = (collections: RawCollections, fromVersion: number, migrations = MIGRATIONS) => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new MigrationError(`Stored data uses schema v${fromVersion}, newer than this app (v${SCHEMA_VERSION})`);
+  }
+  return migrations
+    .filter(migration => migration.version > fromVersion && migration.version <= SCHEMA_VERSION)
+    .sort((a, b) => a.version - b.version)
+    .reduce((data, migration) => migration.up(data), collections);
+};
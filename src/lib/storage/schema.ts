@@ -0,0 +1,85 @@
+import type { CreditAccount, ScoreSnapshot, Transaction } from '../../types/credit';
+import type { CategorizationRule } from '../categorization';
+import type { AuditEntry } from '../ledger';
+import type { TrackedTransaction } from '../transactions';
+import type { EncryptedEnvelope } from './crypto';
+
+// Version of the persisted data shape; bump it together with a new entry in MIGRATIONS
+export const SCHEMA_VERSION = 2;
+
+export interface PersistedSettings {
+  scorecardId: string;
+  categories: string[];
+  categoryRules: CategorizationRule[];
+}
+
+// queued:   waiting for the wallet to be online on its network, or for its next attempt
+// sending:  being confirmed and sent, with `nonce` reserved for it
+// paused:   declined by the user; waits to be retried or cancelled
+// conflict: the chain no longer accepts it as queued (it would revert, or its nonce was used)
+// failed:   given up on after repeated errors
+export type PendingOperationStatus = 'queued' | 'sending' | 'paused' | 'conflict' | 'failed';
+
+// A contract write the user started but that has not been sent yet. The call is kept
+// ABI-encoded and amounts as decimal strings, so it survives JSON and encryption.
+export interface PendingOperation {
+  id: string;
+  chainId: number;
+  from: string;
+  contract: string;
+  method: string;
+  label: string;
+  to: string;
+  data: string;
+  value: string;
+  valueFrom?: string;
+  expiryArg?: { index: number; seconds: number };
+  payments: Array<{ label: string; amount: string; symbol: string; decimals: number }>;
+  status: PendingOperationStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  nonce?: number;
+  lastError?: { title: string; explanation: string; action: string };
+  createdAt: string;
+}
+
+export interface PersistedCollections {
+  transactions: Transaction[];
+  accounts: CreditAccount[];
+  scoreSnapshots: ScoreSnapshot[];
+  auditLog: AuditEntry[];
+  settings: PersistedSettings;
+  pendingOperations: PendingOperation[];
+  // Sent transactions, followed until they settle and then kept as history
+  trackedTransactions: TrackedTransaction[];
+}
+
+export type CollectionName = keyof PersistedCollections;
+
+export const COLLECTION_NAMES: CollectionName[] = [
+  'transactions',
+  'accounts',
+  'scoreSnapshots',
+  'auditLog',
+  'settings',
+  'pendingOperations',
+  'trackedTransactions',
+];
+
+export interface NamespaceMeta {
+  namespace: string;
+  schemaVersion: number;
+  updatedAt: string;
+  // Present when the namespace is encrypted at rest
+  encryption?: {
+    salt: string;
+    iterations: number;
+    verifier: EncryptedEnvelope;
+  };
+}
+
+export interface CollectionRecord {
+  namespace: string;
+  name: CollectionName;
+  payload: unknown;
+}
@@ -0,0 +1,142 @@
+import { createSalt, createVerifier, decryptJson, deriveKey, encryptJson, isEnvelope, verifyKey, PBKDF2_ITERATIONS } from './crypto';
+import { STORES, deleteNamespace, getAllByNamespace, getRecord, putRecords } from './db';
+import { migrate, type RawCollections } from './migrations';
+import {
+  COLLECTION_NAMES,
+  SCHEMA_VERSION,
+  type CollectionRecord,
+  type NamespaceMeta,
+  type PersistedCollections,
+} from './schema';
+
+export type LoadResult =
+  | { status: 'empty' }
+  | { status: 'locked' }
+  | { status: 'ready'; collections: Partial<PersistedCollections>; encrypted: boolean };
+
+// The namespace's key as the app holds it, e.g. a React ref. Saves read it when they run, and
+// encryption changes update it, so a save queued before a key change writes under the new key.
+export interface KeyState {
+  current: CryptoKey | null;
+}
+
+// Ledgers are kept apart per wallet; without a wallet everything lives under `local`
+export const namespaceFor = (walletAddress: string | null) => walletAddress?.toLowerCase() ?? 'local';
+
+// Writes and key changes on a namespace run one at a time, in the order they were started
+const queues = new Map<string, Promise<unknown>>();
+
+const exclusive = <T>(namespace: string, task: () => Promise<T>): Promise<T> => {
+  const run = (queues.get(namespace) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  queues.set(namespace, settled);
+  settled.then(() => {
+    if (queues.get(namespace) === settled) queues.delete(namespace);
+  });
+  return run;
+};
+
+const readMeta = (namespace: string) => getRecord<NamespaceMeta>(STORES.meta, namespace);
+
+const encode = (value: unknown, key: CryptoKey | null) => key ? encryptJson(key, value) : Promise.resolve(value);
+
+const writeNamespace = async (
+  namespace: string,
+  collections: Partial<PersistedCollections>,
+  key: CryptoKey | null,
+  encryption: NamespaceMeta['encryption']
+) => {
+  const names = COLLECTION_NAMES.filter(name => collections[name] !== undefined);
+  const records: CollectionRecord[] = await Promise.all(names.map(async name => ({
+    namespace,
+    name,
+    payload: await encode(collections[name], key),
+  })));
+  const meta: NamespaceMeta = { namespace, schemaVersion: SCHEMA_VERSION, updatedAt: new Date().toISOString(), encryption };
+  await putRecords([
+    { store: STORES.meta, value: meta },
+    ...records.map(value => ({ store: STORES.collections, value })),
+  ]);
+};
+
+const readNamespace = async (namespace: string, key: CryptoKey | null): Promise<LoadResult> => {
+  const meta = await readMeta(namespace);
+  if (!meta) return { status: 'empty' };
+  if (meta.encryption && !key) return { status: 'locked' };
+
+  const records = await getAllByNamespace<CollectionRecord>(STORES.collections, namespace);
+  const raw: RawCollections = {};
+  for (const record of records) {
+    raw[record.name] = isEnvelope(record.payload) && key
+      ? await decryptJson(key, record.payload)
+      : record.payload;
+  }
+
+  const collections = migrate(raw, meta.schemaVersion) as Partial<PersistedCollections>;
+  // Persist the upgrade so migrations only run once per namespace
+  if (meta.schemaVersion < SCHEMA_VERSION) {
+    await writeNamespace(namespace, collections, key, meta.encryption);
+  }
+  return { status: 'ready', collections, encrypted: Boolean(meta.encryption) };
+};
+
+// Reads a namespace and upgrades it to the current schema. Encrypted namespaces need the key.
+export const loadNamespace = (namespace: string, key: CryptoKey | null = null) =>
+  exclusive(namespace, () => readNamespace(namespace, key));
+
+export const saveCollections = (namespace: string, collections: Partial<PersistedCollections>, keyState: KeyState) =>
+  exclusive(namespace, async () => {
+    const meta = await readMeta(namespace);
+    const key = meta?.encryption ? keyState.current : null;
+    // Never write plaintext into an encrypted namespace, nor under a key it no longer uses
+    if (meta?.encryption && !(key && await verifyKey(key, meta.encryption.verifier))) return;
+    await writeNamespace(namespace, collections, key, meta?.encryption);
+  });
+
+// Returns the key on the right passphrase, null otherwise
+export const unlockNamespace = async (namespace: string, passphrase: string) => {
+  const meta = await readMeta(namespace);
+  if (!meta?.encryption) return null;
+  const { salt, iterations, verifier } = meta.encryption;
+  const key = await deriveKey(passphrase, salt, iterations);
+  return (await verifyKey(key, verifier)) ? key : null;
+};
+
+// Re-writes every stored collection, merged with the latest in-memory state, under a new key
+const rewriteNamespace = async (
+  namespace: string,
+  currentKey: CryptoKey | null,
+  nextKey: CryptoKey | null,
+  encryption: NamespaceMeta['encryption'],
+  latest: Partial<PersistedCollections>
+) => {
+  const existing = await readNamespace(namespace, currentKey);
+  if (existing.status === 'locked') throw new Error('Unlock local data before changing its encryption');
+  const stored = existing.status === 'ready' ? existing.collections : {};
+  await writeNamespace(namespace, { ...stored, ...latest }, nextKey, encryption);
+};
+
+// Also used to change the passphrase of an already encrypted namespace
+export const enableEncryption = async (
+  namespace: string,
+  passphrase: string,
+  keyState: KeyState,
+  latest: Partial<PersistedCollections>
+) => {
+  const salt = createSalt();
+  const key = await deriveKey(passphrase, salt);
+  const encryption = { salt, iterations: PBKDF2_ITERATIONS, verifier: await createVerifier(key) };
+  await exclusive(namespace, async () => {
+    await rewriteNamespace(namespace, keyState.current, key, encryption, latest);
+    keyState.current = key;
+  });
+  return key;
+};
+
+export const disableEncryption = (namespace: string, keyState: KeyState, latest: Partial<PersistedCollections>) =>
+  exclusive(namespace, async () => {
+    await rewriteNamespace(namespace, keyState.current, null, undefined, latest);
+    keyState.current = null;
+  });
+
+export const clearNamespace = (namespace: string) => exclusive(namespace, () => deleteNamespace(namespace));
@@ -0,0 +1,83 @@
+import type { Address, PublicClient } from 'viem';
+
+// Headroom on the gas estimate; unused gas is not charged
+const GAS_LIMIT_BUFFER_PERCENT = 120n;
+// Nodes only accept a replacement paying at least 10% more; a little extra avoids edge rejections
+const REPLACEMENT_FEE_PERCENT = 115n;
+
+export interface FeeSettings {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface FeeQuote extends FeeSettings {
+  gasEstimate: bigint;
+  gasLimit: bigint;
+  baseFeePerGas: bigint;
+  value: bigint;
+  // Value plus the estimated gas at the current base fee and tip: what the transaction will likely cost
+  expectedCost: bigint;
+  // Value plus the gas limit at the max fee: the most it can cost, and what the balance must cover
+  maxCost: bigint;
+  balance: bigint;
+  insufficientFunds: boolean;
+}
+
+// A payment made inside the call rather than with the transaction value, e.g. a token price
+export interface PaymentLine {
+  label: string;
+  amount: bigint;
+  symbol: string;
+  decimals: number;
+}
+
+export const withGasBuffer = (gasEstimate: bigint) => (gasEstimate * GAS_LIMIT_BUFFER_PERCENT) / 100n;
+
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+// Prices a transaction against the current fee market and the sender's balance. `fees` fixes the
+// fee settings, as a replacement does; `gasLimit` likewise fixes the limit instead of buffering.
+export const quoteFees = async (
+  client: PublicClient,
+  { account, gasEstimate, value = 0n, gasLimit = withGasBuffer(gasEstimate), fees }: {
+    account: Address;
+    gasEstimate: bigint;
+    value?: bigint;
+    gasLimit?: bigint;
+    fees?: FeeSettings;
+  },
+): Promise<FeeQuote> => {
+  const [block, market, balance] = await Promise.all([
+    client.getBlock({ blockTag: 'latest' }),
+    fees ?? client.estimateFeesPerGas(),
+    client.getBalance({ address: account }),
+  ]);
+  const baseFeePerGas = block.baseFeePerGas ?? 0n;
+  const { maxFeePerGas, maxPriorityFeePerGas } = market;
+
+  const likelyGasPrice = baseFeePerGas + maxPriorityFeePerGas < maxFeePerGas ? baseFeePerGas + maxPriorityFeePerGas : maxFeePerGas;
+  const maxCost = value + gasLimit * maxFeePerGas;
+  return {
+    gasEstimate,
+    gasLimit,
+    baseFeePerGas,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    value,
+    expectedCost: value + gasEstimate * likelyGasPrice,
+    maxCost,
+    balance,
+    insufficientFunds: balance < maxCost,
+  };
+};
+
+// Fees for a transaction replacing `original` at the same nonce: enough above the original for
+// nodes to accept it, and at least what the market asks now
+export const replacementFees = async (client: PublicClient, original: FeeSettings): Promise<FeeSettings> => {
+  const market = await client.estimateFeesPerGas();
+  const bump = (fee: bigint) => (fee * REPLACEMENT_FEE_PERCENT + 99n) / 100n;
+  return {
+    maxFeePerGas: max(bump(original.maxFeePerGas), market.maxFeePerGas),
+    maxPriorityFeePerGas: max(bump(original.maxPriorityFeePerGas), market.maxPriorityFeePerGas),
+  };
+};
@@ -0,0 +1,19 @@
+export { quoteFees, replacementFees, withGasBuffer } from './fees';
+export type { FeeQuote, FeeSettings, PaymentLine } from './fees';
+export {
+  createOperation,
+  isDue,
+  isWaiting,
+  queueHead,
+  recordFailure,
+  requeue,
+  reserveNonce,
+  retryDelay,
+  toContractWrite,
+} from './queue';
+export { buildReplacement } from './replace';
+export type { ReplacementMode, ReplacementRequest } from './replace';
+export { sendContractWrite } from './send';
+export { pruneTransactions, takeLegacyTransactions } from './store';
+export { DROP_AFTER_MS, checkTransaction, createTrackedTransaction, isFinal, isInFlight } from './tracker';
+export type { ContractWrite, ExpiryArg, NewTransaction, TrackedTransaction, TransactionPreview, TransactionStatus } from './types';
@@ -0,0 +1,112 @@
+import type { Address, Hex } from 'viem';
+import type { ContractError } from '../errors';
+import type { ContractName } from '../networks';
+import type { PendingOperation } from '../storage';
+import type { ContractWrite } from './types';
+
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+// Unexplained failures are retried this often before the operation is given up on;
+// network failures are retried for as long as it takes
+const MAX_ATTEMPTS = 8;
+
+const NONCE_USED = {
+  title: 'Already sent',
+  explanation: 'A transaction with this operation\'s nonce was sent since it was queued, possibly this one before the app closed.',
+  action: 'Check the transactions list and your wallet before retrying, or cancel it.',
+};
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// 5s, 10s, 20s... capped at five minutes
+export const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+export const createOperation = (write: ContractWrite, now = Date.now()): PendingOperation => ({
+  id: `op-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  chainId: write.chainId,
+  from: write.from,
+  contract: write.contract,
+  method: write.method,
+  label: write.label,
+  to: write.to,
+  data: write.data,
+  value: write.value.toString(),
+  valueFrom: write.valueFrom,
+  expiryArg: write.expiryArg,
+  payments: write.payments.map(payment => ({ ...payment, amount: payment.amount.toString() })),
+  status: 'queued',
+  attempts: 0,
+  nextAttemptAt: iso(now),
+  createdAt: iso(now),
+});
+
+export const toContractWrite = (op: PendingOperation): ContractWrite => ({
+  chainId: op.chainId,
+  from: op.from as Address,
+  contract: op.contract as ContractName,
+  method: op.method,
+  label: op.label,
+  to: op.to as Address,
+  data: op.data as Hex,
+  value: BigInt(op.value),
+  valueFrom: op.valueFrom,
+  expiryArg: op.expiryArg,
+  payments: op.payments.map(payment => ({ ...payment, amount: BigInt(payment.amount) })),
+});
+
+// Operations sent without the user stepping in, as opposed to ones waiting on them
+export const isWaiting = (op: PendingOperation) => op.status === 'queued' || op.status === 'sending';
+
+// The account's oldest waiting operation on a chain. Operations go out one at a time in the order
+// they were made, so later ones wait behind it even when it is backing off.
+export const queueHead = (operations: PendingOperation[], chainId: number, from: string) =>
+  operations
+    .filter(op => isWaiting(op) && op.chainId === chainId && sameAddress(op.from, from))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+
+export const isDue = (op: PendingOperation, now = Date.now()) => Date.parse(op.nextAttemptAt) <= now;
+
+// Reserves the account's next nonce for the operation before it is sent. An operation that
+// already holds a lower one may have gone out before the app closed, and is not sent twice.
+export const reserveNonce = (op: PendingOperation, accountNonce: number): PendingOperation =>
+  op.nonce !== undefined && accountNonce > op.nonce
+    ? { ...op, status: 'conflict', lastError: NONCE_USED }
+    : { ...op, status: 'sending', nonce: accountNonce };
+
+// Where a failed attempt leaves the operation. Transport failures back off and retry; a
+// revert means the chain changed since it was queued and the user has to decide.
+export const recordFailure = (op: PendingOperation, error: ContractError, now = Date.now()): PendingOperation => {
+  const lastError = { title: error.title, explanation: error.message, action: error.action };
+
+  switch (error.kind) {
+    // The transaction may have gone out before the failure, so retries keep its nonce and
+    // cannot send it twice
+    case 'network':
+    case 'notConnected':
+    case 'wrongNetwork':
+    case 'unknown': {
+      const attempts = op.attempts + 1;
+      if (error.kind === 'unknown' && attempts >= MAX_ATTEMPTS) {
+        return { ...op, status: 'failed', attempts, lastError };
+      }
+      return { ...op, status: 'queued', attempts, nextAttemptAt: iso(now + retryDelay(attempts)), lastError };
+    }
+    // Declined or rejected during estimation: nothing was sent, so the nonce is free again
+    case 'userRejected':
+      return { ...op, status: 'paused', nonce: undefined, lastError };
+    default:
+      return { ...op, status: 'conflict', nonce: undefined, lastError };
+  }
+};
+
+// Puts a paused, conflicting or failed operation back in the queue to be tried right away
+export const requeue = (op: PendingOperation, now = Date.now()): PendingOperation => ({
+  ...op,
+  status: 'queued',
+  attempts: 0,
+  nextAttemptAt: iso(now),
+  // The user has checked a nonce conflict; the retry takes the next free nonce
+  nonce: op.status === 'conflict' ? undefined : op.nonce,
+});
@@ -0,0 +1,35 @@
+import type { Address, Hex, PublicClient } from 'viem';
+import { replacementFees, type FeeSettings } from './fees';
+import type { TrackedTransaction } from './types';
+
+// speedUp resends the same call with higher fees; cancel spends the nonce on an empty
+// transfer to the sender, so the original can no longer be mined
+export type ReplacementMode = 'speedUp' | 'cancel';
+
+export interface ReplacementRequest extends FeeSettings {
+  to: Address;
+  data: Hex;
+  value: bigint;
+  gas: bigint;
+  nonce: number;
+}
+
+const TRANSFER_GAS = 21000n;
+
+// Builds the transaction replacing a pending one. Throws if the node no longer has the original.
+export const buildReplacement = async (
+  client: PublicClient,
+  tx: TrackedTransaction,
+  mode: ReplacementMode,
+): Promise<ReplacementRequest> => {
+  const original = await client.getTransaction({ hash: tx.hash });
+  const originalFees = {
+    maxFeePerGas: original.maxFeePerGas ?? original.gasPrice ?? 0n,
+    maxPriorityFeePerGas: original.maxPriorityFeePerGas ?? original.gasPrice ?? 0n,
+  };
+  const fees = await replacementFees(client, originalFees);
+
+  return mode === 'speedUp'
+    ? { to: original.to as Address, data: original.input, value: original.value, gas: original.gas, nonce: original.nonce, ...fees }
+    : { to: tx.from, data: '0x', value: 0n, gas: TRANSFER_GAS, nonce: original.nonce, ...fees };
+};
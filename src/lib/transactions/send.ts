@@ -0,0 +1,61 @@
+import {
+  decodeFunctionData,
+  erc20Abi,
+  type Abi,
+  type Hash,
+  type PublicClient,
+} from 'viem';
+import { CONTRACT_ABIS, type SigningClient } from '../contracts';
+import { ERC20_ERRORS_ABI, declinedError, decodeContractError } from '../errors';
+import { quoteFees } from './fees';
+import type { ContractWrite, TransactionPreview } from './types';
+
+// The call's arguments with the expiry, if it has one, counted from now
+const argsAt = (write: ContractWrite, args: readonly unknown[] | undefined) => {
+  if (!write.expiryArg || !args) return args;
+  const { index, seconds } = write.expiryArg;
+  const expiry = BigInt(Math.floor(Date.now() / 1000) + seconds);
+  return args.map((arg, position) => (position === index ? expiry : arg));
+};
+
+// Estimates the write, asks the user to accept its fees, then sends it. `nonce` pins the
+// transaction's nonce, as the operation queue does; otherwise the wallet picks it.
+// Failures are thrown as a ContractError explaining what went wrong.
+export const sendContractWrite = async (
+  clients: { public: PublicClient; wallet: SigningClient },
+  write: ContractWrite,
+  confirm: (preview: TransactionPreview) => Promise<boolean>,
+  nonce?: number,
+): Promise<Hash> => {
+  try {
+    // Calls are sent with their ABI so reverts decode to the contract's reason. The call is already
+    // encoded and checked against the contract's typed ABI; decoded again, it is checked as a plain Abi.
+    // Token approvals for a contract's payments are filed under that contract, hence the ERC-20 ABI.
+    const abi: Abi = [...CONTRACT_ABIS[write.contract], ...erc20Abi, ...ERC20_ERRORS_ABI];
+    const { functionName, args } = decodeFunctionData({ abi, data: write.data });
+    const value = write.valueFrom
+      ? await clients.public.readContract({ abi, address: write.to, functionName: write.valueFrom })
+      : write.value;
+    if (typeof value !== 'bigint') throw new Error(`${write.contract}.${write.valueFrom} did not return an amount`);
+    const call = { abi, address: write.to, functionName, value, account: write.from };
+
+    // Estimation runs the call, so one that would revert fails here with its reason
+    const gasEstimate = await clients.public.estimateContractGas({ ...call, args: argsAt(write, args) });
+    const quote = await quoteFees(clients.public, { account: write.from, gasEstimate, value });
+    const { chainId, contract, method, label, payments } = write;
+    if (!(await confirm({ chainId, contract, method, label, quote, payments }))) {
+      throw declinedError();
+    }
+    return await clients.wallet.writeContract({
+      ...call,
+      // The user may have taken a while to confirm
+      args: argsAt(write, args),
+      gas: quote.gasLimit,
+      maxFeePerGas: quote.maxFeePerGas,
+      maxPriorityFeePerGas: quote.maxPriorityFeePerGas,
+      nonce,
+    });
+  } catch (err) {
+    throw decodeContractError(err);
+  }
+};
@@ -0,0 +1,38 @@
+import type { TrackedTransaction } from './types';
+
+// Where transactions were kept, for every wallet together, before they moved into the wallet's local data
+const LEGACY_STORAGE_KEY = 'creditchain.transactions';
+// Settled transactions kept for the history in the drawer; in-flight ones are always kept
+const HISTORY_LIMIT = 50;
+
+const readLegacy = (): TrackedTransaction[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed as TrackedTransaction[] : [];
+  } catch {
+    return [];
+  }
+};
+
+// Removes `account`'s transactions from the legacy list and returns them; the key goes once it is empty
+export const takeLegacyTransactions = (account: string | null): TrackedTransaction[] => {
+  if (!account) return [];
+  const legacy = readLegacy();
+  const owned = legacy.filter(tx => tx.from.toLowerCase() === account.toLowerCase());
+  if (owned.length === 0) return [];
+
+  const rest = legacy.filter(tx => !owned.includes(tx));
+  if (rest.length > 0) {
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(rest));
+  } else {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  return owned;
+};
+
+// Newest first; the oldest settled transactions fall off past the history limit
+export const pruneTransactions = (transactions: TrackedTransaction[]) => {
+  const sorted = [...transactions].sort((a, b) => b.submittedAt - a.submittedAt);
+  let settled = 0;
+  return sorted.filter(tx => tx.finalizedAt === undefined || ++settled <= HISTORY_LIMIT);
+};
@@ -0,0 +1,95 @@
+import {
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Hash,
+  type PublicClient,
+} from 'viem';
+import type { NewTransaction, TrackedTransaction } from './types';
+
+// A transaction the node has not reported for this long is considered dropped
+export const DROP_AFTER_MS = 10 * 60 * 1000;
+// How far back to look for the transaction that took a replaced one's nonce
+const REPLACEMENT_SEARCH_BLOCKS = 20n;
+
+export const isFinal = (tx: TrackedTransaction) => tx.finalizedAt !== undefined;
+
+export const isInFlight = (tx: TrackedTransaction) => tx.status === 'submitted' || tx.status === 'pending';
+
+export const createTrackedTransaction = (tx: NewTransaction, now = Date.now()): TrackedTransaction => ({
+  ...tx,
+  status: 'submitted',
+  confirmations: 0,
+  submittedAt: now,
+  updatedAt: now,
+});
+
+const orNull = async <T>(request: Promise<T>) => {
+  try {
+    return await request;
+  } catch (err) {
+    if (err instanceof TransactionNotFoundError || err instanceof TransactionReceiptNotFoundError) return null;
+    throw err;
+  }
+};
+
+const findReplacement = async (client: PublicClient, tx: TrackedTransaction, head: bigint): Promise<Hash | undefined> => {
+  const from = tx.from.toLowerCase();
+  for (let number = head; number >= 0n && number > head - REPLACEMENT_SEARCH_BLOCKS; number--) {
+    const block = await client.getBlock({ blockNumber: number, includeTransactions: true });
+    const match = block.transactions.find(candidate => candidate.from.toLowerCase() === from && candidate.nonce === tx.nonce);
+    if (match) return match.hash;
+  }
+  return undefined;
+};
+
+// Asks the node where `tx` stands at block `head`. Confirmed transactions are re-checked until
+// final, so one that a reorg drops from the chain goes back to pending.
+export const checkTransaction = async (
+  client: PublicClient,
+  tx: TrackedTransaction,
+  head: bigint,
+  requiredConfirmations: number,
+  now = Date.now(),
+): Promise<TrackedTransaction> => {
+  const next: TrackedTransaction = { ...tx, updatedAt: now };
+
+  const receipt = await orNull(client.getTransactionReceipt({ hash: tx.hash }));
+  if (receipt) {
+    const confirmations = Number(head - receipt.blockNumber) + 1;
+    next.status = receipt.status === 'success' ? 'confirmed' : 'reverted';
+    next.blockNumber = Number(receipt.blockNumber);
+    next.confirmations = Math.max(confirmations, 0);
+    next.lastSeenAt = now;
+    if (next.status === 'reverted' || next.confirmations >= requiredConfirmations) next.finalizedAt = now;
+    return next;
+  }
+
+  next.blockNumber = undefined;
+  next.confirmations = 0;
+
+  const transaction = await orNull(client.getTransaction({ hash: tx.hash }));
+  if (transaction) {
+    next.status = 'pending';
+    next.nonce = transaction.nonce;
+    next.lastSeenAt = now;
+    return next;
+  }
+
+  // Gone from the node: either its nonce was used by another transaction, or it was dropped
+  if (next.nonce !== undefined) {
+    const accountNonce = await client.getTransactionCount({ address: tx.from, blockTag: 'latest' });
+    if (accountNonce > next.nonce) {
+      next.status = 'replaced';
+      next.replacedBy = (await findReplacement(client, next, head)) ?? tx.replacedBy;
+      next.finalizedAt = now;
+      return next;
+    }
+  }
+  if (now - (tx.lastSeenAt ?? tx.submittedAt) > DROP_AFTER_MS) {
+    next.status = 'dropped';
+    next.finalizedAt = now;
+    return next;
+  }
+  next.status = tx.lastSeenAt ? 'pending' : 'submitted';
+  return next;
+};
@@ -0,0 +1,70 @@
+import type { Address, Hash, Hex } from 'viem';
+import type { ContractName } from '../networks';
+import type { FeeQuote, PaymentLine } from './fees';
+
+// submitted: the wallet returned a hash the node has not reported yet
+// pending:   the node knows the transaction but has not mined it
+// confirmed: mined successfully; final once `confirmations` reaches the network's threshold
+// reverted:  mined, but execution failed
+// replaced:  another transaction with the same nonce was mined instead (speed-up, cancel)
+// dropped:   the node forgot the transaction without mining it
+export type TransactionStatus = 'submitted' | 'pending' | 'confirmed' | 'reverted' | 'replaced' | 'dropped';
+
+export interface TrackedTransaction {
+  hash: Hash;
+  chainId: number;
+  from: Address;
+  contract: ContractName;
+  method: string;
+  // What the transaction does, for people
+  label: string;
+  status: TransactionStatus;
+  // Filled in once the node reports the transaction
+  nonce?: number;
+  blockNumber?: number;
+  confirmations: number;
+  // When the transaction reached a final state it will not leave
+  finalizedAt?: number;
+  replacedBy?: Hash;
+  submittedAt: number;
+  // Last time the node reported the transaction at all; drives `dropped`
+  lastSeenAt?: number;
+  updatedAt: number;
+}
+
+export type NewTransaction = Pick<TrackedTransaction, 'hash' | 'chainId' | 'from' | 'contract' | 'method' | 'label'>;
+
+// A write shown to the user for confirmation before it goes to the wallet
+export interface TransactionPreview {
+  chainId: number;
+  contract: ContractName;
+  method: string;
+  label: string;
+  quote: FeeQuote;
+  // Payments made inside the call, such as a token price split between seller and platform
+  payments: PaymentLine[];
+}
+
+// A contract write, encoded and ready to send now or from the operation queue later
+export interface ContractWrite {
+  chainId: number;
+  from: Address;
+  // Also set on ERC-20 approvals letting this contract collect a payment; `to` is then the token
+  contract: ContractName;
+  method: string;
+  label: string;
+  to: Address;
+  data: Hex;
+  value: bigint;
+  // A fee getter on the contract whose current value is sent instead of `value`, read when the write goes out
+  valueFrom?: string;
+  // An argument replaced by a unix time this many seconds after the write goes out, for deadlines
+  // that must not start running while the write waits in the queue
+  expiryArg?: ExpiryArg;
+  payments: PaymentLine[];
+}
+
+export interface ExpiryArg {
+  index: number;
+  seconds: number;
+}
@@ -0,0 +1,64 @@
+import { CHAIN_METHODS, getSimulatorProvider, isSimulatorEnabled } from '../simulator';
+import { announceProvider } from './discovery';
+import { createHttpProvider } from './http';
+import { createMockProvider, type MockProvider } from './mock';
+
+declare global {
+  interface Window {
+    // Scripting handle for the mock wallet, e.g. `__mockWallet.setAccounts([...])` in devtools
+    __mockWallet?: MockProvider;
+  }
+}
+
+const MOCK_ACCOUNT = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+// Icons are data URIs per EIP-6963; a plain coloured square is enough for dev wallets
+const icon = (color: string) =>
+  `data:image/svg+xml,${encodeURIComponent(`<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32"><rect width="32" height="32" rx="6" fill="${color}"/></svg>`)}`;
+
+// Announces development stand-ins for a browser wallet:
+// - VITE_LOCAL_RPC_URL: a local node such as `anvil` or `npx hardhat node`
+// - VITE_MOCK_WALLET=true, or `?mockWallet` in the URL of a dev server: the scripted in-page mock
+// - VITE_SIMULATOR=true, or `?simulator` in the URL of a dev server: the in-page simulated chain's unlocked
+//   accounts; the mock wallet then sends its chain requests there too
+export const registerDevProviders = () => {
+  const cleanups: Array<() => void> = [];
+
+  const rpcUrl = import.meta.env.VITE_LOCAL_RPC_URL;
+  if (rpcUrl) {
+    cleanups.push(announceProvider({
+      info: { uuid: 'dev-local-node', name: 'Local Node', icon: icon('#f59e0b'), rdns: 'dev.local-node' },
+      provider: createHttpProvider(rpcUrl),
+    }));
+  }
+
+  const simulatorEnabled = isSimulatorEnabled();
+  if (simulatorEnabled) {
+    cleanups.push(announceProvider({
+      info: { uuid: 'dev-simulator', name: 'Simulated Chain', icon: icon('#10b981'), rdns: 'dev.simulator' },
+      provider: getSimulatorProvider(),
+    }));
+  }
+
+  // The URL switch is left out of production builds, where anyone could send a link that enables it
+  const mockEnabled = import.meta.env.VITE_MOCK_WALLET === 'true'
+    || (import.meta.env.DEV && new URLSearchParams(window.location.search).has('mockWallet'));
+  if (mockEnabled) {
+    const provider = window.__mockWallet ?? createMockProvider({
+      accounts: [MOCK_ACCOUNT],
+      chainId: 31337,
+      balances: { [MOCK_ACCOUNT]: 10_000n * 10n ** 18n },
+    });
+    window.__mockWallet = provider;
+    if (simulatorEnabled) {
+      const simulator = getSimulatorProvider();
+      CHAIN_METHODS.forEach(method => provider.handle(method, params => simulator.request({ method, params })));
+    }
+    cleanups.push(announceProvider({
+      info: { uuid: 'dev-mock-wallet', name: 'Mock Wallet', icon: icon('#8b5cf6'), rdns: 'dev.mock-wallet' },
+      provider,
+    }));
+  }
+
+  return () => cleanups.forEach(cleanup => cleanup());
+};
@@ -0,0 +1,44 @@
+import type { EIP1193Provider, EIP6963ProviderDetail } from './types';
+
+export const LEGACY_PROVIDER_RDNS = 'injected.legacy';
+
+// Minimal fallback for wallets that only set `window.ethereum` and do not implement EIP-6963
+const legacyDetail = (provider: EIP1193Provider): EIP6963ProviderDetail => ({
+  info: { uuid: LEGACY_PROVIDER_RDNS, name: 'Browser Wallet', icon: '', rdns: LEGACY_PROVIDER_RDNS },
+  provider,
+});
+
+// Collects wallets announcing themselves via EIP-6963. `onChange` receives the full list
+// every time a new wallet announces itself. Returns an unsubscribe function.
+export const watchProviders = (onChange: (providers: EIP6963ProviderDetail[]) => void) => {
+  const providers = new Map<string, EIP6963ProviderDetail>();
+
+  const publish = () => {
+    const announced = [...providers.values()];
+    const legacy = window.ethereum;
+    // Only fall back to `window.ethereum` when no wallet announced the same object
+    const includeLegacy = legacy && !announced.some(detail => detail.provider === legacy);
+    onChange(includeLegacy ? [...announced, legacyDetail(legacy)] : announced);
+  };
+
+  const handleAnnounce = (event: WindowEventMap['eip6963:announceProvider']) => {
+    providers.set(event.detail.info.uuid, event.detail);
+    publish();
+  };
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  publish();
+
+  return () => window.removeEventListener('eip6963:announceProvider', handleAnnounce);
+};
+
+// Lets an in-page provider (e.g. the mock or a local node bridge) take part in discovery
+export const announceProvider = (detail: EIP6963ProviderDetail) => {
+  const announce = () => window.dispatchEvent(
+    new CustomEvent('eip6963:announceProvider', { detail: Object.freeze({ ...detail }) })
+  );
+  window.addEventListener('eip6963:requestProvider', announce);
+  announce();
+  return () => window.removeEventListener('eip6963:requestProvider', announce);
+};
@@ -0,0 +1,19 @@
+import type { ProviderEvent, ProviderEvents } from './types';
+
+// Listener bookkeeping shared by the in-page providers
+export const createEmitter = () => {
+  const listeners = new Map<ProviderEvent, Set<(...args: unknown[]) => void>>();
+
+  return {
+    on: <E extends ProviderEvent>(event: E, listener: ProviderEvents[E]) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)?.add(listener as (...args: unknown[]) => void);
+    },
+    removeListener: <E extends ProviderEvent>(event: E, listener: ProviderEvents[E]) => {
+      listeners.get(event)?.delete(listener as (...args: unknown[]) => void);
+    },
+    emit: <E extends ProviderEvent>(event: E, ...args: Parameters<ProviderEvents[E]>) => {
+      listeners.get(event)?.forEach(listener => listener(...args));
+    },
+  };
+};
@@ -0,0 +1,34 @@
+import type { ProviderRpcError } from './types';
+
+// EIP-1193 and JSON-RPC error codes the UI distinguishes
+export const RPC_ERROR_CODES = {
+  userRejected: 4001,
+  unauthorized: 4100,
+  unsupportedMethod: 4200,
+  disconnected: 4900,
+  chainDisconnected: 4901,
+  unrecognizedChain: 4902,
+  requestPending: -32002,
+} as const;
+
+export const createRpcError = (code: number, message: string, data?: unknown): ProviderRpcError =>
+  Object.assign(new Error(message), { code, data });
+
+export const isRpcError = (error: unknown): error is ProviderRpcError =>
+  error instanceof Object && typeof (error as ProviderRpcError).code === 'number';
+
+export const isUserRejection = (error: unknown) =>
+  isRpcError(error) && error.code === RPC_ERROR_CODES.userRejected;
+
+// Short, user-facing description of a failed wallet request
+export const describeWalletError = (error: unknown) => {
+  if (!isRpcError(error)) return error instanceof Error ? error.message : 'Unknown wallet error';
+  switch (error.code) {
+    case RPC_ERROR_CODES.userRejected: return 'Request rejected in wallet';
+    case RPC_ERROR_CODES.unauthorized: return 'Wallet has not authorized this site';
+    case RPC_ERROR_CODES.requestPending: return 'A request is already pending in your wallet';
+    case RPC_ERROR_CODES.disconnected:
+    case RPC_ERROR_CODES.chainDisconnected: return 'Wallet is disconnected from the network';
+    default: return error.message;
+  }
+};
@@ -0,0 +1,33 @@
+import { createEmitter } from './emitter';
+import { createRpcError } from './errors';
+import type { EIP1193Provider } from './types';
+
+// EIP-1193 wrapper over a JSON-RPC endpoint such as a local Anvil or Hardhat node, whose
+// unlocked dev accounts stand in for a browser wallet. The node has no notion of site
+// authorization, so `eth_requestAccounts` maps to `eth_accounts`.
+export const createHttpProvider = (url: string): EIP1193Provider => {
+  const emitter = createEmitter();
+  let nextId = 1;
+
+  return {
+    request: async ({ method, params }) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: nextId++,
+          method: method === 'eth_requestAccounts' ? 'eth_accounts' : method,
+          params: params ?? [],
+        }),
+      });
+      if (!response.ok) throw createRpcError(-32603, `RPC endpoint returned HTTP ${response.status}`);
+
+      const body = await response.json() as { result?: unknown; error?: { code: number; message: string; data?: unknown } };
+      if (body.error) throw createRpcError(body.error.code, body.error.message, body.error.data);
+      return body.result;
+    },
+    on: emitter.on,
+    removeListener: emitter.removeListener,
+  };
+};
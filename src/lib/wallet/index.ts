@@ -0,0 +1,24 @@
+export { LEGACY_PROVIDER_RDNS, announceProvider, watchProviders } from './discovery';
+export { registerDevProviders } from './dev';
+export { RPC_ERROR_CODES, createRpcError, describeWalletError, isRpcError, isUserRejection } from './errors';
+export { createHttpProvider } from './http';
+export { createMockProvider } from './mock';
+export type { MockProvider, MockWalletOptions, RequestHandler } from './mock';
+export {
+  formatEther,
+  getAccounts,
+  getBalance,
+  getBlockNumber,
+  getChainId,
+  parseChainId,
+  requestAccounts,
+  shortenAddress,
+  toHex,
+} from './rpc';
+export type {
+  EIP1193Provider,
+  EIP6963ProviderDetail,
+  EIP6963ProviderInfo,
+  ProviderRpcError,
+  RequestArguments,
+} from './types';
@@ -0,0 +1,116 @@
+import { createEmitter } from './emitter';
+import { RPC_ERROR_CODES, createRpcError } from './errors';
+import { toHex } from './rpc';
+import type { EIP1193Provider, RequestArguments } from './types';
+
+export type RequestHandler = (params: unknown[]) => unknown | Promise<unknown>;
+
+export interface MockWalletOptions {
+  accounts: string[];
+  chainId: number;
+  // Wei per address; unknown addresses have a zero balance
+  balances?: Record<string, bigint>;
+  // Chains `wallet_switchEthereumChain` accepts until added with `wallet_addEthereumChain`;
+  // any chain when omitted
+  chains?: number[];
+}
+
+export interface MockProvider extends EIP1193Provider {
+  // Adds or overrides a JSON-RPC method, e.g. to back `eth_call` with a contract simulator
+  handle: (method: string, handler: RequestHandler) => void;
+  // Makes the next request for `method` fail with the given code (4001 = user rejected)
+  failNext: (method: string, code?: number, message?: string) => void;
+  setAccounts: (accounts: string[]) => void;
+  setChainId: (chainId: number) => void;
+  setBalance: (address: string, wei: bigint) => void;
+  disconnect: () => void;
+  reconnect: () => void;
+  readonly requests: RequestArguments[];
+}
+
+// A scripted EIP-1193 provider for development and tests, standing in for a browser wallet
+export const createMockProvider = (options: MockWalletOptions): MockProvider => {
+  const emitter = createEmitter();
+  const handlers = new Map<string, RequestHandler>();
+  const failures = new Map<string, { code: number; message: string }>();
+  const balances = new Map(Object.entries(options.balances ?? {}).map(([address, wei]) => [address.toLowerCase(), wei]));
+  const requests: RequestArguments[] = [];
+  const knownChains = options.chains ? new Set(options.chains) : null;
+  let accounts = [...options.accounts];
+  let chainId = options.chainId;
+  let authorized = false;
+  let connected = true;
+
+  const exposedAccounts = () => authorized ? accounts : [];
+
+  handlers.set('eth_requestAccounts', () => {
+    authorized = true;
+    return accounts;
+  });
+  handlers.set('eth_accounts', () => exposedAccounts());
+  handlers.set('eth_chainId', () => toHex(chainId));
+  handlers.set('net_version', () => String(chainId));
+  handlers.set('eth_getBalance', ([address]) => toHex(balances.get(String(address).toLowerCase()) ?? 0n));
+  handlers.set('eth_blockNumber', () => '0x1');
+  handlers.set('wallet_revokePermissions', () => {
+    authorized = false;
+    return null;
+  });
+  handlers.set('wallet_switchEthereumChain', ([param]) => {
+    const requested = Number.parseInt((param as { chainId: string }).chainId, 16);
+    if (knownChains && !knownChains.has(requested)) {
+      throw createRpcError(RPC_ERROR_CODES.unrecognizedChain, `Unrecognized chain ID ${requested}`);
+    }
+    provider.setChainId(requested);
+    return null;
+  });
+  handlers.set('wallet_addEthereumChain', ([param]) => {
+    const added = Number.parseInt((param as { chainId: string }).chainId, 16);
+    knownChains?.add(added);
+    provider.setChainId(added);
+    return null;
+  });
+
+  const provider: MockProvider = {
+    requests,
+    request: async (args) => {
+      requests.push(args);
+      if (!connected) throw createRpcError(RPC_ERROR_CODES.disconnected, 'Provider is disconnected');
+
+      const failure = failures.get(args.method);
+      if (failure) {
+        failures.delete(args.method);
+        throw createRpcError(failure.code, failure.message);
+      }
+
+      const handler = handlers.get(args.method);
+      if (!handler) throw createRpcError(RPC_ERROR_CODES.unsupportedMethod, `Method ${args.method} is not supported`);
+      return handler(Array.isArray(args.params) ? args.params : []);
+    },
+    on: emitter.on,
+    removeListener: emitter.removeListener,
+    handle: (method, handler) => { handlers.set(method, handler); },
+    failNext: (method, code = RPC_ERROR_CODES.userRejected, message = 'User rejected the request') => {
+      failures.set(method, { code, message });
+    },
+    setAccounts: (next) => {
+      accounts = [...next];
+      if (authorized) emitter.emit('accountsChanged', exposedAccounts());
+    },
+    setChainId: (next) => {
+      chainId = next;
+      emitter.emit('chainChanged', toHex(next));
+    },
+    setBalance: (address, wei) => { balances.set(address.toLowerCase(), wei); },
+    disconnect: () => {
+      connected = false;
+      emitter.emit('disconnect', createRpcError(RPC_ERROR_CODES.disconnected, 'Provider disconnected'));
+    },
+    reconnect: () => {
+      connected = true;
+      emitter.emit('connect', { chainId: toHex(chainId) });
+    },
+  };
+
+  return provider;
+};
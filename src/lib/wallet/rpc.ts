@@ -0,0 +1,35 @@
+import type { EIP1193Provider } from './types';
+
+export const requestAccounts = async (provider: EIP1193Provider) =>
+  (await provider.request({ method: 'eth_requestAccounts' })) as string[];
+
+// Accounts already authorized for this site; never prompts
+export const getAccounts = async (provider: EIP1193Provider) =>
+  (await provider.request({ method: 'eth_accounts' })) as string[];
+
+export const getChainId = async (provider: EIP1193Provider) =>
+  parseChainId((await provider.request({ method: 'eth_chainId' })) as string);
+
+export const getBalance = async (provider: EIP1193Provider, address: string) =>
+  BigInt((await provider.request({ method: 'eth_getBalance', params: [address, 'latest'] })) as string);
+
+export const getBlockNumber = async (provider: EIP1193Provider) =>
+  Number(BigInt((await provider.request({ method: 'eth_blockNumber' })) as string));
+
+export const parseChainId = (chainId: string | number) =>
+  typeof chainId === 'number' ? chainId : Number.parseInt(chainId, chainId.startsWith('0x') ? 16 : 10);
+
+export const toHex = (value: number | bigint) => `0x${value.toString(16)}`;
+
+const WEI_PER_ETHER = 10n ** 18n;
+
+// Exact decimal rendering of a wei amount, trimmed to `decimals` places
+export const formatEther = (wei: bigint, decimals = 4) => {
+  const negative = wei < 0n;
+  const absolute = negative ? -wei : wei;
+  const whole = absolute / WEI_PER_ETHER;
+  const fraction = (absolute % WEI_PER_ETHER).toString().padStart(18, '0').slice(0, decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+export const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
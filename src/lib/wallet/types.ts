@@ -0,0 +1,60 @@
+// EIP-1193: Ethereum Provider JavaScript API
+
+export interface RequestArguments {
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+}
+
+export interface ProviderConnectInfo {
+  chainId: string;
+}
+
+export interface ProviderEvents {
+  connect: (info: ProviderConnectInfo) => void;
+  disconnect: (error: ProviderRpcError) => void;
+  chainChanged: (chainId: string) => void;
+  accountsChanged: (accounts: string[]) => void;
+  message: (message: { type: string; data: unknown }) => void;
+}
+
+export type ProviderEvent = keyof ProviderEvents;
+
+export interface EIP1193Provider {
+  request: (args: RequestArguments) => Promise<unknown>;
+  on: <E extends ProviderEvent>(event: E, listener: ProviderEvents[E]) => void;
+  removeListener: <E extends ProviderEvent>(event: E, listener: ProviderEvents[E]) => void;
+}
+
+export interface ProviderRpcError extends Error {
+  code: number;
+  data?: unknown;
+}
+
+// EIP-6963: Multi Injected Provider Discovery
+
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  // Data URI of the wallet's icon
+  icon: string;
+  // Reverse DNS identifier, stable across sessions, e.g. `io.metamask`
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+export interface EIP6963AnnounceProviderEvent extends CustomEvent<EIP6963ProviderDetail> {
+  type: 'eip6963:announceProvider';
+}
+
+declare global {
+  interface WindowEventMap {
+    'eip6963:announceProvider': EIP6963AnnounceProviderEvent;
+  }
+  interface Window {
+    ethereum?: EIP1193Provider;
+  }
+}
@@ -0,0 +1,70 @@
+export type TransactionType = 'payment' | 'purchase' | 'transfer' | 'income';
+
+export interface Transaction {
+  id: string;
+  date: string;
+  amount: number;
+  type: TransactionType;
+  description: string;
+  category: string;
+  // Credit account this transaction was charged to or paid against
+  accountId?: string;
+}
+
+export type CreditAccountKind = 'card' | 'loan' | 'mortgage' | 'bnpl';
+
+export interface CreditAccount {
+  id: string;
+  name: string;
+  kind: CreditAccountKind;
+  openedAt: string;
+  closedAt?: string;
+  // Credit limit for revolving accounts, original principal for instalment accounts
+  limit: number;
+  // Current balance, including every linked transaction
+  balance: number;
+}
+
+export type CreditTier = 'Excellent' | 'Good' | 'Fair' | 'Poor';
+
+export interface ScoreFactors {
+  paymentHistory: number;
+  creditUtilization: number;
+  creditLength: number;
+  creditMix: number;
+  newCredit: number;
+}
+
+export type FactorKey = keyof ScoreFactors;
+
+export interface CreditScore {
+  score: number;
+  tier: CreditTier;
+  factors: ScoreFactors;
+  // `<scorecard id>@<version>` that produced this score
+  scorecardVersion: string;
+  recommendations: Recommendation[];
+}
+
+export type RecommendationPriority = 'high' | 'medium' | 'low';
+
+export interface Recommendation {
+  id: string;
+  // Factor in ScoreFactors this recommendation targets
+  factor: FactorKey;
+  title: string;
+  detail: string;
+  // Estimated score points gained by following it
+  estimatedImpact: number;
+  priority: RecommendationPriority;
+}
+
+// Recorded every time the score is recalculated
+export interface ScoreSnapshot {
+  calculatedAt: string;
+  score: number;
+  tier: CreditTier;
+  factors: ScoreFactors;
+  scorecardVersion: string;
+  transactionCount: number;
+}
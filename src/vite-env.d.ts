@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // JSON-RPC URL of a local dev node (Anvil, Hardhat) offered as a wallet
+  readonly VITE_LOCAL_RPC_URL?: string;
+  // `true` to offer the scripted mock wallet
+  readonly VITE_MOCK_WALLET?: string;
+  // `true` to run the contracts on an in-page simulated chain
+  readonly VITE_SIMULATOR?: string;
+  readonly VITE_SEPOLIA_RPC_URL?: string;
+  readonly VITE_MAINNET_RPC_URL?: string;
+  // Chain selected on first visit, before the user picks one
+  readonly VITE_DEFAULT_CHAIN_ID?: string;
+  // Contract deployments as JSON keyed by chain id, merged over the built-in addresses
+  readonly VITE_CONTRACT_ADDRESSES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}